@@ -0,0 +1,406 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Cloud Functions for Firebase rooms - the trusted path for every move
+ * Clients never see the bag or other racks and can't write the game, so dealing and each player's actions
+ * run through the shared reducer here, which checks whose turn it is and that played tiles came from the rack
+ */
+
+import path from 'path';
+import { initializeApp } from 'firebase-admin/app';
+import { getDatabase } from 'firebase-admin/database';
+import { setGlobalOptions } from 'firebase-functions/v2';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import type { CallableRequest } from 'firebase-functions/v2/https';
+import { onValueDeleted } from 'firebase-functions/v2/database';
+import type { GameState, PlayerAction, PrivateGameState, Tile } from '../src/types';
+import { DEFAULT_HINT_COOLDOWN_MS } from '../src/types';
+import type { RoomPlayer } from '../src/server-types';
+import { GameStateManager } from '../src/game-state-manager';
+import { GrabbleEngine } from '../src/game-engine';
+import { applyAction } from '../src/game-actions';
+import { resolveHouseRules } from '../src/house-rules';
+import { getLanguagePack } from '../src/language-packs';
+import { dbPaths, fromFirebaseState, toArray } from '../src/firebase-data';
+import { toPublicState, getPrivateState, mergeHiddenState } from '../src/state-visibility';
+import { loadDictionary } from '../server/dictionary';
+
+const REGION = 'asia-southeast1';  // Same region as the Realtime Database
+const PLAYER_COLORS = ['#e74c3c', '#3498db', '#2ecc71', '#9b59b6'];
+const MAX_SAVE_ATTEMPTS = 5;
+
+// The build copies the word lists next to the compiled code (lib/public)
+const DICTIONARY_DIR = path.join(__dirname, '../public');
+
+setGlobalOptions({ region: REGION });
+initializeApp();
+const db = getDatabase();
+
+interface RoomRequest {
+    roomCode: string;
+}
+
+interface ActionsRequest extends RoomRequest {
+    actions: PlayerAction[];
+}
+
+interface ResumeRequest extends RoomRequest {
+    targetScore: number;
+}
+
+/**
+ * A room's game as the Cloud Functions keep it: the full state and how many times it has been saved
+ */
+interface SavedGame {
+    state: GameState;
+    version: number;
+}
+
+/**
+ * A changed game, and whether the change passed the turn on (which ends the hint usage of the turn)
+ */
+interface GameChange {
+    state: GameState;
+    turnChanged: boolean;
+}
+
+// Actions that make up a turn before the move that ends it
+const TURN_STEPS: ReadonlyArray<PlayerAction['type']> = ['PlaceTiles', 'RemoveTile', 'SetBlank'];
+
+// Word lists by language pack ID, loaded on first use
+const dictionaries: Record<string, Set<string>> = {};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Auth session of the caller (every client signs in, anonymously if need be)
+ */
+function requireAuth(request: CallableRequest<unknown>): string {
+    if (!request.auth) {
+        throw new HttpsError('unauthenticated', 'Sign in to play');
+    }
+    return request.auth.uid;
+}
+
+function getRoomCode(data: unknown): string {
+    const roomCode = (data as Partial<RoomRequest> | null)?.roomCode;
+    if (typeof roomCode !== 'string' || !/^[A-Z0-9]{4}$/.test(roomCode)) {
+        throw new HttpsError('invalid-argument', 'Room not found');
+    }
+    return roomCode;
+}
+
+/**
+ * Actions of one call: a single move, or the steps of a turn followed by its claim
+ * Placements only arrive with their claim, so other players never see half a turn
+ */
+function getActions(data: unknown): PlayerAction[] {
+    const actions: unknown = (data as Partial<ActionsRequest> | null)?.actions;
+    if (!Array.isArray(actions) || actions.length === 0 || !actions.every(a => isRecord(a) && typeof a.type === 'string')) {
+        throw new HttpsError('invalid-argument', 'No move to play');
+    }
+
+    const moves = actions as PlayerAction[];
+    const last = moves[moves.length - 1];
+    const steps = moves.slice(0, -1);
+    if (TURN_STEPS.includes(last.type) || !steps.every(a => TURN_STEPS.includes(a.type)) || (steps.length > 0 && last.type !== 'ClaimWords')) {
+        throw new HttpsError('invalid-argument', 'Send the tiles of a turn together with its claim');
+    }
+    return moves;
+}
+
+/**
+ * Seat of the calling auth session in the room's game
+ */
+async function getCallerSeat(roomCode: string, uid: string): Promise<number> {
+    const seats: Record<string, string> = (await db.ref(dbPaths.roomSeats(roomCode)).get()).val() || {};
+    const seat = Object.keys(seats).find(key => seats[key] === uid);
+    if (seat === undefined) {
+        throw new HttpsError('permission-denied', 'Only seated players can do that');
+    }
+    return Number(seat);
+}
+
+function getDictionary(language?: string): Set<string> {
+    const pack = getLanguagePack(language);
+    if (!dictionaries[pack.id]) {
+        dictionaries[pack.id] = loadDictionary(pack, DICTIONARY_DIR);
+    }
+    return dictionaries[pack.id];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function toTiles(value: unknown): Tile[] {
+    return isRecord(value) ? toArray(value as Record<string, Tile>) : [];
+}
+
+/**
+ * Hidden parts of a game as read from the database (Firebase drops empty racks and turns arrays into objects)
+ */
+function toPrivateState(value: unknown): PrivateGameState {
+    const secrets = isRecord(value) ? value : {};
+    const racks: Record<number, Tile[]> = {};
+    if (isRecord(secrets.racks)) {
+        for (const [seat, rack] of Object.entries(secrets.racks)) {
+            racks[Number(seat)] = toTiles(rack);
+        }
+    }
+
+    const bag = isRecord(secrets.bag) ? secrets.bag : {};
+    return {
+        racks,
+        bag: {
+            tiles: toTiles(bag.tiles),
+            ...(typeof bag.seed === 'number' && { seed: bag.seed }),
+            ...(typeof bag.rngState === 'number' && { rngState: bag.rngState })
+        }
+    };
+}
+
+function getSavedVersion(secrets: unknown): number {
+    return isRecord(secrets) && typeof secrets.version === 'number' ? secrets.version : 0;
+}
+
+/**
+ * The saved game of a room, or null before the first deal
+ */
+function toSavedGame(secrets: unknown): SavedGame | null {
+    if (!isRecord(secrets) || !isRecord(secrets.state)) {
+        return null;
+    }
+    return {
+        state: mergeHiddenState(fromFirebaseState(secrets.state), toPrivateState(secrets)),
+        version: getSavedVersion(secrets)
+    };
+}
+
+/**
+ * What is saved under roomSecrets: the public state next to the racks and bag
+ * Hint usage is left out: clients record it in the published state, and every change reads it from there
+ */
+function toSecrets(state: GameState, version: number): Record<string, unknown> {
+    const { hintUsage, lastHintAt, ...publicState } = toPublicState(state);
+    return { ...getPrivateState(state), state: publicState, version };
+}
+
+async function loadHintUsage(roomCode: string): Promise<Pick<GameState, 'hintUsage' | 'lastHintAt'>> {
+    const published = (await db.ref(dbPaths.roomGameState(roomCode)).get()).val() || {};
+    return {
+        ...(published.hintUsage && { hintUsage: published.hintUsage }),
+        ...(published.lastHintAt && { lastHintAt: published.lastHintAt })
+    };
+}
+
+/**
+ * Show a saved version of the game to the room, unless a newer one is already showing
+ * The hint usage clients wrote meanwhile is kept, except for a turn that has ended
+ */
+async function publishGame(roomCode: string, { state, turnChanged }: GameChange, version: number): Promise<void> {
+    const { hintUsage, lastHintAt, ...publicState } = toPublicState(state);
+
+    await db.ref(dbPaths.roomGame(roomCode)).transaction(game => {
+        // Not loaded yet (or the room is gone): the database answers with the real value
+        if (!game) return game;
+        if ((game.version ?? 0) >= version) return;
+
+        const published = game.state || {};
+        return {
+            ...game,
+            version,
+            state: {
+                ...publicState,
+                ...(!turnChanged && published.hintUsage && { hintUsage: published.hintUsage }),
+                ...(published.lastHintAt && { lastHintAt: published.lastHintAt })
+            }
+        };
+    });
+}
+
+/**
+ * Apply a change to the full game state, save it and publish it
+ * A save only succeeds if nobody saved the game since it was read; otherwise the change runs again on the newer game
+ */
+async function changeGame(roomCode: string, change: (state: GameState) => Promise<GameChange>): Promise<GameState> {
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+        const [secrets, hintUsage] = await Promise.all([
+            db.ref(dbPaths.roomSecrets(roomCode)).get(),
+            loadHintUsage(roomCode)
+        ]);
+        const saved = toSavedGame(secrets.val());
+        if (!saved) {
+            throw new HttpsError('failed-precondition', 'Game has not started');
+        }
+
+        const changed = await change({ ...saved.state, ...hintUsage });
+        const version = saved.version + 1;
+        const result = await db.ref(dbPaths.roomSecrets(roomCode)).transaction(current => {
+            if (!current) return current;
+            // Returning nothing aborts the transaction
+            if (getSavedVersion(current) !== saved.version) return;
+            return toSecrets(changed.state, version);
+        });
+        if (!result.committed) {
+            continue;
+        }
+        if (!result.snapshot.exists()) {
+            throw new HttpsError('not-found', 'Room not found');
+        }
+
+        await publishGame(roomCode, changed, version);
+        return changed.state;
+    }
+    throw new HttpsError('aborted', 'The game changed while saving your move, try again');
+}
+
+// ============================================================================
+// CALLABLE FUNCTIONS
+// ============================================================================
+
+/**
+ * Host starts a game in a waiting room: seats every player's auth session, deals the racks and keeps the bag hidden
+ */
+export const dealGame = onCall(async (request) => {
+    const uid = requireAuth(request);
+    const roomCode = getRoomCode(request.data);
+
+    const room = (await db.ref(dbPaths.room(roomCode)).get()).val();
+    if (!room) {
+        throw new HttpsError('not-found', 'Room not found');
+    }
+    const players = Object.values(room.players || {}) as RoomPlayer[];
+    const host = players.find(p => p.id === room.hostId);
+    if (!host || host.authUid !== uid) {
+        throw new HttpsError('permission-denied', 'Only the host can start the game');
+    }
+
+    // Claim the room, so a second call can't deal over a game in progress
+    const started = await db.ref(dbPaths.roomStatus(roomCode)).transaction(status => {
+        if (status === null) return status;
+        return status === 'waiting' ? 'playing' : undefined;
+    });
+    if (!started.committed || started.snapshot.val() !== 'playing') {
+        throw new HttpsError('failed-precondition', 'A game is already in progress');
+    }
+
+    const manager = GameStateManager.createNewGame(
+        players.length,
+        players.map(p => p.name),
+        room.targetScore || 100,
+        {
+            boardWidth: room.boardSize,
+            boardHeight: room.boardSize,
+            hintCooldownMs: DEFAULT_HINT_COOLDOWN_MS,
+            language: room.language,
+            houseRules: resolveHouseRules(room.houseRules),
+            timeControl: room.timeControl,
+            challengeMode: room.challengeMode === true
+        }
+    );
+    const state = manager.getState();
+    if (state.timeControl) {
+        state.turnStartedAt = Date.now();
+    }
+    state.players = state.players.map((p, idx) => ({
+        ...p,
+        color: players[idx]?.color || PLAYER_COLORS[idx]
+    }));
+
+    // Each seat's rack is readable only by that player's auth session
+    const seats = Object.fromEntries(players.map((p, idx) => [idx, p.authUid ?? '']));
+
+    await db.ref().update({
+        [dbPaths.roomSecrets(roomCode)]: toSecrets(state, 1),
+        [dbPaths.roomGame(roomCode)]: { seats, state: toPublicState(state), version: 1 }
+    });
+});
+
+/**
+ * Host sends a room back to the lobby, ending its game, so a new one can be dealt
+ */
+export const reopenRoom = onCall(async (request) => {
+    const uid = requireAuth(request);
+    const roomCode = getRoomCode(request.data);
+
+    const room = (await db.ref(dbPaths.room(roomCode)).get()).val();
+    if (!room) {
+        throw new HttpsError('not-found', 'Room not found');
+    }
+    const host = (Object.values(room.players || {}) as RoomPlayer[]).find(p => p.id === room.hostId);
+    if (!host || host.authUid !== uid) {
+        throw new HttpsError('permission-denied', 'Only the host can start a new game');
+    }
+
+    await db.ref().update({
+        [dbPaths.roomSecrets(roomCode)]: null,
+        [dbPaths.roomGame(roomCode)]: null,
+        [dbPaths.roomStatus(roomCode)]: 'waiting'
+    });
+});
+
+/**
+ * Play the caller's actions: a turn's placements with its claim, a swap, a pass, a challenge,
+ * clearing the board, or a timeout of whoever's turn has run out of time
+ * Every action goes through the reducer as the caller's seat, with the server's clock and dictionary
+ */
+export const playActions = onCall(async (request) => {
+    const uid = requireAuth(request);
+    const roomCode = getRoomCode(request.data);
+    const seat = await getCallerSeat(roomCode, uid);
+    const actions = getActions(request.data).map(action => ({ ...action, playerId: seat }) as PlayerAction);
+
+    await changeGame(roomCode, async initial => {
+        const needsWords = actions.some(a => a.type === 'ClaimWords' || a.type === 'Challenge');
+        const context = { dictionary: needsWords ? getDictionary(initial.language) : undefined, now: Date.now() };
+
+        let state = initial;
+        let turnChanged = false;
+        for (const action of actions) {
+            const result = await applyAction(state, action, context);
+            if (!result.valid) {
+                throw new HttpsError('failed-precondition', result.error);
+            }
+            state = result.state;
+            turnChanged = turnChanged || result.events.some(e => e.type === 'turn_changed');
+        }
+        return { state, turnChanged };
+    });
+});
+
+/**
+ * Keep playing a game won on score, to a higher target
+ */
+export const resumeGame = onCall(async (request) => {
+    const uid = requireAuth(request);
+    const roomCode = getRoomCode(request.data);
+    await getCallerSeat(roomCode, uid);
+    const targetScore = (request.data as Partial<ResumeRequest> | null)?.targetScore;
+    if (typeof targetScore !== 'number' || !Number.isInteger(targetScore)) {
+        throw new HttpsError('invalid-argument', 'Choose a new target score');
+    }
+
+    await changeGame(roomCode, async state => {
+        // Like the win screen: only a game won on score can go on, and to a target nobody has reached
+        if (state.result?.reason !== 'target_score' || state.players.some(p => p.score >= targetScore)) {
+            throw new HttpsError('failed-precondition', 'Only a game won on score can go on, to a higher target');
+        }
+        const engine = new GrabbleEngine(state);
+        engine.resumeGame(targetScore);
+        return { state: engine.getState(), turnChanged: false };
+    });
+});
+
+// ============================================================================
+// TRIGGERS
+// ============================================================================
+
+/**
+ * Deleting a room removes its hidden game data too (clients can't write it)
+ */
+export const cleanUpRoomSecrets = onValueDeleted({ ref: '/rooms/{roomCode}', region: REGION }, async (event) => {
+    await db.ref(dbPaths.roomSecrets(event.params.roomCode)).remove();
+});
@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Dictionary loading for server-side word validation
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { LanguagePack } from '../src/types';
+import { LANGUAGE_PACKS, parseDictionary } from '../src/language-packs';
+
+// The server runs from server/ (locally and on Render), next to the client's public/ folder
+export const DEFAULT_PUBLIC_DIR = process.env.PUBLIC_DIR || path.resolve(process.cwd(), '../public');
+
+/**
+ * Load a language pack's word list (same parsing as the client)
+ */
+export function loadDictionary(pack: LanguagePack, publicDir: string = DEFAULT_PUBLIC_DIR): Set<string> {
+    const dictionaryPath = path.join(publicDir, pack.dictionaryFile);
+    const dictionary = parseDictionary(readFileSync(dictionaryPath, 'utf8'), pack);
+    console.log(`📖 Loaded ${dictionary.size} ${pack.name} words from ${dictionaryPath}`);
+    return dictionary;
+}
+
+/**
+ * Load the word list of every language pack whose file exists, keyed by pack ID
+ */
+export function loadDictionaries(publicDir: string = DEFAULT_PUBLIC_DIR): Record<string, Set<string>> {
+    const dictionaries: Record<string, Set<string>> = {};
+    for (const pack of Object.values(LANGUAGE_PACKS)) {
+        if (!existsSync(path.join(publicDir, pack.dictionaryFile))) {
+            console.warn(`⚠️ No ${pack.name} dictionary at ${pack.dictionaryFile}, rooms can't use it`);
+            continue;
+        }
+        dictionaries[pack.id] = loadDictionary(pack, publicDir);
+    }
+    return dictionaries;
+}
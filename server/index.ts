@@ -0,0 +1,48 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Authoritative multiplayer server (Express + Socket.IO)
+ */
+
+import express from 'express';
+import { createServer } from 'http';
+import { Server } from 'socket.io';
+import { loadDictionaries } from './dictionary';
+import { RoomManager } from './room-manager';
+import { registerSocketEvents, startTurnTimers } from './socket-events';
+import type { GrabbleServer } from './socket-events';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const app = express();
+const httpServer = createServer(app);
+
+const io: GrabbleServer = new Server(httpServer, {
+    cors: {
+        origin: [
+            'http://localhost:3000',
+            'https://saumyamishraal.github.io',
+            ...(process.env.CORS_ORIGINS ? process.env.CORS_ORIGINS.split(',') : [])
+        ],
+        methods: ['GET', 'POST']
+    }
+});
+
+const rooms = new RoomManager(loadDictionaries());
+
+// Health check (also wakes sleeping free-tier instances)
+app.get('/', (_req, res) => {
+    res.json({ status: 'ok' });
+});
+
+io.on('connection', socket => {
+    console.log('🔌 Client connected:', socket.id);
+    registerSocketEvents(io, socket, rooms);
+});
+
+// Pass or forfeit turns in timed games
+startTurnTimers(io, rooms);
+
+httpServer.listen(PORT, () => {
+    console.log(`🚀 Grabble server listening on port ${PORT}`);
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the room manager
+ * Tests creating, joining, watching and leaving rooms and rejecting settings the lobby doesn't offer
+ */
+
+import { RoomManager } from './room-manager';
+import { DEFAULT_HOUSE_RULES } from '../src/types';
+
+const createManager = () => new RoomManager({ en: new Set(['CAT', 'DOG']) });
+
+describe('RoomManager', () => {
+    it('should create a room with the requesting player as host', () => {
+        const rooms = createManager();
+        const room = rooms.createRoom('ann', 'Ann', { boardSize: 9, targetScore: 50 });
+
+        expect(room.code).toMatch(/^[A-Z0-9]{4}$/);
+        expect(room.players).toMatchObject([{ id: 'ann', name: 'Ann', isHost: true }]);
+        expect(room).toMatchObject({ hostId: 'ann', status: 'waiting', boardSize: 9, targetScore: 50 });
+        expect(rooms.getPlayerRoom('ann')).toBe(room);
+        expect(() => rooms.createRoom('ann', 'Ann')).toThrow('Leave your current room first');
+    });
+
+    it('should seat joining players until the room is full or playing', () => {
+        const rooms = createManager();
+        const { code } = rooms.createRoom('p0', 'Ann');
+
+        const { player } = rooms.joinRoom('p1', code.toLowerCase(), 'Ben');
+        expect(player).toMatchObject({ id: 'p1', isHost: false });
+        expect(rooms.getGamePlayerId('p1')).toBe(1);
+        expect(() => rooms.joinRoom('x', 'NONE', 'Cat')).toThrow('Room not found');
+
+        rooms.joinRoom('p2', code, 'Cat');
+        rooms.joinRoom('p3', code, 'Dan');
+        expect(() => rooms.joinRoom('p4', code, 'Eve')).toThrow('Room is full');
+
+        rooms.leaveRoom('p3');
+        rooms.startGame('p0');
+        expect(() => rooms.joinRoom('p4', code, 'Eve')).toThrow('Game already in progress');
+    });
+
+    it('should pass the host role on and delete empty rooms when players leave', () => {
+        const rooms = createManager();
+        const { code } = rooms.createRoom('ann', 'Ann');
+        rooms.joinRoom('ben', code, 'Ben');
+        rooms.startGame('ann');
+
+        const left = rooms.leaveRoom('ann')!;
+        expect(left.deleted).toBe(false);
+        expect(left.room).toMatchObject({ hostId: 'ben', status: 'finished' });
+        expect(left.room.players[0].isHost).toBe(true);
+
+        expect(rooms.leaveRoom('ben')).toMatchObject({ deleted: true });
+        expect(rooms.leaveRoom('ben')).toBeNull();
+        expect(() => rooms.joinRoom('cat', code, 'Cat')).toThrow('Room not found');
+    });
+
+    it('should let spectators watch a full or running room', () => {
+        const rooms = createManager();
+        const { code } = rooms.createRoom('p0', 'Ann');
+        rooms.joinRoom('p1', code, 'Ben');
+        rooms.startGame('p0');
+
+        const { room, spectator } = rooms.spectateRoom('s0', code.toLowerCase(), ' ');
+        expect(spectator).toEqual({ id: 's0', name: 'Spectator 1' });
+        expect(room.spectators).toHaveLength(1);
+        expect(room.players).toHaveLength(2);
+        expect(rooms.getPlayerRoom('s0')).toBe(room);
+        expect(() => rooms.spectateRoom('s1', 'NONE', 'Cat')).toThrow('Room not found');
+        expect(() => rooms.spectateRoom('s0', code, 'Cat')).toThrow('Leave your current room first');
+    });
+
+    it('should not let spectators play', async () => {
+        const rooms = createManager();
+        const { code } = rooms.createRoom('p0', 'Ann');
+        rooms.spectateRoom('s0', code, 'Sam');
+
+        expect(() => rooms.setReady('s0', true)).toThrow('Spectators can only watch');
+        expect(() => rooms.startGame('s0')).toThrow('Spectators can only watch');
+        expect(() => rooms.getGamePlayerId('s0')).toThrow('Spectators can only watch');
+        expect(() => rooms.requestNewGame('s0')).toThrow('Spectators can only watch');
+
+        rooms.joinRoom('p1', code, 'Ben');
+        rooms.startGame('p0');
+        await expect(rooms.applyPlayerAction('s0', { type: 'Pass', playerId: 0 })).rejects.toThrow('Spectators can only watch');
+    });
+
+    it('should let spectators leave without affecting the game', () => {
+        const rooms = createManager();
+        const { code } = rooms.createRoom('p0', 'Ann');
+        rooms.joinRoom('p1', code, 'Ben');
+        rooms.spectateRoom('s0', code, 'Sam');
+        rooms.spectateRoom('s1', code, 'Tia');
+        rooms.startGame('p0');
+
+        const left = rooms.leaveRoom('s0')!;
+        expect(left).toMatchObject({ deleted: false, spectator: true });
+        expect(left.room).toMatchObject({ status: 'playing', spectators: [{ id: 's1' }] });
+        expect(rooms.leaveRoom('s0')).toBeNull();
+
+        // The last player leaving closes the room for the remaining spectators
+        rooms.leaveRoom('p0');
+        expect(rooms.leaveRoom('p1')).toMatchObject({ deleted: true });
+        expect(rooms.leaveRoom('s1')).toBeNull();
+    });
+
+    it('should reject settings the lobby does not offer', () => {
+        const rooms = createManager();
+
+        expect(() => rooms.createRoom('a', 'Ann', { boardSize: 100000 })).toThrow('Board size not available');
+        expect(() => rooms.createRoom('a', 'Ann', { targetScore: -5 })).toThrow('Target score');
+        expect(() => rooms.createRoom('a', 'Ann', { timeControl: { turnLimitMs: 1 } })).toThrow('Time control not available');
+        expect(() => rooms.createRoom('a', 'Ann', { timeControl: { clockMs: 1e12 } })).toThrow('Time control not available');
+        expect(() => rooms.createRoom('a', 'Ann', { houseRules: { ...DEFAULT_HOUSE_RULES, minWordLength: 1 } })).toThrow('House rules not available');
+        expect(() => rooms.createRoom('a', 'Ann', {
+            houseRules: { ...DEFAULT_HOUSE_RULES, bonuses: { ...DEFAULT_HOUSE_RULES.bonuses, diagonal: { enabled: true, multiplier: 1000 } } }
+        })).toThrow('House rules not available');
+        expect(() => rooms.createRoom('a', 'Ann', { language: 'xx' })).toThrow('Language not available');
+
+        // Nothing was created, so the socket can still make a valid room
+        const room = rooms.createRoom('a', 'Ann', {
+            boardSize: 5,
+            houseRules: { ...DEFAULT_HOUSE_RULES, minWordLength: 4 },
+            timeControl: { turnLimitMs: 30000, clockMs: 300000 }
+        });
+        expect(room.houseRules?.minWordLength).toBe(4);
+    });
+});
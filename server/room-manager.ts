@@ -0,0 +1,408 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Room manager - owns lobby and game state for every room on the server
+ */
+
+import type { Room, RoomPlayer, RoomSpectator } from './types';
+import type { GameState, GameEvent, PlayerAction, HouseRules, TimeControl } from '../src/types';
+import { DEFAULT_BOARD_WIDTH, DEFAULT_HINT_COOLDOWN_MS, BOARD_SIZE_OPTIONS, TURN_LIMIT_OPTIONS_MS, CHESS_CLOCK_OPTIONS_MS } from '../src/types';
+import { GameStateManager } from '../src/game-state-manager';
+import { applyAction } from '../src/game-actions';
+import { DEFAULT_LANGUAGE } from '../src/language-packs';
+import { resolveHouseRules, isAllowedHouseRules } from '../src/house-rules';
+import type { ActionResult } from '../src/game-actions';
+
+const PLAYER_COLORS = ['#e74c3c', '#3498db', '#2ecc71', '#9b59b6'];
+const MAX_PLAYERS = 4;
+const ROOM_CODE_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+/**
+ * Settings chosen when creating a room
+ */
+export interface RoomOptions {
+    targetScore?: number;
+    hintsEnabled?: boolean;
+    boardSize?: number;
+    language?: string;
+    houseRules?: HouseRules;
+    challengeMode?: boolean;
+    timeControl?: TimeControl;
+}
+
+/**
+ * Server-side room bookkeeping (not sent to clients)
+ */
+interface RoomEntry {
+    room: Room;
+    newGameResponses: Map<string, boolean> | null;  // Set while a new game request is open
+}
+
+/**
+ * Keeps every room in memory and applies all moves through the game reducer
+ * Methods throw an Error with a client-facing message when a request is not allowed
+ */
+export class RoomManager {
+    private rooms = new Map<string, RoomEntry>();
+    private playerRooms = new Map<string, string>(); // Socket ID -> room code
+
+    constructor(private dictionaries: Record<string, Set<string>>) {}  // Language pack ID -> word list
+
+    /**
+     * Create a room with the requesting player as host
+     */
+    createRoom(socketId: string, playerName: string, options: RoomOptions = {}): Room {
+        this.assertNotInRoom(socketId);
+        this.assertValidOptions(options);
+        const language = options.language ?? DEFAULT_LANGUAGE;
+        if (!this.dictionaries[language]) {
+            throw new Error(`Language not available: ${language}`);
+        }
+
+        const code = this.generateRoomCode();
+        const host = this.createRoomPlayer(socketId, playerName, 0, true);
+        const room: Room = {
+            code,
+            players: [host],
+            spectators: [],
+            hostId: socketId,
+            status: 'waiting',
+            gameState: null,
+            createdAt: new Date(),
+            maxPlayers: MAX_PLAYERS,
+            targetScore: options.targetScore ?? 100,
+            hintsEnabled: options.hintsEnabled ?? true,
+            boardSize: options.boardSize ?? DEFAULT_BOARD_WIDTH,
+            language,
+            houseRules: resolveHouseRules(options.houseRules),
+            challengeMode: options.challengeMode ?? false,
+            ...(options.timeControl && { timeControl: options.timeControl })
+        };
+
+        this.rooms.set(code, { room, newGameResponses: null });
+        this.playerRooms.set(socketId, code);
+        return room;
+    }
+
+    /**
+     * Add a player to a waiting room
+     */
+    joinRoom(socketId: string, roomCode: string, playerName: string): { room: Room; player: RoomPlayer } {
+        this.assertNotInRoom(socketId);
+
+        const entry = this.rooms.get(roomCode.toUpperCase());
+        if (!entry) {
+            throw new Error('Room not found');
+        }
+        const { room } = entry;
+        if (room.status !== 'waiting') {
+            throw new Error('Game already in progress');
+        }
+        if (room.players.length >= room.maxPlayers) {
+            throw new Error('Room is full');
+        }
+
+        const player = this.createRoomPlayer(socketId, playerName, room.players.length, false);
+        room.players.push(player);
+        this.playerRooms.set(socketId, room.code);
+        return { room, player };
+    }
+
+    /**
+     * Add a spectator to a room in any state
+     * Spectators don't take a seat, so a full or running room can still be watched
+     */
+    spectateRoom(socketId: string, roomCode: string, spectatorName: string): { room: Room; spectator: RoomSpectator } {
+        this.assertNotInRoom(socketId);
+
+        const entry = this.rooms.get(roomCode.toUpperCase());
+        if (!entry) {
+            throw new Error('Room not found');
+        }
+        const { room } = entry;
+
+        const spectator: RoomSpectator = {
+            id: socketId,
+            name: spectatorName.trim() || `Spectator ${room.spectators.length + 1}`
+        };
+        room.spectators.push(spectator);
+        this.playerRooms.set(socketId, room.code);
+        return { room, spectator };
+    }
+
+    /**
+     * Remove a player or spectator from their room
+     * The host role passes to the next player; rooms without players are deleted
+     * A spectator leaving doesn't affect the game
+     * Returns null if the socket was not in a room
+     */
+    leaveRoom(socketId: string): { room: Room; deleted: boolean; spectator: boolean } | null {
+        const code = this.playerRooms.get(socketId);
+        if (!code) {
+            return null;
+        }
+        this.playerRooms.delete(socketId);
+
+        const entry = this.rooms.get(code)!;
+        const { room } = entry;
+        if (room.spectators.some(s => s.id === socketId)) {
+            room.spectators = room.spectators.filter(s => s.id !== socketId);
+            return { room, deleted: false, spectator: true };
+        }
+        room.players = room.players.filter(p => p.id !== socketId);
+
+        if (room.players.length === 0) {
+            // Nothing left to watch
+            for (const spectator of room.spectators) {
+                this.playerRooms.delete(spectator.id);
+            }
+            this.rooms.delete(code);
+            return { room, deleted: true, spectator: false };
+        }
+
+        if (room.hostId === socketId) {
+            room.hostId = room.players[0].id;
+            room.players[0].isHost = true;
+        }
+
+        // A game can't continue with a missing seat
+        if (room.status === 'playing') {
+            room.status = 'finished';
+            if (room.gameState) {
+                room.gameState.gameStatus = 'finished';
+            }
+        }
+        entry.newGameResponses = null;
+
+        return { room, deleted: false, spectator: false };
+    }
+
+    /**
+     * Update a player's ready flag
+     */
+    setReady(socketId: string, ready: boolean): Room {
+        const room = this.getSeatedRoom(socketId);
+        const player = room.players.find(p => p.id === socketId)!;
+        player.isReady = ready;
+        return room;
+    }
+
+    /**
+     * Deal a new game for the room (host only)
+     */
+    startGame(socketId: string): GameState {
+        const room = this.getSeatedRoom(socketId);
+        if (room.hostId !== socketId) {
+            throw new Error('Only the host can start the game');
+        }
+        if (room.status === 'playing') {
+            throw new Error('Game already in progress');
+        }
+        return this.dealGame(room);
+    }
+
+    /**
+     * Apply a move for the player behind this socket
+     * Rejected moves leave the room unchanged
+     */
+    async applyPlayerAction(socketId: string, action: PlayerAction): Promise<ActionResult> {
+        const room = this.getSeatedRoom(socketId);
+        if (room.status !== 'playing' || !room.gameState) {
+            return { valid: false, error: 'Game is not in progress' };
+        }
+
+        const result = await applyAction(room.gameState, action, {
+            dictionary: this.dictionaries[room.language ?? DEFAULT_LANGUAGE]
+        });
+        if (result.valid) {
+            room.gameState = result.state;
+            if (result.state.gameStatus === 'finished') {
+                room.status = 'finished';
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Pass or forfeit the turn in every timed game whose current player ran out of time,
+     * and close challenge windows that have run out
+     * Returns the rooms that changed with the reducer result
+     */
+    async applyTimeouts(now: number = Date.now()): Promise<Array<{ room: Room; state: GameState; events: GameEvent[] }>> {
+        const changed: Array<{ room: Room; state: GameState; events: GameEvent[] }> = [];
+        for (const { room } of Array.from(this.rooms.values())) {
+            if (room.status !== 'playing' || !(room.gameState?.timeControl || room.gameState?.pendingChallenge)) {
+                continue;
+            }
+
+            const result = await applyAction(room.gameState, { type: 'Timeout' }, { now });
+            if (!result.valid) {
+                continue;  // Time left
+            }
+            room.gameState = result.state;
+            if (result.state.gameStatus === 'finished') {
+                room.status = 'finished';
+            }
+            changed.push({ room, state: result.state, events: result.events });
+        }
+        return changed;
+    }
+
+    /**
+     * Game player ID for a socket (seat index in the room)
+     */
+    getGamePlayerId(socketId: string): number {
+        const room = this.getSeatedRoom(socketId);
+        return room.players.findIndex(p => p.id === socketId);
+    }
+
+    /**
+     * Open a new game vote; the requester counts as accepting
+     */
+    requestNewGame(socketId: string): { room: Room; requester: RoomPlayer } {
+        const room = this.getSeatedRoom(socketId);
+        const entry = this.rooms.get(room.code)!;
+        if (entry.newGameResponses) {
+            throw new Error('A new game request is already open');
+        }
+
+        entry.newGameResponses = new Map([[socketId, true]]);
+        return { room, requester: room.players.find(p => p.id === socketId)! };
+    }
+
+    /**
+     * Record a vote on the open new game request
+     * Returns 'started' with the new game once everyone accepted, 'declined' if anyone declined
+     */
+    respondNewGame(socketId: string, accepted: boolean): {
+        room: Room;
+        player: RoomPlayer;
+        outcome: 'pending' | 'started' | 'declined';
+        gameState?: GameState;
+    } {
+        const room = this.getSeatedRoom(socketId);
+        const entry = this.rooms.get(room.code)!;
+        if (!entry.newGameResponses) {
+            throw new Error('No new game request is open');
+        }
+
+        const player = room.players.find(p => p.id === socketId)!;
+        if (!accepted) {
+            entry.newGameResponses = null;
+            return { room, player, outcome: 'declined' };
+        }
+
+        entry.newGameResponses.set(socketId, true);
+        if (room.players.every(p => entry.newGameResponses!.get(p.id))) {
+            entry.newGameResponses = null;
+            return { room, player, outcome: 'started', gameState: this.dealGame(room) };
+        }
+        return { room, player, outcome: 'pending' };
+    }
+
+    /**
+     * Get the room a socket is in (as a player or a spectator)
+     */
+    getPlayerRoom(socketId: string): Room {
+        const code = this.playerRooms.get(socketId);
+        const entry = code ? this.rooms.get(code) : undefined;
+        if (!entry) {
+            throw new Error('You are not in a room');
+        }
+        return entry.room;
+    }
+
+    /**
+     * Get the room a socket holds a seat in; spectators can't play
+     */
+    private getSeatedRoom(socketId: string): Room {
+        const room = this.getPlayerRoom(socketId);
+        if (!room.players.some(p => p.id === socketId)) {
+            throw new Error('Spectators can only watch');
+        }
+        return room;
+    }
+
+    /**
+     * Create a fresh game state from the room's players and settings
+     */
+    private dealGame(room: Room): GameState {
+        const manager = GameStateManager.createNewGame(
+            room.players.length,
+            room.players.map(p => p.name),
+            room.targetScore,
+            {
+                boardWidth: room.boardSize,
+                boardHeight: room.boardSize,
+                hintCooldownMs: DEFAULT_HINT_COOLDOWN_MS,
+                language: room.language,
+                houseRules: room.houseRules,
+                challengeMode: room.challengeMode,
+                timeControl: room.timeControl
+            }
+        );
+
+        const gameState = manager.getState();
+        gameState.hintsEnabled = room.hintsEnabled;
+        gameState.players = gameState.players.map((p, idx) => ({
+            ...p,
+            color: room.players[idx].color
+        }));
+
+        room.gameState = gameState;
+        room.status = 'playing';
+        return gameState;
+    }
+
+    private createRoomPlayer(socketId: string, name: string, seat: number, isHost: boolean): RoomPlayer {
+        return {
+            id: socketId,
+            name: name.trim() || `Player ${seat + 1}`,
+            isHost,
+            isReady: false,
+            color: PLAYER_COLORS[seat]
+        };
+    }
+
+    /**
+     * Options come straight from the client, so only the settings the lobby offers are accepted
+     */
+    private assertValidOptions(options: RoomOptions): void {
+        const isOption = (allowed: readonly number[], value: unknown) => allowed.includes(value as number);
+
+        if (options.targetScore !== undefined && !(Number.isInteger(options.targetScore) && options.targetScore > 0)) {
+            throw new Error('Target score must be a positive whole number');
+        }
+        if (options.boardSize !== undefined && !isOption(BOARD_SIZE_OPTIONS, options.boardSize)) {
+            throw new Error(`Board size not available: ${options.boardSize}`);
+        }
+        if (options.houseRules !== undefined && !isAllowedHouseRules(options.houseRules)) {
+            throw new Error('House rules not available');
+        }
+        const { timeControl } = options;
+        if (timeControl !== undefined && (
+            typeof timeControl !== 'object' || timeControl === null ||
+            (timeControl.turnLimitMs !== undefined && !isOption(TURN_LIMIT_OPTIONS_MS, timeControl.turnLimitMs)) ||
+            (timeControl.clockMs !== undefined && !isOption(CHESS_CLOCK_OPTIONS_MS, timeControl.clockMs))
+        )) {
+            throw new Error('Time control not available');
+        }
+    }
+
+    private assertNotInRoom(socketId: string): void {
+        if (this.playerRooms.has(socketId)) {
+            throw new Error('Leave your current room first');
+        }
+    }
+
+    private generateRoomCode(): string {
+        let code: string;
+        do {
+            code = '';
+            for (let i = 0; i < 4; i++) {
+                code += ROOM_CODE_CHARS.charAt(Math.floor(Math.random() * ROOM_CODE_CHARS.length));
+            }
+        } while (this.rooms.has(code));
+        return code;
+    }
+}
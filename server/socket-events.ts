@@ -0,0 +1,285 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Socket.IO event handlers - translate protocol events into room manager calls
+ */
+
+import type { Server, Socket } from 'socket.io';
+import type { ClientToServerEvents, ServerToClientEvents, SocketData, Room } from './types';
+import type { GameState, GameEvent, PlayerAction } from '../src/types';
+import type { RoomManager } from './room-manager';
+import { toPublicState, toPlayerView } from '../src/state-visibility';
+
+export type GrabbleServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+export type GrabbleSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+type EmitTarget = ReturnType<GrabbleServer['to']>;
+
+/**
+ * Room as sent to clients (public game state only: no racks, bag or history)
+ */
+function toClientRoom(room: Room): Room {
+    return { ...room, gameState: room.gameState ? toPublicState(room.gameState) : null };
+}
+
+/**
+ * Send each player their own view of the game (their rack only)
+ * Spectators get the public view
+ */
+function emitToPlayers(io: GrabbleServer, room: Room, state: GameState, send: (target: EmitTarget, gameState: GameState) => void): void {
+    room.players.forEach((player, seat) => {
+        send(io.to(player.id), toPlayerView(state, seat));
+    });
+    if (room.spectators.length > 0) {
+        send(io.to(room.spectators.map(s => s.id)), toPublicState(state));
+    }
+}
+
+/**
+ * Check timed games and open challenges every second: pass or forfeit turns that ran out of time
+ * and let plays stand once their challenge window has closed
+ * Returns the interval handle so the caller can stop it
+ */
+export function startTurnTimers(io: GrabbleServer, rooms: RoomManager, intervalMs = 1000): ReturnType<typeof setInterval> {
+    return setInterval(() => {
+        rooms.applyTimeouts().then(changed => {
+            for (const { room, state, events } of changed) {
+                emitToPlayers(io, room, state, (target, gameState) => {
+                    for (const event of events) {
+                        if (event.type === 'turn_timed_out') {
+                            target.emit('turn_timed_out', { playerId: event.playerId, forfeited: event.forfeited, gameState });
+                        } else if (event.type === 'turn_changed') {
+                            target.emit('turn_changed', { currentPlayerId: event.currentPlayerId, gameState });
+                        } else if (event.type === 'game_ended') {
+                            target.emit('game_ended', { winnerId: event.winnerId, finalState: gameState });
+                        }
+                    }
+                });
+            }
+        }).catch(err => console.error('Error applying turn timeouts:', err));
+    }, intervalMs);
+}
+
+/**
+ * Wire up all protocol events for a connected socket
+ */
+export function registerSocketEvents(io: GrabbleServer, socket: GrabbleSocket, rooms: RoomManager): void {
+    socket.data.playerId = socket.id;
+    socket.data.roomCode = null;
+
+    // Run a handler, reporting thrown errors back to this socket only
+    const handle = <T extends unknown[]>(fn: (...args: T) => void | Promise<void>) =>
+        async (...args: T) => {
+            try {
+                await fn(...args);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : 'Unknown error';
+                console.warn(`⚠️ ${socket.id}: ${message}`);
+                socket.emit('error', { message });
+            }
+        };
+
+    const broadcastRoom = (room: Room) => {
+        io.to(room.code).emit('room_state', toClientRoom(room));
+    };
+
+    // Apply a move and broadcast the resulting events to the room
+    const applyMove = async (buildAction: (gamePlayerId: number) => PlayerAction) => {
+        const gamePlayerId = rooms.getGamePlayerId(socket.id);
+        const result = await rooms.applyPlayerAction(socket.id, buildAction(gamePlayerId));
+        if (!result.valid) {
+            socket.emit('error', { message: result.error, code: 'INVALID_MOVE' });
+            return;
+        }
+
+        const room = rooms.getPlayerRoom(socket.id);
+        emitToPlayers(io, room, result.state, (target, gameState) => emitGameEvents(target, result.events, gameState));
+    };
+
+    const emitGameEvents = (target: EmitTarget, events: GameEvent[], gameState: GameState) => {
+        for (const event of events) {
+            switch (event.type) {
+                case 'tiles_placed':
+                    target.emit('tiles_placed', { playerId: socket.id, gameState, placedPositions: event.positions });
+                    break;
+                case 'tile_removed':
+                    target.emit('tile_removed', { playerId: socket.id, gameState, removedPosition: event.position });
+                    break;
+                case 'blank_letter_set':
+                    target.emit('blank_letter_set', { ...event.position, letter: event.letter, gameState });
+                    break;
+                case 'words_claimed':
+                    target.emit('words_claimed', {
+                        playerId: event.playerId,
+                        results: { words: event.words, totalScore: event.score },
+                        gameState
+                    });
+                    break;
+                case 'words_cascaded':
+                    target.emit('words_cascaded', { playerId: event.playerId, steps: event.steps, score: event.score, gameState });
+                    break;
+                case 'tiles_swapped':
+                    target.emit('tiles_swapped', { playerId: socket.id, gameState });
+                    break;
+                case 'turn_changed':
+                    target.emit('turn_changed', { currentPlayerId: event.currentPlayerId, gameState });
+                    break;
+                case 'board_cleared':
+                    target.emit('game_state', gameState);
+                    break;
+                case 'challenge_resolved':
+                    target.emit('challenge_resolved', {
+                        challengerId: event.challengerId,
+                        playerId: event.playerId,
+                        successful: event.successful,
+                        words: event.words,
+                        gameState
+                    });
+                    break;
+                case 'turn_passed':
+                    target.emit('turn_passed', { playerId: event.playerId, gameState });
+                    break;
+                case 'game_ended':
+                    target.emit('game_ended', { winnerId: event.winnerId, finalState: gameState });
+                    break;
+                // rack_refilled is covered by the full state in turn_changed
+            }
+        }
+    };
+
+    // ========================================================================
+    // LOBBY
+    // ========================================================================
+
+    socket.on('create_room', handle(async ({ playerName, targetScore, hintsEnabled, boardSize, language, houseRules, challengeMode, timeControl }) => {
+        const room = rooms.createRoom(socket.id, playerName, { targetScore, hintsEnabled, boardSize, language, houseRules, challengeMode, timeControl });
+        socket.data.playerName = playerName;
+        socket.data.roomCode = room.code;
+        await socket.join(room.code);
+
+        socket.emit('room_created', { roomCode: room.code, room: toClientRoom(room) });
+        console.log(`📦 Room created: ${room.code} by ${playerName}`);
+    }));
+
+    socket.on('join_room', handle(async ({ roomCode, playerName }) => {
+        const { room, player } = rooms.joinRoom(socket.id, roomCode, playerName);
+        socket.data.playerName = playerName;
+        socket.data.roomCode = room.code;
+        await socket.join(room.code);
+
+        socket.emit('room_joined', { room: toClientRoom(room), playerId: socket.id });
+        socket.to(room.code).emit('player_joined', player);
+        broadcastRoom(room);
+        console.log(`✅ ${playerName} joined room ${room.code}`);
+    }));
+
+    socket.on('spectate_room', handle(async ({ roomCode, spectatorName }) => {
+        const { room } = rooms.spectateRoom(socket.id, roomCode, spectatorName);
+        socket.data.playerName = spectatorName;
+        socket.data.roomCode = room.code;
+        await socket.join(room.code);
+
+        socket.emit('room_spectating', { room: toClientRoom(room), spectatorId: socket.id });
+        broadcastRoom(room);
+        console.log(`👀 ${spectatorName} is watching room ${room.code}`);
+    }));
+
+    const leave = async () => {
+        const result = rooms.leaveRoom(socket.id);
+        if (!result) return;
+
+        const { room, deleted, spectator } = result;
+        await socket.leave(room.code);
+        socket.data.roomCode = null;
+
+        if (deleted) {
+            // Show any spectators the empty room before dropping them from it
+            if (room.spectators.length > 0) {
+                broadcastRoom(room);
+                io.in(room.code).socketsLeave(room.code);
+            }
+            console.log(`🗑️ Room ${room.code} closed`);
+            return;
+        }
+        if (!spectator) {
+            io.to(room.code).emit('player_left', socket.id);
+        }
+        broadcastRoom(room);
+    };
+
+    socket.on('leave_room', handle(leave));
+    socket.on('disconnect', () => {
+        leave().catch(err => console.error('Error leaving room on disconnect:', err));
+    });
+
+    socket.on('set_ready', handle((ready: boolean) => {
+        const room = rooms.setReady(socket.id, ready);
+        io.to(room.code).emit('player_ready', { playerId: socket.id, ready });
+    }));
+
+    socket.on('start_game', handle(() => {
+        const gameState = rooms.startGame(socket.id);
+        const room = rooms.getPlayerRoom(socket.id);
+        emitToPlayers(io, room, gameState, (target, view) => target.emit('game_started', view));
+        broadcastRoom(room);
+        console.log(`🎮 Game started in room ${room.code}`);
+    }));
+
+    // ========================================================================
+    // MOVES (validated by the server's engine)
+    // ========================================================================
+
+    socket.on('place_tiles', handle(({ placements }) =>
+        applyMove(playerId => ({ type: 'PlaceTiles', playerId, placements }))
+    ));
+
+    socket.on('remove_tile', handle(({ column, row }) =>
+        applyMove(playerId => ({ type: 'RemoveTile', playerId, position: { x: column, y: row } }))
+    ));
+
+    socket.on('set_blank_letter', handle(({ x, y, letter }) =>
+        applyMove(playerId => ({ type: 'SetBlank', playerId, position: { x, y }, letter }))
+    ));
+
+    socket.on('claim_words', handle(({ claims }) =>
+        applyMove(playerId => ({ type: 'ClaimWords', playerId, claims }))
+    ));
+
+    socket.on('swap_tiles', handle(({ tileIndices }) =>
+        applyMove(playerId => ({ type: 'Swap', playerId, tileIndices }))
+    ));
+
+    socket.on('pass_turn', handle(() =>
+        applyMove(playerId => ({ type: 'Pass', playerId }))
+    ));
+
+    socket.on('challenge', handle(() =>
+        applyMove(playerId => ({ type: 'Challenge', playerId }))
+    ));
+
+    // Older clients end a turn without a move this way; same as pass_turn
+    socket.on('end_turn', handle(() =>
+        applyMove(playerId => ({ type: 'Pass', playerId }))
+    ));
+
+    // ========================================================================
+    // NEW GAME VOTE
+    // ========================================================================
+
+    socket.on('request_new_game', handle(() => {
+        const { room, requester } = rooms.requestNewGame(socket.id);
+        socket.to(room.code).emit('new_game_requested', { requesterId: requester.id, requesterName: requester.name });
+        socket.emit('new_game_request_sent');
+    }));
+
+    socket.on('respond_new_game', handle(({ accepted }) => {
+        const { room, player, outcome, gameState } = rooms.respondNewGame(socket.id, accepted);
+        io.to(room.code).emit('new_game_response', { playerId: player.id, playerName: player.name, accepted });
+
+        if (outcome === 'declined') {
+            io.to(room.code).emit('new_game_declined', { playerName: player.name });
+        } else if (outcome === 'started' && gameState) {
+            emitToPlayers(io, room, gameState, (target, view) => target.emit('new_game_all_accepted', { gameState: view }));
+            broadcastRoom(room);
+        }
+    }));
+}
@@ -0,0 +1,13 @@
+/**
+ * Room/Lobby types for multiplayer
+ * The protocol is shared with the client (src/server-types.ts) so both sides stay in sync
+ */
+
+export type {
+    RoomPlayer,
+    RoomSpectator,
+    Room,
+    ClientToServerEvents,
+    ServerToClientEvents,
+    SocketData
+} from '../src/server-types';
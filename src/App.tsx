@@ -3,9 +3,23 @@ import './App.css';
 import './styles.scss';
 import { GrabbleEngine } from './game-engine';
 import { GameStateManager } from './game-state-manager';
-import type { Tile, Position, WordClaim } from './types';
+import type { Tile, Position, WordClaim, BotDifficulty, LanguagePack, HouseRules, GameState, GameEndReason, Standing, CascadeStep, PlayerAction } from './types';
+import { DEFAULT_BOARD_WIDTH, DEFAULT_HINT_PENALTY_MULTIPLIER, DEFAULT_CHALLENGE_WINDOW_MS } from './types';
 import { extractWordFromPositions, isValidWordLine, getReverseWord } from './word-detection';
+import { normalizeSeed } from './rng';
+import { toPlaceTilesAction } from './game-actions';
+import { DEFAULT_LANGUAGE, getLanguagePack, parseDictionary } from './language-packs';
+import { resolveHouseRules } from './house-rules';
+import { clearAndDrop } from './cascade';
 import { Trie, buildTrieFromDictionary, findFirstValidWord, getHintAtLevel, HintResult, HintSolution } from './hint-engine';
+import { playBotTurn, abandonBotTurn } from './bot-player';
+import { AUTOSAVE_SLOT, saveGame, loadSavedGame, deleteSave, listSaves } from './save-games';
+import type { SaveSummary } from './save-games';
+import { exportNotation, parseNotation } from './notation';
+import { buildReplayFrames, buildReplayFramesFromSnapshots } from './replay';
+import type { ReplayFrame } from './replay';
+import { analyzeGame } from './game-analysis';
+import type { TurnAnalysis } from './game-analysis';
 import { initSounds, playTileDropSound } from './utils/sounds';
 import { useHighScore } from './hooks/useHighScore';
 import SetupModal from './components/SetupModal';
@@ -22,16 +36,40 @@ import BonusOverlay from './components/BonusOverlay';
 import LobbyScreen from './components/LobbyScreen';
 import NewGameRequestModal from './components/NewGameRequestModal';
 import WinScreen from './components/WinScreen';
+import SaveGameModal from './components/SaveGameModal';
+import ReplayViewer from './components/ReplayViewer';
+import LeaderboardScreen from './components/LeaderboardScreen';
+import DailyPuzzleResult from './components/DailyPuzzleResult';
+import PuzzleScreen from './components/PuzzleScreen';
+import AnalysisScreen from './components/AnalysisScreen';
 import { useGameSync } from './hooks/useGameSync';
+import { useTurnSnapshots } from './hooks/useTurnSnapshots';
+import { usePlayerStats } from './hooks/usePlayerStats';
+import { useLeaderboard } from './hooks/useLeaderboard';
+import { isRankedGame } from './leaderboard';
+import { getDailyPuzzleId, createDailyPuzzle, getTurnsPlayed, isDailyPuzzleOver, summarizeDailyPuzzle, loadDailyResults, saveDailyResult, getDailyStreak, saveDailyAttempt, loadDailyAttempt } from './daily-puzzle';
+import type { DailyResult } from './daily-puzzle';
+import { GUEST_PUZZLE_USER, createPuzzleGame, getPuzzleAttempt, findPuzzleHint, saveSolvedPuzzle } from './puzzle-packs';
+import type { Puzzle, PuzzlePack, PuzzleAttempt } from './puzzle-packs';
+import { isFreshGame } from './player-stats';
+import type { StatsMode } from './player-stats';
 import { useAuth } from './contexts/AuthContext';
 import { getPlayerColor } from './utils/playerColors';
 import { UI_MESSAGES } from './constants/messages';
 
-// Dictionary loading function
-async function loadDictionary(): Promise<Set<string>> {
+// Pause before a bot plays so human players can follow the game
+const BOT_TURN_DELAY_MS = 900;
+// How long other players wait before timing out a turn for an unresponsive player
+const TIMEOUT_GRACE_MS = 3000;
+// Cascade pacing: how long cleared words take to vanish, and the pause to show a combo
+const CASCADE_VANISH_MS = 500;
+const CASCADE_COMBO_MS = 1500;
+
+// Dictionary loading function (word list of the game's language pack)
+async function loadDictionary(pack: LanguagePack): Promise<Set<string>> {
   try {
     // Use process.env.PUBLIC_URL for GitHub Pages compatibility
-    const dictionaryPath = `${process.env.PUBLIC_URL || ''}/dictionary.txt`;
+    const dictionaryPath = `${process.env.PUBLIC_URL || ''}/${pack.dictionaryFile}`;
     console.log('Loading dictionary from', dictionaryPath, '...');
     const response = await fetch(dictionaryPath);
     console.log('Dictionary fetch response:', response.status, response.statusText);
@@ -47,12 +85,7 @@ async function loadDictionary(): Promise<Set<string>> {
     const text = await response.text();
     console.log('Dictionary text loaded, length:', text.length, 'characters');
 
-    const words = text.split('\n')
-      .map(line => line.trim().toUpperCase())
-      .filter(line => line.length > 0 && !line.startsWith('#')) // Skip empty lines and comments
-      .filter(word => word.length >= 3 && /^[A-Z]+$/.test(word));
-
-    const dict = new Set(words);
+    const dict = parseDictionary(text, pack);
     console.log(`Loaded ${dict.size} words from dictionary (first 10:`, Array.from(dict).slice(0, 10), ')');
     return dict;
   } catch (error) {
@@ -71,6 +104,7 @@ function App() {
     roomCode,
     room,
     isHost,
+    isSpectator,
     playerId,
     gameState: firebaseGameState,
     tilesPlacedThisTurn: firebaseTilesPlacedThisTurn,
@@ -78,21 +112,22 @@ function App() {
     clearError: clearFirebaseError,
     createRoom,
     joinRoom,
+    spectateRoom,
     leaveRoom,
     setReady,
     startGame: firebaseStartGame,
-    placeTiles: firebasePlaceTiles,
-    claimWords: firebaseClaimWords,
-    swapTiles: _firebaseSwapTiles,
+    playActions: firebasePlayActions,
+    resumeGame: firebaseResumeGame,
     removeTile: _firebaseRemoveTile,
     setBlankLetter: firebaseSetBlankLetter,
+    recordHintUsage: firebaseRecordHintUsage,
     requestNewGame: _firebaseRequestNewGame,
     respondNewGame: firebaseRespondNewGame,
     newGameRequest,
     newGameDeclined,
     clearNewGameRequest,
     clearNewGameDeclined,
-    syncGameState,
+    getServerTime,
     getActiveGame,
   } = useGameSync();
 
@@ -106,20 +141,31 @@ function App() {
 
   // Multiplayer mode: true when in a room that is playing
   const isMultiplayer = room?.status === 'playing' && firebaseGameState !== null;
+  // Spectators see the live game but hold no seat, so they never get a rack or a turn
+  const spectating = isMultiplayer && isSpectator;
+
+  // Online games keep no history on this client: record each turn's position for the replay
+  const { getSnapshots: getTurnSnapshots } = useTurnSnapshots(firebaseGameState);
+  const [replayFrames, setReplayFrames] = useState<ReplayFrame[] | null>(null);
+  const [analysis, setAnalysis] = useState<{ turns: TurnAnalysis[] | null; analyzed: number; total: number } | null>(null);
+  const analysisRunRef = useRef(0); // Results of a closed analysis are dropped
 
   const [gameManager, setGameManager] = useState<GameStateManager | null>(null);
   const [engine, setEngine] = useState<GrabbleEngine | null>(null);
+  // House rules of the current game (word length and bonuses)
+  const houseRules = isMultiplayer ? resolveHouseRules(firebaseGameState?.houseRules) : (engine?.getHouseRules() ?? resolveHouseRules());
+  const minWordLength = houseRules.minWordLength;
   const [selectedTiles, setSelectedTiles] = useState<number[]>([]);
   const [selectedWords, setSelectedWords] = useState<Position[][]>([]); // Array of word positions (multiple words)
   const [, setWordDirection] = useState<'horizontal' | 'vertical' | 'diagonal' | null>(null);
   const [pendingPlacements, setPendingPlacements] = useState<Array<{ column: number; tile: Tile }>>([]);
   const [tilesPlacedThisTurn, setTilesPlacedThisTurn] = useState<Position[]>([]); // Track tiles placed this turn (positions only)
   // For multiplayer batch sync: track tile data (letter, points) to match against server rack at sync time
-  const [multiplayerPlacementsThisTurn, setMultiplayerPlacementsThisTurn] = useState<Array<{ position: Position; column: number; tile: { letter: string; points: number } }>>([]);
   const [isPlacingTiles, setIsPlacingTiles] = useState(false);
   const [showSetup, setShowSetup] = useState(false); // Start false so lobby shows first when connected
   const [dictionary, setDictionary] = useState<Set<string>>(new Set());
   const [dictionaryLoaded, setDictionaryLoaded] = useState(false);
+  const [localLanguage, setLocalLanguage] = useState(DEFAULT_LANGUAGE); // Language of the local game
   const [renderKey, setRenderKey] = useState(0); // Force re-render
   const [soundEnabled, setSoundEnabled] = useState(true); // Sound toggle state
   const [newGameRequestModal, setNewGameRequestModal] = useState<{
@@ -132,7 +178,9 @@ function App() {
   const [removingTiles, setRemovingTiles] = useState<Set<string>>(new Set()); // Track tiles being removed (flying to rack)
   const [removingTileData, setRemovingTileData] = useState<Map<string, { dx: number; dy: number }>>(new Map()); // Removal animation direction
   const [bottomRowShake, setBottomRowShake] = useState<Set<number>>(new Set()); // Columns that should shake at bottom row
-  const [fallingTileData, setFallingTileData] = useState<Map<string, { y: number; column: number; delay: number; duration: number }>>(new Map()); // Track tile fall data for stagger
+  const [fallingTileData, setFallingTileData] = useState<Map<string, { y: number; column: number; delay: number; duration: number; fromY?: number }>>(new Map()); // Track tile fall data for stagger
+  const [vanishingTiles, setVanishingTiles] = useState<Set<string>>(new Set()); // Tiles of words cleared by a cascade
+  const [cascadeBoard, setCascadeBoard] = useState<(Tile | null)[][] | null>(null); // Board shown while a cascade plays out
   const columnFallQueue = useRef<Map<number, Position[]>>(new Map()); // Track tiles falling in each column for stagger
   const prevSocketTilesPlacedRef = useRef<Position[]>([]); // Track previous socket tiles for animation (use ref to avoid dependency issues)
   const prevSocketBoardRef = useRef<(Tile | null)[][] | null>(null); // Track previous board state to detect new tiles
@@ -152,12 +200,14 @@ function App() {
   const [diagonalTiles, setDiagonalTiles] = useState<Set<string>>(new Set()); // Track tiles with diagonal animation
   const [diagonalPositions, setDiagonalPositions] = useState<Position[]>([]); // Store word positions for diagonal animation
   const [diagonalBonus, setDiagonalBonus] = useState<{ show: boolean; points: number; word: string; playerColor: string } | null>(null);
+  const [comboBonus, setComboBonus] = useState<{ show: boolean; points: number; multiplier: number; playerColor: string } | null>(null);
 
   // Local-first multiplayer state: allows tile drops to be processed locally before batch-syncing on submit
   // This engine is a local copy of the server state, updated optimistically during the player's turn
   const [localMultiplayerEngine, setLocalMultiplayerEngine] = useState<GrabbleEngine | null>(null);
   const [localMultiplayerRack, setLocalMultiplayerRack] = useState<Tile[]>([]); // Local copy of player's rack for optimistic updates
   const lastSyncedTurnRef = useRef<string>(''); // Track state hash to detect any game state changes
+  const [localResyncCount, setLocalResyncCount] = useState(0); // Bumped to rebuild the local copy from Firebase
 
   // Hint system state
   const [trie, setTrie] = useState<Trie | null>(null);
@@ -173,16 +223,54 @@ function App() {
   const { highScore, updateHighScore } = useHighScore();
   const [soloGameOver, setSoloGameOver] = useState(false);
   const [isNewHighScore, setIsNewHighScore] = useState(false);
-
-  // Win screen state (multiplayer)
+  const { submitScore: submitLeaderboardScore } = useLeaderboard();
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [dailyResult, setDailyResult] = useState<DailyResult | null>(null);  // Shown when a daily puzzle ends
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  const [puzzleAttempt, setPuzzleAttempt] = useState<PuzzleAttempt | null>(null);  // Set once the puzzle's move is made
+
+  // Lifetime stats of the signed-in player; each game is added once, when it ends
+  const { recordGame } = usePlayerStats();
+  const statsRecordedRef = useRef(false);
+  const recordFinishedGame = useCallback((state: GameState, playerId: number, mode: StatsMode) => {
+    if (statsRecordedRef.current) return;
+    statsRecordedRef.current = true;
+    recordGame(state, playerId, mode);
+  }, [recordGame]);
+
+  // Win screen state
   const [showWinScreen, setShowWinScreen] = useState(false);
   const [winnerInfo, setWinnerInfo] = useState<{
     name: string;
     score: number;
     targetScore: number;
     allPlayers: { name: string; score: number }[];
+    endReason?: GameEndReason;
+    standings?: Standing[];
   } | null>(null);
 
+  // Show the win screen for a finished game's final standings
+  const showGameResult = useCallback((state: GameState, getName: (playerId: number) => string) => {
+    if (!state.result) return;
+
+    const standings = state.result.standings.map(s => ({ ...s, name: getName(s.playerId) }));
+    const winner = standings.find(s => s.playerId === state.winnerId) || standings[0];
+    setWinnerInfo({
+      name: winner.name,
+      score: winner.score,
+      targetScore: state.targetScore,
+      allPlayers: standings.map(s => ({ name: s.name, score: s.score })),
+      endReason: state.result.reason,
+      standings
+    });
+    setShowWinScreen(true);
+  }, []);
+
+  // Saved local games (named slots plus the autosave)
+  const [savedGames, setSavedGames] = useState<SaveSummary[]>(() => listSaves());
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const refreshSaves = () => setSavedGames(listSaves());
+
   // Helper function to show error modal
   const showError = (message: string) => {
     setErrorModal({ isOpen: true, message });
@@ -212,21 +300,25 @@ function App() {
     if (!currentState || selectedWords.length === 0) return [];
 
     return selectedWords
-      .filter(positions => isValidWordLine(positions) && positions.length >= 3)
+      .filter(positions => isValidWordLine(positions, minWordLength))
       .map(positions => {
         // Extract word preserving the order of positions (drag direction)
         return extractWordFromPositions(currentState.board, positions, true);
       })
-      .filter(word => word.length >= 3);
-  }, [selectedWords, gameManager, firebaseGameState, isMultiplayer]);
+      .filter(word => word.length > 0);
+  }, [selectedWords, gameManager, firebaseGameState, isMultiplayer, minWordLength]);
 
   // Get all selected positions flattened for highlighting
   const selectedWordPositions = useMemo(() => {
     return selectedWords.flat();
   }, [selectedWords]);
 
+  // Load the dictionary of the current game's language (reloaded when it changes)
+  const gameLanguage = isMultiplayer ? (firebaseGameState?.language ?? DEFAULT_LANGUAGE) : localLanguage;
   useEffect(() => {
-    loadDictionary().then((dict) => {
+    setDictionaryLoaded(false);
+    setTrie(null);
+    loadDictionary(getLanguagePack(gameLanguage)).then((dict) => {
       console.log('Setting dictionary state, size:', dict.size);
       setDictionary(dict);
       setDictionaryLoaded(true);
@@ -241,7 +333,7 @@ function App() {
       setDictionary(fallback);
       setDictionaryLoaded(true);
     });
-  }, []);
+  }, [gameLanguage]);
 
   // Build Trie from dictionary for hint system
   useEffect(() => {
@@ -297,6 +389,10 @@ function App() {
       currentPlayerId: firebaseGameState.currentPlayerId,
       claimedWordsCount: firebaseGameState.claimedWords?.length || 0,
       scores: firebaseGameState.players?.map((p: any) => p.score) || [],
+      // A challenge can take the last play back
+      pendingChallenge: !!firebaseGameState.pendingChallenge,
+      // My rack is refilled by a Cloud Function after my turn
+      rackLength: firebaseGameState.players[myRoomPlayerIndex]?.rack?.length || 0,
     });
     const shouldSync = lastSyncedTurnRef.current !== stateHash;
 
@@ -314,21 +410,46 @@ function App() {
 
       // Clear tiles placed this turn when syncing
       setTilesPlacedThisTurn([]);
-      setMultiplayerPlacementsThisTurn([]);
       setSelectedWords([]);
 
       lastSyncedTurnRef.current = stateHash;
       console.log('✅ Synced local multiplayer engine from Firebase, turn:', firebaseGameState.currentPlayerId);
     }
-  }, [isMultiplayer, firebaseGameState, room, playerId]);
+  }, [isMultiplayer, firebaseGameState, room, playerId, localResyncCount]);
+
+  // Throw away the local copy of the turn after the server turned it down
+  const resyncLocalMultiplayer = () => {
+    lastSyncedTurnRef.current = '';
+    setLocalResyncCount(prev => prev + 1);
+  };
 
   // Detect win condition in multiplayer
   useEffect(() => {
     if (!isMultiplayer || !firebaseGameState || !room) return;
 
+    // A new game in the room can be added to the stats again
+    if (isFreshGame(firebaseGameState)) {
+      statsRecordedRef.current = false;
+      return;
+    }
+    const myIndex = room.players.findIndex(rp => rp.id === playerId);
+
+    // Finished with final standings (e.g. ended by the server on an empty bag)
+    if (firebaseGameState.gameStatus === 'finished' && firebaseGameState.result) {
+      if (myIndex >= 0) recordFinishedGame(firebaseGameState, myIndex, 'online');
+      if (!showWinScreen) {
+        showGameResult(firebaseGameState, id => room.players[id]?.name || `Player ${id + 1}`);
+      }
+      return;
+    }
+
     const targetScore = firebaseGameState.targetScore || 100;
     const winningPlayer = firebaseGameState.players.find(p => p.score >= targetScore);
 
+    if (winningPlayer && myIndex >= 0) {
+      recordFinishedGame(firebaseGameState, myIndex, 'online');
+    }
+
     if (winningPlayer && !showWinScreen) {
       // Find player name from room
       const playerName = room.players[winningPlayer.id]?.name || `Player ${winningPlayer.id + 1}`;
@@ -345,7 +466,157 @@ function App() {
       setShowWinScreen(true);
       console.log('🏆 We have a winner!', playerName, 'with', winningPlayer.score, 'points');
     }
-  }, [isMultiplayer, firebaseGameState, room, showWinScreen]);
+  }, [isMultiplayer, firebaseGameState, room, playerId, showWinScreen, showGameResult, recordFinishedGame]);
+
+  // Show the final standings when a local game ends (target score, empty rack or stalemate)
+  useEffect(() => {
+    if (isMultiplayer || !engine || showWinScreen) return;
+
+    const state = engine.getState();
+    if (state.gameStatus === 'finished' && state.gameMode !== 'solo') {
+      // Only a game with a single human seat (against bots) says whose stats it is
+      const humans = state.players.filter(p => !p.isBot);
+      if (humans.length === 1) recordFinishedGame(state, humans[0].id, 'local');
+      showGameResult(state, id => state.players.find(p => p.id === id)?.name || `Player ${id + 1}`);
+    }
+  }, [isMultiplayer, engine, renderKey, showWinScreen, showGameResult, recordFinishedGame]);
+
+  // Daily puzzle: save the result once the turns run out (or the board fills)
+  useEffect(() => {
+    if (isMultiplayer || !engine || dailyResult) return;
+
+    const state = engine.getState();
+    if (isDailyPuzzleOver(state) && !loadDailyResults()[state.dailyPuzzle!.id]) {
+      const result = summarizeDailyPuzzle(state);
+      saveDailyResult(result);
+      recordFinishedGame(state, 0, 'solo');
+      setDailyResult(result);
+    }
+  }, [isMultiplayer, engine, renderKey, dailyResult, recordFinishedGame]);
+
+  // Puzzle packs: once the move is made, check the goal and show how it went
+  useEffect(() => {
+    if (isMultiplayer || !engine || puzzleAttempt) return;
+
+    const state = engine.getState();
+    const attempt = getPuzzleAttempt(state);
+    if (attempt) {
+      if (attempt.solved) {
+        saveSolvedPuzzle(user?.uid ?? GUEST_PUZZLE_USER, state.puzzle!.packId, state.puzzle!.puzzleId, {
+          solvedAt: Date.now(),
+          hintsUsed: attempt.hintsUsed
+        });
+      }
+      setPuzzleAttempt(attempt);
+      setShowPuzzles(true);
+    }
+  }, [isMultiplayer, engine, renderKey, puzzleAttempt, user]);
+
+  // Challenge mode: tick once a second while the last play can be challenged
+  const [challengeClock, setChallengeClock] = useState(() => Date.now());
+  const localState = isMultiplayer ? null : engine?.getState();
+  const challengeState = isMultiplayer ? firebaseGameState : localState;
+  const challengeClosesAt = challengeState?.pendingChallenge
+    ? challengeState.pendingChallenge.claimedAt + (challengeState.challengeWindowMs ?? DEFAULT_CHALLENGE_WINDOW_MS)
+    : undefined;
+  const mySeat = isMultiplayer && room ? room.players.findIndex(rp => rp.id === playerId) : -1;
+  const isMyPlayPending = challengeState?.pendingChallenge?.playerId === mySeat;
+  useEffect(() => {
+    if (challengeClosesAt === undefined) return;
+
+    const getNow = isMultiplayer ? getServerTime : Date.now;
+    // In rooms the claimer's client lets the play stand; the others step in after a grace period in case it went offline
+    const closeAt = isMultiplayer && !isMyPlayPending ? challengeClosesAt + TIMEOUT_GRACE_MS : challengeClosesAt;
+    let closing = false;
+    setChallengeClock(getNow());
+    const timer = setInterval(() => {
+      const now = getNow();
+      setChallengeClock(now);
+      if (now < closeAt || closing) return;
+
+      if (!isMultiplayer) {
+        clearInterval(timer);
+        // The play stands now, and may have reached the target score
+        engine?.closeChallengeWindow(now);
+        setRenderKey(prev => prev + 1);
+      } else if (!spectating) {
+        // A Cloud Function closes the window on the server's clock; if that is a moment behind, try again on the next tick
+        closing = true;
+        firebasePlayActions([{ type: 'Timeout', playerId: mySeat }])
+          .then(() => clearInterval(timer))
+          .catch(error => {
+            console.error('Error closing challenge window:', error);
+            closing = false;
+          });
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [challengeClosesAt, engine, isMultiplayer, spectating, isMyPlayPending, mySeat, getServerTime, firebasePlayActions]);
+
+  // Autosave local games after every move so a page refresh doesn't lose them
+  useEffect(() => {
+    if (isMultiplayer || !engine) return;
+
+    const state = engine.getState();
+    try {
+      if (state.gameStatus === 'finished') {
+        deleteSave(AUTOSAVE_SLOT);
+      } else {
+        saveGame(AUTOSAVE_SLOT, state);
+      }
+      saveDailyAttempt(state);
+    } catch (err) {
+      console.warn('Autosave failed:', err);
+    }
+  }, [isMultiplayer, engine, renderKey]);
+
+  // Turn timers and chess clocks: tick once a second (on the Firebase server clock in rooms)
+  const [timeClock, setTimeClock] = useState(() => Date.now());
+  const timedState = isMultiplayer ? firebaseGameState : localState;
+  const isTimed = !!timedState?.timeControl && timedState.gameStatus === 'playing';
+  useEffect(() => {
+    if (!isTimed) return;
+
+    const tick = () => setTimeClock(isMultiplayer ? getServerTime() : Date.now());
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [isTimed, isMultiplayer, getServerTime]);
+
+  // Pass or forfeit a turn that ran out of time
+  // In rooms the current player's client asks for it; the others step in after a grace period in case they went offline
+  const handledTimeoutRef = useRef('');
+  useEffect(() => {
+    if (!isTimed) return;
+
+    if (isMultiplayer) {
+      if (!firebaseGameState || !room || !playerId || spectating) return;
+
+      const mySeat = room.players.findIndex(rp => rp.id === playerId);
+      const turnKey = `${firebaseGameState.currentPlayerId}:${firebaseGameState.turnStartedAt}`;
+      const deadline = firebaseGameState.currentPlayerId === mySeat ? timeClock : timeClock - TIMEOUT_GRACE_MS;
+      const timedEngine = new GrabbleEngine(JSON.parse(JSON.stringify(firebaseGameState)));
+      if (handledTimeoutRef.current === turnKey || !timedEngine.isOutOfTime(deadline)) return;
+
+      // The Cloud Function checks the clock itself and hands the tiles on the board back to the real rack
+      handledTimeoutRef.current = turnKey;
+      console.log('⏱️ Turn timed out, asking the server to end it');
+      firebasePlayActions([{ type: 'Timeout', playerId: mySeat }]).catch(error => {
+        // The server's clock may be a moment behind; try again on the next tick
+        console.error('Error timing out turn:', error);
+        handledTimeoutRef.current = '';
+      });
+    } else {
+      if (!engine || !engine.handleTimeout(timeClock)) return;
+
+      setSelectedTiles([]);
+      setSelectedWords([]);
+      setWordDirection(null);
+      setTilesPlacedThisTurn([]);
+      setPendingPlacements([]);
+      setRenderKey(prev => prev + 1);
+    }
+  }, [isTimed, timeClock, isMultiplayer, spectating, firebaseGameState, room, playerId, engine, firebasePlayActions]);
 
   useEffect(() => {
     setHintLevel(0);
@@ -538,8 +809,8 @@ function App() {
       const newTiles: Position[] = [];
       if (prevBoard) {
         // Compare boards to find new tiles
-        for (let y = 0; y < 7; y++) {
-          for (let x = 0; x < 7; x++) {
+        for (let y = 0; y < currentBoard.length; y++) {
+          for (let x = 0; x < (currentBoard[y]?.length || 0); x++) {
             const currentTile = currentBoard[y]?.[x];
             const prevTile = prevBoard[y]?.[x];
             // Tile exists now but didn't before
@@ -700,36 +971,114 @@ function App() {
     targetScore: number,
     hintsEnabled: boolean = true,
     gameMode: 'normal' | 'solo' = 'normal',
-    zenMode: boolean = false
+    zenMode: boolean = false,
+    boardSize: number = DEFAULT_BOARD_WIDTH,
+    hintPenaltyMultiplier: number = DEFAULT_HINT_PENALTY_MULTIPLIER,
+    bots: Array<BotDifficulty | null> = [],
+    seed?: string,
+    language: string = DEFAULT_LANGUAGE,
+    houseRules?: HouseRules,
+    challengeMode: boolean = false
   ) => {
-    const manager = GameStateManager.createNewGame(numPlayers, playerNames, targetScore);
+    const manager = GameStateManager.createNewGame(numPlayers, playerNames, targetScore, {
+      boardWidth: boardSize,
+      boardHeight: boardSize,
+      hintPenaltyMultiplier,
+      bots,
+      seed: seed !== undefined ? normalizeSeed(seed) : undefined,
+      language,
+      houseRules,
+      challengeMode,
+      gameMode,
+      hintsEnabled
+    });
     const gameEngine = manager.getEngine();
+    console.log('🎲 Game seed:', manager.getSeed());
 
     // Set game settings on internal engine state (not on a copy)
     // getState() returns a deep copy, so we access the internal state directly
     const engineState = (gameEngine as any).state;
-    engineState.hintsEnabled = hintsEnabled;
-    engineState.gameMode = gameMode;
     engineState.zenMode = zenMode;
 
     setGameManager(manager);
     setEngine(gameEngine);
+    setLocalLanguage(manager.getState().language ?? DEFAULT_LANGUAGE);
     setShowSetup(false);
+    resetLocalTurnHelpers();
+  };
 
-    // Reset hint state for new game
+  // Reset hint and solo mode state when a local game starts or is loaded
+  const resetLocalTurnHelpers = () => {
     setHintLevel(0);
     setHintMessage('');
     setHintedTileIndices([]);
     setSwapHintedTileIndices([]);
     cachedHintSolutionRef.current = null;
 
-    // Reset solo mode state
     setSoloGameOver(false);
     setIsNewHighScore(false);
+    statsRecordedRef.current = false;
   };
 
+  // Restart a local game with the same players and settings
+  const restartLocalGame = (manager: GameStateManager) => {
+    const previousState = manager.getState();
+    handleStartGame(
+      manager.getNumPlayers(),
+      manager.getPlayerNames(),
+      manager.getTargetScore(),
+      previousState.hintsEnabled !== false,
+      previousState.gameMode || 'normal',
+      previousState.zenMode || false,
+      manager.getBoardSize().width,
+      manager.getEngine().getHintPenaltyMultiplier(),
+      manager.getBots(),
+      undefined,
+      previousState.language,
+      previousState.houseRules,
+      previousState.challengeMode
+    );
+  };
+
+  // Computer opponents: play the bot's turn through the engine after a short pause
+  useEffect(() => {
+    if (isMultiplayer || !gameManager || !engine || !trie || !dictionaryLoaded) return;
+
+    const currentState = engine.getState();
+    const botPlayer = currentState.players.find(p => p.id === currentState.currentPlayerId);
+    if (!botPlayer?.isBot || currentState.gameStatus !== 'playing') return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        await playBotTurn(engine, botPlayer.id, trie, dictionary, botPlayer.botDifficulty || 'medium');
+        if (cancelled) return;
+      } catch (error) {
+        console.error('Error playing bot turn:', error);
+        if (cancelled) return;
+        try {
+          // Take back what the failed move applied and pass, rather than retrying a half-played turn
+          abandonBotTurn(engine, botPlayer.id);
+        } catch (passError) {
+          // Stop the bot instead of retrying forever
+          console.error('Error passing bot turn:', passError);
+          setErrorModal({ isOpen: true, message: UI_MESSAGES.bots.turnFailed(botPlayer.name) });
+          return;
+        }
+      }
+      if (!cancelled) {
+        setRenderKey(prev => prev + 1);
+      }
+    }, BOT_TURN_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isMultiplayer, gameManager, engine, trie, dictionary, dictionaryLoaded, renderKey]);
+
   // Handle hint request - progressive levels
-  const handleHint = useCallback(() => {
+  const handleHint = useCallback(async () => {
     const currentState = isMultiplayer ? firebaseGameState : gameManager?.getState();
     const currentRack = isMultiplayer ? ((): Tile[] => {
       if (!firebaseGameState || !room || !playerId) return [];
@@ -742,22 +1091,45 @@ function App() {
       return;
     }
 
-    // Ban hints until at least one word has been claimed (first complete turn finished)
+    // Ban hints until at least one word has been claimed (first complete turn finished), except in puzzles
     const hasCompletedTurns = (currentState.claimedWords?.length || 0) > 0;
-    if (!hasCompletedTurns) {
+    if (!hasCompletedTurns && !currentState.puzzle) {
       setHintMessage(UI_MESSAGES.hints.hintsNotAvailable);
       return;
     }
 
+    // Hint usage is tracked on the engine for scoring penalties and cooldowns
+    const hintEngine = isMultiplayer ? localMultiplayerEngine : engine;
+    const hintPlayerId = isMultiplayer
+      ? (room?.players.findIndex(rp => rp.id === playerId) ?? -1)
+      : currentState.currentPlayerId;
+    if (!hintEngine || hintPlayerId < 0) {
+      setHintMessage(UI_MESSAGES.hints.cannotGetHint);
+      return;
+    }
+
+    const cooldownRemaining = hintEngine.getHintCooldownRemaining(hintPlayerId);
+    if (cooldownRemaining > 0) {
+      setHintMessage(UI_MESSAGES.hints.cooldown(Math.ceil(cooldownRemaining / 1000)));
+      return;
+    }
+
     // Find solution (cached or new)
     // Only use cache if hintLevel > 0 (meaning we already calculated on this turn)
     let solution: HintSolution | null;
     if (hintLevel > 0) {
       // Use cached solution for progressive levels
       solution = cachedHintSolutionRef.current;
+    } else if (currentState.puzzle) {
+      // Puzzles hint at a move that reaches the goal
+      solution = await findPuzzleHint(currentState, trie, dictionary);
+      cachedHintSolutionRef.current = solution;
     } else {
       // First hint request this turn - calculate fresh and cache
-      solution = findFirstValidWord(currentState.board, currentRack, trie);
+      solution = findFirstValidWord(currentState.board, currentRack, trie, {
+        alphabet: getLanguagePack(currentState.language).alphabet,
+        minWordLength
+      });
       cachedHintSolutionRef.current = solution;
       console.log('🔍 Hint search result:', solution ? `Found: ${solution.word}` : 'No words found');
     }
@@ -766,8 +1138,17 @@ function App() {
     const result = getHintAtLevel(solution, currentRack, hintLevel);
     setHintResult(result);
 
+    hintEngine.recordHintUsage(hintPlayerId, hintLevel, result.usefulTiles || []);
+    if (isMultiplayer) {
+      const usage = hintEngine.getState().hintUsage;
+      if (usage) firebaseRecordHintUsage(usage);
+    }
+    const penaltyMultiplier = hintEngine.getHintPenaltyMultiplier();
+
     // Generate message and set highlighting based on result
-    if (!result.hasMoves) {
+    if (!result.hasMoves && currentState.puzzle) {
+      setHintMessage(UI_MESSAGES.puzzles.noHint);
+    } else if (!result.hasMoves) {
       setHintMessage('⚠️ No single-tile hint found. Consider swapping tiles?');
       // Highlight swap suggestions (red glow) - these are tiles to SWAP
       setHintedTileIndices([]);  // Clear playable hints
@@ -782,7 +1163,9 @@ function App() {
 
       switch (hintLevel) {
         case 0:
-          setHintMessage(UI_MESSAGES.hints.wordsPossible);
+          setHintMessage(penaltyMultiplier < 1
+            ? UI_MESSAGES.hints.wordsPossibleWithPenalty(Math.round(penaltyMultiplier * 100))
+            : UI_MESSAGES.hints.wordsPossible);
           // Clear highlighting at level 0
           setHintedTileIndices([]);
           setHintedColumns([]);
@@ -825,7 +1208,7 @@ function App() {
     if (hintLevel < 4) {
       setHintLevel((prev) => Math.min(prev + 1, 4) as 0 | 1 | 2 | 3 | 4);
     }
-  }, [isMultiplayer, firebaseGameState, room, playerId, gameManager, trie, hintLevel]);
+  }, [isMultiplayer, firebaseGameState, room, playerId, gameManager, engine, localMultiplayerEngine, firebaseRecordHintUsage, trie, dictionary, hintLevel, minWordLength]);
 
   // Handler for starting a new game from the menu
   const handleStartNewGame = () => {
@@ -841,7 +1224,7 @@ function App() {
     } else {
       // In single player, just restart
       if (gameManager) {
-        handleStartGame(gameManager.getNumPlayers(), gameManager.getPlayerNames(), gameManager.getTargetScore());
+        restartLocalGame(gameManager);
       }
     }
   };
@@ -849,36 +1232,79 @@ function App() {
   // Win screen handlers
   const handleContinuePlaying = async (newTargetScore: number) => {
     // Update target score and continue playing
-    if (localMultiplayerEngine && isMultiplayer) {
-      const engineState = (localMultiplayerEngine as any).state;
-      engineState.targetScore = newTargetScore;
-      await syncGameState(localMultiplayerEngine.getState());
+    if (isMultiplayer) {
+      try {
+        await firebaseResumeGame(newTargetScore);
+      } catch (error) {
+        console.error('Error resuming game:', error);
+        showError(error instanceof Error ? error.message : 'Unknown error');
+        return;
+      }
       console.log('🎯 Updated target score to', newTargetScore, '- continuing game');
     } else if (engine) {
-      // For local mode, update engine state directly
-      const engineState = (engine as any).state;
-      engineState.targetScore = newTargetScore;
+      engine.resumeGame(newTargetScore);
+      setRenderKey(prev => prev + 1);
     }
     setShowWinScreen(false);
     setWinnerInfo(null);
   };
 
+  // Step through the finished game's turns
+  const handleWatchReplay = () => {
+    if (isMultiplayer) {
+      setReplayFrames(buildReplayFramesFromSnapshots(getTurnSnapshots()));
+    } else if (engine) {
+      setReplayFrames(buildReplayFrames(engine.getState()));
+    }
+  };
+
+  // Compare each turn's play with the best move its rack allowed (local games only)
+  const handleAnalyzeGame = async () => {
+    if (!engine) return;
+    if (!trie) {
+      showError(UI_MESSAGES.analysis.dictionaryLoading);
+      return;
+    }
+    const run = ++analysisRunRef.current;
+    setAnalysis({ turns: null, analyzed: 0, total: 0 });
+    const turns = await analyzeGame(engine.getState(), trie, dictionary, {
+      onProgress: (analyzed, total) => {
+        if (analysisRunRef.current === run) setAnalysis({ turns: null, analyzed, total });
+      }
+    });
+    if (analysisRunRef.current === run) {
+      setAnalysis(prev => prev && { ...prev, turns });
+    }
+  };
+
+  const closeAnalysis = () => {
+    analysisRunRef.current++;
+    setAnalysis(null);
+  };
+
   const handleWinNewGame = () => {
     setShowWinScreen(false);
     setWinnerInfo(null);
+    setReplayFrames(null);
+    closeAnalysis();
     if (isMultiplayer) {
       firebaseStartGame();
     } else if (gameManager) {
-      handleStartGame(gameManager.getNumPlayers(), gameManager.getPlayerNames(), gameManager.getTargetScore());
+      restartLocalGame(gameManager);
     }
   };
 
   const handleWinGoHome = () => {
     setShowWinScreen(false);
     setWinnerInfo(null);
+    setReplayFrames(null);
+    closeAnalysis();
     // Reset to lobby/home
     leaveRoom();
+    setGameManager(null);
+    setEngine(null);
     setShowSetup(false);
+    refreshSaves();
   };
 
   // Handler for ending the game and returning to home
@@ -890,6 +1316,10 @@ function App() {
     setWinnerInfo(null);
     // Clear active game and leave room - pass uid to clear activeGame tracking
     leaveRoom(user?.uid);
+    if (!isMultiplayer) {
+      deleteSave(AUTOSAVE_SLOT);
+      refreshSaves();
+    }
     setGameManager(null);
     setEngine(null);
     setShowSetup(false);
@@ -899,6 +1329,110 @@ function App() {
     console.log('🏠 Ended game and returned to lobby');
   };
 
+  // Save the local game to a named slot
+  const handleSaveGame = (name: string) => {
+    if (!engine) return;
+
+    try {
+      saveGame(name, engine.getState());
+      setShowSaveModal(false);
+      refreshSaves();
+      showError(UI_MESSAGES.saves.saved(name));
+    } catch (err) {
+      showError(UI_MESSAGES.errors.errorSavingGame(err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  // Resume a saved local game
+  const handleLoadGame = (name: string) => {
+    const saved = loadSavedGame(name);
+    if (!saved) {
+      window.alert(UI_MESSAGES.errors.errorLoadingGame(name));
+      return;
+    }
+
+    startLoadedGame(GameStateManager.loadGame(saved));
+    console.log('📂 Loaded saved game:', name);
+  };
+
+  // Rebuild a game from pasted notation (the claimed words are trusted)
+  const handleImportNotation = async (text: string) => {
+    try {
+      const manager = await parseNotation(text);
+      startLoadedGame(manager);
+      console.log('📥 Imported game from notation');
+    } catch (err) {
+      window.alert(UI_MESSAGES.errors.errorImportingNotation(err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const startLoadedGame = (manager: GameStateManager) => {
+    setGameManager(manager);
+    setEngine(manager.getEngine());
+    setLocalLanguage(manager.getState().language ?? DEFAULT_LANGUAGE);
+    setShowSetup(false);
+    resetLocalTurnHelpers();
+  };
+
+  // Today's daily puzzle; once played, its result is shown instead
+  const handlePlayDaily = () => {
+    const dayId = getDailyPuzzleId();
+    const result = loadDailyResults()[dayId];
+    if (result) {
+      setDailyResult(result);
+      return;
+    }
+
+    // Resume an unfinished attempt, so the puzzle can't be dealt again for a fresh try
+    const attempt = loadDailyAttempt(dayId);
+    startLoadedGame(attempt
+      ? GameStateManager.loadGame(attempt)
+      : createDailyPuzzle(dayId, user?.displayName || UI_MESSAGES.daily.playerName));
+  };
+
+  // Start a puzzle from a pack
+  const handlePlayPuzzle = (pack: PuzzlePack, puzzle: Puzzle) => {
+    setPuzzleAttempt(null);
+    setShowPuzzles(false);
+    startLoadedGame(createPuzzleGame(pack, puzzle, user?.displayName || UI_MESSAGES.puzzles.playerName));
+  };
+
+  // Closing the puzzle list after a puzzle's move leaves the game
+  const closePuzzles = () => {
+    setShowPuzzles(false);
+    if (puzzleAttempt && engine?.getState().puzzle) {
+      setPuzzleAttempt(null);
+      setGameManager(null);
+      setEngine(null);
+    }
+  };
+
+  // Closing a finished puzzle's result leaves the game
+  const closeDailyResult = () => {
+    setDailyResult(null);
+    if (engine?.getState().dailyPuzzle) {
+      setGameManager(null);
+      setEngine(null);
+    }
+  };
+
+  // Copy the local game as text notation
+  const handleCopyNotation = async () => {
+    if (!engine) return;
+
+    try {
+      await navigator.clipboard.writeText(exportNotation(engine.getState()));
+      showError(UI_MESSAGES.notation.copied);
+    } catch (err) {
+      showError(UI_MESSAGES.errors.errorExportingNotation(err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  const handleDeleteSave = (name: string) => {
+    deleteSave(name);
+    refreshSaves();
+  };
+
   // Watch for new game requests from other players
   useEffect(() => {
     console.log('🔍 Checking new game request:', {
@@ -963,20 +1497,20 @@ function App() {
     if (!confirmed) return;
 
     if (isMultiplayer && localMultiplayerEngine) {
-      // Multiplayer: clear board on local engine and sync to Firebase
-      localMultiplayerEngine.clearBoard();
-      console.log('🧹 Cleared board in multiplayer, syncing to Firebase...');
-      await syncGameState(localMultiplayerEngine.getState());
+      // Multiplayer: the new bag and racks are dealt by a Cloud Function, and arrive through Firebase
+      try {
+        const mySeat = room!.players.findIndex(rp => rp.id === playerId);
+        await firebasePlayActions([{ type: 'ClearBoard', playerId: mySeat }]);
+        console.log('🧹 Cleared board in multiplayer');
+      } catch (error) {
+        console.error('Error clearing board:', error);
+        showError(UI_MESSAGES.errors.errorClearingBoard(error instanceof Error ? error.message : 'Unknown error'));
+        return;
+      }
 
       // Reset local UI state
       setTilesPlacedThisTurn([]);
-      setMultiplayerPlacementsThisTurn([]);
       setSelectedWords([]);
-      const myRoomPlayerIndex = room?.players.findIndex((rp: any) => rp.id === playerId) ?? -1;
-      if (myRoomPlayerIndex >= 0) {
-        const newRack = localMultiplayerEngine.getState().players[myRoomPlayerIndex]?.rack || [];
-        setLocalMultiplayerRack([...newRack]);
-      }
     } else if (engine) {
       // Local mode: clear board directly
       engine.clearBoard();
@@ -990,6 +1524,50 @@ function App() {
     }
   };
 
+  // Reset per-turn UI state after the engine rewinds or replays a turn
+  const resetTurnUiAfterHistoryChange = () => {
+    setTilesPlacedThisTurn([]);
+    setPendingPlacements([]);
+    setSelectedWords([]);
+    setSelectedTiles([]);
+    setWordDirection(null);
+    setHintLevel(0);
+    setHintMessage('');
+    setHintedTileIndices([]);
+    setSwapHintedTileIndices([]);
+    cachedHintSolutionRef.current = null;
+    columnFallQueue.current.clear();
+    setSoloGameOver(false);
+    setShowWinScreen(false);
+    setRenderKey(prev => prev + 1);
+  };
+
+  // Undo the last turn (local games only)
+  const handleUndoTurn = () => {
+    if (isMultiplayer || !engine || engine.getState().dailyPuzzle) return;
+    if (engine.undoTurn()) {
+      // Against bots, rewind past their turns back to a human turn
+      const isBotTurn = () => {
+        const current = engine.getState();
+        return !!current.players.find(p => p.id === current.currentPlayerId)?.isBot;
+      };
+      while (isBotTurn() && engine.canUndo()) {
+        engine.undoTurn();
+      }
+      console.log('↩️ Undid last turn');
+      resetTurnUiAfterHistoryChange();
+    }
+  };
+
+  // Redo the last undone turn (local games only)
+  const handleRedoTurn = () => {
+    if (isMultiplayer || !engine || engine.getState().dailyPuzzle) return;
+    if (engine.redoTurn()) {
+      console.log('↪️ Redid turn');
+      resetTurnUiAfterHistoryChange();
+    }
+  };
+
   // Handler for toggling sound
   // Handler for toggling sound
   const handleToggleSound = () => {
@@ -1053,7 +1631,7 @@ function App() {
         // Track where tile was placed (after gravity)
         const state = localMultiplayerEngine.getState();
         let placedPosition: Position | null = null;
-        for (let row = 6; row >= 0; row--) {
+        for (let row = state.board.length - 1; row >= 0; row--) {
           const boardTile = state.board[row][column];
           const prevTile = prevState.board[row][column];
           if (boardTile && (!prevTile || (prevTile.playerId !== myGamePlayerId && boardTile.playerId === myGamePlayerId))) {
@@ -1064,12 +1642,6 @@ function App() {
 
         if (placedPosition) {
           setTilesPlacedThisTurn(prev => [...prev, placedPosition!]);
-          // Track tile data for server sync - store tile info to match against server rack later
-          setMultiplayerPlacementsThisTurn(prev => [...prev, {
-            position: placedPosition!,
-            column,
-            tile: { letter: rackTile.letter, points: rackTile.points }
-          }]);
 
           // Falling animation logic (same as local mode)
           const fallDistance = placedPosition.y;
@@ -1192,7 +1764,7 @@ function App() {
       let placedPosition: Position | null = null;
       // Find the tile we just placed (it will be at the lowest empty position in the column)
       // Compare with previous state to find the new tile
-      for (let row = 6; row >= 0; row--) {
+      for (let row = state.board.length - 1; row >= 0; row--) {
         const boardTile = state.board[row][column];
         const prevTile = prevState.board[row][column];
         // If there's a tile now that wasn't there before, or it's a new tile by this player
@@ -1289,7 +1861,7 @@ function App() {
       }
 
       // Remove tile from rack (don't refill - wait until after submit)
-      currentPlayer.rack = currentPlayer.rack.filter((_, i) => i !== index);
+      engine.removeTilesFromRack(currentPlayer.id, [index]);
 
       // Clear selections
       setSelectedTiles(prev => prev.filter(i => i !== index));
@@ -1489,7 +2061,7 @@ function App() {
           if (removedTile) {
             // Return tile to rack (without playerId)
             const tileToReturn = { letter: removedTile.letter, points: removedTile.points };
-            currentPlayer.rack.push(tileToReturn);
+            engine.returnTileToRack(currentPlayer.id, tileToReturn);
 
             // Remove from tilesPlacedThisTurn if it was tracked there
             // After gravity, tiles above the removed tile have moved down
@@ -1617,7 +2189,7 @@ function App() {
         let finalPos: Position | null = null;
 
         // Find the newly placed tile by comparing board states
-        for (let row = 6; row >= 0; row--) {
+        for (let row = newState.board.length - 1; row >= 0; row--) {
           const boardTile = newState.board[row][toX];
           const prevTile = prevState.board[row][toX];
           // If there's a tile now that wasn't there before, or it's a new tile by this player
@@ -1736,6 +2308,72 @@ function App() {
     });
   };
 
+  // Play a cascade out on the board: each link's tiles vanish, the tiles above fall, then the combo shows
+  // The engine has already applied the cascade, so the board shown comes from cascadeBoard until it ends
+  const animateCascade = (boardBefore: (Tile | null)[][], steps: CascadeStep[], cascadePlayerId: number) => {
+    const playStep = (index: number, board: (Tile | null)[][]) => {
+      if (index >= steps.length) {
+        setCascadeBoard(null);
+        return;
+      }
+
+      const step = steps[index];
+      setCascadeBoard(board);
+      setVanishingTiles(new Set(step.cleared.map(pos => `${pos.x}-${pos.y}`)));
+
+      setTimeout(() => {
+        const dropped = clearAndDrop(board, step.cleared).board;
+        setVanishingTiles(new Set());
+        setCascadeBoard(dropped);
+
+        // Each tile falls from its old row; 1 row = 0.2s, 6 rows = 0.5s as for placed tiles
+        const durations = step.falls.map(fall => 0.2 + ((fall.to.y - fall.from.y) * (0.5 - 0.2) / 6));
+        step.falls.forEach((fall, i) => {
+          const tileKey = `${fall.to.x}-${fall.to.y}`;
+          setFallingTileData(prev => new Map(prev).set(tileKey, {
+            y: fall.to.y,
+            column: fall.to.x,
+            delay: 0,
+            duration: durations[i],
+            fromY: fall.from.y
+          }));
+          setFallingTiles(prev => new Set(prev).add(tileKey));
+
+          setTimeout(() => {
+            setFallingTiles(prev => {
+              const newSet = new Set(prev);
+              newSet.delete(tileKey);
+              return newSet;
+            });
+            setFallingTileData(prev => {
+              const newMap = new Map(prev);
+              newMap.delete(tileKey);
+              return newMap;
+            });
+          }, durations[i] * 1000 + 50);
+        });
+
+        const fallTime = Math.max(0, ...durations) * 1000;
+        if (step.falls.length > 0) {
+          setTimeout(() => playTileDropSound(soundEnabled), fallTime * 0.7);
+        }
+
+        const hasCombo = step.words.length > 0;
+        if (hasCombo) {
+          setTimeout(() => setComboBonus({
+            show: true,
+            points: step.words.reduce((sum, w) => sum + w.score, 0),
+            multiplier: step.multiplier,
+            playerColor: getPlayerColor(cascadePlayerId)
+          }), fallTime);
+        }
+        setTimeout(() => playStep(index + 1, dropped), fallTime + (hasCombo ? CASCADE_COMBO_MS : 0));
+      }, CASCADE_VANISH_MS);
+    };
+
+    playStep(0, boardBefore);
+  };
+
   const handleSubmitMove = async () => {
     // Multiplayer mode: validate locally, then batch-send placements + claims to server
     if (isMultiplayer) {
@@ -1764,7 +2402,7 @@ function App() {
       }
 
       // 2. Validate selected words are straight lines
-      const validWords = selectedWords.filter(positions => isValidWordLine(positions));
+      const validWords = selectedWords.filter(positions => isValidWordLine(positions, minWordLength));
       if (validWords.length === 0) {
         showError(UI_MESSAGES.errors.selectValidWords);
         return;
@@ -1811,12 +2449,36 @@ function App() {
         return;
       }
 
+      // The turn's tiles as the server will replay them: each column filled from the bottom up,
+      // then the letters chosen for blanks (the cascade below changes the local board)
+      const serverRack = firebaseGameState?.players[myRoomPlayerIndex]?.rack || [];
+      const turnActions: PlayerAction[] = [];
+      try {
+        const drops = [...allNewlyPlacedTiles]
+          .sort((a, b) => b.y - a.y)
+          .map(pos => ({ column: pos.x, tile: currentState.board[pos.y][pos.x]! }));
+        turnActions.push(toPlaceTilesAction(myGamePlayerId, serverRack, drops));
+      } catch (error) {
+        showError(UI_MESSAGES.errors.errorSubmittingMove(error instanceof Error ? error.message : 'Unknown error'));
+        return;
+      }
+      allNewlyPlacedTiles
+        .map(position => ({ position, tile: currentState.board[position.y][position.x] }))
+        .filter(({ tile }) => tile?.letter === ' ' && tile.blankLetter)
+        .forEach(({ position, tile }) => turnActions.push({
+          type: 'SetBlank',
+          playerId: myGamePlayerId,
+          position,
+          letter: tile!.blankLetter!
+        }));
+
       // 4. Validate words against dictionary locally
       const claims: WordClaim[] = validWords.map(positions => ({
         positions,
         playerId: myGamePlayerId
       }));
 
+      const boardBeforeClaims = localMultiplayerEngine.getState().board;
       const result = await localMultiplayerEngine.processWordClaims(claims, allNewlyPlacedTiles, dictionary);
 
       if (!result.valid) {
@@ -1834,81 +2496,27 @@ function App() {
 
       console.log('✅ Local validation passed! Score:', result.totalScore, 'Sending batch to server...');
 
-      // 5. Batch-send to server: first send tile placements, then word claims
-      // The server needs the tiles on its board before it can validate the words
-
-      // Match tiles against server rack to find correct indices
-      // The server rack is untouched (we only update locally), so we match tile data
-      if (multiplayerPlacementsThisTurn.length > 0 && firebaseGameState) {
-        const serverRack = firebaseGameState.players[myRoomPlayerIndex]?.rack || [];
-
-        console.log('📤 Syncing', multiplayerPlacementsThisTurn.length, 'tiles to server...');
-        console.log('  Server rack:', serverRack.map(t => t.letter).join(','));
-
-        // Track which server rack positions we've already used (for duplicate tiles)
-        const usedIndices = new Set<number>();
-        // Track the original indices we've already sent (for adjustment)
-        const sentOriginalIndices: number[] = [];
-
-        for (const placement of multiplayerPlacementsThisTurn) {
-          // Find this tile in the server rack (first unused match)
-          const serverRackIndex = serverRack.findIndex((t, idx) =>
-            !usedIndices.has(idx) &&
-            t.letter === placement.tile.letter &&
-            t.points === placement.tile.points
-          );
-
-          if (serverRackIndex === -1) {
-            console.error('Could not find tile in server rack:', placement.tile);
-            continue;
-          }
-
-          usedIndices.add(serverRackIndex);
-
-          // Adjust index for tiles already removed at lower positions
-          // Each tile we've already sent that was at a lower index shifts this one down
-          const adjustment = sentOriginalIndices.filter(idx => idx < serverRackIndex).length;
-          const adjustedIndex = serverRackIndex - adjustment;
-
-          sentOriginalIndices.push(serverRackIndex);
-
-          console.log(`  → Sending column ${placement.column}, original ${serverRackIndex}, adjusted ${adjustedIndex} (${placement.tile.letter})`);
-          firebasePlaceTiles([{ column: placement.column, tileIndex: adjustedIndex }]);
-        }
-
-        // Small delay for server processing
-        await new Promise(resolve => setTimeout(resolve, 100));
+      if (result.cascade) {
+        animateCascade(boardBeforeClaims, result.cascade, myGamePlayerId);
       }
 
-      const claimsForServer = validWords.map(positions => ({ positions }));
-      firebaseClaimWords(claimsForServer);
-
-      // Sync the complete local game state to Firebase after local validation
-      if (localMultiplayerEngine) {
-        // Sync the local rack (with removed tiles) back to the engine state
-        // This is needed because tiles were removed from localMultiplayerRack but not the engine
-        const engineState = (localMultiplayerEngine as any).state;
-        if (engineState.players[myGamePlayerId]) {
-          engineState.players[myGamePlayerId].rack = [...localMultiplayerRack];
-          console.log('🔄 Synced local rack to engine, tiles remaining:', localMultiplayerRack.length);
-        }
-
-        // Refill the player's rack from tile bag
-        localMultiplayerEngine.refillPlayerRack(myGamePlayerId);
-        console.log('🃏 Refilled player rack to:', engineState.players[myGamePlayerId]?.rack.length, 'tiles');
-
-        // Advance to next player's turn
-        localMultiplayerEngine.advanceTurn();
-        console.log('👉 Advanced turn to player:', localMultiplayerEngine.getState().currentPlayerId);
-
-        console.log('🔥 Firebase: syncing complete game state...');
-        await syncGameState(localMultiplayerEngine.getState());
+      // 5. Send the whole turn in one call: a Cloud Function replays it on the real rack and board,
+      // checks the words again, refills the rack and passes the turn (or ends the game)
+      try {
+        await firebasePlayActions([
+          ...turnActions,
+          { type: 'ClaimWords', playerId: myGamePlayerId, claims: validWords.map(positions => ({ positions })) }
+        ]);
+      } catch (error) {
+        console.error('Error submitting move:', error);
+        showError(UI_MESSAGES.errors.errorSubmittingMove(error instanceof Error ? error.message : 'Unknown error'));
+        resyncLocalMultiplayer();
+        return;
       }
 
-      // Clear local selection state and multiplayer placements
+      // Clear local selection state
       setSelectedWords([]);
       setWordDirection(null);
-      setMultiplayerPlacementsThisTurn([]);
 
       return;
     }
@@ -1930,15 +2538,17 @@ function App() {
       // Handle pending placements (click-based placement)
       let newlyPlacedFromPending: Position[] = [];
       if (pendingPlacements.length > 0) {
-        // Remove tiles from rack before placing (in the reverse order to preserve indices)
-        const tilesToPlace = pendingPlacements.map(p => p.tile);
-        const newRack = currentPlayer.rack.filter((tile, idx) => {
-          const placementIdx = tilesToPlace.findIndex(p =>
-            p.letter === tile.letter && p.points === tile.points
+        // Remove one matching rack tile per placement before placing
+        const rackIndices: number[] = [];
+        for (const placement of pendingPlacements) {
+          const rackIdx = currentPlayer.rack.findIndex((tile, idx) =>
+            !rackIndices.includes(idx) &&
+            tile.letter === placement.tile.letter &&
+            tile.points === placement.tile.points
           );
-          return placementIdx === -1;
-        });
-        currentPlayer.rack = newRack;
+          if (rackIdx !== -1) rackIndices.push(rackIdx);
+        }
+        engine.removeTilesFromRack(currentPlayer.id, rackIndices);
 
         engine.placeTiles(pendingPlacements, currentPlayer.id);
         setIsPlacingTiles(false);
@@ -1946,7 +2556,7 @@ function App() {
         // Get newly placed positions (after gravity)
         const state = engine.getState();
         for (const placement of pendingPlacements) {
-          for (let y = 6; y >= 0; y--) {
+          for (let y = state.board.length - 1; y >= 0; y--) {
             const tile = state.board[y][placement.column];
             if (tile && tile.playerId === currentPlayer.id) {
               newlyPlacedFromPending.push({ x: placement.column, y });
@@ -1982,7 +2592,7 @@ function App() {
       // Process word claims for all selected words
       if (selectedWords.length > 0) {
         // Validate all selected words
-        const validWords = selectedWords.filter(positions => isValidWordLine(positions));
+        const validWords = selectedWords.filter(positions => isValidWordLine(positions, minWordLength));
 
         if (validWords.length === 0) {
           showError(UI_MESSAGES.errors.selectValidWords);
@@ -2042,6 +2652,7 @@ function App() {
           return;
         }
 
+        const boardBeforeClaims = engine.getState().board;
         const result = await engine.processWordClaims(claims, allNewlyPlacedTiles, dictionary);
 
         console.log('Word claims result:', result);
@@ -2067,6 +2678,13 @@ function App() {
         // Within each word, prioritize bonuses: Diagonal → Emordnilap → Palindrome
         const stateAfterSubmit = engine.getState();
 
+        // A cascade has already cleared the claimed words; show them until their bonuses have played
+        const cascade = result.cascade;
+        if (cascade) {
+          setCascadeBoard(boardBeforeClaims);
+        }
+        const startCascade = () => cascade && animateCascade(boardBeforeClaims, cascade, currentPlayer.id);
+
         // Collect all bonus animations to show (flattened: word + bonus type)
         type BonusAnimation = {
           word: string;
@@ -2094,7 +2712,7 @@ function App() {
               });
             }
             if (bonuses.includes('emordnilap')) {
-              const reverseWord = getReverseWord(stateAfterSubmit.board, wordPositions);
+              const reverseWord = getReverseWord(boardBeforeClaims, wordPositions);
               bonusAnimations.push({
                 word: wordResult.word,
                 positions: wordPositions,
@@ -2116,7 +2734,10 @@ function App() {
 
         // Process bonuses sequentially, one at a time
         const processNextBonus = (index: number) => {
-          if (index >= bonusAnimations.length) return;
+          if (index >= bonusAnimations.length) {
+            startCascade();
+            return;
+          }
 
           const bonusAnim = bonusAnimations[index];
           const tileKeys = new Set(bonusAnim.positions.map(pos => `${pos.x}-${pos.y}`));
@@ -2204,6 +2825,8 @@ function App() {
         // Start processing from first bonus
         if (bonusAnimations.length > 0) {
           processNextBonus(0);
+        } else {
+          startCascade();
         }
 
         // Lock all blank tiles that were part of the submitted words
@@ -2223,9 +2846,9 @@ function App() {
       // Refill rack and advance turn (only after submitting)
       engine.refillPlayerRack(currentPlayer.id);
 
-      // Solo mode: check for game over (board full)
+      // Solo mode: check for game over (board full); daily puzzles and puzzle packs end on their own
       const isSoloMode = gameManager.getState().gameMode === 'solo';
-      if (isSoloMode) {
+      if (isSoloMode && !gameManager.getState().dailyPuzzle && !gameManager.getState().puzzle) {
         if (engine.isBoardFull()) {
           // Game over in solo mode
           const finalScore = gameManager.getCurrentPlayer()?.score || 0;
@@ -2233,11 +2856,14 @@ function App() {
           const isNewHS = await updateHighScore(finalScore);
           setIsNewHighScore(isNewHS);
           setSoloGameOver(true);
+          recordFinishedGame(gameManager.getState(), currentPlayer.id, 'solo');
+          if (isRankedGame(gameManager.getState())) {
+            submitLeaderboardScore(finalScore);
+          }
         }
-        // In solo mode, don't advance turn (always same player)
-      } else {
-        engine.advanceTurn();
       }
+      // Solo mode stays on the same player, but still closes the turn in the history
+      engine.advanceTurn();
 
       // Clear all turn state
       setWordDirection(null);
@@ -2247,13 +2873,9 @@ function App() {
       // Clear column fall queue when turn ends
       columnFallQueue.current.clear();
 
-      // Check win condition (only for non-solo mode)
+      // Check win condition (only for non-solo mode); the win screen shows the standings
       if (!isSoloMode) {
-        const winnerId = engine.checkWinCondition();
-        if (winnerId !== null) {
-          const winner = gameManager.getPlayer(winnerId);
-          showError(UI_MESSAGES.errors.gameOver(winner?.name || 'Unknown', winner?.score || 0));
-        }
+        engine.checkWinCondition();
       }
 
       // Force re-render by updating render key
@@ -2286,34 +2908,21 @@ function App() {
 
     try {
       if (isMultiplayer && localMultiplayerEngine && room && playerId) {
-        // Multiplayer: swap on local engine and sync to Firebase
-        const myRoomPlayerIndex = room.players.findIndex((rp: any) => rp.id === playerId);
-        const myGamePlayerId = myRoomPlayerIndex !== -1 ? myRoomPlayerIndex : -1;
-
-        // Perform the swap on local engine
-        localMultiplayerEngine.swapTiles(myGamePlayerId, selectedTiles);
-        console.log('🔄 Swapped tiles locally');
-
-        // Advance turn (player loses turn for swapping)
-        localMultiplayerEngine.advanceTurn();
-        console.log('👉 Advanced turn to player:', localMultiplayerEngine.getState().currentPlayerId);
-
-        // Sync to Firebase
-        console.log('🔥 Firebase: syncing after swap...');
-        await syncGameState(localMultiplayerEngine.getState());
+        // Multiplayer: the tiles go back in the hidden bag, so a Cloud Function swaps them and ends the turn
+        // The selection indexes the rack the turn started with, which only holds while nothing is on the board
+        if (tilesPlacedThisTurn.length > 0) {
+          throw new Error('Remove placed tiles before swapping');
+        }
+        const mySeat = room.players.findIndex(rp => rp.id === playerId);
+        await firebasePlayActions([{ type: 'Swap', playerId: mySeat, tileIndices: selectedTiles }]);
 
-        // Clear selections
+        // Clear selections (the new rack arrives through Firebase)
         setSelectedTiles([]);
         setShowSwapConfirm(false);
         setTilesPlacedThisTurn([]);
-        setMultiplayerPlacementsThisTurn([]);
         setSelectedWords([]);
 
-        // Update local rack from synced state
-        const newRack = localMultiplayerEngine.getState().players[myGamePlayerId]?.rack || [];
-        setLocalMultiplayerRack([...newRack]);
-
-        console.log('✅ Tiles swapped and synced to Firebase');
+        console.log('✅ Tiles swapped in Firebase');
       } else {
         // Local game: use engine
         if (!gameManager || !engine) return;
@@ -2327,8 +2936,9 @@ function App() {
         setSelectedTiles([]);
         setShowSwapConfirm(false);
 
-        // Advance turn (player loses turn for swapping)
+        // Advance turn (player loses turn for swapping); swapping with an empty bag can end the game
         engine.advanceTurn();
+        engine.checkWinCondition();
 
         // Clear all turn state
         setSelectedWords([]);
@@ -2348,6 +2958,73 @@ function App() {
     }
   };
 
+  // Challenge mode: the player whose turn it is challenges the last play (any opponent of the player in rooms)
+  const handleChallenge = async () => {
+    if (isMultiplayer) {
+      // The claimer's rack and the bag are hidden, so a Cloud Function checks the words and takes the play back
+      try {
+        await firebasePlayActions([{ type: 'Challenge', playerId: mySeat }]);
+      } catch (error) {
+        console.error('Error challenging:', error);
+        showError(UI_MESSAGES.errors.errorChallenging(error instanceof Error ? error.message : 'Unknown error'));
+      }
+      return;
+    }
+    if (!gameManager || !engine) return;
+
+    const pending = engine.getState().pendingChallenge;
+    if (!pending) return;
+
+    try {
+      const challenger = gameManager.getCurrentPlayer();
+      const { successful, words } = engine.challenge(challenger.id, dictionary);
+      const playerName = gameManager.getPlayer(pending.playerId)?.name || 'Unknown';
+      const wordList = words.map(w => w.word.toUpperCase()).join(', ');
+
+      showError(successful
+        ? UI_MESSAGES.errors.challengeSucceeded(challenger.name, playerName, wordList)
+        : UI_MESSAGES.errors.challengeFailed(challenger.name, wordList, words[0]?.challenge?.penalty ?? 0));
+      setRenderKey(prev => prev + 1);
+    } catch (error) {
+      console.error('Error challenging:', error);
+      showError(UI_MESSAGES.errors.errorChallenging(error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  // Give up the turn without swapping; placed tiles must be taken back first
+  const handlePassTurn = async () => {
+    try {
+      if (isMultiplayer && localMultiplayerEngine && room && playerId) {
+        const myRoomPlayerIndex = room.players.findIndex((rp: any) => rp.id === playerId);
+        const myGamePlayerId = myRoomPlayerIndex !== -1 ? myRoomPlayerIndex : -1;
+
+        localMultiplayerEngine.passTurn(myGamePlayerId, getServerTime());
+        console.log('⏭️ Passed, turn goes to player:', localMultiplayerEngine.getState().currentPlayerId);
+
+        // A Cloud Function passes the turn on the real game, and ends it if nobody can move any more
+        try {
+          await firebasePlayActions([{ type: 'Pass', playerId: myGamePlayerId }]);
+        } catch (error) {
+          resyncLocalMultiplayer();
+          throw error;
+        }
+      } else {
+        if (!gameManager || !engine) return;
+
+        engine.passTurn(gameManager.getCurrentPlayer().id);
+        engine.checkWinCondition();
+        setRenderKey(prev => prev + 1);
+      }
+
+      setSelectedTiles([]);
+      setSelectedWords([]);
+      setWordDirection(null);
+    } catch (error) {
+      console.error('Error passing turn:', error);
+      showError(UI_MESSAGES.errors.errorPassingTurn(error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
   const cancelSwapTiles = () => {
     setShowSwapConfirm(false);
     // Keep tiles selected so user can try again or change selection
@@ -2382,21 +3059,9 @@ function App() {
     // Local mode: use engine directly
     if (!gameManager || !engine) return;
 
-    // Access the engine's state directly (not a copy) to update the tile
-    const state = (engine as any).state;
-    if (!state || !state.board || !state.board[y] || !state.board[y][x]) {
-      console.error('Invalid tile position or state');
-      return;
-    }
-
-    const tile = state.board[y][x];
-
-    if (tile && tile.letter === ' ') {
-      // Update the blank tile with the letter directly in the engine's state
-      tile.blankLetter = letter.toUpperCase();
-      // Don't lock it yet - will be locked after submission
-      tile.isBlankLocked = false;
-
+    // Don't lock it yet - will be locked after submission
+    const currentPlayer = gameManager.getCurrentPlayer();
+    if (engine.setBlankTileLetter(x, y, letter, currentPlayer.id)) {
       setBlankTileModal({ isOpen: false, position: null, currentLetter: '' });
       // Force re-render by updating render key and game manager
       setRenderKey(prev => prev + 1);
@@ -2423,7 +3088,7 @@ function App() {
       if (removedTile) {
         // Return blank tile to rack (without blankLetter)
         const tileToReturn = { letter: removedTile.letter, points: removedTile.points };
-        currentPlayer.rack.push(tileToReturn);
+        engine.returnTileToRack(currentPlayer.id, tileToReturn);
 
         // Remove from tilesPlacedThisTurn
         setTilesPlacedThisTurn(prev => prev.filter(pos => !(pos.x === x && pos.y === y)));
@@ -2498,28 +3163,61 @@ function App() {
     return <div className="loading">Loading dictionary...</div>;
   }
 
+  // Daily puzzle result, over the lobby or the finished puzzle
+  const dailyResultModal = dailyResult && (
+    <DailyPuzzleResult
+      result={dailyResult}
+      streak={getDailyStreak(loadDailyResults(), getDailyPuzzleId())}
+      onClose={closeDailyResult}
+    />
+  );
+
+  // Puzzle packs, over the lobby or the puzzle just played
+  const puzzleModal = showPuzzles && (
+    <PuzzleScreen
+      userId={user?.uid ?? GUEST_PUZZLE_USER}
+      current={engine?.getState().puzzle}
+      attempt={puzzleAttempt}
+      onPlay={handlePlayPuzzle}
+      onClose={closePuzzles}
+    />
+  );
+
   // Multiplayer: Show lobby if not in a playing game
   if (!isMultiplayer && (room?.status === 'waiting' || !room)) {
     // Show lobby for multiplayer flow (room is null or waiting)
     // Check if user has interacted with multiplayer (connected but not in local game)
     if (connected && !gameManager && !showSetup) {
       return (
-        <LobbyScreen
-          connected={connected}
-          error={firebaseError}
-          clearError={clearFirebaseError}
-          roomCode={roomCode}
-          room={room}
-          isHost={isHost}
-          playerId={playerId}
-          createRoom={createRoom}
-          joinRoom={joinRoom}
-          leaveRoom={leaveRoom}
-          setReady={setReady}
-          startGame={firebaseStartGame}
-          onPlaySolo={() => setShowSetup(true)}
-          getActiveGame={getActiveGame}
-        />
+        <>
+          <LobbyScreen
+            connected={connected}
+            error={firebaseError}
+            clearError={clearFirebaseError}
+            roomCode={roomCode}
+            room={room}
+            isHost={isHost}
+            isSpectator={isSpectator}
+            playerId={playerId}
+            createRoom={createRoom}
+            joinRoom={joinRoom}
+            spectateRoom={spectateRoom}
+            leaveRoom={leaveRoom}
+            setReady={setReady}
+            startGame={firebaseStartGame}
+            onPlaySolo={() => setShowSetup(true)}
+            savedGames={savedGames}
+            onLoadGame={handleLoadGame}
+            onDeleteSave={handleDeleteSave}
+            onImportNotation={handleImportNotation}
+            onPlayDaily={handlePlayDaily}
+            todaysDailyScore={loadDailyResults()[getDailyPuzzleId()]?.score}
+            onOpenPuzzles={() => setShowPuzzles(true)}
+            getActiveGame={getActiveGame}
+          />
+          {dailyResultModal}
+          {puzzleModal}
+        </>
       );
     }
   }
@@ -2537,9 +3235,13 @@ function App() {
 
   // Find MY player index in the game (the player I control)
   // In multiplayer: room.players[i].id is socket ID, game players use index as ID
+  // In local mode we control the current player (or the first human while a bot plays)
+  const localTurnPlayer = state?.players[state?.currentPlayerId ?? 0];
   const myPlayerIndex = isMultiplayer
     ? room!.players.findIndex(rp => rp.id === playerId)
-    : state?.currentPlayerId ?? 0;  // In local mode, we control current player
+    : localTurnPlayer?.isBot
+      ? (state?.players.find(p => !p.isBot)?.id ?? 0)
+      : state?.currentPlayerId ?? 0;
 
   // Get my player object (the one I control) 
   // In multiplayer: use local rack for optimistic updates, server rack for score/other data
@@ -2551,36 +3253,61 @@ function App() {
   // Get the current turn player (may or may not be me)
   const currentTurnPlayer = state?.players[state?.currentPlayerId ?? 0];
 
+  // Engine holding the turn and clock timestamps
+  const timeEngine = isMultiplayer ? localMultiplayerEngine : engine;
+
   // Is it my turn?
   const isMyTurn = isMultiplayer
     ? state?.currentPlayerId === myPlayerIndex
-    : true;  // In local mode, it's always "my turn" (hotseat mode)
+    : !currentTurnPlayer?.isBot;  // In local mode, it's always "my turn" (hotseat mode) unless a bot is playing
+  // The board takes no input while a cascade plays out
+  const canUseBoard = isMyTurn && !cascadeBoard;
 
-  if (!state || !myPlayer) {
+  if (!state || (!myPlayer && !spectating)) {
     // Show lobby if we don't have a game state yet
     return (
-      <LobbyScreen
-        connected={connected}
-        error={firebaseError}
-        clearError={clearFirebaseError}
-        roomCode={roomCode}
-        room={room}
-        isHost={isHost}
-        playerId={playerId}
-        createRoom={createRoom}
-        joinRoom={joinRoom}
-        leaveRoom={leaveRoom}
-        setReady={setReady}
-        startGame={firebaseStartGame}
-        onPlaySolo={() => setShowSetup(true)}
-        getActiveGame={getActiveGame}
-      />
+      <>
+        <LobbyScreen
+          connected={connected}
+          error={firebaseError}
+          clearError={clearFirebaseError}
+          roomCode={roomCode}
+          room={room}
+          isHost={isHost}
+          isSpectator={isSpectator}
+          playerId={playerId}
+          createRoom={createRoom}
+          joinRoom={joinRoom}
+          spectateRoom={spectateRoom}
+          leaveRoom={leaveRoom}
+          setReady={setReady}
+          startGame={firebaseStartGame}
+          onPlaySolo={() => setShowSetup(true)}
+          savedGames={savedGames}
+          onLoadGame={handleLoadGame}
+          onDeleteSave={handleDeleteSave}
+          onImportNotation={handleImportNotation}
+          onPlayDaily={handlePlayDaily}
+          todaysDailyScore={loadDailyResults()[getDailyPuzzleId()]?.score}
+          onOpenPuzzles={() => setShowPuzzles(true)}
+          getActiveGame={getActiveGame}
+        />
+        {dailyResultModal}
+        {puzzleModal}
+      </>
     );
   }
 
   // Whose turn is it? Show in navbar
   const turnIndicatorName = currentTurnPlayer?.name ?? 'Unknown';
 
+  // Spectators leave without touching the active game they may have elsewhere
+  const handleStopWatching = () => {
+    setShowWinScreen(false);
+    setWinnerInfo(null);
+    leaveRoom();
+  };
+
   // Debug: Log tiles placed this turn
   // In batch mode, we track tiles locally (tilesPlacedThisTurn), not from server (firebaseTilesPlacedThisTurn)
   // This ensures delete buttons show for locally placed tiles before submit
@@ -2590,12 +3317,22 @@ function App() {
   return (
     <div className="game-container" key={renderKey}>
       <Navbar
-        currentPlayerName={isMyTurn ? `Your turn (${myPlayer.name})` : `${turnIndicatorName}'s turn`}
-        onStartNewGame={handleStartNewGame}
-        onClearBoard={handleClearBoard}
+        currentPlayerName={
+          currentTurnPlayer?.isBot && !isMultiplayer
+            ? UI_MESSAGES.bots.thinking(turnIndicatorName)
+            : spectating || !myPlayer
+              ? UI_MESSAGES.spectators.watchingTurn(turnIndicatorName)
+              : isMyTurn ? `Your turn (${myPlayer.name})` : `${turnIndicatorName}'s turn`
+        }
+        onStartNewGame={!spectating ? handleStartNewGame : undefined}
+        onClearBoard={!spectating && timeEngine?.canClearBoard(myPlayerIndex) ? handleClearBoard : undefined}
         onToggleSound={handleToggleSound}
-        onEndGame={handleEndGame}
+        onEndGame={!spectating ? handleEndGame : undefined}
+        onStopWatching={spectating ? handleStopWatching : undefined}
+        onSaveGame={!isMultiplayer ? () => setShowSaveModal(true) : undefined}
+        onCopyNotation={!isMultiplayer ? handleCopyNotation : undefined}
         soundEnabled={soundEnabled}
+        houseRules={houseRules}
       />
       {/* Solo mode: custom score display (or hide in zen mode) */}
       {state.gameMode === 'solo' ? (
@@ -2603,31 +3340,49 @@ function App() {
           <div className="solo-score-display">
             <div className="current-score-label">Score</div>
             <div className="current-score">{myPlayer?.score || 0}</div>
-            <div className="high-score-info">🏅 Best: {highScore}</div>
+            {state.dailyPuzzle ? (
+              <div className="high-score-info">{UI_MESSAGES.daily.turnsLeft(Math.max(0, state.dailyPuzzle.turns - getTurnsPlayed(state)))}</div>
+            ) : state.puzzle ? (
+              <div className="high-score-info">🧩 {UI_MESSAGES.puzzles.goal(state.puzzle.goal)}</div>
+            ) : (
+              <div className="high-score-info">🏅 Best: {highScore}</div>
+            )}
           </div>
         )
       ) : (
-        <ScoreArea players={state.players} currentPlayerId={state.currentPlayerId} />
+        <ScoreArea
+          players={state.players}
+          currentPlayerId={state.currentPlayerId}
+          turnTimeLeft={isTimed ? timeEngine?.getTurnTimeLeft(timeClock) ?? null : null}
+          clocks={isTimed && state.timeControl?.clockMs && timeEngine
+            ? Object.fromEntries(state.players.map(p => [p.id, timeEngine.getClockTimeLeft(p.id, timeClock) ?? 0]))
+            : undefined}
+        />
+      )}
+      {isMultiplayer && room && room.spectators.length > 0 && (
+        <div className="spectator-count">{UI_MESSAGES.spectators.watching(room.spectators.length)}</div>
       )}
       <div className="board-and-words-container">
         <div className="board-container">
           <Board
-            board={state.board}
+            board={cascadeBoard ?? state.board}
+            minWordLength={minWordLength}
             selectedPositions={selectedWordPositions}
             isPlacingTiles={isPlacingTiles}
-            onColumnClick={isMyTurn ? handleColumnClick : () => { }}
-            onTileDrop={isMyTurn ? handleTileDrop : () => { }}
-            onTileRemove={isMyTurn ? handleTileRemove : () => { }}
+            onColumnClick={canUseBoard ? handleColumnClick : () => { }}
+            onTileDrop={canUseBoard ? handleTileDrop : () => { }}
+            onTileRemove={canUseBoard ? handleTileRemove : () => { }}
             fallingTiles={fallingTiles}
             fallingTileData={fallingTileData}
             removingTiles={removingTiles}
+            vanishingTiles={vanishingTiles}
             removingTileData={removingTileData}
             bottomRowShake={bottomRowShake}
-            currentPlayerId={myPlayer.id}
-            onWordSelect={isMyTurn ? handleWordSelect : () => { }}
+            currentPlayerId={myPlayer?.id}
+            onWordSelect={canUseBoard ? handleWordSelect : () => { }}
             tilesPlacedThisTurn={finalTilesPlacedThisTurn}
-            onTileMove={isMyTurn ? handleTileMove : undefined}
-            onBlankTileEdit={isMyTurn ? handleBlankTileEdit : () => { }}
+            onTileMove={canUseBoard ? handleTileMove : undefined}
+            onBlankTileEdit={canUseBoard ? handleBlankTileEdit : () => { }}
             palindromeTiles={palindromeTiles}
             emordnilapTiles={emordnilapTiles}
             emordnilapPositions={emordnilapPositions}
@@ -2637,50 +3392,75 @@ function App() {
         </div>
         <WordsPanel claimedWords={state.claimedWords} players={state.players} className="desktop-words-panel" />
       </div>
-      <div className="rack-and-actions-container">
-        <Rack
-          tiles={myPlayer.rack}
-          selectedIndices={selectedTiles}
-          onTileClick={handleTileSelect}
-          onTileDragStart={(index, tile) => {
-            // Optional: visual feedback when dragging starts
-          }}
-          playerId={myPlayer.id}
-          disabled={!isMyTurn}
-          hintedIndices={hintedTileIndices}
-          swapHintedIndices={swapHintedTileIndices}
-        />
-        <ActionButtons
-          canSubmit={tilesPlacedThisTurn.length > 0 || pendingPlacements.length > 0 || selectedWords.length > 0}
-          onSubmit={handleSubmitMove}
-          onSwap={handleSwapTiles}
-          canSwap={selectedTiles.length > 0}
-          recognizedWords={recognizedWords}
-          hasWordSelected={selectedWords.length > 0}
-          selectedTilesCount={selectedTiles.length}
-          onClearSelection={() => {
-            setSelectedWords([]);
-            setRenderKey(prev => prev + 1);
-          }}
-          onHint={
-            isMultiplayer
-              ? (room?.hintsEnabled !== false ? handleHint : undefined)
-              : (engine?.getState().hintsEnabled !== false ? handleHint : undefined)
-          }
-          hintLevel={hintLevel}
-          canHint={isMyTurn && trie !== null}
-          hintMessage={hintMessage}
-        />
-      </div >
+      {myPlayer && !spectating && (
+        <div className="rack-and-actions-container">
+          <Rack
+            tiles={myPlayer.rack}
+            selectedIndices={selectedTiles}
+            onTileClick={handleTileSelect}
+            onTileDragStart={(index, tile) => {
+              // Optional: visual feedback when dragging starts
+            }}
+            playerId={myPlayer.id}
+            disabled={!isMyTurn}
+            hintedIndices={hintedTileIndices}
+            swapHintedIndices={swapHintedTileIndices}
+          />
+          <ActionButtons
+            canSubmit={tilesPlacedThisTurn.length > 0 || pendingPlacements.length > 0 || selectedWords.length > 0}
+            onSubmit={handleSubmitMove}
+            onSwap={handleSwapTiles}
+            canSwap={selectedTiles.length > 0}
+            onChallenge={state.challengeMode ? handleChallenge : undefined}
+            challengeSecondsLeft={
+              // Any opponent of the player may challenge in rooms; locally it's the player whose turn it is
+              challengeClosesAt !== undefined && (isMultiplayer
+                ? state.pendingChallenge?.playerId !== myPlayerIndex
+                : isMyTurn && state.pendingChallenge?.playerId !== state.currentPlayerId)
+                ? Math.max(0, Math.ceil((challengeClosesAt - challengeClock) / 1000))
+                : 0
+            }
+            challengeTargetName={state.players.find(p => p.id === state.pendingChallenge?.playerId)?.name}
+            onPass={handlePassTurn}
+            canPass={isMyTurn}
+            hasPlacedTiles={tilesPlacedThisTurn.length > 0 || pendingPlacements.length > 0}
+            recognizedWords={recognizedWords}
+            hasWordSelected={selectedWords.length > 0}
+            selectedTilesCount={selectedTiles.length}
+            onClearSelection={() => {
+              setSelectedWords([]);
+              setRenderKey(prev => prev + 1);
+            }}
+            onHint={
+              isMultiplayer
+                ? (room?.hintsEnabled !== false ? handleHint : undefined)
+                : (engine?.getState().hintsEnabled !== false ? handleHint : undefined)
+            }
+            hintLevel={hintLevel}
+            canHint={isMyTurn && trie !== null}
+            hintMessage={hintMessage}
+            onUndo={!isMultiplayer && !state.dailyPuzzle ? handleUndoTurn : undefined}
+            canUndo={isMyTurn && !!engine?.canUndo()}
+            onRedo={!isMultiplayer && !state.dailyPuzzle ? handleRedoTurn : undefined}
+            canRedo={isMyTurn && !!engine?.canRedo()}
+          />
+        </div >
+      )}
       <WordsPanel claimedWords={state.claimedWords} players={state.players} className="mobile-words-panel" />
       <ErrorModal
         isOpen={errorModal.isOpen}
         message={errorModal.message}
         onClose={closeErrorModal}
       />
+      <SaveGameModal
+        isOpen={showSaveModal}
+        saves={savedGames}
+        onSave={handleSaveGame}
+        onCancel={() => setShowSaveModal(false)}
+      />
       <SwapConfirmModal
         isOpen={showSwapConfirm}
-        selectedTiles={selectedTiles.map(index => myPlayer.rack[index]).filter(Boolean)}
+        selectedTiles={myPlayer ? selectedTiles.map(index => myPlayer.rack[index]).filter(Boolean) : []}
         onConfirm={confirmSwapTiles}
         onCancel={cancelSwapTiles}
       />
@@ -2688,6 +3468,7 @@ function App() {
         isOpen={blankTileModal.isOpen}
         position={blankTileModal.position}
         currentLetter={blankTileModal.currentLetter}
+        alphabet={getLanguagePack(gameLanguage).alphabet}
         onConfirm={handleBlankTileConfirm}
         onCancel={handleBlankTileCancel}
       />
@@ -2725,6 +3506,17 @@ function App() {
           />
         )
       }
+      {
+        comboBonus && (
+          <BonusOverlay
+            show={comboBonus.show}
+            text={UI_MESSAGES.cascade.comboBonus(comboBonus.multiplier)}
+            points={comboBonus.points}
+            playerColor={comboBonus.playerColor}
+            onComplete={() => setComboBonus(null)}
+          />
+        )
+      }
       <NewGameRequestModal
         isOpen={newGameRequestModal.isOpen}
         mode={newGameRequestModal.mode}
@@ -2746,9 +3538,29 @@ function App() {
           winnerScore={winnerInfo.score}
           targetScore={winnerInfo.targetScore}
           allPlayers={winnerInfo.allPlayers}
-          onContinuePlaying={handleContinuePlaying}
-          onNewGame={handleWinNewGame}
-          onGoHome={handleWinGoHome}
+          endReason={winnerInfo.endReason}
+          standings={winnerInfo.standings}
+          onContinuePlaying={!spectating ? handleContinuePlaying : undefined}
+          onNewGame={!spectating ? handleWinNewGame : undefined}
+          onGoHome={spectating ? handleStopWatching : handleWinGoHome}
+          onWatchReplay={handleWatchReplay}
+          onAnalyzeGame={!isMultiplayer ? handleAnalyzeGame : undefined}
+        />
+      )}
+      {replayFrames && (
+        <ReplayViewer
+          frames={replayFrames}
+          playerNames={state.players.map((p, idx) => (isMultiplayer ? room?.players[idx]?.name : undefined) || p.name)}
+          minWordLength={minWordLength}
+          onClose={() => setReplayFrames(null)}
+        />
+      )}
+      {analysis && (
+        <AnalysisScreen
+          turns={analysis.turns}
+          progress={{ analyzed: analysis.analyzed, total: analysis.total }}
+          playerNames={state.players.map(p => p.name)}
+          onClose={closeAnalysis}
         />
       )}
       {/* Solo Game Over Modal */}
@@ -2762,6 +3574,9 @@ function App() {
             ) : (
               <div className="high-score">🏅 High Score: {highScore}</div>
             )}
+            {!isRankedGame(state) && (
+              <p className="high-score">{UI_MESSAGES.leaderboard.unranked}</p>
+            )}
             <div className="btn-group">
               <button
                 className="btn btn-primary"
@@ -2772,10 +3587,16 @@ function App() {
               >
                 🔄 Play Again
               </button>
+              <button className="btn btn-secondary" onClick={() => setShowLeaderboard(true)}>
+                {UI_MESSAGES.leaderboard.open}
+              </button>
             </div>
           </div>
         </div>
       )}
+      {showLeaderboard && <LeaderboardScreen onClose={() => setShowLeaderboard(false)} />}
+      {dailyResultModal}
+      {puzzleModal}
     </div >
   );
 }
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for computer opponents
+ * Tests move choice, turns played through the engine and recovering from a failed turn
+ */
+
+import { GameStateManager } from './game-state-manager';
+import { buildTrieFromDictionary } from './hint-engine';
+import { chooseBotMove, playBotTurn, abandonBotTurn } from './bot-player';
+
+const setupGame = () => {
+    const manager = GameStateManager.createNewGame(2, ['Human', 'Bot'], 100, {
+        seed: 1,
+        bots: [null, 'hard']
+    });
+    const state = manager.getState();
+
+    // Give the bot a known rack and make it their turn
+    const bot = state.players[1];
+    bot.rack = [
+        { letter: 'C', points: 3 },
+        { letter: 'A', points: 1 },
+        { letter: 'T', points: 1 },
+        { letter: 'Q', points: 10 }
+    ];
+    state.currentPlayerId = bot.id;
+
+    // Undo goes back to this position, so the history starts here
+    delete state.history;
+    delete state.historyBase;
+    return { manager: GameStateManager.loadGame(state), bot };
+};
+
+describe('Bot players', () => {
+    const dictionary = new Set(['CAT', 'ACT']);
+    const trie = buildTrieFromDictionary(dictionary);
+
+    it('should mark bot players when creating a game', () => {
+        const manager = GameStateManager.createNewGame(3, ['A', 'B', 'C'], 100, { bots: [null, 'easy', 'hard'] });
+        const players = manager.getState().players;
+
+        expect(players[0].isBot).toBeUndefined();
+        expect(players[1]).toMatchObject({ isBot: true, botDifficulty: 'easy' });
+        expect(manager.getBots()).toEqual([null, 'easy', 'hard']);
+    });
+
+    it('should choose the best scoring move on hard', async () => {
+        const { manager, bot } = setupGame();
+
+        const decision = await chooseBotMove(manager.getState(), bot.id, trie, dictionary, 'hard');
+
+        expect(decision).toMatchObject({ type: 'play', move: { placements: expect.any(Array) } });
+        expect((decision as any).move.placements).toHaveLength(3);
+    });
+
+    it('should play a full turn through the engine', async () => {
+        const { manager, bot } = setupGame();
+        const engine = manager.getEngine();
+
+        const result = await playBotTurn(engine, bot.id, trie, dictionary, 'hard');
+        const state = engine.getState();
+
+        expect(result.type).toBe('play');
+        expect(result.score).toBeGreaterThan(0);
+        expect(state.players[1].score).toBe(result.score);
+        expect(state.players[1].rack).toHaveLength(7);
+        expect(state.claimedWords.length).toBeGreaterThan(0);
+        expect(state.currentPlayerId).not.toBe(bot.id);
+        expect(engine.getHistory().map(a => a.type)).toEqual(
+            expect.arrayContaining(['rack_remove', 'place', 'claim', 'draw', 'advance_turn'])
+        );
+    });
+
+    it('should swap when no word can be formed', async () => {
+        const { manager, bot } = setupGame();
+        const engine = manager.getEngine();
+
+        const result = await playBotTurn(engine, bot.id, buildTrieFromDictionary(new Set(['ZZZ'])), new Set(['ZZZ']), 'easy');
+
+        expect(result.type).toBe('swap');
+        expect(result.tilesSwapped).toBeGreaterThan(0);
+        expect(engine.getState().currentPlayerId).not.toBe(bot.id);
+    });
+
+    it('should pass when stuck with an empty bag', async () => {
+        const { manager, bot } = setupGame();
+        const engine = manager.getEngine();
+        (engine as any).state.tileBag = [];
+
+        const result = await playBotTurn(engine, bot.id, buildTrieFromDictionary(new Set(['ZZZ'])), new Set(['ZZZ']), 'easy');
+
+        expect(result.type).toBe('pass');
+        expect(engine.getState().players[1].rack).toHaveLength(4);
+        expect(engine.getHistory().slice(-2).map(a => a.type)).toEqual(['pass', 'advance_turn']);
+    });
+
+    it('should undo a failed move and pass instead', async () => {
+        const { manager, bot } = setupGame();
+        const engine = manager.getEngine();
+        const rack = manager.getState().players[1].rack;
+
+        // The move is found in the trie but the dictionary rejects it after the tiles are down
+        await expect(playBotTurn(engine, bot.id, trie, new Set(['DOG']), 'hard')).rejects.toThrow('Bot move rejected');
+        const result = abandonBotTurn(engine, bot.id);
+        const state = engine.getState();
+
+        expect(result.type).toBe('pass');
+        expect(state.board.flat().every(tile => tile === null)).toBe(true);
+        expect(state.players[1].rack).toEqual(rack);
+        expect(state.currentPlayerId).not.toBe(bot.id);
+        expect(() => abandonBotTurn(engine, bot.id)).toThrow(`It is not player ${bot.id}'s turn`);
+    });
+
+    it('should refuse to play out of turn', async () => {
+        const { manager } = setupGame();
+
+        await expect(playBotTurn(manager.getEngine(), 0, trie, dictionary, 'easy')).rejects.toThrow("It is not player 0's turn");
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Computer opponents - choose and play turns through GrabbleEngine
+ */
+
+import type { BotDifficulty, GameState, Position } from './types';
+import { TURN_END_ACTIONS } from './types';
+import type { GrabbleEngine } from './game-engine';
+import type { RandomFn } from './rng';
+import { findBestMoves, getSwapSuggestion } from './hint-engine';
+import type { Trie, ScoredMove } from './hint-engine';
+import { getLanguagePack } from './language-packs';
+import { resolveHouseRules } from './house-rules';
+
+/**
+ * Search limits and play style for each difficulty
+ */
+interface BotProfile {
+    maxTiles: number;       // Most tiles the bot considers in one move
+    maxNodes: number;       // Move search node budget
+    timeBudgetMs: number;   // Move search time budget
+    topChoices: number;     // Picks randomly among this many best moves
+}
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+    easy: { maxTiles: 2, maxNodes: 3000, timeBudgetMs: 150, topChoices: 8 },
+    medium: { maxTiles: 3, maxNodes: 10000, timeBudgetMs: 300, topChoices: 3 },
+    hard: { maxTiles: 7, maxNodes: 40000, timeBudgetMs: 800, topChoices: 1 }
+};
+
+/**
+ * Decision made by a bot for its turn
+ */
+export type BotDecision =
+    | { type: 'play'; move: ScoredMove }
+    | { type: 'swap'; tileIndices: number[] }
+    | { type: 'pass' };
+
+/**
+ * Summary of a turn played by a bot
+ */
+export interface BotTurnResult {
+    type: 'play' | 'swap' | 'pass';
+    words: string[];
+    score: number;
+    tilesSwapped: number;
+    winnerId: number | null;  // Set if the game ended on this turn
+}
+
+/**
+ * Choose a move for a bot player without changing the game
+ */
+export async function chooseBotMove(
+    state: GameState,
+    playerId: number,
+    trie: Trie,
+    dictionary: Set<string>,
+    difficulty: BotDifficulty,
+    random: RandomFn = Math.random
+): Promise<BotDecision> {
+    const player = state.players.find(p => p.id === playerId);
+    if (!player) {
+        throw new Error(`Player ${playerId} not found`);
+    }
+
+    const profile = BOT_PROFILES[difficulty];
+    const { moves } = await findBestMoves(state.board, player.rack, trie, dictionary, {
+        maxTiles: profile.maxTiles,
+        maxNodes: profile.maxNodes,
+        timeBudgetMs: profile.timeBudgetMs,
+        maxResults: profile.topChoices,
+        claimedWords: state.claimedWords,
+        alphabet: getLanguagePack(state.language).alphabet,
+        houseRules: resolveHouseRules(state.houseRules)
+    });
+
+    if (moves.length > 0) {
+        const move = moves[Math.floor(random() * moves.length)];
+        return { type: 'play', move };
+    }
+
+    // Stuck with an empty bag: swapping can't change the rack
+    if (state.tileBag.length === 0) {
+        return { type: 'pass' };
+    }
+
+    // Stuck: swap the hardest tiles
+    return { type: 'swap', tileIndices: getSwapSuggestion(player.rack) };
+}
+
+/**
+ * Play a full turn for a bot using the same engine calls as a human turn:
+ * rack removal, tile drops, blank letters, word claims, refill and turn advance
+ */
+export async function playBotTurn(
+    engine: GrabbleEngine,
+    playerId: number,
+    trie: Trie,
+    dictionary: Set<string>,
+    difficulty: BotDifficulty,
+    random: RandomFn = Math.random
+): Promise<BotTurnResult> {
+    const state = engine.getState();
+    if (state.currentPlayerId !== playerId) {
+        throw new Error(`It is not player ${playerId}'s turn`);
+    }
+
+    const decision = await chooseBotMove(state, playerId, trie, dictionary, difficulty, random);
+
+    if (decision.type === 'play') {
+        const { move } = decision;
+        const tiles = engine.removeTilesFromRack(playerId, move.placements.map(p => p.tileIndex));
+        const sortedIndices = move.placements.map(p => p.tileIndex).sort((a, b) => a - b);
+
+        // Drop tiles one at a time, matching the order the move was generated in
+        const newTiles: Position[] = [];
+        for (const placement of move.placements) {
+            const tile = tiles[sortedIndices.indexOf(placement.tileIndex)];
+            engine.placeTiles([{ column: placement.column, tile }], playerId);
+            newTiles.push(placement.position);
+            if (placement.blankLetter) {
+                engine.setBlankTileLetter(placement.position.x, placement.position.y, placement.blankLetter, playerId);
+            }
+        }
+
+        const claims = move.words.map(w => ({ positions: w.positions, playerId }));
+        const result = await engine.processWordClaims(claims, newTiles, dictionary);
+        if (!result.valid) {
+            throw new Error(`Bot move rejected: ${result.results.find(r => r.error)?.error || 'unknown error'}`);
+        }
+
+        engine.refillPlayerRack(playerId);
+        engine.advanceTurn();
+        const winnerId = engine.checkWinCondition();
+
+        console.log(`🤖 Bot ${playerId} played ${move.words.map(w => w.word).join(', ')} for ${result.totalScore}`);
+        return {
+            type: 'play',
+            words: move.words.map(w => w.word),
+            score: result.totalScore,
+            tilesSwapped: 0,
+            winnerId
+        };
+    }
+
+    if (decision.type === 'pass') {
+        engine.passTurn(playerId);
+        console.log(`🤖 Bot ${playerId} passed`);
+        return { type: 'pass', words: [], score: 0, tilesSwapped: 0, winnerId: engine.checkWinCondition() };
+    }
+
+    engine.swapTiles(playerId, decision.tileIndices);
+    engine.advanceTurn();
+    const winnerId = engine.checkWinCondition();
+
+    console.log(`🤖 Bot ${playerId} swapped ${decision.tileIndices.length} tiles`);
+    return {
+        type: 'swap',
+        words: [],
+        score: 0,
+        tilesSwapped: decision.tileIndices.length,
+        winnerId
+    };
+}
+
+/**
+ * Give up a bot turn that failed part way: undo what it applied, then pass
+ * Throws if the turn can't be passed either
+ */
+export function abandonBotTurn(engine: GrabbleEngine, playerId: number): BotTurnResult {
+    const history = engine.getHistory();
+    const last = history[history.length - 1];
+    if (last && !TURN_END_ACTIONS.includes(last.type)) {
+        engine.undoTurn();
+    }
+
+    engine.passTurn(playerId);
+    console.log(`🤖 Bot ${playerId} passed after a failed move`);
+    return { type: 'pass', words: [], score: 0, tilesSwapped: 0, winnerId: engine.checkWinCondition() };
+}
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the cascade rule
+ * Tests gravity after clearing, words formed by falls and combo chains through the engine
+ */
+
+import { clearAndDrop, findCascadeWords } from './cascade';
+import { GameStateManager } from './game-state-manager';
+import type { GameState, Tile } from './types';
+import { DEFAULT_HOUSE_RULES } from './types';
+
+const dictionary = new Set(['CAT', 'DOG', 'TONE']);
+
+// Rows top to bottom, '.' = empty, every tile worth 1 point
+const makeBoard = (rows: string[]): (Tile | null)[][] =>
+    rows.map(row => row.split('').map(letter => letter === '.' ? null : { letter, points: 1 }));
+
+const letters = (board: (Tile | null)[][]) => board.map(row => row.map(t => t?.letter ?? '.').join(''));
+
+// CAT vanishes, DOG falls onto the bottom row, then TONE forms next to the E that never moved
+const chainBoard = [
+    '....',
+    'TON.',
+    'DOG.',
+    'CATE'
+];
+
+function createCascadeGame(rows: string[]): GameStateManager {
+    const board = makeBoard(rows);
+    const state: GameState = GameStateManager.createNewGame(1, ['Ann'], 0, {
+        boardWidth: board[0].length,
+        boardHeight: board.length,
+        gameMode: 'solo',
+        houseRules: { ...DEFAULT_HOUSE_RULES, cascade: true }
+    }).getState();
+    state.board = board;
+    delete state.history;
+    delete state.historyBase;
+    return GameStateManager.loadGame(state);
+}
+
+describe('Cascade', () => {
+    it('should clear positions and drop the tiles above', () => {
+        const { board, falls } = clearAndDrop(makeBoard(chainBoard), [0, 1, 2].map(x => ({ x, y: 3 })));
+
+        expect(letters(board)).toEqual(['....', '....', 'TON.', 'DOGE']);
+        expect(falls).toContainEqual({ from: { x: 0, y: 2 }, to: { x: 0, y: 3 } });
+        expect(falls).toHaveLength(6);
+    });
+
+    it('should find the words fallen tiles form, in either reading direction', () => {
+        const board = makeBoard(['...', 'GOD']);
+
+        expect(findCascadeWords(board, [{ x: 0, y: 1 }, { x: 1, y: 1 }], dictionary, 3))
+            .toEqual([[{ x: 2, y: 1 }, { x: 1, y: 1 }, { x: 0, y: 1 }]]);
+        expect(findCascadeWords(board, [{ x: 0, y: 1 }], new Set(['CAT']), 3)).toEqual([]);
+    });
+
+    it('should chain words formed by falls with rising combo multipliers', async () => {
+        const manager = createCascadeGame(chainBoard);
+        const engine = manager.getEngine();
+
+        const positions = [0, 1, 2].map(x => ({ x, y: 3 }));
+        const result = await engine.processWordClaims([{ positions, playerId: 0 }], [], dictionary);
+        expect(result.valid).toBe(true);
+        expect(result.totalScore).toBe(3);
+
+        const steps = result.cascade!;
+        expect(steps.map(s => s.words.map(w => [w.word, w.score, w.combo]))).toEqual([
+            [['DOG', 6, 2]],
+            [['TONE', 12, 3]],
+            []
+        ]);
+
+        const state = manager.getState();
+        expect(letters(state.board)).toEqual(['....', '....', '....', '....']);
+        expect(state.players[0].score).toBe(3 + 6 + 12);
+        expect(state.claimedWords.map(w => w.word)).toEqual(['CAT', 'DOG', 'TONE']);
+
+        // Replaying the history rebuilds the cascade from the recorded steps
+        engine.advanceTurn();
+        expect(engine.getStateAtAction(state.history!.length).board).toEqual(state.board);
+        expect(engine.undoTurn()).toBe(true);
+        expect(letters(manager.getState().board)).toEqual(chainBoard);
+    });
+
+    it('should leave claimed words on the board without the rule', async () => {
+        const manager = createCascadeGame(chainBoard);
+        const state = manager.getState();
+        state.houseRules = { ...state.houseRules!, cascade: false };
+        const engine = GameStateManager.loadGame(state).getEngine();
+
+        const result = await engine.processWordClaims([{ positions: [0, 1, 2].map(x => ({ x, y: 3 })), playerId: 0 }], [], dictionary);
+        expect(result.cascade).toBeUndefined();
+        expect(letters(engine.getState().board)).toEqual(chainBoard);
+    });
+});
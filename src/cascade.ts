@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Cascade rule - claimed words vanish, the tiles above fall and can form new words
+ */
+
+import type { Tile, Position, TileFall } from './types';
+
+/**
+ * Line axes a word can lie on (each is read both ways)
+ */
+const AXES = [
+    { dx: 1, dy: 0 },   // Horizontal
+    { dx: 0, dy: 1 },   // Vertical
+    { dx: 1, dy: 1 },   // Diagonal down-right
+    { dx: 1, dy: -1 }   // Diagonal up-right
+];
+
+/**
+ * Combo multiplier for the words formed by the given link of a chain (1 = first fall)
+ */
+export function getComboMultiplier(link: number): number {
+    return link + 1;
+}
+
+/**
+ * Clear positions from a board and let the tiles above fall into the gaps
+ * Returns a new board and where each tile that moved fell from and to
+ */
+export function clearAndDrop(
+    board: (Tile | null)[][],
+    cleared: Position[]
+): { board: (Tile | null)[][]; falls: TileFall[] } {
+    const next = board.map(row => [...row]);
+    for (const pos of cleared) {
+        if (next[pos.y]?.[pos.x] !== undefined) {
+            next[pos.y][pos.x] = null;
+        }
+    }
+
+    const falls: TileFall[] = [];
+    const height = next.length;
+    const width = next[0]?.length ?? 0;
+
+    for (let x = 0; x < width; x++) {
+        // Walk up the column, moving each tile down to the lowest free row
+        let landing = height - 1;
+        for (let y = height - 1; y >= 0; y--) {
+            const tile = next[y][x];
+            if (tile === null) continue;
+            if (y !== landing) {
+                next[landing][x] = tile;
+                next[y][x] = null;
+                falls.push({ from: { x, y }, to: { x, y: landing } });
+            }
+            landing--;
+        }
+    }
+
+    return { board: next, falls };
+}
+
+/**
+ * Read the word on a line of positions, in the order given
+ */
+function readWord(board: (Tile | null)[][], positions: Position[]): string {
+    return positions.map(pos => {
+        const tile = board[pos.y][pos.x]!;
+        return tile.letter === ' ' && tile.blankLetter ? tile.blankLetter : tile.letter;
+    }).join('').toUpperCase();
+}
+
+/**
+ * Find the words that tiles formed by falling
+ * Through each fallen tile, on each axis, the longest dictionary word containing it counts
+ * Returns each word's positions in reading order, without duplicates
+ */
+export function findCascadeWords(
+    board: (Tile | null)[][],
+    moved: Position[],
+    dictionary: Set<string>,
+    minWordLength: number
+): Position[][] {
+    const height = board.length;
+    const width = board[0]?.length ?? 0;
+    const occupied = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height && board[y][x] !== null;
+
+    const words: Position[][] = [];
+    const seen = new Set<string>();
+
+    for (const pos of moved) {
+        if (!occupied(pos.x, pos.y)) continue;
+
+        for (const { dx, dy } of AXES) {
+            // The run of tiles on this axis through the fallen tile
+            let x = pos.x;
+            let y = pos.y;
+            while (occupied(x - dx, y - dy)) {
+                x -= dx;
+                y -= dy;
+            }
+            const run: Position[] = [];
+            for (; occupied(x, y); x += dx, y += dy) {
+                run.push({ x, y });
+            }
+            const index = run.findIndex(p => p.x === pos.x && p.y === pos.y);
+
+            // Longest segment through the tile that reads as a word either way
+            let best: Position[] | null = null;
+            for (let start = 0; start <= index; start++) {
+                for (let end = run.length; end > index; end--) {
+                    const length = end - start;
+                    if (length < minWordLength || (best && length <= best.length)) continue;
+
+                    const segment = run.slice(start, end);
+                    const reversed = [...segment].reverse();
+                    if (dictionary.has(readWord(board, segment))) {
+                        best = segment;
+                    } else if (dictionary.has(readWord(board, reversed))) {
+                        best = reversed;
+                    }
+                }
+            }
+
+            if (best) {
+                const key = best.map(p => `${p.x},${p.y}`).sort().join('|');
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    words.push(best);
+                }
+            }
+        }
+    }
+
+    return words;
+}
@@ -6,6 +6,13 @@ interface ActionButtonsProps {
   onSubmit: () => void;
   onSwap: () => void;
   canSwap: boolean;
+  // Challenge mode: challenge the last play while its window is open
+  onChallenge?: () => void;
+  challengeSecondsLeft?: number;
+  challengeTargetName?: string;
+  onPass?: () => void;
+  canPass?: boolean;
+  hasPlacedTiles?: boolean;
   recognizedWords: string[];
   hasWordSelected: boolean;
   onClearSelection?: () => void;
@@ -15,6 +22,11 @@ interface ActionButtonsProps {
   hintLevel?: number;
   canHint?: boolean;
   hintMessage?: string;
+  // Undo/redo props (local games only)
+  onUndo?: () => void;
+  canUndo?: boolean;
+  onRedo?: () => void;
+  canRedo?: boolean;
 }
 
 const ActionButtons: React.FC<ActionButtonsProps> = ({
@@ -22,6 +34,12 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
   onSubmit,
   onSwap,
   canSwap,
+  onChallenge,
+  challengeSecondsLeft = 0,
+  challengeTargetName = '',
+  onPass,
+  canPass = true,
+  hasPlacedTiles = false,
   recognizedWords,
   hasWordSelected,
   onClearSelection,
@@ -29,7 +47,11 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
   onHint,
   hintLevel = 0,
   canHint = true,
-  hintMessage
+  hintMessage,
+  onUndo,
+  canUndo = false,
+  onRedo,
+  canRedo = false
 }) => {
   const getHintButtonText = () => {
     if (hintLevel === 0) return UI_MESSAGES.buttons.hint;
@@ -83,6 +105,25 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
         >
           {UI_MESSAGES.buttons.swapTilesWithCount(selectedTilesCount)}
         </button>
+        {onChallenge && challengeSecondsLeft > 0 && (
+          <button
+            className="btn btn-challenge"
+            onClick={onChallenge}
+            title={UI_MESSAGES.buttons.challengeTooltip(challengeTargetName)}
+          >
+            {UI_MESSAGES.buttons.challenge(challengeSecondsLeft)}
+          </button>
+        )}
+        {onPass && (
+          <button
+            className="btn btn-secondary"
+            onClick={onPass}
+            disabled={!canPass || hasPlacedTiles}
+            title={UI_MESSAGES.buttons.passTooltip(hasPlacedTiles)}
+          >
+            {UI_MESSAGES.buttons.pass}
+          </button>
+        )}
         {onHint && (
           <button
             className={`btn btn-hint ${hintLevel > 0 ? 'hint-active' : ''}`}
@@ -93,6 +134,26 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
             {getHintButtonText()}
           </button>
         )}
+        {onUndo && (
+          <button
+            className="btn btn-secondary"
+            onClick={onUndo}
+            disabled={!canUndo}
+            title={UI_MESSAGES.buttons.undoTooltip}
+          >
+            {UI_MESSAGES.buttons.undo}
+          </button>
+        )}
+        {onRedo && (
+          <button
+            className="btn btn-secondary"
+            onClick={onRedo}
+            disabled={!canRedo}
+            title={UI_MESSAGES.buttons.redoTooltip}
+          >
+            {UI_MESSAGES.buttons.redo}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,108 @@
+import React from 'react';
+import type { TurnAnalysis } from '../game-analysis';
+import { getPointsMissedByPlayer } from '../game-analysis';
+import type { ScoredWord } from '../hint-engine';
+import { getPlayerColor } from '../utils/playerColors';
+import { UI_MESSAGES } from '../constants/messages';
+import '../styles/AnalysisScreen.scss';
+
+interface AnalysisScreenProps {
+  turns: TurnAnalysis[] | null;                        // Null while the analysis is running
+  progress: { analyzed: number; total: number };
+  playerNames: string[];                               // By player ID
+  onClose: () => void;
+}
+
+const formatWords = (words: ScoredWord[]) =>
+  words.map(w => `${w.word.toUpperCase()} +${w.score}`).join(', ');
+
+const AnalysisScreen: React.FC<AnalysisScreenProps> = ({ turns, progress, playerNames, onClose }) => {
+  const playerName = (playerId: number) => playerNames[playerId] ?? `Player ${playerId + 1}`;
+
+  const describePlayed = (turn: TurnAnalysis) => {
+    const { played } = turn;
+    if (played.type !== 'play') return UI_MESSAGES.analysis[played.type];
+    const words = formatWords(played.words);
+    return played.withdrawn ? `${words} (${UI_MESSAGES.analysis.withdrawn})` : words;
+  };
+
+  const totals = turns ? getPointsMissedByPlayer(turns) : {};
+
+  return (
+    <div className="modal show analysis-screen" onClick={onClose}>
+      <div className="modal-content analysis-content" onClick={(e) => e.stopPropagation()}>
+        <h2>{UI_MESSAGES.analysis.title}</h2>
+
+        {!turns ? (
+          <div className="analysis-progress">
+            <p>{UI_MESSAGES.analysis.progress(progress.analyzed, progress.total)}</p>
+            <progress value={progress.analyzed} max={Math.max(1, progress.total)} />
+          </div>
+        ) : (
+          <>
+            <div className="analysis-totals">
+              <span>{UI_MESSAGES.analysis.totals}:</span>
+              {Object.entries(totals).map(([playerId, missed]) => (
+                <span key={playerId} className="analysis-total" style={{ borderColor: getPlayerColor(Number(playerId)) }}>
+                  {playerName(Number(playerId))} {missed}
+                </span>
+              ))}
+            </div>
+
+            <div className="analysis-table-wrapper">
+              <table className="analysis-table">
+                <thead>
+                  <tr>
+                    <th>{UI_MESSAGES.analysis.turn}</th>
+                    <th>{UI_MESSAGES.analysis.player}</th>
+                    <th>{UI_MESSAGES.analysis.played}</th>
+                    <th>{UI_MESSAGES.analysis.best}</th>
+                    <th>{UI_MESSAGES.analysis.missed}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {turns.map(turn => (
+                    <tr key={turn.turn} className={turn.pointsMissed === 0 ? 'best-found' : ''}>
+                      <td>{turn.turn}</td>
+                      <td>
+                        <span className="player-dot" style={{ backgroundColor: getPlayerColor(turn.playerId) }} />
+                        {playerName(turn.playerId)}
+                      </td>
+                      <td>
+                        {describePlayed(turn)}
+                        <span className="analysis-score">{turn.played.score}</span>
+                      </td>
+                      <td>
+                        {turn.best ? (
+                          <>
+                            {formatWords(turn.best.words)}
+                            <span className="analysis-score">{turn.best.totalScore}</span>
+                            <span className="analysis-tiles">{UI_MESSAGES.analysis.tilesUsed(turn.best.placements.length)}</span>
+                          </>
+                        ) : UI_MESSAGES.analysis.noMove}
+                      </td>
+                      <td className="analysis-missed">
+                        {turn.pointsMissed}
+                        {!turn.complete && <span className="analysis-incomplete" title={UI_MESSAGES.analysis.incomplete}>*</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {turns.some(turn => !turn.complete) && (
+              <p className="analysis-note">* {UI_MESSAGES.analysis.incomplete}</p>
+            )}
+          </>
+        )}
+
+        <button className="btn btn-secondary" onClick={onClose}>
+          {UI_MESSAGES.buttons.close}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisScreen;
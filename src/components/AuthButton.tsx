@@ -1,11 +1,13 @@
 /**
  * AuthButton Component
  * Shows "Sign in with Google" when signed out
- * Shows user avatar and "Sign out" when signed in
+ * Shows user avatar, "Stats" and "Sign out" when signed in
  */
 
 import React, { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import StatsScreen from './StatsScreen';
+import { UI_MESSAGES } from '../constants/messages';
 import '../styles/AuthButton.scss';
 
 interface AuthButtonProps {
@@ -15,6 +17,7 @@ interface AuthButtonProps {
 const AuthButton: React.FC<AuthButtonProps> = ({ variant = 'full' }) => {
     const { user, loading, signIn, signOut } = useAuth();
     const [isSigningIn, setIsSigningIn] = useState(false);
+    const [showStats, setShowStats] = useState(false);
 
     const handleSignIn = async () => {
         setIsSigningIn(true);
@@ -59,9 +62,13 @@ const AuthButton: React.FC<AuthButtonProps> = ({ variant = 'full' }) => {
                         <span className="user-name">{user.displayName}</span>
                     )}
                 </div>
+                <button onClick={() => setShowStats(true)} className="stats-btn">
+                    {UI_MESSAGES.stats.open}
+                </button>
                 <button onClick={handleSignOut} className="sign-out-btn">
                     Sign out
                 </button>
+                {showStats && <StatsScreen onClose={() => setShowStats(false)} />}
             </div>
         );
     }
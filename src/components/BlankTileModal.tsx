@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { UI_MESSAGES } from '../constants/messages';
+import { getLanguagePack } from '../language-packs';
 
 interface BlankTileModalProps {
   isOpen: boolean;
   position: { x: number; y: number } | null;
   currentLetter: string;
+  alphabet?: string[]; // Letters the blank can stand for (may include tiles like 'CH')
   onConfirm: (letter: string) => void;
   onCancel: () => void;
 }
@@ -13,10 +15,12 @@ const BlankTileModal: React.FC<BlankTileModalProps> = ({
   isOpen, 
   position,
   currentLetter,
+  alphabet = getLanguagePack().alphabet,
   onConfirm, 
   onCancel 
 }) => {
   const [letter, setLetter] = useState(currentLetter || '');
+  const maxLength = Math.max(...alphabet.map(l => l.length));
 
   useEffect(() => {
     if (isOpen) {
@@ -29,7 +33,7 @@ const BlankTileModal: React.FC<BlankTileModalProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const upperLetter = letter.toUpperCase().trim();
-    if (upperLetter.length === 1 && /[A-Z]/.test(upperLetter)) {
+    if (alphabet.includes(upperLetter)) {
       onConfirm(upperLetter);
     }
   };
@@ -58,13 +62,14 @@ const BlankTileModal: React.FC<BlankTileModalProps> = ({
               value={letter}
               onChange={(e) => {
                 const val = e.target.value.toUpperCase().trim();
-                if (val.length <= 1 && /^[A-Z]?$/.test(val)) {
+                // Allow partial input of multi-character tiles (C -> CH)
+                if (val === '' || alphabet.some(l => l.startsWith(val))) {
                   setLetter(val);
                 }
               }}
               onKeyDown={handleKeyDown}
               autoFocus
-              maxLength={1}
+              maxLength={maxLength}
               style={{ 
                 fontSize: '2rem', 
                 textAlign: 'center',
@@ -87,7 +92,7 @@ const BlankTileModal: React.FC<BlankTileModalProps> = ({
             <button
               type="submit"
               className="btn btn-primary"
-              disabled={!letter || letter.length !== 1 || !/[A-Z]/.test(letter)}
+              disabled={!alphabet.includes(letter)}
               style={{ flex: 1 }}
             >
               {UI_MESSAGES.buttons.confirm}
@@ -1,18 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import type { Tile, Position } from '../types';
+import { DEFAULT_MIN_WORD_LENGTH } from '../types';
 import { getPlayerColor } from '../utils/playerColors';
 import { isValidWordLine } from '../word-detection';
 
 interface BoardProps {
   board: (Tile | null)[][];
+  minWordLength?: number; // Shortest selectable word (house rules)
   selectedPositions: Position[];
   isPlacingTiles: boolean;
   onColumnClick: (column: number) => void;
   onTileDrop?: (x: number, y: number, tileData: { index: number; tile: Tile }) => void;
   onTileRemove?: (x: number, y: number) => void;
   fallingTiles?: Set<string>;
-  fallingTileData?: Map<string, { y: number; column: number; delay: number; duration: number }>; // Fall data for stagger and duration
+  fallingTileData?: Map<string, { y: number; column: number; delay: number; duration: number; fromY?: number }>; // Fall data for stagger and duration (fromY: row a cascade fall starts from)
   removingTiles?: Set<string>; // Tiles being removed (flying to rack)
+  vanishingTiles?: Set<string>; // Tiles of words cleared by a cascade
   removingTileData?: Map<string, { dx: number; dy: number }>; // Removal animation data (direction to rack)
   bottomRowShake?: Set<number>; // Columns that should shake at bottom row
   currentPlayerId?: number;
@@ -29,6 +32,7 @@ interface BoardProps {
 
 const Board: React.FC<BoardProps> = ({ 
   board, 
+  minWordLength = DEFAULT_MIN_WORD_LENGTH,
   selectedPositions, 
   isPlacingTiles, 
   onColumnClick,
@@ -37,6 +41,7 @@ const Board: React.FC<BoardProps> = ({
   fallingTiles = new Set(),
   fallingTileData = new Map(),
   removingTiles = new Set(),
+  vanishingTiles = new Set(),
   removingTileData = new Map(),
   bottomRowShake = new Set(),
   currentPlayerId,
@@ -50,6 +55,10 @@ const Board: React.FC<BoardProps> = ({
   diagonalTiles = new Set(),
   diagonalPositions = [],
 }) => {
+  // Grid dimensions come from the board itself (5x5, 7x7, 9x9, ...)
+  const numRows = board.length;
+  const numCols = board[0]?.length || 0;
+
   // Calculate movement deltas for emordnilap animation
   const getEmordnilapMovement = (x: number, y: number): { dx: number; dy: number } => {
     if (emordnilapPositions.length === 0) return { dx: 0, dy: 0 };
@@ -109,11 +118,11 @@ const Board: React.FC<BoardProps> = ({
     if (!boardElement) return null;
     
     const rect = boardElement.getBoundingClientRect();
-    const cellSize = rect.width / 7;
+    const cellSize = rect.width / numCols;
     const x = Math.floor((touch.clientX - rect.left) / cellSize);
     const y = Math.floor((touch.clientY - rect.top) / cellSize);
     
-    if (x >= 0 && x < 7 && y >= 0 && y < 7) {
+    if (x >= 0 && x < numCols && y >= 0 && y < numRows) {
       return { x, y };
     }
     return null;
@@ -206,10 +215,10 @@ const Board: React.FC<BoardProps> = ({
       const positions = getPositionsBetween(dragStartPos, dragCurrentPos);
       // Filter to only positions with tiles
       const validPositions = positions.filter(pos => 
-        pos.x >= 0 && pos.x < 7 && pos.y >= 0 && pos.y < 7 && board[pos.y]?.[pos.x]
+        pos.x >= 0 && pos.x < numCols && pos.y >= 0 && pos.y < numRows && board[pos.y]?.[pos.x]
       );
       
-      if (validPositions.length >= 3 && isValidWordLine(validPositions)) {
+      if (isValidWordLine(validPositions, minWordLength)) {
         // Preserve drag direction (start to end, not sorted)
         onWordSelect(validPositions);
       }
@@ -265,10 +274,10 @@ const Board: React.FC<BoardProps> = ({
         const positions = getPositionsBetween(touchStartPos, touchCurrentPos);
         // Filter to only positions with tiles
         const validPositions = positions.filter(pos => 
-          pos.x >= 0 && pos.x < 7 && pos.y >= 0 && pos.y < 7 && board[pos.y]?.[pos.x]
+          pos.x >= 0 && pos.x < numCols && pos.y >= 0 && pos.y < numRows && board[pos.y]?.[pos.x]
         );
         
-        if (validPositions.length >= 3 && isValidWordLine(validPositions)) {
+        if (isValidWordLine(validPositions, minWordLength)) {
           // Preserve touch direction (start to end, not sorted)
           onWordSelect(validPositions);
         }
@@ -301,7 +310,7 @@ const Board: React.FC<BoardProps> = ({
       return [];
     }
     return getPositionsBetween(start, current).filter(pos => 
-      pos.x >= 0 && pos.x < 7 && pos.y >= 0 && pos.y < 7 && board[pos.y]?.[pos.x]
+      pos.x >= 0 && pos.x < numCols && pos.y >= 0 && pos.y < numRows && board[pos.y]?.[pos.x]
     );
   };
 
@@ -408,18 +417,18 @@ const Board: React.FC<BoardProps> = ({
     if (boardElement) {
       const boardWidth = boardElement.offsetWidth;
       const boardHeight = boardElement.offsetHeight;
-      const cellWidth = boardWidth / 7;
-      const cellHeight = boardHeight / 7;
+      const cellWidth = boardWidth / numCols;
+      const cellHeight = boardHeight / numRows;
       boardElement.style.setProperty('--cell-width', `${cellWidth}px`);
       boardElement.style.setProperty('--cell-height', `${cellHeight}px`);
       setCellDimensions({ width: cellWidth, height: cellHeight });
     }
-  }, [board]);
+  }, [board, numCols, numRows]);
 
   return (
     <div className="board-container">
       <div 
-        className="board"
+        className={`board ${numCols > 7 || numRows > 7 ? 'board-dense' : ''}`}
         onMouseUp={handleMouseUp}
         onMouseLeave={() => {
           // Cancel drag if mouse leaves board
@@ -438,7 +447,11 @@ const Board: React.FC<BoardProps> = ({
             setTouchCurrentPos(null);
           }
         }}
-        style={{ touchAction: 'none' }} // Prevent default touch behaviors
+        style={{
+          touchAction: 'none', // Prevent default touch behaviors
+          gridTemplateColumns: `repeat(${numCols}, 1fr)`,
+          gridTemplateRows: `repeat(${numRows}, 1fr)`
+        }}
       >
         {board.map((row, y) =>
           row.map((cell, x) => {
@@ -452,7 +465,7 @@ const Board: React.FC<BoardProps> = ({
             return (
               <div
                 key={`${x}-${y}`}
-                className={`cell ${selected ? 'highlighted' : ''} ${isEmpty && isTopRow ? 'drop-zone' : ''} ${isDragOver ? 'drag-over' : ''} ${tile ? 'has-tile' : ''} ${isInDragSelection ? 'word-selecting' : ''} ${bottomRowShake.has(x) && y === 6 ? 'bottom-row-shake' : ''} ${hoveredColumn === x ? 'column-highlight' : ''}`}
+                className={`cell ${selected ? 'highlighted' : ''} ${isEmpty && isTopRow ? 'drop-zone' : ''} ${isDragOver ? 'drag-over' : ''} ${tile ? 'has-tile' : ''} ${isInDragSelection ? 'word-selecting' : ''} ${bottomRowShake.has(x) && y === numRows - 1 ? 'bottom-row-shake' : ''} ${hoveredColumn === x ? 'column-highlight' : ''}`}
                 data-x={x}
                 data-y={y}
                 onMouseEnter={() => {
@@ -503,7 +516,7 @@ const Board: React.FC<BoardProps> = ({
                     draggable={tile.playerId === currentPlayerId && tilesPlacedThisTurn.some(pos => pos.x === x && pos.y === y)}
                     onDragStart={(e) => handleTileDragStart(e, x, y)}
                     onDragEnd={(e) => handleTileDragEnd(e, x, y)}
-                    className={`tile ${draggedTilePos && draggedTilePos.x === x && draggedTilePos.y === y ? 'dragging' : ''} ${fallingTiles.has(`${x}-${y}`) ? 'falling' : ''} ${removingTiles.has(`${x}-${y}`) ? 'removing' : ''} ${palindromeTiles.has(`${x}-${y}`) ? 'palindrome' : ''} ${emordnilapTiles.has(`${x}-${y}`) ? 'emordnilap' : ''} ${diagonalTiles.has(`${x}-${y}`) ? 'diagonal' : ''} ${tile.playerId === currentPlayerId ? 'removable' : ''} ${tile.letter === ' ' ? 'blank-tile' : ''}`}
+                    className={`tile ${draggedTilePos && draggedTilePos.x === x && draggedTilePos.y === y ? 'dragging' : ''} ${fallingTiles.has(`${x}-${y}`) ? 'falling' : ''} ${removingTiles.has(`${x}-${y}`) ? 'removing' : ''} ${vanishingTiles.has(`${x}-${y}`) ? 'vanishing' : ''} ${palindromeTiles.has(`${x}-${y}`) ? 'palindrome' : ''} ${emordnilapTiles.has(`${x}-${y}`) ? 'emordnilap' : ''} ${diagonalTiles.has(`${x}-${y}`) ? 'diagonal' : ''} ${tile.playerId === currentPlayerId ? 'removable' : ''} ${tile.letter === ' ' ? 'blank-tile' : ''}`}
                     style={{ 
                       backgroundColor: getPlayerColor(tile.playerId || 0),
                       color: 'white',
@@ -517,7 +530,7 @@ const Board: React.FC<BoardProps> = ({
                       ...(fallingTiles.has(`${x}-${y}`) ? (() => {
                         const tileData = fallingTileData?.get(`${x}-${y}`);
                         return {
-                          '--fall-distance': `${y * 100}%`,
+                          '--fall-distance': `${(y - (tileData?.fromY ?? 0)) * 100}%`,
                           '--fall-duration': tileData?.duration ? `${tileData.duration}s` : '0.4s',
                           'animation-delay': tileData?.delay ? `${tileData.delay}s` : '0s'
                         } as React.CSSProperties;
@@ -541,8 +554,8 @@ const Board: React.FC<BoardProps> = ({
                           if (boardElement) {
                             const boardWidth = boardElement.offsetWidth;
                             const boardHeight = boardElement.offsetHeight;
-                            cellWidth = boardWidth / 7;
-                            cellHeight = boardHeight / 7;
+                            cellWidth = boardWidth / numCols;
+                            cellHeight = boardHeight / numRows;
                           }
                         }
                         
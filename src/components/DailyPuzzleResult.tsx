@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import type { DailyResult, DailyStreak } from '../daily-puzzle';
+import { formatDailySummary } from '../daily-puzzle';
+import { UI_MESSAGES } from '../constants/messages';
+import '../styles/DailyPuzzleResult.scss';
+
+interface DailyPuzzleResultProps {
+  result: DailyResult;
+  streak: DailyStreak;
+  onClose: () => void;
+}
+
+const DailyPuzzleResult: React.FC<DailyPuzzleResultProps> = ({ result, streak, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const summary = formatDailySummary(result, streak);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy daily result:', err);
+    }
+  };
+
+  return (
+    <div className="solo-game-over-modal daily-result-modal">
+      <div className="modal-content">
+        <h2>{UI_MESSAGES.daily.resultTitle(result.id)}</h2>
+        <div className="final-score">{result.score}</div>
+        <div className="daily-streak">
+          {UI_MESSAGES.daily.streak(streak.current)}
+          <span className="daily-best-streak">{UI_MESSAGES.daily.bestStreak(streak.best)}</span>
+        </div>
+        <pre className="daily-summary">{summary}</pre>
+        <p className="daily-next">{UI_MESSAGES.daily.comeBack}</p>
+        <div className="btn-group">
+          <button className="btn btn-primary" onClick={handleCopy}>
+            {copied ? UI_MESSAGES.daily.copied : UI_MESSAGES.daily.copyResult}
+          </button>
+          <button className="btn btn-secondary" onClick={onClose}>
+            {UI_MESSAGES.buttons.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DailyPuzzleResult;
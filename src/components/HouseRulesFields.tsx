@@ -0,0 +1,87 @@
+import React from 'react';
+import { UI_MESSAGES } from '../constants/messages';
+import type { BonusType, HouseRules } from '../types';
+import { BONUS_TYPES, BONUS_MULTIPLIER_OPTIONS, MIN_WORD_LENGTH_OPTIONS } from '../house-rules';
+
+interface HouseRulesFieldsProps {
+  rules: HouseRules;
+  onChange: (rules: HouseRules) => void;
+}
+
+/**
+ * House rule settings shared by local game setup and room creation
+ */
+const HouseRulesFields: React.FC<HouseRulesFieldsProps> = ({ rules, onChange }) => {
+  const updateBonus = (type: BonusType, change: Partial<HouseRules['bonuses'][BonusType]>) => {
+    onChange({
+      ...rules,
+      bonuses: { ...rules.bonuses, [type]: { ...rules.bonuses[type], ...change } }
+    });
+  };
+
+  return (
+    <fieldset className="house-rules">
+      <legend>{UI_MESSAGES.houseRules.title}</legend>
+
+      {BONUS_TYPES.map(type => (
+        <div key={type} className="form-group form-checkbox">
+          <label>
+            <input
+              type="checkbox"
+              checked={rules.bonuses[type].enabled}
+              onChange={(e) => updateBonus(type, { enabled: e.target.checked })}
+            />
+            <span>{UI_MESSAGES.houseRules.bonus[type]}</span>
+          </label>
+          {rules.bonuses[type].enabled && (
+            <select
+              value={rules.bonuses[type].multiplier}
+              onChange={(e) => updateBonus(type, { multiplier: parseFloat(e.target.value) })}
+              aria-label={UI_MESSAGES.houseRules.multiplierLabel(UI_MESSAGES.houseRules.bonus[type])}
+            >
+              {BONUS_MULTIPLIER_OPTIONS.map(multiplier => (
+                <option key={multiplier} value={multiplier}>{UI_MESSAGES.houseRules.multiplierOption(multiplier)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      ))}
+
+      <div className="form-group form-checkbox">
+        <label>
+          <input
+            type="checkbox"
+            checked={rules.stackBonuses}
+            onChange={(e) => onChange({ ...rules, stackBonuses: e.target.checked })}
+          />
+          <span>{UI_MESSAGES.houseRules.stackBonuses}</span>
+        </label>
+      </div>
+
+      <div className="form-group form-checkbox">
+        <label>
+          <input
+            type="checkbox"
+            checked={rules.cascade}
+            onChange={(e) => onChange({ ...rules, cascade: e.target.checked })}
+          />
+          <span>{UI_MESSAGES.houseRules.cascade}</span>
+        </label>
+      </div>
+
+      <div className="form-group">
+        <label>{UI_MESSAGES.houseRules.minWordLength}</label>
+        <select
+          value={rules.minWordLength}
+          onChange={(e) => onChange({ ...rules, minWordLength: parseInt(e.target.value) })}
+        >
+          {MIN_WORD_LENGTH_OPTIONS.map(length => (
+            <option key={length} value={length}>{UI_MESSAGES.houseRules.minWordLengthOption(length)}</option>
+          ))}
+        </select>
+      </div>
+    </fieldset>
+  );
+};
+
+export default HouseRulesFields;
@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useLeaderboard } from '../hooks/useLeaderboard';
+import { LEADERBOARD_KINDS } from '../leaderboard';
+import type { LeaderboardKind, LeaderboardEntry } from '../leaderboard';
+import { UI_MESSAGES } from '../constants/messages';
+import '../styles/LeaderboardScreen.scss';
+
+interface LeaderboardScreenProps {
+  onClose: () => void;
+}
+
+const LeaderboardScreen: React.FC<LeaderboardScreenProps> = ({ onClose }) => {
+  const { player, getRanking, getFriends, addFriend, removeFriend } = useLeaderboard();
+  const [kind, setKind] = useState<LeaderboardKind>('allTime');
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [friends, setFriends] = useState<string[]>([]);
+  const [friendCode, setFriendCode] = useState('');
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setEntries(null);
+    setError('');
+    try {
+      setEntries(await getRanking(kind));
+      if (kind === 'friends') setFriends(await getFriends());
+    } catch (err) {
+      console.error('Failed to load leaderboard:', err);
+      setEntries([]);
+      setError(UI_MESSAGES.leaderboard.errorLoading);
+    }
+  }, [kind, getRanking, getFriends]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAddFriend = async () => {
+    try {
+      await addFriend(friendCode);
+      setFriendCode('');
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRemoveFriend = async (code: string) => {
+    await removeFriend(code);
+    await load();
+  };
+
+  const friendName = (code: string) => entries?.find(e => e.playerId === code)?.name ?? code;
+
+  return (
+    <div className="modal show leaderboard-screen" onClick={onClose}>
+      <div className="modal-content leaderboard-content" onClick={(e) => e.stopPropagation()}>
+        <h2>{UI_MESSAGES.leaderboard.title}</h2>
+
+        <div className="leaderboard-tabs">
+          {LEADERBOARD_KINDS.map(k => (
+            <button key={k} className={`leaderboard-tab ${k === kind ? 'active' : ''}`} onClick={() => setKind(k)}>
+              {UI_MESSAGES.leaderboard.kinds[k]}
+            </button>
+          ))}
+        </div>
+
+        {!player && (
+          <p className="leaderboard-message">
+            {kind === 'friends' ? UI_MESSAGES.leaderboard.signInForFriends : UI_MESSAGES.leaderboard.signInToJoin}
+          </p>
+        )}
+
+        {entries === null ? (
+          <p className="leaderboard-message">{UI_MESSAGES.leaderboard.loading}</p>
+        ) : entries.length === 0 ? (
+          (player || kind !== 'friends') && <p className="leaderboard-message">{UI_MESSAGES.leaderboard.empty}</p>
+        ) : (
+          <ol className="leaderboard-list">
+            {entries.map((entry, index) => (
+              <li key={entry.playerId} className={entry.playerId === player?.id ? 'me' : ''}>
+                <span className="rank">{index + 1}.</span>
+                <span className="name">
+                  {entry.name} {entry.playerId === player?.id && UI_MESSAGES.leaderboard.you}
+                </span>
+                <span className="score">{entry.score}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {error && <p className="leaderboard-error">{error}</p>}
+
+        {kind === 'friends' && player && (
+          <div className="leaderboard-friends">
+            <label>
+              {UI_MESSAGES.leaderboard.friendCode}
+              <input type="text" readOnly value={player.id} onFocus={(e) => e.target.select()} />
+            </label>
+            <div className="add-friend">
+              <input
+                type="text"
+                value={friendCode}
+                placeholder={UI_MESSAGES.leaderboard.friendCodePlaceholder}
+                onChange={(e) => setFriendCode(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddFriend()}
+              />
+              <button className="btn btn-primary" onClick={handleAddFriend} disabled={!friendCode.trim()}>
+                {UI_MESSAGES.leaderboard.addFriend}
+              </button>
+            </div>
+            {friends.length > 0 && (
+              <ul className="friend-list">
+                {friends.map(code => (
+                  <li key={code}>
+                    <span>{friendName(code)}</span>
+                    <button className="btn-link" onClick={() => handleRemoveFriend(code)}>
+                      {UI_MESSAGES.leaderboard.remove}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <button className="btn btn-secondary" onClick={onClose}>
+          {UI_MESSAGES.buttons.close}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LeaderboardScreen;
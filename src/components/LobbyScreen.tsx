@@ -4,9 +4,16 @@
 
 import React, { useState, useEffect } from 'react';
 import type { Room } from '../server-types';
+import { BOARD_SIZE_OPTIONS, DEFAULT_BOARD_WIDTH, DEFAULT_HOUSE_RULES, TURN_LIMIT_OPTIONS_MS, CHESS_CLOCK_OPTIONS_MS } from '../types';
+import type { HouseRules, TimeControl } from '../types';
+import type { SaveSummary } from '../save-games';
+import { AUTOSAVE_SLOT } from '../save-games';
+import { DEFAULT_LANGUAGE, LANGUAGE_PACKS } from '../language-packs';
 import { UI_MESSAGES } from '../constants/messages';
 import { useAuth } from '../contexts/AuthContext';
 import AuthButton from './AuthButton';
+import LeaderboardScreen from './LeaderboardScreen';
+import HouseRulesFields from './HouseRulesFields';
 
 interface LobbyScreenProps {
     // Connection state
@@ -18,21 +25,36 @@ interface LobbyScreenProps {
     roomCode: string | null;
     room: Room | null;
     isHost: boolean;
+    isSpectator: boolean;
     playerId: string | null;
 
     // Actions
-    createRoom: (playerName: string, targetScore?: number, hintsEnabled?: boolean, uid?: string, photoURL?: string) => void;
+    createRoom: (playerName: string, targetScore?: number, hintsEnabled?: boolean, boardSize?: number, uid?: string, photoURL?: string, language?: string, houseRules?: HouseRules, timeControl?: TimeControl, challengeMode?: boolean) => void;
     joinRoom: (roomCode: string, playerName: string, uid?: string, photoURL?: string) => void;
+    spectateRoom: (roomCode: string, spectatorName: string, uid?: string, photoURL?: string) => void;
     leaveRoom: (uid?: string) => void;
     setReady: (ready: boolean) => void;
     startGame: () => void;
     onPlaySolo: () => void;
 
+    // Saved local games
+    savedGames: SaveSummary[];
+    onLoadGame: (name: string) => void;
+    onDeleteSave: (name: string) => void;
+    onImportNotation: (text: string) => void;
+
+    // Daily puzzle
+    onPlayDaily: () => void;
+    todaysDailyScore?: number;   // Set once today's puzzle has been played
+
+    // Puzzle packs
+    onOpenPuzzles: () => void;
+
     // Active game (for rejoin)
     getActiveGame: (uid: string) => Promise<{ roomCode: string; playerId: string } | null>;
 }
 
-type LobbyMode = 'menu' | 'create' | 'join';
+type LobbyMode = 'menu' | 'create' | 'join' | 'saves';
 
 const LobbyScreen: React.FC<LobbyScreenProps> = ({
     connected,
@@ -41,13 +63,22 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
     roomCode,
     room,
     isHost,
+    isSpectator,
     playerId,
     createRoom,
     joinRoom,
+    spectateRoom,
     leaveRoom,
     setReady,
     startGame,
     onPlaySolo,
+    savedGames,
+    onLoadGame,
+    onDeleteSave,
+    onImportNotation,
+    onPlayDaily,
+    todaysDailyScore,
+    onOpenPuzzles,
     getActiveGame
 }) => {
     const { user } = useAuth();
@@ -56,6 +87,14 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
     const [targetScore, setTargetScore] = useState(100);
     const [joinCode, setJoinCode] = useState('');
     const [hintsEnabled, setHintsEnabled] = useState(true);
+    const [boardSize, setBoardSize] = useState<number>(DEFAULT_BOARD_WIDTH);
+    const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+    const [houseRules, setHouseRules] = useState<HouseRules>(DEFAULT_HOUSE_RULES);
+    const [challengeMode, setChallengeMode] = useState(false);
+    const [turnLimitMs, setTurnLimitMs] = useState(0);
+    const [clockMs, setClockMs] = useState(0);
+    const [notationText, setNotationText] = useState('');
+    const [showLeaderboard, setShowLeaderboard] = useState(false);
     const [isDarkMode, setIsDarkMode] = useState(() => {
         // Check localStorage or system preference
         const saved = localStorage.getItem('grabble-theme');
@@ -155,12 +194,31 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
                         ))}
                     </div>
 
-                    {room.players.length < 2 && (
+                    {room.spectators.length > 0 && (
+                        <div className="players-list spectators-list">
+                            <h3>{UI_MESSAGES.spectators.title(room.spectators.length)}</h3>
+                            {room.spectators.map(spectator => (
+                                <div
+                                    key={spectator.id}
+                                    className={`player-row ${spectator.id === playerId ? 'is-me' : ''}`}
+                                >
+                                    <span className="player-name">
+                                        {spectator.name}
+                                        {spectator.id === playerId && <span className="you-badge">{UI_MESSAGES.lobby.you}</span>}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {isSpectator ? (
+                        <p className="waiting-text">{UI_MESSAGES.spectators.waitingForStart}</p>
+                    ) : room.players.length < 2 && (
                         <p className="waiting-text">{UI_MESSAGES.lobby.waitingForPlayers}</p>
                     )}
 
                     <div className="lobby-actions">
-                        {!myPlayer?.isReady ? (
+                        {isSpectator ? null : !myPlayer?.isReady ? (
                             <button
                                 className="btn btn-primary"
                                 onClick={() => setReady(true)}
@@ -176,7 +234,7 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
                             </button>
                         )}
 
-                        {isHost && (
+                        {isHost && !isSpectator && (
                             <button
                                 className="btn btn-success"
                                 onClick={startGame}
@@ -189,9 +247,9 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
 
                         <button
                             className="btn btn-danger"
-                            onClick={() => leaveRoom(user?.uid)}
+                            onClick={() => isSpectator ? leaveRoom() : leaveRoom(user?.uid)}
                         >
-                            {UI_MESSAGES.buttons.leaveRoom}
+                            {isSpectator ? UI_MESSAGES.spectators.stopWatching : UI_MESSAGES.buttons.leaveRoom}
                         </button>
                     </div>
 
@@ -310,8 +368,47 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
                         >
                             {UI_MESSAGES.buttons.playLocal}
                         </button>
+                        <button
+                            className="btn btn-solo btn-large"
+                            onClick={onPlayDaily}
+                        >
+                            {todaysDailyScore !== undefined
+                                ? UI_MESSAGES.daily.playedToday(todaysDailyScore)
+                                : UI_MESSAGES.daily.play}
+                        </button>
+                        <button
+                            className="btn btn-solo btn-large"
+                            onClick={onOpenPuzzles}
+                        >
+                            {UI_MESSAGES.puzzles.open}
+                        </button>
+                        {savedGames.length > 0 && (
+                            <>
+                                <button
+                                    className="btn btn-primary btn-large"
+                                    onClick={() => onLoadGame(savedGames[0].name)}
+                                    title={UI_MESSAGES.saves.summary(savedGames[0].players, savedGames[0].scores)}
+                                >
+                                    {UI_MESSAGES.buttons.continueGame}
+                                </button>
+                                <button
+                                    className="btn btn-secondary btn-large"
+                                    onClick={() => setMode('saves')}
+                                >
+                                    {UI_MESSAGES.buttons.savedGames}
+                                </button>
+                            </>
+                        )}
+                        <button
+                            className="btn btn-secondary btn-large"
+                            onClick={() => setShowLeaderboard(true)}
+                        >
+                            {UI_MESSAGES.leaderboard.open}
+                        </button>
                     </div>
 
+                    {showLeaderboard && <LeaderboardScreen onClose={() => setShowLeaderboard(false)} />}
+
                     {error && (
                         <div className="error-message">
                             {error}
@@ -323,12 +420,79 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
         );
     }
 
+    // Saved local games
+    if (mode === 'saves') {
+        return (
+            <div className="modal show">
+                <div className="modal-content lobby-screen">
+                    <h2>{UI_MESSAGES.buttons.savedGames}</h2>
+
+                    {savedGames.length === 0 ? (
+                        <p className="waiting-text">{UI_MESSAGES.saves.noSaves}</p>
+                    ) : (
+                        <div className="save-slots">
+                            {savedGames.map(save => (
+                                <div key={save.name} className="save-slot-row">
+                                    <div className="save-slot-info">
+                                        <span className="save-slot-name">
+                                            {save.name === AUTOSAVE_SLOT ? UI_MESSAGES.saves.autosaveName : save.name}
+                                        </span>
+                                        <span className="save-slot-summary">{UI_MESSAGES.saves.summary(save.players, save.scores)}</span>
+                                        <span className="save-slot-date">{UI_MESSAGES.saves.savedAt(save.savedAt)}</span>
+                                    </div>
+                                    <button className="btn btn-primary" onClick={() => onLoadGame(save.name)}>
+                                        {UI_MESSAGES.buttons.load}
+                                    </button>
+                                    <button className="btn btn-danger" onClick={() => onDeleteSave(save.name)}>
+                                        {UI_MESSAGES.buttons.delete}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="form-group notation-import">
+                        <label>{UI_MESSAGES.notation.importTitle}</label>
+                        <textarea
+                            value={notationText}
+                            onChange={(e) => setNotationText(e.target.value)}
+                            placeholder={UI_MESSAGES.notation.importPlaceholder}
+                            rows={6}
+                            spellCheck={false}
+                        />
+                        <button
+                            type="button"
+                            className="btn btn-primary"
+                            disabled={!notationText.trim()}
+                            onClick={() => onImportNotation(notationText)}
+                        >
+                            {UI_MESSAGES.buttons.importGame}
+                        </button>
+                    </div>
+
+                    <div className="form-actions">
+                        <button
+                            type="button"
+                            className="btn btn-secondary"
+                            onClick={() => setMode('menu')}
+                        >
+                            {UI_MESSAGES.buttons.back}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     // Create room form
     if (mode === 'create') {
         const handleCreate = (e: React.FormEvent) => {
             e.preventDefault();
             if (playerName.trim()) {
-                createRoom(playerName.trim(), targetScore, hintsEnabled, user?.uid, user?.photoURL || undefined);
+                const timeControl: TimeControl | undefined = turnLimitMs || clockMs
+                    ? { ...(turnLimitMs && { turnLimitMs }), ...(clockMs && { clockMs }) }
+                    : undefined;
+                createRoom(playerName.trim(), targetScore, hintsEnabled, boardSize, user?.uid, user?.photoURL || undefined, language, houseRules, timeControl, challengeMode);
             }
         };
 
@@ -370,6 +534,58 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
                             />
                         </div>
 
+                        <div className="form-group">
+                            <label>{UI_MESSAGES.lobby.boardSize}</label>
+                            <select
+                                value={boardSize}
+                                onChange={(e) => setBoardSize(parseInt(e.target.value))}
+                            >
+                                {BOARD_SIZE_OPTIONS.map(size => (
+                                    <option key={size} value={size}>{UI_MESSAGES.setup.boardSizeOption(size)}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="form-group">
+                            <label>{UI_MESSAGES.lobby.language}</label>
+                            <select
+                                value={language}
+                                onChange={(e) => setLanguage(e.target.value)}
+                            >
+                                {Object.values(LANGUAGE_PACKS).map(pack => (
+                                    <option key={pack.id} value={pack.id}>{pack.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="form-group">
+                            <label>{UI_MESSAGES.lobby.turnTimer}</label>
+                            <select
+                                value={turnLimitMs}
+                                onChange={(e) => setTurnLimitMs(parseInt(e.target.value))}
+                            >
+                                {TURN_LIMIT_OPTIONS_MS.map(ms => (
+                                    <option key={ms} value={ms}>
+                                        {ms ? UI_MESSAGES.lobby.turnTimerOption(ms) : UI_MESSAGES.lobby.timeOff}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="form-group">
+                            <label>{UI_MESSAGES.lobby.chessClock}</label>
+                            <select
+                                value={clockMs}
+                                onChange={(e) => setClockMs(parseInt(e.target.value))}
+                            >
+                                {CHESS_CLOCK_OPTIONS_MS.map(ms => (
+                                    <option key={ms} value={ms}>
+                                        {ms ? UI_MESSAGES.lobby.chessClockOption(ms) : UI_MESSAGES.lobby.timeOff}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
                         <div className="form-group form-checkbox">
                             <label>
                                 <input
@@ -381,6 +597,19 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
                             </label>
                         </div>
 
+                        <HouseRulesFields rules={houseRules} onChange={setHouseRules} />
+
+                        <div className="form-group form-checkbox">
+                            <label title={UI_MESSAGES.setup.challengeModeDescription}>
+                                <input
+                                    type="checkbox"
+                                    checked={challengeMode}
+                                    onChange={(e) => setChallengeMode(e.target.checked)}
+                                />
+                                {UI_MESSAGES.setup.challengeMode}
+                            </label>
+                        </div>
+
                         <div className="form-actions">
                             <button type="submit" className="btn btn-primary">
                                 {UI_MESSAGES.buttons.createRoom}
@@ -415,6 +644,13 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
             }
         };
 
+        // Watch instead of playing - also works once the room is full or playing
+        const handleWatch = () => {
+            if (playerName.trim() && joinCode.trim()) {
+                spectateRoom(joinCode.trim().toUpperCase(), playerName.trim(), user?.uid, user?.photoURL || undefined);
+            }
+        };
+
         return (
             <div className="modal show">
                 <div className="modal-content lobby-screen">
@@ -450,6 +686,15 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({
                             <button type="submit" className="btn btn-primary">
                                 {UI_MESSAGES.buttons.joinRoom}
                             </button>
+                            <button
+                                type="button"
+                                className="btn btn-secondary"
+                                onClick={handleWatch}
+                                disabled={!playerName.trim() || !joinCode.trim()}
+                                title={UI_MESSAGES.spectators.watchTitle}
+                            >
+                                {UI_MESSAGES.spectators.watch}
+                            </button>
                             <button
                                 type="button"
                                 className="btn btn-secondary"
@@ -1,13 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { UI_MESSAGES } from '../constants/messages';
+import type { HouseRules } from '../types';
+import { resolveHouseRules } from '../house-rules';
 
 interface NavbarProps {
   currentPlayerName: string;
-  onStartNewGame: () => void;
-  onClearBoard: () => void;
+  onStartNewGame?: () => void; // Not offered to spectators
+  onClearBoard?: () => void; // Not offered to spectators
   onToggleSound: () => void;
   onEndGame?: () => void;
+  onStopWatching?: () => void; // Spectators only
+  onSaveGame?: () => void; // Local games only
+  onCopyNotation?: () => void; // Local games only
   soundEnabled: boolean;
+  houseRules?: HouseRules; // Rules of the current game, shown in How to Play
 }
 
 const Navbar: React.FC<NavbarProps> = ({
@@ -16,7 +22,11 @@ const Navbar: React.FC<NavbarProps> = ({
   onClearBoard,
   onToggleSound,
   onEndGame,
-  soundEnabled
+  onStopWatching,
+  onSaveGame,
+  onCopyNotation,
+  soundEnabled,
+  houseRules = resolveHouseRules()
 }) => {
   const [menuOpen, setMenuOpen] = useState(false);
   const [infoOpen, setInfoOpen] = useState(false);
@@ -58,12 +68,16 @@ const Navbar: React.FC<NavbarProps> = ({
 
   const handleStartNewGame = () => {
     setMenuOpen(false);
-    onStartNewGame();
+    if (onStartNewGame) {
+      onStartNewGame();
+    }
   };
 
   const handleClearBoard = () => {
     setMenuOpen(false);
-    onClearBoard();
+    if (onClearBoard) {
+      onClearBoard();
+    }
   };
 
   const handleToggleSound = () => {
@@ -71,6 +85,20 @@ const Navbar: React.FC<NavbarProps> = ({
     onToggleSound();
   };
 
+  const handleSaveGame = () => {
+    setMenuOpen(false);
+    if (onSaveGame) {
+      onSaveGame();
+    }
+  };
+
+  const handleCopyNotation = () => {
+    setMenuOpen(false);
+    if (onCopyNotation) {
+      onCopyNotation();
+    }
+  };
+
   const handleEndGame = () => {
     setMenuOpen(false);
     if (onEndGame) {
@@ -78,6 +106,13 @@ const Navbar: React.FC<NavbarProps> = ({
     }
   };
 
+  const handleStopWatching = () => {
+    setMenuOpen(false);
+    if (onStopWatching) {
+      onStopWatching();
+    }
+  };
+
   const handleToggleDarkMode = () => {
     setMenuOpen(false);
     setIsDarkMode(!isDarkMode);
@@ -132,18 +167,38 @@ const Navbar: React.FC<NavbarProps> = ({
           </button>
           {menuOpen && (
             <div className="menu-dropdown">
-              <button
-                className="menu-item"
-                onClick={handleStartNewGame}
-              >
-                {UI_MESSAGES.buttons.startNewGame}
-              </button>
-              <button
-                className="menu-item"
-                onClick={handleClearBoard}
-              >
-                {UI_MESSAGES.buttons.requestClearBoard}
-              </button>
+              {onStartNewGame && (
+                <button
+                  className="menu-item"
+                  onClick={handleStartNewGame}
+                >
+                  {UI_MESSAGES.buttons.startNewGame}
+                </button>
+              )}
+              {onSaveGame && (
+                <button
+                  className="menu-item"
+                  onClick={handleSaveGame}
+                >
+                  {UI_MESSAGES.buttons.saveGame}
+                </button>
+              )}
+              {onCopyNotation && (
+                <button
+                  className="menu-item"
+                  onClick={handleCopyNotation}
+                >
+                  {UI_MESSAGES.buttons.copyNotation}
+                </button>
+              )}
+              {onClearBoard && (
+                <button
+                  className="menu-item"
+                  onClick={handleClearBoard}
+                >
+                  {UI_MESSAGES.buttons.requestClearBoard}
+                </button>
+              )}
               <button
                 className="menu-item"
                 onClick={handleToggleSound}
@@ -164,13 +219,21 @@ const Navbar: React.FC<NavbarProps> = ({
                   {UI_MESSAGES.buttons.endGame}
                 </button>
               )}
+              {onStopWatching && (
+                <button
+                  className="menu-item menu-item-danger"
+                  onClick={handleStopWatching}
+                >
+                  {UI_MESSAGES.spectators.stopWatching}
+                </button>
+              )}
             </div>
           )}
         </div>
       </nav>
       {infoOpen && (
         <div className="modal show" onClick={() => setInfoOpen(false)}>
-          <InfoModal onClose={() => setInfoOpen(false)} />
+          <InfoModal houseRules={houseRules} onClose={() => setInfoOpen(false)} />
         </div>
       )}
     </>
@@ -178,10 +241,11 @@ const Navbar: React.FC<NavbarProps> = ({
 };
 
 interface InfoModalProps {
+  houseRules: HouseRules;
   onClose: () => void;
 }
 
-const InfoModal: React.FC<InfoModalProps> = ({ onClose }) => {
+const InfoModal: React.FC<InfoModalProps> = ({ houseRules, onClose }) => {
   return (
     <div className="modal-content info-modal" onClick={(e) => e.stopPropagation()}>
       <div className="modal-header">
@@ -206,7 +270,7 @@ const InfoModal: React.FC<InfoModalProps> = ({ onClose }) => {
         <div className="info-section">
           <h3>{UI_MESSAGES.navbar.formingWords}</h3>
           <ul>
-            {UI_MESSAGES.navbar.formingWordsItems.map((item, index) => (
+            {UI_MESSAGES.navbar.formingWordsItems(houseRules.minWordLength).map((item, index) => (
               <li key={index}>{item}</li>
             ))}
           </ul>
@@ -224,7 +288,7 @@ const InfoModal: React.FC<InfoModalProps> = ({ onClose }) => {
         <div className="info-section">
           <h3>{UI_MESSAGES.navbar.scoring}</h3>
           <ul>
-            {UI_MESSAGES.navbar.scoringItems.map((item, index) => (
+            {UI_MESSAGES.navbar.scoringItems(houseRules).map((item, index) => (
               <li key={index} dangerouslySetInnerHTML={{ __html: item }} />
             ))}
           </ul>
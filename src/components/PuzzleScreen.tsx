@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { PUZZLE_PACK_FILES, fetchPuzzlePack, loadSolvedPuzzles } from '../puzzle-packs';
+import type { Puzzle, PuzzlePack, PuzzleAttempt } from '../puzzle-packs';
+import type { PuzzleInfo } from '../types';
+import { UI_MESSAGES } from '../constants/messages';
+import '../styles/PuzzleScreen.scss';
+
+interface PuzzleScreenProps {
+  userId: string;              // Whose solved puzzles to show
+  current?: PuzzleInfo;        // Puzzle just played
+  attempt?: PuzzleAttempt | null; // How the move on it went
+  onPlay: (pack: PuzzlePack, puzzle: Puzzle) => void;
+  onClose: () => void;
+}
+
+const PuzzleScreen: React.FC<PuzzleScreenProps> = ({ userId, current, attempt, onPlay, onClose }) => {
+  const [packs, setPacks] = useState<PuzzlePack[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(PUZZLE_PACK_FILES.map(fetchPuzzlePack))
+      .then(loaded => !cancelled && setPacks(loaded))
+      .catch(err => {
+        console.error('Failed to load puzzle packs:', err);
+        if (!cancelled) {
+          setPacks([]);
+          setError(UI_MESSAGES.puzzles.errorLoading);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const currentPack = packs?.find(p => p.id === current?.packId);
+  const currentIndex = currentPack?.puzzles.findIndex(p => p.id === current?.puzzleId) ?? -1;
+  const nextPuzzle = currentPack?.puzzles[currentIndex + 1];
+
+  return (
+    <div className="modal show puzzle-screen" onClick={onClose}>
+      <div className="modal-content puzzle-content" onClick={(e) => e.stopPropagation()}>
+        <h2>{UI_MESSAGES.puzzles.title}</h2>
+
+        {attempt && (
+          <div className={`puzzle-outcome ${attempt.solved ? 'solved' : 'failed'}`}>
+            <p>{attempt.solved ? UI_MESSAGES.puzzles.solved(attempt.score) : UI_MESSAGES.puzzles.notSolved(attempt.score)}</p>
+            {attempt.words.length > 0 && <p className="puzzle-words">{attempt.words.join(', ')}</p>}
+            <div className="btn-group">
+              {currentPack && currentIndex >= 0 && (
+                <button className="btn btn-secondary" onClick={() => onPlay(currentPack, currentPack.puzzles[currentIndex])}>
+                  {UI_MESSAGES.puzzles.tryAgain}
+                </button>
+              )}
+              {currentPack && nextPuzzle && (
+                <button className="btn btn-primary" onClick={() => onPlay(currentPack, nextPuzzle)}>
+                  {UI_MESSAGES.puzzles.nextPuzzle}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {packs === null && <p className="puzzle-message">{UI_MESSAGES.puzzles.loading}</p>}
+        {error && <p className="puzzle-error">{error}</p>}
+
+        {packs?.map(pack => {
+          const solved = loadSolvedPuzzles(userId, pack.id);
+          return (
+            <section key={pack.id} className="puzzle-pack">
+              <h3>
+                {pack.name}
+                <span className="puzzle-progress">
+                  {UI_MESSAGES.puzzles.solvedCount(pack.puzzles.filter(p => solved[p.id]).length, pack.puzzles.length)}
+                </span>
+              </h3>
+              <ol className="puzzle-list">
+                {pack.puzzles.map((puzzle, index) => (
+                  <li key={puzzle.id}>
+                    <button
+                      className={`puzzle-item ${pack.id === current?.packId && puzzle.id === current?.puzzleId ? 'current' : ''}`}
+                      onClick={() => onPlay(pack, puzzle)}
+                    >
+                      <span className="puzzle-title">{puzzle.title ?? UI_MESSAGES.puzzles.untitled(index)}</span>
+                      <span className="puzzle-goal">{UI_MESSAGES.puzzles.goal(puzzle.goal)}</span>
+                      {solved[puzzle.id] && (
+                        <span className="puzzle-solved">
+                          {solved[puzzle.id].hintsUsed > 0
+                            ? UI_MESSAGES.puzzles.solvedWithHints(solved[puzzle.id].hintsUsed)
+                            : UI_MESSAGES.puzzles.solvedMark}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          );
+        })}
+
+        <button className="btn btn-secondary" onClick={onClose}>
+          {UI_MESSAGES.buttons.close}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleScreen;
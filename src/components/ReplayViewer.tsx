@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Board from './Board';
+import type { ReplayFrame } from '../replay';
+import type { Position } from '../types';
+import { getPlayerColor } from '../utils/playerColors';
+import { UI_MESSAGES } from '../constants/messages';
+import '../styles/ReplayViewer.scss';
+
+// Time each turn stays on screen while playing
+const TURN_DURATION_MS = 2000;
+
+interface ReplayViewerProps {
+  frames: ReplayFrame[];          // Starting position first
+  playerNames: string[];          // By player ID
+  minWordLength?: number;
+  onClose: () => void;
+}
+
+const positionKeys = (positions: Position[]) => new Set(positions.map(p => `${p.x}-${p.y}`));
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ frames, playerNames, minWordLength, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const lastIndex = frames.length - 1;
+  const frame = frames[Math.min(index, lastIndex)];
+
+  // Step to the next turn while playing, stopping at the end
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setIndex(i => i + 1), TURN_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [playing, index, lastIndex]);
+
+  // Tiles played this turn fall again, one after another within a column
+  const { fallingTiles, fallingTileData } = useMemo(() => {
+    const data = new Map<string, { y: number; column: number; delay: number; duration: number }>();
+    const perColumn = new Map<number, number>();
+    for (const { x, y } of frame?.placed ?? []) {
+      const order = perColumn.get(x) ?? 0;
+      perColumn.set(x, order + 1);
+      data.set(`${x}-${y}`, { y, column: x, delay: order * 0.3, duration: 0.2 + (y * (0.5 - 0.2) / 6) });
+    }
+    return { fallingTiles: new Set(data.keys()), fallingTileData: data };
+  }, [frame]);
+
+  // Claimed words are highlighted, with the bonus animations of the words that earned them
+  const highlights = useMemo(() => {
+    const words = frame?.wordsOnBoard ? frame.words : [];
+    const withBonus = (bonus: string) => words.filter(w => w.bonuses.includes(bonus)).flatMap(w => w.positions);
+    return {
+      selected: words.flatMap(w => w.positions),
+      palindrome: positionKeys(withBonus('palindrome')),
+      diagonal: positionKeys(withBonus('diagonal')),
+      diagonalPositions: withBonus('diagonal'),
+      emordnilap: positionKeys(words.find(w => w.bonuses.includes('emordnilap'))?.positions ?? []),
+      emordnilapPositions: words.find(w => w.bonuses.includes('emordnilap'))?.positions ?? []
+    };
+  }, [frame]);
+
+  if (!frame) return null;
+
+  const playerName = (playerId: number) => playerNames[playerId] ?? `Player ${playerId + 1}`;
+  const describeTurn = (turn: ReplayFrame) => {
+    if (turn.playerId === null) return UI_MESSAGES.replay.start;
+    if (turn.boardCleared) return UI_MESSAGES.replay.boardCleared;
+    if (turn.cascadeStep > 0) return UI_MESSAGES.replay.cascade(turn.words.map(w => w.word.toUpperCase()).join(', '));
+    if (turn.words.length > 0) {
+      return UI_MESSAGES.replay.played(playerName(turn.playerId), turn.words.map(w => w.word.toUpperCase()).join(', '));
+    }
+    return turn.gameOver ? UI_MESSAGES.replay.gameOver : UI_MESSAGES.replay.noWord(playerName(turn.playerId));
+  };
+
+  const goTo = (next: number) => {
+    setPlaying(false);
+    setIndex(Math.max(0, Math.min(lastIndex, next)));
+  };
+
+  return (
+    <div className="modal show replay-viewer" onClick={onClose}>
+      <div className="modal-content replay-content" onClick={(e) => e.stopPropagation()}>
+        <div className="replay-header">
+          <h2>{UI_MESSAGES.replay.title}</h2>
+          <span className="replay-turn">{UI_MESSAGES.replay.turnOf(frame.turn, frames[lastIndex].turn)}</span>
+        </div>
+
+        <p className="replay-description">{describeTurn(frame)}</p>
+
+        {/* Remounted on each turn so the tiles fall again */}
+        <Board
+          key={index}
+          board={frame.board}
+          minWordLength={minWordLength}
+          selectedPositions={highlights.selected}
+          isPlacingTiles={false}
+          onColumnClick={() => {}}
+          fallingTiles={fallingTiles}
+          fallingTileData={fallingTileData}
+          palindromeTiles={highlights.palindrome}
+          diagonalTiles={highlights.diagonal}
+          diagonalPositions={highlights.diagonalPositions}
+          emordnilapTiles={highlights.emordnilap}
+          emordnilapPositions={highlights.emordnilapPositions}
+        />
+
+        {frame.words.length > 0 && (
+          <div className="replay-words">
+            {frame.words.map((word, i) => (
+              <div key={i} className="replay-word">
+                <span className="word-text">{word.word.toUpperCase()}</span>
+                <span className="word-score">+{word.score}</span>
+                {word.bonuses.length > 0 && (
+                  <span className="word-bonuses">({word.bonuses.map(UI_MESSAGES.words.bonusLabel).join(', ')})</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="replay-scores">
+          {frame.scores.map((score, playerId) => (
+            <span key={playerId} className="replay-score" style={{ borderColor: getPlayerColor(playerId) }}>
+              {playerName(playerId)} {score}
+            </span>
+          ))}
+        </div>
+
+        <div className="replay-controls">
+          <button className="btn btn-secondary" onClick={() => goTo(0)} disabled={index === 0} title={UI_MESSAGES.replay.first}>⏮</button>
+          <button className="btn btn-secondary" onClick={() => goTo(index - 1)} disabled={index === 0} title={UI_MESSAGES.replay.previous}>◀</button>
+          <button
+            className="btn btn-primary"
+            onClick={() => {
+              if (index >= lastIndex) setIndex(0);
+              setPlaying(!playing);
+            }}
+            disabled={lastIndex === 0}
+          >
+            {playing ? UI_MESSAGES.replay.pause : UI_MESSAGES.replay.play}
+          </button>
+          <button className="btn btn-secondary" onClick={() => goTo(index + 1)} disabled={index >= lastIndex} title={UI_MESSAGES.replay.next}>▶</button>
+          <button className="btn btn-secondary" onClick={() => goTo(lastIndex)} disabled={index >= lastIndex} title={UI_MESSAGES.replay.last}>⏭</button>
+        </div>
+
+        <input
+          type="range"
+          className="replay-scrubber"
+          min={0}
+          max={lastIndex}
+          value={index}
+          onChange={(e) => goTo(Number(e.target.value))}
+          aria-label={UI_MESSAGES.replay.scrub}
+        />
+
+        <ol className="replay-turns" start={0}>
+          {frames.map((turn, i) => (
+            <li key={i}>
+              <button className={`replay-turn-item ${i === index ? 'current' : ''}`} onClick={() => goTo(i)}>
+                {describeTurn(turn)}
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        <button className="btn btn-secondary" onClick={onClose}>
+          {UI_MESSAGES.buttons.close}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import type { SaveSummary } from '../save-games';
+import { AUTOSAVE_SLOT } from '../save-games';
+import { UI_MESSAGES } from '../constants/messages';
+
+interface SaveGameModalProps {
+  isOpen: boolean;
+  saves: SaveSummary[];
+  onSave: (name: string) => void;
+  onCancel: () => void;
+}
+
+const SaveGameModal: React.FC<SaveGameModalProps> = ({ isOpen, saves, onSave, onCancel }) => {
+  const [name, setName] = useState('');
+
+  // Start with an empty name each time the modal opens
+  useEffect(() => {
+    if (isOpen) setName('');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // The autosave slot is managed by the app, not offered as a name
+  const namedSaves = saves.filter(save => save.name !== AUTOSAVE_SLOT);
+  const trimmed = name.trim();
+  const replaces = namedSaves.some(save => save.name === trimmed);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (trimmed && trimmed !== AUTOSAVE_SLOT) {
+      onSave(trimmed);
+    }
+  };
+
+  return (
+    <div className="modal show" onClick={onCancel}>
+      <div className="modal-content save-game-modal" onClick={(e) => e.stopPropagation()}>
+        <h2>{UI_MESSAGES.saves.title}</h2>
+
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label>{UI_MESSAGES.saves.slotName}</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={UI_MESSAGES.saves.slotNamePlaceholder}
+              maxLength={40}
+              required
+              autoFocus
+            />
+            {replaces && <p className="save-replaces">{UI_MESSAGES.saves.replaces(trimmed)}</p>}
+          </div>
+
+          {namedSaves.length > 0 && (
+            <div className="save-slots">
+              <h3>{UI_MESSAGES.saves.existingSlots}</h3>
+              {namedSaves.map(save => (
+                <button
+                  key={save.name}
+                  type="button"
+                  className={`save-slot ${save.name === trimmed ? 'selected' : ''}`}
+                  onClick={() => setName(save.name)}
+                >
+                  <span className="save-slot-name">{save.name}</span>
+                  <span className="save-slot-date">{UI_MESSAGES.saves.savedAt(save.savedAt)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '1rem' }}>
+            <button type="button" className="btn btn-secondary" onClick={onCancel} style={{ flex: 1 }}>
+              {UI_MESSAGES.buttons.cancel}
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={!trimmed || trimmed === AUTOSAVE_SLOT} style={{ flex: 1 }}>
+              {UI_MESSAGES.buttons.save}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SaveGameModal;
@@ -1,13 +1,25 @@
 import React from 'react';
 import type { Player } from '../types';
 import { getPlayerColor, getPlayerColorLight } from '../utils/playerColors';
+import { UI_MESSAGES } from '../constants/messages';
+
+// Countdowns turn red in the last 10 seconds
+const LOW_TIME_MS = 10000;
 
 interface ScoreAreaProps {
   players: Player[];
   currentPlayerId: number;
+  turnTimeLeft?: number | null;     // Current player's turn timer (ms), null when untimed
+  clocks?: Record<number, number>;  // Chess clock time left per player (ms)
 }
 
-const ScoreArea: React.FC<ScoreAreaProps> = ({ players, currentPlayerId }) => {
+// Milliseconds as m:ss, rounded up so 0:00 means time is up
+const formatTime = (ms: number) => {
+  const seconds = Math.ceil(Math.max(0, ms) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ScoreArea: React.FC<ScoreAreaProps> = ({ players, currentPlayerId, turnTimeLeft = null, clocks }) => {
   // Sort players by ID to ensure Player 1 is leftmost, Player 2 to the right, etc.
   const sortedPlayers = [...players].sort((a, b) => a.id - b.id);
   
@@ -20,7 +32,7 @@ const ScoreArea: React.FC<ScoreAreaProps> = ({ players, currentPlayerId }) => {
         return (
         <div 
           key={player.id} 
-            className={`player-score ${isCurrentPlayer ? 'current-player' : ''}`}
+            className={`player-score ${isCurrentPlayer ? 'current-player' : ''} ${player.forfeited ? 'forfeited' : ''}`}
             style={{
               borderLeft: `4px solid ${playerColor}`,
               ...(isCurrentPlayer ? {
@@ -41,6 +53,22 @@ const ScoreArea: React.FC<ScoreAreaProps> = ({ players, currentPlayerId }) => {
             >
               {player.score}
             </div>
+            {player.forfeited ? (
+              <div className="time-left">{UI_MESSAGES.scoreArea.forfeited}</div>
+            ) : (
+              <>
+                {isCurrentPlayer && turnTimeLeft !== null && (
+                  <div className={`time-left turn-timer ${turnTimeLeft <= LOW_TIME_MS ? 'low' : ''}`}>
+                    {UI_MESSAGES.scoreArea.turnTimeLeft(formatTime(turnTimeLeft))}
+                  </div>
+                )}
+                {clocks?.[player.id] !== undefined && (
+                  <div className={`time-left chess-clock ${isCurrentPlayer && clocks[player.id] <= LOW_TIME_MS ? 'low' : ''}`}>
+                    {UI_MESSAGES.scoreArea.clockTimeLeft(formatTime(clocks[player.id]))}
+                  </div>
+                )}
+              </>
+            )}
         </div>
         );
       })}
@@ -1,10 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { UI_MESSAGES } from '../constants/messages';
+import { BOARD_SIZE_OPTIONS, DEFAULT_BOARD_WIDTH, DEFAULT_HINT_PENALTY_MULTIPLIER, DEFAULT_HOUSE_RULES } from '../types';
+import type { BotDifficulty, HouseRules } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGE_PACKS } from '../language-packs';
 import { useAuth } from '../contexts/AuthContext';
 import AuthButton from './AuthButton';
+import HouseRulesFields from './HouseRulesFields';
 
 type GameModeSelection = 'normal' | 'solo';
 
+const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Score multipliers offered for words formed after using a hint
+const HINT_PENALTY_OPTIONS = [0.5, 0.75, 1];
+
 interface SetupModalProps {
   onStartGame: (
     numPlayers: number,
@@ -12,7 +21,14 @@ interface SetupModalProps {
     targetScore: number,
     hintsEnabled: boolean,
     gameMode: GameModeSelection,
-    zenMode: boolean
+    zenMode: boolean,
+    boardSize: number,
+    hintPenaltyMultiplier: number,
+    bots: Array<BotDifficulty | null>,
+    seed?: string,
+    language?: string,
+    houseRules?: HouseRules,
+    challengeMode?: boolean
   ) => void;
   onClose?: () => void;
   highScore?: number;
@@ -23,10 +39,17 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStartGame, onClose, highScore
   const [gameMode, setGameMode] = useState<GameModeSelection>('normal');
   const [numPlayers, setNumPlayers] = useState(2);
   const [playerNames, setPlayerNames] = useState<string[]>(['Player 1', 'Player 2']);
+  const [bots, setBots] = useState<Array<BotDifficulty | null>>([null, null]);
   const [targetScore, setTargetScore] = useState(100);
   const [hintsEnabled, setHintsEnabled] = useState(true);
   const [zenMode, setZenMode] = useState(false);
   const [soloPlayerName, setSoloPlayerName] = useState('Player');
+  const [boardSize, setBoardSize] = useState<number>(DEFAULT_BOARD_WIDTH);
+  const [seed, setSeed] = useState('');
+  const [hintPenalty, setHintPenalty] = useState<number>(DEFAULT_HINT_PENALTY_MULTIPLIER);
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+  const [houseRules, setHouseRules] = useState<HouseRules>(DEFAULT_HOUSE_RULES);
+  const [challengeMode, setChallengeMode] = useState(false);
 
   // Pre-fill player name from Google profile
   useEffect(() => {
@@ -42,6 +65,22 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStartGame, onClose, highScore
       i < playerNames.length ? playerNames[i] : `Player ${i + 1}`
     );
     setPlayerNames(newNames);
+    setBots(Array.from({ length: value }, (_, i) => bots[i] ?? null));
+  };
+
+  const handlePlayerTypeChange = (index: number, value: string) => {
+    const difficulty = value === 'human' ? null : value as BotDifficulty;
+    const newBots = [...bots];
+    newBots[index] = difficulty;
+    setBots(newBots);
+
+    // Give bots a recognizable default name
+    const newNames = [...playerNames];
+    const isDefaultName = newNames[index] === `Player ${index + 1}` || newNames[index].startsWith('🤖');
+    if (isDefaultName) {
+      newNames[index] = difficulty ? UI_MESSAGES.setup.botName(index, difficulty) : `Player ${index + 1}`;
+      setPlayerNames(newNames);
+    }
   };
 
   const handlePlayerNameChange = (index: number, name: string) => {
@@ -52,11 +91,12 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStartGame, onClose, highScore
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const gameSeed = seed.trim() || undefined;
     if (gameMode === 'solo') {
       // Solo mode: 1 player, no target score (endless)
-      onStartGame(1, [soloPlayerName], 0, hintsEnabled, 'solo', zenMode);
+      onStartGame(1, [soloPlayerName], 0, hintsEnabled, 'solo', zenMode, boardSize, hintPenalty, [null], gameSeed, language, houseRules);
     } else {
-      onStartGame(numPlayers, playerNames, targetScore, hintsEnabled, 'normal', false);
+      onStartGame(numPlayers, playerNames, targetScore, hintsEnabled, 'normal', false, boardSize, hintPenalty, bots, gameSeed, language, houseRules, challengeMode);
     }
   };
 
@@ -114,6 +154,19 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStartGame, onClose, highScore
                     onChange={(e) => handlePlayerNameChange(index, e.target.value)}
                     required
                   />
+                  {/* The first player is always the human at the device */}
+                  {index > 0 && (
+                    <select
+                      value={bots[index] ?? 'human'}
+                      onChange={(e) => handlePlayerTypeChange(index, e.target.value)}
+                      aria-label={UI_MESSAGES.setup.playerType(index)}
+                    >
+                      <option value="human">{UI_MESSAGES.setup.human}</option>
+                      {BOT_DIFFICULTIES.map(difficulty => (
+                        <option key={difficulty} value={difficulty}>{UI_MESSAGES.setup.botOption(difficulty)}</option>
+                      ))}
+                    </select>
+                  )}
                 </div>
               ))}
 
@@ -184,6 +237,40 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStartGame, onClose, highScore
             </>
           )}
 
+          <div className="form-group">
+            <label>{UI_MESSAGES.setup.boardSize}</label>
+            <select
+              value={boardSize}
+              onChange={(e) => setBoardSize(parseInt(e.target.value))}
+            >
+              {BOARD_SIZE_OPTIONS.map(size => (
+                <option key={size} value={size}>{UI_MESSAGES.setup.boardSizeOption(size)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>{UI_MESSAGES.setup.language}</label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+            >
+              {Object.values(LANGUAGE_PACKS).map(pack => (
+                <option key={pack.id} value={pack.id}>{pack.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>{UI_MESSAGES.setup.seed}</label>
+            <input
+              type="text"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              placeholder={UI_MESSAGES.setup.seedPlaceholder}
+            />
+          </div>
+
           <div className="form-group form-checkbox">
             <label>
               <input
@@ -195,6 +282,35 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStartGame, onClose, highScore
             </label>
           </div>
 
+          {hintsEnabled && (
+            <div className="form-group">
+              <label>{UI_MESSAGES.setup.hintPenalty}</label>
+              <select
+                value={hintPenalty}
+                onChange={(e) => setHintPenalty(parseFloat(e.target.value))}
+              >
+                {HINT_PENALTY_OPTIONS.map(multiplier => (
+                  <option key={multiplier} value={multiplier}>{UI_MESSAGES.setup.hintPenaltyOption(multiplier)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <HouseRulesFields rules={houseRules} onChange={setHouseRules} />
+
+          {gameMode !== 'solo' && (
+            <div className="form-group form-checkbox">
+              <label title={UI_MESSAGES.setup.challengeModeDescription}>
+                <input
+                  type="checkbox"
+                  checked={challengeMode}
+                  onChange={(e) => setChallengeMode(e.target.checked)}
+                />
+                <span>{UI_MESSAGES.setup.challengeMode}</span>
+              </label>
+            </div>
+          )}
+
           <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '1rem' }}>
             {onClose && (
               <button
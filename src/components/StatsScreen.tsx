@@ -0,0 +1,91 @@
+import React from 'react';
+import { usePlayerStats } from '../hooks/usePlayerStats';
+import { STATS_MODES, getAverageTurnScore, getMostUsedWords } from '../player-stats';
+import { BONUS_TYPES } from '../house-rules';
+import { UI_MESSAGES } from '../constants/messages';
+import '../styles/StatsScreen.scss';
+
+interface StatsScreenProps {
+  onClose: () => void;
+}
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ onClose }) => {
+  const { stats, loading } = usePlayerStats();
+  const hasGames = !!stats && STATS_MODES.some(mode => stats.gamesPlayed[mode] > 0);
+
+  return (
+    <div className="modal show stats-screen" onClick={onClose}>
+      <div className="modal-content stats-content" onClick={(e) => e.stopPropagation()}>
+        <h2>{UI_MESSAGES.stats.title}</h2>
+
+        {loading || !stats ? (
+          <p className="stats-message">{UI_MESSAGES.stats.loading}</p>
+        ) : !hasGames ? (
+          <p className="stats-message">{UI_MESSAGES.stats.empty}</p>
+        ) : (
+          <>
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th>{UI_MESSAGES.stats.mode}</th>
+                  <th>{UI_MESSAGES.stats.played}</th>
+                  <th>{UI_MESSAGES.stats.won}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {STATS_MODES.map(mode => (
+                  <tr key={mode}>
+                    <td>{UI_MESSAGES.stats.modes[mode]}</td>
+                    <td>{stats.gamesPlayed[mode]}</td>
+                    <td>{mode === 'solo' ? '—' : stats.gamesWon[mode]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="stats-grid">
+              <div className="stats-item">
+                <span className="stats-label">{UI_MESSAGES.stats.averageTurn}</span>
+                <span className="stats-value">{getAverageTurnScore(stats).toFixed(1)}</span>
+              </div>
+              <div className="stats-item">
+                <span className="stats-label">{UI_MESSAGES.stats.bestTurn}</span>
+                <span className="stats-value">{stats.bestTurnScore}</span>
+              </div>
+              <div className="stats-item">
+                <span className="stats-label">{UI_MESSAGES.stats.longestWord}</span>
+                <span className="stats-value">{stats.longestWord || '—'}</span>
+              </div>
+            </div>
+
+            <h3>{UI_MESSAGES.stats.bonuses}</h3>
+            <div className="stats-grid">
+              {BONUS_TYPES.map(type => (
+                <div key={type} className="stats-item">
+                  <span className="stats-label">{UI_MESSAGES.words.bonusLabel(type)}</span>
+                  <span className="stats-value">{stats.bonusCounts[type]}</span>
+                </div>
+              ))}
+            </div>
+
+            <h3>{UI_MESSAGES.stats.mostUsedWords}</h3>
+            <ol className="stats-words">
+              {getMostUsedWords(stats).map(({ word, count }) => (
+                <li key={word}>
+                  <span className="word-text">{word}</span>
+                  <span className="word-count">{UI_MESSAGES.stats.timesUsed(count)}</span>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+
+        <button className="btn btn-secondary" onClick={onClose}>
+          {UI_MESSAGES.buttons.close}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StatsScreen;
@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { UI_MESSAGES } from '../constants/messages';
+import type { GameEndReason, Standing } from '../types';
 import '../styles/WinScreen.scss';
 
 interface WinScreenProps {
@@ -6,9 +8,13 @@ interface WinScreenProps {
     winnerScore: number;
     targetScore: number;
     allPlayers: { name: string; score: number }[];
-    onContinuePlaying: (newTargetScore: number) => void;
-    onNewGame: () => void;
+    endReason?: GameEndReason;   // Why the game ended (default target_score)
+    standings?: Standing[];      // Final standings from the engine, shown instead of allPlayers
+    onContinuePlaying?: (newTargetScore: number) => void;  // Players only (spectators just watch)
+    onNewGame?: () => void;
     onGoHome: () => void;
+    onWatchReplay?: () => void;  // Shown when the game's turns can be replayed
+    onAnalyzeGame?: () => void;  // Shown when every rack is known (local games)
 }
 
 const WinScreen: React.FC<WinScreenProps> = ({
@@ -16,16 +22,28 @@ const WinScreen: React.FC<WinScreenProps> = ({
     winnerScore,
     targetScore,
     allPlayers,
+    endReason = 'target_score',
+    standings,
     onContinuePlaying,
     onNewGame,
-    onGoHome
+    onGoHome,
+    onWatchReplay,
+    onAnalyzeGame
 }) => {
     const [newTarget, setNewTarget] = useState(targetScore + 50);
 
     const handleContinue = () => {
-        onContinuePlaying(newTarget);
+        onContinuePlaying?.(newTarget);
     };
 
+    // Ranked rows: engine standings if available, otherwise sorted scores
+    const rows = standings
+        ? standings.map(s => ({ name: s.name, score: s.score, rackPenalty: s.rackPenalty, rank: s.rank }))
+        : [...allPlayers]
+            .sort((a, b) => b.score - a.score)
+            .map((player, index) => ({ ...player, rackPenalty: 0, rank: index + 1 }));
+    const hasPenalties = rows.some(row => row.rackPenalty > 0);
+
     return (
         <div className="win-screen-overlay">
             <div className="win-screen-modal">
@@ -53,55 +71,80 @@ const WinScreen: React.FC<WinScreenProps> = ({
                     {winnerScore} points
                 </p>
 
+                <p className="end-reason">
+                    {endReason === 'target_score'
+                        ? UI_MESSAGES.winScreen.endReason.target_score(targetScore)
+                        : UI_MESSAGES.winScreen.endReason[endReason]}
+                </p>
+
                 <div className="final-scores">
                     <h3>Final Scores</h3>
                     <div className="scores-list">
-                        {allPlayers
-                            .sort((a, b) => b.score - a.score)
-                            .map((player, index) => (
-                                <div key={index} className={`score-row ${player.name === winnerName ? 'winner' : ''}`}>
-                                    <span className="rank">{index + 1}.</span>
-                                    <span className="name">{player.name}</span>
-                                    <span className="score">{player.score}</span>
-                                </div>
-                            ))}
+                        {rows.map((player, index) => (
+                            <div key={index} className={`score-row ${player.name === winnerName ? 'winner' : ''}`}>
+                                <span className="rank">{player.rank}.</span>
+                                <span className="name">{player.name}</span>
+                                {player.rackPenalty > 0 && (
+                                    <span className="penalty">{UI_MESSAGES.winScreen.rackPenalty(player.rackPenalty)}</span>
+                                )}
+                                <span className="score">{player.score}</span>
+                            </div>
+                        ))}
                     </div>
+                    {hasPenalties && (
+                        <p className="penalty-note">{UI_MESSAGES.winScreen.rackPenaltyNote}</p>
+                    )}
                 </div>
 
                 <div className="win-actions">
-                    <div className="continue-section">
-                        <label>
-                            Continue to
-                            <input
-                                type="text"
-                                inputMode="numeric"
-                                value={newTarget}
-                                onChange={(e) => setNewTarget(e.target.value as any)}
-                                onBlur={(e) => {
-                                    const val = parseInt(e.target.value) || targetScore + 50;
-                                    setNewTarget(Math.max(winnerScore + 10, val));
-                                }}
-                                onKeyDown={(e) => {
-                                    if (e.key === 'Enter') {
-                                        const val = parseInt((e.target as HTMLInputElement).value) || targetScore + 50;
+                    {/* Only a game won on score can keep going; an empty bag can't */}
+                    {endReason === 'target_score' && onContinuePlaying && (
+                        <div className="continue-section">
+                            <label>
+                                Continue to
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    value={newTarget}
+                                    onChange={(e) => setNewTarget(e.target.value as any)}
+                                    onBlur={(e) => {
+                                        const val = parseInt(e.target.value) || targetScore + 50;
                                         setNewTarget(Math.max(winnerScore + 10, val));
-                                    }
-                                }}
-                            />
-                            points
-                        </label>
-                        <button className="btn-continue" onClick={handleContinue}>
-                            Keep Playing
-                        </button>
-                    </div>
+                                    }}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') {
+                                            const val = parseInt((e.target as HTMLInputElement).value) || targetScore + 50;
+                                            setNewTarget(Math.max(winnerScore + 10, val));
+                                        }
+                                    }}
+                                />
+                                points
+                            </label>
+                            <button className="btn-continue" onClick={handleContinue}>
+                                Keep Playing
+                            </button>
+                        </div>
+                    )}
 
                     <div className="other-actions">
-                        <button className="btn-new-game" onClick={onNewGame}>
-                            New Game
-                        </button>
+                        {onNewGame && (
+                            <button className="btn-new-game" onClick={onNewGame}>
+                                New Game
+                            </button>
+                        )}
                         <button className="btn-home" onClick={onGoHome}>
                             Home
                         </button>
+                        {onWatchReplay && (
+                            <button className="btn-replay" onClick={onWatchReplay}>
+                                {UI_MESSAGES.buttons.watchReplay}
+                            </button>
+                        )}
+                        {onAnalyzeGame && (
+                            <button className="btn-replay btn-analyze" onClick={onAnalyzeGame}>
+                                {UI_MESSAGES.buttons.analyzeGame}
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -26,8 +26,9 @@ const WordsPanel: React.FC<WordsPanelProps> = ({ claimedWords, players, classNam
         ) : (
           claimedWords.map((cw, index) => {
             const playerColor = getPlayerColor(cw.playerId);
+            const challengeStatus = cw.challenge ? UI_MESSAGES.words.challengeStatus[cw.challenge.status] : '';
             return (
-              <div key={index} className="word-item">
+              <div key={index} className={`word-item ${cw.challenge ? `challenge-${cw.challenge.status}` : ''}`}>
                 <span
                   className="word-player"
                   style={{ color: playerColor, fontWeight: 'bold' }}
@@ -38,9 +39,15 @@ const WordsPanel: React.FC<WordsPanelProps> = ({ claimedWords, players, classNam
                 <span className="word-score">+{cw.score}</span>
                 {cw.bonuses && cw.bonuses.length > 0 && (
                   <span className="word-bonuses">
-                    ({cw.bonuses.join(', ')})
+                    ({cw.bonuses.map(UI_MESSAGES.words.bonusLabel).join(', ')})
                   </span>
                 )}
+                {cw.combo && (
+                  <span className="word-combo">{UI_MESSAGES.words.combo(cw.combo)}</span>
+                )}
+                {challengeStatus && (
+                  <span className="word-challenge">{challengeStatus}</span>
+                )}
               </div>
             );
           })
@@ -3,6 +3,8 @@
  * All user-facing text strings are stored here for easy editing and maintenance.
  */
 
+import type { HouseRules, PuzzleGoal } from '../types';
+
 export const UI_MESSAGES = {
   // ============================================
   // BUTTONS & ACTIONS
@@ -14,12 +16,22 @@ export const UI_MESSAGES = {
     swapTilesTooltip: (count: number) => count > 0
       ? `Swap ${count} selected tile${count !== 1 ? 's' : ''}`
       : 'Select tiles to swap',
+    challenge: (seconds: number) => `⚖️ Challenge (${seconds}s)`,
+    challengeTooltip: (name: string) => `Challenge ${name}'s last play`,
+    pass: 'Pass',
+    passTooltip: (hasPlacedTiles: boolean) => hasPlacedTiles
+      ? 'Remove placed tiles before passing'
+      : 'Give up this turn without drawing tiles',
     hint: '💡 Hint',
     hintWithLevel: (level: number) => `💡 Hint (${level}/4)`,
     hintFullSolution: '💡 Full Solution',
     hintTooltip: (level: number) => level === 0
       ? 'Get a hint'
       : `Click for more detail (level ${level + 1})`,
+    undo: '↩️ Undo',
+    undoTooltip: 'Undo the last turn',
+    redo: '↪️ Redo',
+    redoTooltip: 'Redo the last undone turn',
     clear: 'Clear',
     clearSelection: 'Clear selection',
     cancel: 'Cancel',
@@ -34,6 +46,16 @@ export const UI_MESSAGES = {
     createRoom: 'Create Room',
     joinRoom: 'Join Room',
     playLocal: 'Play Local',
+    continueGame: '▶ Continue',
+    savedGames: 'Saved Games',
+    saveGame: 'Save Game',
+    save: 'Save',
+    load: 'Load',
+    delete: 'Delete',
+    copyNotation: 'Copy Game Notation',
+    importGame: 'Import',
+    watchReplay: '🎬 Watch Replay',
+    analyzeGame: '🔍 Analyze Game',
     imReady: "I'm Ready!",
     notReady: 'Not Ready',
     leaveRoom: 'Leave Room',
@@ -71,6 +93,13 @@ export const UI_MESSAGES = {
     enterYourName: 'Enter your name',
     targetScore: 'Target Score:',
     enableHints: 'Enable Hints',
+    boardSize: 'Board Size:',
+    language: 'Language:',
+    turnTimer: 'Turn Timer:',
+    chessClock: 'Chess Clock:',
+    timeOff: 'Off',
+    turnTimerOption: (ms: number) => ms >= 60000 ? `${ms / 60000} min per turn` : `${ms / 1000}s per turn`,
+    chessClockOption: (ms: number) => `${ms / 60000} min per player`,
     roomCodePlaceholder: 'e.g. AB3K',
   },
 
@@ -85,11 +114,227 @@ export const UI_MESSAGES = {
     numberOfPlayers: 'Number of Players:',
     players: (count: number) => `${count} Players`,
     playerName: (index: number) => `Player ${index + 1} Name:`,
+    playerType: (index: number) => `Player ${index + 1} type`,
+    human: '👤 Human',
+    botOption: (difficulty: string) => `🤖 Bot (${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)})`,
+    botName: (index: number, difficulty: string) => `🤖 ${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)} Bot ${index}`,
     targetScore: 'Target Score:',
     zenMode: 'Zen Mode (hide score)',
     zenModeDescription: 'Build words endlessly until the board fills up!',
     zenModeHighScore: 'Your high score will be saved on this device.',
     enableHints: 'Enable Hints',
+    boardSize: 'Board Size:',
+    boardSizeOption: (size: number) => {
+      if (size < 7) return `${size}×${size} (Quick)`;
+      if (size > 7) return `${size}×${size} (Long)`;
+      return `${size}×${size} (Classic)`;
+    },
+    challengeMode: 'Challenge Mode',
+    challengeModeDescription: 'Words are not checked when played. Challenge a play before the next move: an invalid play is taken back, a failed challenge costs points.',
+    hintPenalty: 'Hinted Word Score:',
+    hintPenaltyOption: (multiplier: number) => multiplier >= 1
+      ? '100% (no penalty)'
+      : `${Math.round(multiplier * 100)}%`,
+    seed: 'Game Seed (optional):',
+    seedPlaceholder: 'Random',
+    language: 'Language:',
+  },
+
+  // ============================================
+  // SAVED GAMES
+  // ============================================
+  saves: {
+    title: 'Save Game',
+    slotName: 'Save as:',
+    slotNamePlaceholder: 'e.g. Sunday game',
+    existingSlots: 'Saved games',
+    replaces: (name: string) => `Replaces the saved game "${name}"`,
+    noSaves: 'No saved games yet',
+    autosaveName: 'Last game (autosave)',
+    summary: (players: string[], scores: number[]) =>
+      players.map((name, i) => `${name} ${scores[i]}`).join(' · '),
+    savedAt: (time: number) => new Date(time).toLocaleString(),
+    saved: (name: string) => `Game saved as "${name}"`,
+  },
+
+  // ============================================
+  // REPLAY VIEWER
+  // ============================================
+  replay: {
+    title: 'Replay',
+    turnOf: (turn: number, total: number) => `Turn ${turn} of ${total}`,
+    start: 'Starting position',
+    played: (name: string, words: string) => `${name} played ${words}`,
+    noWord: (name: string) => `${name} swapped or passed`,
+    boardCleared: 'The board was cleared',
+    cascade: (words: string) => words ? `The falling tiles formed ${words}` : 'The falling tiles settled',
+    gameOver: 'Game over',
+    play: '▶ Play',
+    pause: '⏸ Pause',
+    first: 'First turn',
+    previous: 'Previous turn',
+    next: 'Next turn',
+    last: 'Last turn',
+    scrub: 'Turn',
+  },
+
+  // ============================================
+  // POST-GAME ANALYSIS
+  // ============================================
+  analysis: {
+    title: 'Game Analysis',
+    progress: (analyzed: number, total: number) => `Analyzing turn ${analyzed} of ${total}...`,
+    turn: 'Turn',
+    player: 'Player',
+    played: 'Played',
+    best: 'Best move',
+    missed: 'Missed',
+    swap: 'Swapped tiles',
+    pass: 'Passed',
+    timeout: 'Ran out of time',
+    withdrawn: 'withdrawn',
+    noMove: 'No word possible',
+    tilesUsed: (count: number) => `${count} tile${count === 1 ? '' : 's'}`,
+    incomplete: 'Search stopped early; a better move may exist',
+    totals: 'Points missed',
+    dictionaryLoading: 'The dictionary is still loading. Try again in a moment.',
+  },
+
+  // ============================================
+  // PLAYER STATS
+  // ============================================
+  stats: {
+    open: '📊 Stats',
+    title: 'Your Stats',
+    loading: 'Loading stats...',
+    empty: 'Finish a game while signed in to start your stats.',
+    mode: 'Mode',
+    played: 'Played',
+    won: 'Won',
+    modes: {
+      solo: 'Solo',
+      local: 'Local vs bots',
+      online: 'Online',
+    } as Record<string, string>,
+    averageTurn: 'Average turn score',
+    bestTurn: 'Best turn score',
+    longestWord: 'Longest word',
+    bonuses: 'Bonuses earned',
+    mostUsedWords: 'Most used words',
+    timesUsed: (count: number) => `×${count}`,
+  },
+
+  // ============================================
+  // DAILY PUZZLE
+  // ============================================
+  daily: {
+    play: '📅 Daily Puzzle',
+    playedToday: (score: number) => `📅 Today's Puzzle: ${score} points`,
+    playerName: 'Player',
+    turnsLeft: (left: number) => `${left} turn${left === 1 ? '' : 's'} left`,
+    resultTitle: (id: string) => `📅 Daily Puzzle ${id}`,
+    streak: (days: number) => days > 0 ? `🔥 ${days} day streak` : 'No streak yet',
+    bestStreak: (days: number) => `Best streak: ${days} day${days === 1 ? '' : 's'}`,
+    copyResult: '📋 Copy Result',
+    copied: '✅ Copied!',
+    comeBack: 'A new puzzle comes out every day at midnight UTC.',
+  },
+
+  // ============================================
+  // PUZZLE PACKS
+  // ============================================
+  puzzles: {
+    open: '🧩 Puzzles',
+    title: '🧩 Puzzles',
+    playerName: 'Player',
+    loading: 'Loading puzzles...',
+    errorLoading: 'Could not load the puzzles',
+    solvedCount: (solved: number, total: number) => `${solved} of ${total} solved`,
+    goal: (goal: PuzzleGoal) => goal.type === 'score'
+      ? `Score ${goal.min}+ points in one move`
+      : goal.type === 'palindrome' ? 'Make a palindrome' : 'Make a diagonal word',
+    untitled: (index: number) => `Puzzle ${index + 1}`,
+    solvedMark: '✅',
+    solvedWithHints: (hints: number) => `✅ (${hints} hint${hints === 1 ? '' : 's'})`,
+    solved: (score: number) => `🎉 Solved! ${score} points`,
+    notSolved: (score: number) => `Not quite: ${score} points, but the goal wasn't reached`,
+    tryAgain: '🔄 Try Again',
+    nextPuzzle: 'Next Puzzle ➡️',
+    noHint: 'No hint for this puzzle: the answer takes more than two tiles',
+  },
+
+  // ============================================
+  // LEADERBOARDS
+  // ============================================
+  leaderboard: {
+    open: '🏆 Leaderboard',
+    title: 'Solo Leaderboard',
+    kinds: {
+      allTime: 'All Time',
+      weekly: 'This Week',
+      friends: 'Friends',
+    } as Record<string, string>,
+    loading: 'Loading...',
+    empty: 'No scores yet. Finish a solo game to get on the board!',
+    unranked: 'Only games with the standard settings go on the leaderboard.',
+    signInToJoin: 'Sign in to put your solo scores on the leaderboards.',
+    signInForFriends: 'Sign in to compare scores with friends.',
+    you: '(you)',
+    anonymous: 'Anonymous',
+    guest: 'Guest',
+    friendCode: 'Your friend code',
+    addFriend: 'Add Friend',
+    friendCodePlaceholder: "Friend's code",
+    remove: 'Remove',
+    errorLoading: 'Could not load the leaderboard',
+  },
+
+  // ============================================
+  // GAME NOTATION
+  // ============================================
+  notation: {
+    copied: 'Game notation copied to the clipboard',
+    importTitle: 'Import a game',
+    importPlaceholder: 'Paste game notation here',
+  },
+
+  // ============================================
+  // WIN SCREEN
+  // ============================================
+  winScreen: {
+    endReason: {
+      target_score: (target: number) => `First to ${target} points`,
+      out_of_tiles: 'The bag is empty and a player used their last tile',
+      stalemate: 'The bag is empty and every player passed',
+      forfeit: 'Every other player ran out of time',
+    },
+    rackPenalty: (points: number) => `−${points} rack`,
+    rackPenaltyNote: 'Tiles left in each rack were subtracted from the final scores.',
+  },
+
+  // ============================================
+  // HOUSE RULES
+  // ============================================
+  houseRules: {
+    title: 'House Rules',
+    bonus: {
+      diagonal: 'Diagonal bonus',
+      palindrome: 'Palindrome bonus',
+      emordnilap: 'Emordnilap bonus',
+    },
+    multiplierOption: (multiplier: number) => `${multiplier}×`,
+    multiplierLabel: (bonus: string) => `${bonus} multiplier`,
+    minWordLength: 'Minimum Word Length:',
+    minWordLengthOption: (length: number) => `${length} letters`,
+    stackBonuses: 'Bonuses stack (otherwise only the largest applies)',
+    cascade: 'Cascade: scored words vanish and the tiles above fall',
+  },
+
+  // ============================================
+  // CASCADE
+  // ============================================
+  cascade: {
+    comboBonus: (multiplier: number) => `${multiplier}× Combo`,
   },
 
   // ============================================
@@ -99,12 +344,29 @@ export const UI_MESSAGES = {
     selectedWords: 'Selected Words:',
   },
 
+  // ============================================
+  // SCORE AREA
+  // ============================================
+  scoreArea: {
+    turnTimeLeft: (time: string) => `⏱ ${time}`,
+    clockTimeLeft: (time: string) => `♟ ${time}`,
+    forfeited: 'Out of time',
+  },
+
   // ============================================
   // WORDS PANEL
   // ============================================
   words: {
     claimedWords: 'Scored Words',
     noWordsClaimed: 'No words scored yet',
+    bonusLabel: (bonus: string) => bonus === 'hint_penalty' ? 'hint penalty' : bonus,
+    combo: (multiplier: number) => `${multiplier}× combo`,
+    challengeStatus: {
+      pending: 'can be challenged',
+      unchallenged: '',
+      upheld: 'challenge failed',
+      withdrawn: 'challenged off',
+    },
   },
 
   // ============================================
@@ -115,7 +377,7 @@ export const UI_MESSAGES = {
     howToPlay: 'How to play',
     howToPlayTitle: 'How to Play Grabble',
     objective: 'Objective',
-    objectiveDescription: 'Form words on a 7×7 grid using Scrabble tiles. Be the first to reach the target score!',
+    objectiveDescription: 'Form words on a gravity grid (7×7 by default) using Scrabble tiles. Be the first to reach the target score!',
     placingTiles: 'Placing Tiles',
     placingTilesItems: [
       'Drag tiles from your rack to the top row of any column',
@@ -123,9 +385,9 @@ export const UI_MESSAGES = {
       'You can also drag tiles directly to any empty cell on the board',
     ],
     formingWords: 'Forming Words',
-    formingWordsItems: [
+    formingWordsItems: (minWordLength: number) => [
       'Drag your cursor across tiles to select a word (horizontal, vertical, or diagonal)',
-      'Words must be at least 3 letters long',
+      `Words must be at least ${minWordLength} letters long`,
       'All words must be valid dictionary words',
       'You can select multiple words before submitting',
     ],
@@ -137,12 +399,17 @@ export const UI_MESSAGES = {
       'You can only remove tiles you placed during your current turn',
     ],
     scoring: 'Scoring',
-    scoringItems: [
+    scoringItems: ({ bonuses, stackBonuses, cascade }: HouseRules) => [
       'Base Score: Sum of letter values',
-      'Diagonal Bonus: 2× multiplier for diagonal words',
-      'Palindrome Bonus: 2× multiplier for words that read the same forwards and backwards (e.g., "RADAR")',
-      'Emordnilap Bonus: 2× multiplier when a word and its reverse are both valid (e.g., "TIN" and "NIT")',
-      'Bonuses stack multiplicatively',
+      ...(bonuses.diagonal.enabled
+        ? [`Diagonal Bonus: ${bonuses.diagonal.multiplier}× multiplier for diagonal words`] : []),
+      ...(bonuses.palindrome.enabled
+        ? [`Palindrome Bonus: ${bonuses.palindrome.multiplier}× multiplier for words that read the same forwards and backwards (e.g., "RADAR")`] : []),
+      ...(bonuses.emordnilap.enabled
+        ? [`Emordnilap Bonus: ${bonuses.emordnilap.multiplier}× multiplier when a word and its reverse are both valid (e.g., "TIN" and "NIT")`] : []),
+      stackBonuses ? 'Bonuses stack multiplicatively' : 'Bonuses don\'t stack: only the largest applies',
+      ...(cascade
+        ? ['Cascade: scored words vanish and the tiles above fall. Words the falling tiles form score too, at 2×, 3×, ... for each link of the chain'] : []),
     ],
     specialTiles: 'Special Tiles',
     specialTilesItems: [
@@ -187,6 +454,19 @@ export const UI_MESSAGES = {
     declinedMessage: (name: string) => `${name} declined the new game request. The current game will continue.`,
   },
 
+  // ============================================
+  // SPECTATORS
+  // ============================================
+  spectators: {
+    watch: 'Watch',
+    watchTitle: 'Watch a game in progress or a full room',
+    title: (count: number) => `Spectators (${count})`,
+    watching: (count: number) => count === 1 ? '👀 1 watching' : `👀 ${count} watching`,
+    watchingTurn: (name: string) => `Watching · ${name}'s turn`,
+    waitingForStart: 'Watching - the game starts when the host is ready',
+    stopWatching: 'Stop Watching',
+  },
+
   // ============================================
   // ERROR MESSAGES
   // ============================================
@@ -216,6 +496,23 @@ export const UI_MESSAGES = {
     selectTilesToSwap: 'Please select tiles to swap.',
     gameNotInitialized: 'Game not initialized.',
     errorSwappingTiles: (error: string) => `Error swapping tiles: ${error}`,
+    errorPassingTurn: (error: string) => `Error passing turn: ${error}`,
+    errorClearingBoard: (error: string) => `Error clearing board: ${error}`,
+    errorSavingGame: (error: string) => `Could not save the game: ${error}`,
+    errorLoadingGame: (name: string) => `Could not load "${name}". The save may be damaged.`,
+    errorExportingNotation: (error: string) => `Could not write the game notation: ${error}`,
+    errorImportingNotation: (error: string) => `Could not import the game: ${error}`,
+    challengeSucceeded: (challenger: string, player: string, words: string) => `${challenger} challenged ${words}: not in the dictionary! ${player}'s play is taken back.`,
+    challengeFailed: (challenger: string, words: string, penalty: number) => `${challenger} challenged ${words}, but it's valid. ${challenger} loses ${penalty} points.`,
+    errorChallenging: (error: string) => `Challenge failed: ${error}`,
+  },
+
+  // ============================================
+  // COMPUTER OPPONENTS
+  // ============================================
+  bots: {
+    thinking: (name: string) => `${name} is thinking...`,
+    turnFailed: (name: string) => `${name} couldn't finish their turn, so the game can't go on. Start a new game to keep playing.`,
   },
 
   // ============================================
@@ -226,6 +523,8 @@ export const UI_MESSAGES = {
     hintsNotAvailable: '⚠️ Hints are not available until a word has been played. Complete your first move!',
     noSingleTileHint: '⚠️ No single-tile hint found. Consider swapping tiles?',
     wordsPossible: '✅ Words are possible! Click again for more detail.',
+    wordsPossibleWithPenalty: (percent: number) => `✅ Words are possible! Words using hinted moves score ${percent}%. Click again for more detail.`,
+    cooldown: (seconds: number) => `⏳ Next hint available in ${seconds}s`,
     highlightedTilesCanFormWord: (count: number) => count === 2
       ? '💡 Highlighted tiles can form a word together (2-tile move).'
       : '💡 Highlighted tile can form a word.',
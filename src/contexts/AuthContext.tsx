@@ -25,7 +25,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
     // Listen to auth state changes
     useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+        const unsubscribe = onAuthStateChanged(auth, (authUser) => {
+            // Guests get an anonymous session for multiplayer; they count as signed out
+            const currentUser = authUser && !authUser.isAnonymous ? authUser : null;
             setUser(currentUser);
             setLoading(false);
             if (currentUser) {
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the daily puzzle
+ * Tests the shared deal, the turn limit, saved attempts and results, streaks and the share text
+ */
+
+import {
+    DAILY_PUZZLE_TURNS,
+    DAILY_PUZZLE_STARTING_TILES,
+    getDailyPuzzleId,
+    createDailyPuzzle,
+    isDailyPuzzleOver,
+    summarizeDailyPuzzle,
+    loadDailyResults,
+    saveDailyResult,
+    saveDailyAttempt,
+    loadDailyAttempt,
+    getDailyStreak,
+    formatDailySummary
+} from './daily-puzzle';
+import type { DailyResult } from './daily-puzzle';
+import { loadWithRack, playBottomRow } from './test-games';
+
+const result = (id: string, score = 10): DailyResult => ({ id, score, turns: [], completedAt: 0 });
+
+describe('Daily puzzle', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('should deal the same bag and starting board to everyone on a day', () => {
+        const dayId = getDailyPuzzleId(Date.UTC(2024, 1, 14, 23, 59));
+        expect(dayId).toBe('2024-02-14');
+
+        const ann = createDailyPuzzle(dayId, 'Ann').getState();
+        const ben = createDailyPuzzle(dayId, 'Ben').getState();
+        const tomorrow = createDailyPuzzle('2024-02-15', 'Ann').getState();
+
+        expect(ann.board).toEqual(ben.board);
+        expect(ann.tileBag).toEqual(ben.tileBag);
+        expect(ann.players[0].rack).toEqual(ben.players[0].rack);
+        expect(ann.board).not.toEqual(tomorrow.board);
+
+        const placed = ann.board.flat().filter(Boolean);
+        expect(placed).toHaveLength(DAILY_PUZZLE_STARTING_TILES);
+        expect(placed.every(tile => tile!.letter !== ' ')).toBe(true);
+        expect(ann).toMatchObject({ gameMode: 'solo', hintsEnabled: false, dailyPuzzle: { id: dayId, turns: DAILY_PUZZLE_TURNS } });
+    });
+
+    it('should resume only the day\'s saved attempt', () => {
+        const state = createDailyPuzzle('2024-02-14', 'Ann').getState();
+        expect(loadDailyAttempt('2024-02-14')).toBeNull();
+
+        saveDailyAttempt(state);
+        expect(loadDailyAttempt('2024-02-14')?.players[0].rack).toEqual(state.players[0].rack);
+        expect(loadDailyAttempt('2024-02-15')).toBeNull();
+
+        // Other games never replace the attempt
+        saveDailyAttempt({ ...state, dailyPuzzle: undefined, players: [] });
+        expect(loadDailyAttempt('2024-02-14')?.players).toHaveLength(1);
+    });
+
+    it('should end after the puzzle\'s turns and summarize each turn', async () => {
+        const dealt = createDailyPuzzle('2024-02-14', 'Ann').getState();
+        dealt.board = dealt.board.map(row => row.map(() => null));
+        const manager = loadWithRack(dealt, 'CAT');
+        const engine = manager.getEngine();
+
+        await playBottomRow(manager, new Set(['CAT']));
+        for (let turn = 1; turn < DAILY_PUZZLE_TURNS; turn++) {
+            expect(isDailyPuzzleOver(manager.getState())).toBe(false);
+            engine.passTurn(0);
+        }
+        expect(isDailyPuzzleOver(manager.getState())).toBe(true);
+
+        const summary = summarizeDailyPuzzle(manager.getState(), 1000);
+        expect(summary).toMatchObject({ id: '2024-02-14', score: 5, completedAt: 1000 });
+        expect(summary.turns).toHaveLength(DAILY_PUZZLE_TURNS);
+        expect(summary.turns[0]).toEqual({ score: 5, bonuses: [] });
+        expect(summary.turns[1]).toEqual({ score: 0, bonuses: [] });
+    });
+
+    it('should keep the first result of a day and count streaks', () => {
+        saveDailyResult(result('2024-02-12', 40));
+        saveDailyResult(result('2024-02-12', 90));
+        saveDailyResult(result('2024-02-13'));
+        saveDailyResult(result('2024-02-09'));
+        saveDailyResult(result('2024-02-08'));
+        saveDailyResult(result('2024-02-07'));
+
+        const results = loadDailyResults();
+        expect(results['2024-02-12'].score).toBe(40);
+
+        // Still alive until today's puzzle is missed
+        expect(getDailyStreak(results, '2024-02-14')).toEqual({ current: 2, best: 3 });
+        expect(getDailyStreak(results, '2024-02-15')).toEqual({ current: 0, best: 3 });
+        expect(getDailyStreak({ ...results, '2024-02-14': result('2024-02-14') }, '2024-02-14')).toEqual({ current: 3, best: 3 });
+    });
+
+    it('should share the result without the words', () => {
+        const daily: DailyResult = {
+            id: '2024-02-14',
+            score: 42,
+            turns: [
+                { score: 0, bonuses: [] },
+                { score: 7, bonuses: [] },
+                { score: 12, bonuses: ['diagonal'] },
+                { score: 23, bonuses: ['palindrome', 'emordnilap'] }
+            ],
+            completedAt: 0
+        };
+
+        expect(formatDailySummary(daily, { current: 3, best: 5 })).toBe([
+            'Grabble Daily 2024-02-14',
+            '42 points · 🔥 3 days',
+            '⬜🟨🟩🟪',
+            '▫️ ▫️ ↗️ 🔁🪞'
+        ].join('\n'));
+        expect(formatDailySummary({ ...daily, turns: [{ score: 5, bonuses: [] }] }, { current: 1, best: 1 })).toBe(
+            'Grabble Daily 2024-02-14\n42 points\n🟨'
+        );
+    });
+});
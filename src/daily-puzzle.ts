@@ -0,0 +1,216 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Daily puzzle - the same seeded solo game for everyone each day, with saved results and streaks
+ */
+
+import type { GameState } from './types';
+import { TURN_END_ACTIONS } from './types';
+import { GameStateManager } from './game-state-manager';
+import { normalizeSeed } from './rng';
+import { buildReplayFrames } from './replay';
+import { migrateSave } from './save-schema';
+
+export const DAILY_PUZZLE_TURNS = 10;
+export const DAILY_PUZZLE_STARTING_TILES = 10;
+
+const RESULTS_KEY = 'grabble_daily_results';
+const ATTEMPT_KEY = 'grabble_daily_attempt';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Points and bonuses of one puzzle turn
+ */
+export interface DailyTurn {
+    score: number;
+    bonuses: string[];
+}
+
+/**
+ * A finished daily puzzle
+ */
+export interface DailyResult {
+    id: string;             // Day ID
+    score: number;
+    turns: DailyTurn[];
+    completedAt: number;    // ms timestamp
+}
+
+/**
+ * Current and longest runs of consecutive days played
+ */
+export interface DailyStreak {
+    current: number;
+    best: number;
+}
+
+/**
+ * Day ID of a time (UTC, so everyone shares the same puzzle), e.g. "2024-02-14"
+ */
+export function getDailyPuzzleId(now: number = Date.now()): string {
+    return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Deal the puzzle of a day: a solo game with a seeded bag and starting board
+ * Everyone plays the same puzzle without help
+ */
+export function createDailyPuzzle(dayId: string, playerName: string): GameStateManager {
+    return GameStateManager.createNewGame(1, [playerName], 0, {
+        seed: normalizeSeed(`daily-${dayId}`),
+        gameMode: 'solo',
+        hintsEnabled: false,
+        startingTiles: DAILY_PUZZLE_STARTING_TILES,
+        dailyPuzzle: { id: dayId, turns: DAILY_PUZZLE_TURNS }
+    });
+}
+
+/**
+ * Turns finished so far (clearing the board is not a turn)
+ */
+export function getTurnsPlayed(state: GameState): number {
+    return (state.history ?? []).filter(a => TURN_END_ACTIONS.includes(a.type) && a.type !== 'clear_board').length;
+}
+
+/**
+ * Whether a daily puzzle game has used all its turns or filled the board
+ */
+export function isDailyPuzzleOver(state: GameState): boolean {
+    if (!state.dailyPuzzle) return false;
+    return getTurnsPlayed(state) >= state.dailyPuzzle.turns || state.board[0].every(Boolean);
+}
+
+/**
+ * Per-turn scores and bonuses of a finished puzzle
+ */
+export function summarizeDailyPuzzle(state: GameState, now: number = Date.now()): DailyResult {
+    const frames = buildReplayFrames(state);
+    const turns: DailyTurn[] = [];
+    for (let i = 1; i < frames.length; i++) {
+        if (frames[i].boardCleared) continue;
+        const score = frames[i].scores[0] - frames[i - 1].scores[0];
+        const bonuses = frames[i].words.flatMap(w => w.bonuses).filter(b => b !== 'hint_penalty');
+
+        // The links of a cascade belong to the turn that set it off
+        const turn = frames[i].cascadeStep > 0 ? turns[turns.length - 1] : undefined;
+        if (turn) {
+            turn.score += score;
+            turn.bonuses = Array.from(new Set([...turn.bonuses, ...bonuses]));
+        } else {
+            turns.push({ score, bonuses: Array.from(new Set(bonuses)) });
+        }
+    }
+
+    return {
+        id: state.dailyPuzzle?.id ?? getDailyPuzzleId(now),
+        score: state.players[0].score,
+        turns,
+        completedAt: now
+    };
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+/**
+ * Saved results by day ID
+ */
+export function loadDailyResults(): Record<string, DailyResult> {
+    try {
+        return JSON.parse(localStorage.getItem(RESULTS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Save a day's result (the first result of a day is kept)
+ */
+export function saveDailyResult(result: DailyResult): void {
+    const results = loadDailyResults();
+    if (results[result.id]) return;
+    results[result.id] = result;
+    localStorage.setItem(RESULTS_KEY, JSON.stringify(results));
+}
+
+/**
+ * Keep the puzzle being played, so leaving and coming back resumes it instead of dealing it again
+ */
+export function saveDailyAttempt(state: GameState): void {
+    if (!state.dailyPuzzle) return;
+    localStorage.setItem(ATTEMPT_KEY, JSON.stringify(state));
+}
+
+/**
+ * The unfinished attempt at a day's puzzle, if there is one
+ */
+export function loadDailyAttempt(dayId: string): GameState | null {
+    try {
+        const state = migrateSave(JSON.parse(localStorage.getItem(ATTEMPT_KEY) || 'null'));
+        return state.dailyPuzzle?.id === dayId ? state : null;
+    } catch {
+        return null;
+    }
+}
+
+const previousDay = (dayId: string) => getDailyPuzzleId(Date.parse(dayId) - DAY_MS);
+
+/**
+ * Streaks of consecutive days with a result
+ * The current streak is still alive until today's puzzle is missed
+ */
+export function getDailyStreak(results: Record<string, DailyResult>, todayId: string): DailyStreak {
+    let current = 0;
+    let day = results[todayId] ? todayId : previousDay(todayId);
+    while (results[day]) {
+        current++;
+        day = previousDay(day);
+    }
+
+    let best = 0;
+    for (const id of Object.keys(results)) {
+        // Count each run once, from its first day
+        if (results[previousDay(id)]) continue;
+        let length = 0;
+        let next = id;
+        while (results[next]) {
+            length++;
+            next = getDailyPuzzleId(Date.parse(next) + DAY_MS);
+        }
+        best = Math.max(best, length);
+    }
+    return { current, best };
+}
+
+// ============================================================================
+// SHARING
+// ============================================================================
+
+const BONUS_EMOJI: Record<string, string> = {
+    diagonal: '↗️',
+    palindrome: '🔁',
+    emordnilap: '🪞'
+};
+
+function scoreEmoji(score: number): string {
+    if (score <= 0) return '⬜';
+    if (score < 10) return '🟨';
+    if (score < 20) return '🟩';
+    return '🟪';
+}
+
+/**
+ * Spoiler-free result to share: one square per turn by score, and the bonuses earned in each turn
+ */
+export function formatDailySummary(result: DailyResult, streak: DailyStreak): string {
+    const lines = [
+        `Grabble Daily ${result.id}`,
+        `${result.score} points${streak.current > 1 ? ` · 🔥 ${streak.current} days` : ''}`,
+        result.turns.map(turn => scoreEmoji(turn.score)).join('')
+    ];
+    if (result.turns.some(turn => turn.bonuses.length > 0)) {
+        lines.push(result.turns.map(turn => turn.bonuses.map(b => BONUS_EMOJI[b] ?? '✨').join('') || '▫️').join(' '));
+    }
+    return lines.join('\n');
+}
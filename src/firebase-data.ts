@@ -0,0 +1,83 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Realtime Database paths and conversion of stored game state
+ * Shared by the client and the Cloud Functions, so it must not import a Firebase SDK
+ */
+
+import type { GameState, Player } from './types';
+import { DEFAULT_BOARD_WIDTH, DEFAULT_BOARD_HEIGHT } from './types';
+
+// Database path helpers
+export const dbPaths = {
+    rooms: () => 'rooms',
+    room: (roomCode: string) => `rooms/${roomCode}`,
+    roomStatus: (roomCode: string) => `rooms/${roomCode}/status`,
+    roomPlayers: (roomCode: string) => `rooms/${roomCode}/players`,
+    roomPlayer: (roomCode: string, playerId: string) => `rooms/${roomCode}/players/${playerId}`,
+    roomSpectators: (roomCode: string) => `rooms/${roomCode}/spectators`,
+    roomSpectator: (roomCode: string, spectatorId: string) => `rooms/${roomCode}/spectators/${spectatorId}`,
+    roomGame: (roomCode: string) => `rooms/${roomCode}/game`,
+    roomGameState: (roomCode: string) => `rooms/${roomCode}/game/state`,
+    roomSeats: (roomCode: string) => `rooms/${roomCode}/game/seats`,
+    // Hidden game data: racks readable by their owner; the bag and the saved game only by the Cloud Functions
+    roomSecrets: (roomCode: string) => `roomSecrets/${roomCode}`,
+    roomRack: (roomCode: string, seat: number) => `roomSecrets/${roomCode}/racks/${seat}`,
+    roomBag: (roomCode: string) => `roomSecrets/${roomCode}/bag`,
+    // User data paths
+    users: () => 'users',
+    user: (uid: string) => `users/${uid}`,
+    userHighScore: (uid: string) => `users/${uid}/highScore`,
+    userStats: (uid: string) => `users/${uid}/stats`,
+    userFriends: (uid: string) => `users/${uid}/friends`,
+    userFriend: (uid: string, friendUid: string) => `users/${uid}/friends/${friendUid}`,
+    // Solo leaderboards (board = 'allTime' or a week ID), one best entry per player
+    leaderboard: (board: string) => `leaderboards/solo/${board}`,
+    leaderboardEntry: (board: string, uid: string) => `leaderboards/solo/${board}/${uid}`,
+    // Active games (for rejoin)
+    activeGames: () => 'activeGames',
+    activeGame: (uid: string) => `activeGames/${uid}`,
+};
+
+/**
+ * Firebase stores arrays as objects keyed by index - convert them back
+ */
+export const toArray = <T>(value: T[] | Record<string, T> | null | undefined): T[] => {
+    if (!value) return [];
+    return Array.isArray(value) ? value : Object.values(value);
+};
+
+/**
+ * Rebuild a game state read from the database
+ * Firebase drops nulls and empty arrays, so the board and lists are recreated
+ */
+export function fromFirebaseState(data: Record<string, any>): GameState {
+    const convertedState = { ...data };
+
+    // Convert board back to 2D array (boardHeight rows x boardWidth cols)
+    // Firebase may not store null/empty values, so we need to create explicit structure
+    const boardWidth: number = data.boardWidth || DEFAULT_BOARD_WIDTH;
+    const boardHeight: number = data.boardHeight || DEFAULT_BOARD_HEIGHT;
+    convertedState.boardWidth = boardWidth;
+    convertedState.boardHeight = boardHeight;
+    convertedState.board = [];
+    for (let row = 0; row < boardHeight; row++) {
+        const rowData = data.board?.[row];
+        const convertedRow = [];
+        for (let col = 0; col < boardWidth; col++) {
+            convertedRow.push(rowData && rowData[col] ? rowData[col] : null);
+        }
+        convertedState.board.push(convertedRow);
+    }
+
+    // Convert players array and their racks
+    convertedState.players = toArray<Player>(data.players).map(player => ({
+        ...player,
+        rack: toArray(player.rack)
+    }));
+
+    convertedState.tileBag = toArray(data.tileBag);
+    convertedState.claimedWords = toArray(data.claimedWords);
+
+    return convertedState as GameState;
+}
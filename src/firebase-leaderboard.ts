@@ -0,0 +1,43 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Firebase leaderboard backend - boards under leaderboards/solo, friends under users/{uid}/friends
+ */
+
+import { database, ref, get, set, remove, query, orderByChild, limitToLast, dbPaths } from './firebase';
+import type { LeaderboardBackend, LeaderboardEntry } from './leaderboard';
+import { compareEntries } from './leaderboard';
+
+export class FirebaseLeaderboardBackend implements LeaderboardBackend {
+    async submit(board: string, entry: LeaderboardEntry): Promise<void> {
+        const entryRef = ref(database, dbPaths.leaderboardEntry(board, entry.playerId));
+        const snapshot = await get(entryRef);
+        if (!snapshot.exists() || entry.score > snapshot.val().score) {
+            await set(entryRef, entry);
+        }
+    }
+
+    async getTop(board: string, limit: number): Promise<LeaderboardEntry[]> {
+        const snapshot = await get(query(ref(database, dbPaths.leaderboard(board)), orderByChild('score'), limitToLast(limit)));
+        const entries: LeaderboardEntry[] = snapshot.exists() ? Object.values(snapshot.val()) : [];
+        return entries.sort(compareEntries);
+    }
+
+    async getEntries(board: string, playerIds: string[]): Promise<LeaderboardEntry[]> {
+        const snapshots = await Promise.all(playerIds.map(id => get(ref(database, dbPaths.leaderboardEntry(board, id)))));
+        return snapshots.filter(snapshot => snapshot.exists()).map(snapshot => snapshot.val());
+    }
+
+    async getFriends(playerId: string): Promise<string[]> {
+        const snapshot = await get(ref(database, dbPaths.userFriends(playerId)));
+        return snapshot.exists() ? Object.keys(snapshot.val()) : [];
+    }
+
+    async addFriend(playerId: string, friendId: string): Promise<void> {
+        await set(ref(database, dbPaths.userFriend(playerId, friendId)), true);
+    }
+
+    async removeFriend(playerId: string, friendId: string): Promise<void> {
+        await remove(ref(database, dbPaths.userFriend(playerId, friendId)));
+    }
+}
@@ -5,8 +5,9 @@
  */
 
 import { initializeApp } from 'firebase/app';
-import { getDatabase, ref, set, get, onValue, push, update, remove, DatabaseReference, DataSnapshot } from 'firebase/database';
-import { getAuth, signInWithPopup, signOut as firebaseSignOut, GoogleAuthProvider, onAuthStateChanged, User } from 'firebase/auth';
+import { getDatabase, ref, set, get, onValue, push, update, remove, query, orderByChild, limitToLast, DatabaseReference, DataSnapshot } from 'firebase/database';
+import { getAuth, signInWithPopup, signInAnonymously, signOut as firebaseSignOut, GoogleAuthProvider, onAuthStateChanged, User } from 'firebase/auth';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 
 // Firebase configuration
 const firebaseConfig = {
@@ -25,15 +26,23 @@ const app = initializeApp(firebaseConfig);
 const database = getDatabase(app);
 const auth = getAuth(app);
 const googleProvider = new GoogleAuthProvider();
+// Cloud Functions run next to the database (see functions/)
+const functions = getFunctions(app, 'asia-southeast1');
 
 // Export database utilities
-export { database, ref, set, get, onValue, push, update, remove };
+export { database, ref, set, get, onValue, push, update, remove, query, orderByChild, limitToLast };
 export type { DatabaseReference, DataSnapshot };
 
 // Export auth utilities
-export { auth, googleProvider, signInWithPopup, firebaseSignOut, onAuthStateChanged };
+export { auth, googleProvider, signInWithPopup, signInAnonymously, firebaseSignOut, onAuthStateChanged };
 export type { User };
 
+// Export Cloud Functions utilities
+export { functions, httpsCallable };
+
+// Database paths are shared with the Cloud Functions
+export { dbPaths } from './firebase-data';
+
 // Helper to generate room codes
 export function generateRoomCode(): string {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -44,21 +53,4 @@ export function generateRoomCode(): string {
     return result;
 }
 
-// Database path helpers
-export const dbPaths = {
-    rooms: () => 'rooms',
-    room: (roomCode: string) => `rooms/${roomCode}`,
-    roomPlayers: (roomCode: string) => `rooms/${roomCode}/players`,
-    roomPlayer: (roomCode: string, playerId: string) => `rooms/${roomCode}/players/${playerId}`,
-    roomGame: (roomCode: string) => `rooms/${roomCode}/game`,
-    roomGameState: (roomCode: string) => `rooms/${roomCode}/game/state`,
-    // User data paths
-    users: () => 'users',
-    user: (uid: string) => `users/${uid}`,
-    userHighScore: (uid: string) => `users/${uid}/highScore`,
-    // Active games (for rejoin)
-    activeGames: () => 'activeGames',
-    activeGame: (uid: string) => `activeGames/${uid}`,
-};
-
 console.log('🔥 Firebase initialized for Grabble (with Auth)');
@@ -0,0 +1,273 @@
+/**
+ * Unit tests for the action reducer
+ * Tests validated transitions, emitted events and state immutability
+ */
+
+import { applyAction, toPlaceTilesAction } from './game-actions';
+import { GameStateManager } from './game-state-manager';
+import { GrabbleEngine } from './game-engine';
+import type { GameState, PlayerAction } from './types';
+
+const dictionary = new Set(['CAT', 'ACT', 'TAB']);
+
+const setupState = (): GameState => {
+    const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 7 });
+    const state = manager.getState();
+    state.currentPlayerId = 0;
+    state.players[0].rack = [
+        { letter: 'C', points: 3 },
+        { letter: 'A', points: 1 },
+        { letter: 'T', points: 1 },
+        { letter: ' ', points: 0 }
+    ];
+    state.players.find(p => p.id === 0)!.turnOrder = 0;
+    state.players.find(p => p.id === 1)!.turnOrder = 1;
+    return state;
+};
+
+// Apply a sequence of actions, failing the test on the first rejection
+const applyAll = async (state: GameState, actions: PlayerAction[]): Promise<GameState> => {
+    for (const action of actions) {
+        const result = await applyAction(state, action, { dictionary });
+        if (!result.valid) {
+            throw new Error(result.error);
+        }
+        state = result.state;
+    }
+    return state;
+};
+
+// Place C, A, T across the bottom row
+const placeCat: PlayerAction = {
+    type: 'PlaceTiles',
+    playerId: 0,
+    placements: [{ column: 0, tileIndex: 0 }, { column: 1, tileIndex: 1 }, { column: 2, tileIndex: 2 }]
+};
+const catPositions = [{ x: 0, y: 6 }, { x: 1, y: 6 }, { x: 2, y: 6 }];
+
+// ============================================================================
+// PLACEMENT TESTS
+// ============================================================================
+
+describe('applyAction - placement', () => {
+    it('should place tiles without modifying the input state', async () => {
+        const state = setupState();
+        const before = JSON.stringify(state);
+
+        const result = await applyAction(state, placeCat);
+
+        expect(JSON.stringify(state)).toBe(before);
+        expect(result).toMatchObject({
+            valid: true,
+            events: [{ type: 'tiles_placed', playerId: 0, positions: catPositions }]
+        });
+        const next = (result as { state: GameState }).state;
+        expect(next.board[6].slice(0, 3).map(t => t?.letter)).toEqual(['C', 'A', 'T']);
+        expect(next.players[0].rack.map(t => t.letter)).toEqual([' ']);
+    });
+
+    it('should match tiles dropped on a local copy to the rack the turn started with', async () => {
+        const state = setupState();
+        const rack = state.players[0].rack;
+
+        const action = toPlaceTilesAction(0, rack, [
+            { column: 2, tile: rack[2] },
+            { column: 2, tile: rack[0] },
+            { column: 0, tile: { ...rack[1] } }
+        ]);
+
+        expect(action).toEqual({
+            type: 'PlaceTiles',
+            playerId: 0,
+            placements: [{ column: 2, tileIndex: 2 }, { column: 2, tileIndex: 0 }, { column: 0, tileIndex: 1 }]
+        });
+        const { state: placed } = await applyAction(state, action) as { state: GameState };
+        expect([placed.board[6][2]?.letter, placed.board[5][2]?.letter, placed.board[6][0]?.letter]).toEqual(['T', 'C', 'A']);
+        expect(() => toPlaceTilesAction(0, rack, [{ column: 0, tile: rack[0] }, { column: 1, tile: rack[0] }])).toThrow('not on your rack');
+    });
+
+    it('should reject actions out of turn', async () => {
+        const result = await applyAction(setupState(), { ...placeCat, playerId: 1 });
+
+        expect(result).toEqual({ valid: false, error: 'It is not your turn' });
+    });
+
+    it('should reject invalid rack indices and full columns', async () => {
+        const badIndex = await applyAction(setupState(), { type: 'PlaceTiles', playerId: 0, placements: [{ column: 0, tileIndex: 9 }] });
+        const badColumn = await applyAction(setupState(), { type: 'PlaceTiles', playerId: 0, placements: [{ column: 12, tileIndex: 0 }] });
+
+        expect(badIndex).toEqual({ valid: false, error: 'Invalid rack tile' });
+        expect(badColumn).toEqual({ valid: false, error: 'Invalid column: 12' });
+    });
+
+    it('should return removed tiles to the rack', async () => {
+        const placed = await applyAll(setupState(), [placeCat]);
+
+        const result = await applyAction(placed, { type: 'RemoveTile', playerId: 0, position: { x: 1, y: 6 } });
+
+        expect(result).toMatchObject({
+            valid: true,
+            events: [{ type: 'tile_removed', position: { x: 1, y: 6 }, tile: { letter: 'A', points: 1 } }]
+        });
+        const next = (result as { state: GameState }).state;
+        expect(next.board[6][1]).toBeNull();
+        expect(next.players[0].rack.map(t => t.letter)).toEqual([' ', 'A']);
+    });
+
+    it('should only remove tiles placed this turn', async () => {
+        const state = setupState();
+        const engine = new GrabbleEngine(state);
+        engine.placeTiles([{ column: 3, tile: { letter: 'Z', points: 10 } }], 0);
+        engine.advanceTurn();
+        engine.advanceTurn();
+
+        const result = await applyAction(state, { type: 'RemoveTile', playerId: 0, position: { x: 3, y: 6 } });
+
+        expect(result).toEqual({ valid: false, error: 'Only tiles placed this turn can be removed' });
+    });
+
+    it('should set a letter on a placed blank tile', async () => {
+        const placed = await applyAll(setupState(), [
+            { type: 'PlaceTiles', playerId: 0, placements: [{ column: 4, tileIndex: 3 }] }
+        ]);
+
+        const result = await applyAction(placed, { type: 'SetBlank', playerId: 0, position: { x: 4, y: 6 }, letter: 'b' });
+        const invalid = await applyAction(placed, { type: 'SetBlank', playerId: 0, position: { x: 4, y: 6 }, letter: '1' });
+
+        expect(result).toMatchObject({ valid: true, events: [{ type: 'blank_letter_set', letter: 'B' }] });
+        expect((result as { state: GameState }).state.board[6][4]?.blankLetter).toBe('B');
+        expect(invalid.valid).toBe(false);
+    });
+});
+
+// ============================================================================
+// TURN-ENDING ACTION TESTS
+// ============================================================================
+
+describe('applyAction - turn ending', () => {
+    it('should claim words, refill the rack and pass the turn', async () => {
+        const placed = await applyAll(setupState(), [placeCat]);
+
+        const result = await applyAction(placed, { type: 'ClaimWords', playerId: 0, claims: [{ positions: catPositions }] }, { dictionary });
+
+        expect(result.valid).toBe(true);
+        const { state, events } = result as { state: GameState; events: any[] };
+        expect(events.map(e => e.type)).toEqual(['words_claimed', 'rack_refilled', 'turn_changed']);
+        expect(events[0]).toMatchObject({ score: 5, words: [{ word: 'CAT' }] });
+        expect(state.players[0].score).toBe(5);
+        expect(state.players[0].rack).toHaveLength(7);
+        expect(state.currentPlayerId).toBe(1);
+    });
+
+    it('should reject claims that leave placed tiles unused', async () => {
+        const placed = await applyAll(setupState(), [placeCat]);
+
+        const result = await applyAction(placed, {
+            type: 'ClaimWords',
+            playerId: 0,
+            claims: [{ positions: catPositions.slice(0, 2) }]
+        }, { dictionary });
+
+        expect(result).toEqual({ valid: false, error: 'All tiles placed this turn must be part of at least one selected word' });
+    });
+
+    it('should track placements shifted by removed tiles', async () => {
+        const placed = await applyAll(setupState(), [
+            { type: 'PlaceTiles', playerId: 0, placements: [{ column: 0, tileIndex: 3 }, { column: 0, tileIndex: 0 }] },
+            { type: 'RemoveTile', playerId: 0, position: { x: 0, y: 6 } },
+            { type: 'PlaceTiles', playerId: 0, placements: [{ column: 1, tileIndex: 0 }, { column: 2, tileIndex: 1 }] }
+        ]);
+
+        const result = await applyAction(placed, { type: 'ClaimWords', playerId: 0, claims: [{ positions: catPositions }] }, { dictionary });
+
+        expect(result.valid).toBe(true);
+    });
+
+    it('should end the game when the target score is reached', async () => {
+        const state = setupState();
+        state.targetScore = 5;
+
+        const finished = await applyAll(state, [placeCat, { type: 'ClaimWords', playerId: 0, claims: [{ positions: catPositions }] }]);
+        const after = await applyAction(finished, { type: 'Pass', playerId: 1 });
+
+        expect(finished.gameStatus).toBe('finished');
+        expect(finished.winnerId).toBe(0);
+        expect(after).toEqual({ valid: false, error: 'Game is not in progress' });
+    });
+
+    it('should swap tiles and pass the turn', async () => {
+        const result = await applyAction(setupState(), { type: 'Swap', playerId: 0, tileIndices: [0, 1] });
+
+        expect(result).toMatchObject({
+            valid: true,
+            events: [{ type: 'tiles_swapped', count: 2 }, { type: 'turn_changed', currentPlayerId: 1 }]
+        });
+    });
+
+    it('should not swap or pass with tiles on the board', async () => {
+        const placed = await applyAll(setupState(), [placeCat]);
+
+        expect(await applyAction(placed, { type: 'Swap', playerId: 0, tileIndices: [0] })).toEqual({ valid: false, error: 'Remove placed tiles before swapping' });
+        expect(await applyAction(placed, { type: 'Pass', playerId: 0 })).toEqual({ valid: false, error: 'Remove placed tiles before passing' });
+    });
+
+    it('should pass the turn', async () => {
+        const result = await applyAction(setupState(), { type: 'Pass', playerId: 0 });
+
+        expect(result).toMatchObject({
+            valid: true,
+            events: [{ type: 'turn_passed', playerId: 0 }, { type: 'turn_changed', currentPlayerId: 1 }]
+        });
+    });
+
+    it('should clear the board and keep scores', async () => {
+        const claimed = await applyAll(setupState(), [placeCat, { type: 'ClaimWords', playerId: 0, claims: [{ positions: catPositions }] }]);
+
+        const result = await applyAction(claimed, { type: 'ClearBoard' });
+
+        expect(result.valid).toBe(true);
+        const { state } = result as { state: GameState };
+        expect(state.board.flat().every(t => t === null)).toBe(true);
+        expect(state.claimedWords).toEqual([]);
+        expect(state.players[0].score).toBe(5);
+    });
+
+    it('should only let a player clear the board at the start of their turn', async () => {
+        const placed = await applyAll(setupState(), [placeCat]);
+
+        expect(await applyAction(placed, { type: 'ClearBoard', playerId: 1 })).toEqual({ valid: false, error: 'The board can only be cleared at the start of your turn' });
+        expect(await applyAction(placed, { type: 'ClearBoard', playerId: 0 })).toEqual({ valid: false, error: 'The board can only be cleared at the start of your turn' });
+        expect((await applyAction(setupState(), { type: 'ClearBoard', playerId: 0 })).valid).toBe(true);
+    });
+});
+
+// ============================================================================
+// CHALLENGE TESTS
+// ============================================================================
+
+describe('applyAction - challenge', () => {
+    const playCat = async () => {
+        const state = setupState();
+        state.challengeMode = true;
+        return applyAll(state, [placeCat, { type: 'ClaimWords', playerId: 0, claims: [{ positions: catPositions }] }]);
+    };
+
+    it('should let an opponent challenge a provisional play', async () => {
+        const played = await playCat();
+
+        const result = await applyAction(played, { type: 'Challenge', playerId: 1 }, { dictionary: new Set(['TAB']) });
+
+        expect(result).toMatchObject({
+            valid: true,
+            events: [{ type: 'challenge_resolved', challengerId: 1, playerId: 0, successful: true }]
+        });
+        expect(result.valid && result.state.players[0].score).toBe(0);
+    });
+
+    it('should reject challenges of your own play or with no play pending', async () => {
+        const played = await playCat();
+
+        expect(await applyAction(played, { type: 'Challenge', playerId: 0 }, { dictionary })).toEqual({ valid: false, error: 'You cannot challenge your own play' });
+        expect(await applyAction(setupState(), { type: 'Challenge', playerId: 1 }, { dictionary })).toEqual({ valid: false, error: 'There is no play to challenge' });
+    });
+});
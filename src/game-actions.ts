@@ -0,0 +1,325 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Pure action reducer - validated game transitions shared by UI, server, tests and replays
+ */
+
+import type { GameState, GameEvent, PlayerAction, Position, Tile } from './types';
+import { GrabbleEngine } from './game-engine';
+
+/**
+ * Outside data some actions need
+ */
+export interface ActionContext {
+    dictionary?: Set<string>;  // Required for ClaimWords
+    now?: number;              // Clock for timed games (defaults to Date.now())
+}
+
+/**
+ * Result of applying an action: the next state and what happened, or why it was rejected
+ */
+export type ActionResult =
+    | { valid: true; state: GameState; events: GameEvent[] }
+    | { valid: false; error: string };
+
+/**
+ * Apply a player action to a game state
+ * The input state is never modified; a new state is returned on success
+ */
+export async function applyAction(
+    state: GameState,
+    action: PlayerAction,
+    context: ActionContext = {}
+): Promise<ActionResult> {
+    const error = validateAction(state, action);
+    if (error) {
+        return { valid: false, error };
+    }
+
+    const nextState: GameState = JSON.parse(JSON.stringify(state));
+    const engine = new GrabbleEngine(nextState);
+    const events: GameEvent[] = [];
+
+    try {
+        const reducerError = await reduce(engine, nextState, action, context, events);
+        if (reducerError) {
+            return { valid: false, error: reducerError };
+        }
+    } catch (err) {
+        return { valid: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+
+    return { valid: true, state: nextState, events };
+}
+
+/**
+ * PlaceTiles action for tiles dropped on a local copy of the state, in the order they were dropped
+ * Each tile is matched to an unused tile of the rack the turn started with, so the reducer checks it came from there
+ */
+export function toPlaceTilesAction(
+    playerId: number,
+    rack: Tile[],
+    drops: Array<{ column: number; tile: Tile }>
+): PlayerAction {
+    const used = new Set<number>();
+    const placements = drops.map(({ column, tile }) => {
+        const tileIndex = rack.findIndex((t, i) => !used.has(i) && t.letter === tile.letter && t.points === tile.points);
+        if (tileIndex < 0) {
+            throw new Error(`Tile ${tile.letter} is not on your rack`);
+        }
+        used.add(tileIndex);
+        return { column, tileIndex };
+    });
+    return { type: 'PlaceTiles', playerId, placements };
+}
+
+/**
+ * Checks shared by all actions (game running, player's turn)
+ */
+function validateAction(state: GameState, action: PlayerAction): string | null {
+    if (state.gameStatus !== 'playing') {
+        return 'Game is not in progress';
+    }
+    if (action.type === 'ClearBoard' || action.type === 'Timeout') {
+        return null;
+    }
+    if (!state.players.some(p => p.id === action.playerId)) {
+        return `Player ${action.playerId} not found`;
+    }
+    // Any opponent may challenge, whoever's turn it is
+    if (action.type === 'Challenge') {
+        return null;
+    }
+    if (state.currentPlayerId !== action.playerId) {
+        return 'It is not your turn';
+    }
+    return null;
+}
+
+/**
+ * Run an action through the engine, appending events
+ * `state` is the engine's own state object, so it reflects each engine call
+ * Returns an error message if the action is not allowed
+ */
+async function reduce(
+    engine: GrabbleEngine,
+    state: GameState,
+    action: PlayerAction,
+    context: ActionContext,
+    events: GameEvent[]
+): Promise<string | null> {
+    switch (action.type) {
+        case 'PlaceTiles': {
+            const rack = state.players.find(p => p.id === action.playerId)!.rack;
+            const indices = action.placements.map(p => p.tileIndex);
+            if (indices.length === 0) {
+                return 'No tiles to place';
+            }
+            if (new Set(indices).size !== indices.length || indices.some(i => i < 0 || i >= rack.length)) {
+                return 'Invalid rack tile';
+            }
+
+            const tiles = engine.removeTilesFromRack(action.playerId, indices);
+            const sortedIndices = [...indices].sort((a, b) => a - b);
+
+            // Drop one at a time so each tile lands on top of its column
+            const positions: Position[] = [];
+            for (const placement of action.placements) {
+                const tile = tiles[sortedIndices.indexOf(placement.tileIndex)];
+                engine.placeTiles([{ column: placement.column, tile }], action.playerId);
+                positions.push({ x: placement.column, y: getColumnTop(state, placement.column) });
+            }
+
+            events.push({ type: 'tiles_placed', playerId: action.playerId, positions });
+            return null;
+        }
+
+        case 'RemoveTile': {
+            const { x, y } = action.position;
+            if (!isTurnPlacement(engine, action.position)) {
+                return 'Only tiles placed this turn can be removed';
+            }
+            if (state.board[y][x]?.playerId !== action.playerId) {
+                return 'You can only remove your own tiles';
+            }
+
+            const removed = engine.removeTile(x, y)!;
+            const tile: Tile = { letter: removed.letter, points: removed.points };
+            engine.returnTileToRack(action.playerId, tile);
+
+            events.push({ type: 'tile_removed', playerId: action.playerId, position: { x, y }, tile });
+            return null;
+        }
+
+        case 'SetBlank': {
+            const { x, y } = action.position;
+            if (!engine.getLanguagePack().alphabet.includes(action.letter.toUpperCase())) {
+                return 'Blank tiles need a letter from the game\'s alphabet';
+            }
+            if (!engine.setBlankTileLetter(x, y, action.letter, action.playerId)) {
+                return 'Cannot set a letter on this tile';
+            }
+
+            events.push({
+                type: 'blank_letter_set',
+                playerId: action.playerId,
+                position: { x, y },
+                letter: action.letter.toUpperCase()
+            });
+            return null;
+        }
+
+        case 'ClaimWords': {
+            if (!context.dictionary || context.dictionary.size === 0) {
+                return 'Dictionary not loaded';
+            }
+            if (action.claims.length === 0) {
+                return 'Select at least one word';
+            }
+
+            const newlyPlacedTiles = engine.getTurnPlacements();
+            const claims = action.claims.map(c => ({ positions: c.positions, playerId: action.playerId }));
+            const claimedBefore = state.claimedWords.length;
+            const result = await engine.processWordClaims(claims, newlyPlacedTiles, context.dictionary);
+            if (!result.valid) {
+                const errors = result.results
+                    .map(r => r.error)
+                    .filter((e): e is string => !!e);
+                return Array.from(new Set(errors)).join('. ') || 'Invalid word claims';
+            }
+
+            // Words a cascade formed follow the claimed ones
+            const words = JSON.parse(JSON.stringify(state.claimedWords.slice(claimedBefore, claimedBefore + claims.length)));
+            events.push({ type: 'words_claimed', playerId: action.playerId, words, score: result.totalScore });
+            if (result.cascade) {
+                const score = result.cascade.reduce((sum, step) => sum + step.words.reduce((s, w) => s + w.score, 0), 0);
+                events.push({ type: 'words_cascaded', playerId: action.playerId, steps: JSON.parse(JSON.stringify(result.cascade)), score });
+            }
+
+            endTurn(engine, state, action.playerId, events, context.now);
+            return null;
+        }
+
+        case 'Swap': {
+            const rack = state.players.find(p => p.id === action.playerId)!.rack;
+            const indices = action.tileIndices;
+            if (indices.length === 0) {
+                return 'Select tiles to swap';
+            }
+            if (new Set(indices).size !== indices.length || indices.some(i => i < 0 || i >= rack.length)) {
+                return 'Invalid rack tile';
+            }
+            if (engine.getTurnPlacements().length > 0) {
+                return 'Remove placed tiles before swapping';
+            }
+
+            engine.swapTiles(action.playerId, [...indices]);
+            events.push({ type: 'tiles_swapped', playerId: action.playerId, count: indices.length });
+
+            nextTurn(engine, state, events, context.now);
+            return null;
+        }
+
+        case 'Pass': {
+            engine.passTurn(action.playerId, context.now);
+            events.push({ type: 'turn_passed', playerId: action.playerId });
+            announceTurn(engine, state, events);
+            return null;
+        }
+
+        case 'Challenge': {
+            if (!context.dictionary || context.dictionary.size === 0) {
+                return 'Dictionary not loaded';
+            }
+
+            const playerId = state.pendingChallenge?.playerId;
+            const { successful, words } = engine.challenge(action.playerId, context.dictionary);
+            events.push({ type: 'challenge_resolved', challengerId: action.playerId, playerId: playerId!, successful, words });
+            return null;
+        }
+
+        case 'Timeout': {
+            // The last play stands once its challenge window runs out, and may reach the target score
+            const challengePending = !!state.pendingChallenge;
+            const winnerId = engine.closeChallengeWindow(context.now);
+            if (winnerId !== null) {
+                events.push({ type: 'game_ended', winnerId });
+                return null;
+            }
+
+            const playerId = state.currentPlayerId;
+            const outcome = engine.handleTimeout(context.now);
+            if (!outcome) {
+                return challengePending && !state.pendingChallenge ? null : 'Time has not run out';
+            }
+
+            events.push({ type: 'turn_timed_out', playerId, forfeited: outcome === 'forfeit' });
+            if (state.gameStatus === 'finished') {
+                events.push({ type: 'game_ended', winnerId: state.winnerId! });
+            } else {
+                announceTurn(engine, state, events);
+            }
+            return null;
+        }
+
+        case 'ClearBoard': {
+            // Players may only clear on their own turn; trusted callers (no player) always can
+            if (action.playerId !== undefined && !engine.canClearBoard(action.playerId)) {
+                return 'The board can only be cleared at the start of your turn';
+            }
+            engine.clearBoard();
+            events.push({ type: 'board_cleared' });
+            events.push({ type: 'turn_changed', currentPlayerId: state.currentPlayerId });
+            return null;
+        }
+    }
+}
+
+/**
+ * Refill the rack, pass the turn on and check for a winner after a scoring move
+ */
+function endTurn(engine: GrabbleEngine, state: GameState, playerId: number, events: GameEvent[], now?: number): void {
+    const player = state.players.find(p => p.id === playerId)!;
+
+    const before = player.rack.length;
+    engine.refillPlayerRack(playerId);
+    if (player.rack.length > before) {
+        events.push({ type: 'rack_refilled', playerId, count: player.rack.length - before });
+    }
+
+    nextTurn(engine, state, events, now);
+}
+
+/**
+ * Pass the turn on and check whether the game is over
+ */
+function nextTurn(engine: GrabbleEngine, state: GameState, events: GameEvent[], now?: number): void {
+    engine.advanceTurn(now);
+    announceTurn(engine, state, events);
+}
+
+/**
+ * Report the new current player and check whether the game is over (target score, empty rack or stalemate)
+ */
+function announceTurn(engine: GrabbleEngine, state: GameState, events: GameEvent[]): void {
+    events.push({ type: 'turn_changed', currentPlayerId: state.currentPlayerId });
+
+    const winnerId = engine.checkWinCondition();
+    if (winnerId !== null) {
+        events.push({ type: 'game_ended', winnerId });
+    }
+}
+
+/**
+ * Row of the topmost tile in a column
+ */
+function getColumnTop(state: GameState, column: number): number {
+    return state.board.findIndex(row => row[column] !== null);
+}
+
+/**
+ * Check if a board position holds a tile placed during the current turn
+ */
+function isTurnPlacement(engine: GrabbleEngine, position: Position): boolean {
+    return engine.getTurnPlacements().some(p => p.x === position.x && p.y === position.y);
+}
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for post-game analysis
+ * Tests the played move and the best alternative found for each turn
+ */
+
+import { buildTrieFromDictionary } from './hint-engine';
+import { analyzeGame, getPointsMissedByPlayer } from './game-analysis';
+import { createGameWithRack, playBottomRow } from './test-games';
+
+const dictionary = new Set(['CAT', 'CATS']);
+const trie = buildTrieFromDictionary(dictionary);
+
+describe('Game analysis', () => {
+    it('should compare each turn with the best move its rack allowed', async () => {
+        const manager = createGameWithRack('CATS');
+        const engine = manager.getEngine();
+
+        const { playerId } = await playBottomRow(manager, dictionary);
+        const opponentId = engine.getState().currentPlayerId;
+        engine.passTurn(opponentId);
+
+        const progress: number[] = [];
+        const turns = await analyzeGame(manager.getState(), trie, dictionary, {
+            maxNodes: 200000,
+            timeBudgetMs: 20000,
+            onProgress: analyzed => progress.push(analyzed)
+        });
+
+        expect(turns).toHaveLength(2);
+        expect(progress).toEqual([1, 2]);
+
+        const [played, passed] = turns;
+        expect(played).toMatchObject({ turn: 1, playerId, complete: true });
+        expect(played.played).toMatchObject({ type: 'play', score: 5, withdrawn: false });
+        expect(played.played.words.map(w => w.word)).toEqual(['CAT']);
+        expect(played.best?.words.map(w => w.word)).toContain('CATS');
+        expect(played.best!.totalScore).toBeGreaterThan(5);
+        expect(played.pointsMissed).toBe(played.best!.totalScore - 5);
+
+        // Passing with a playable rack misses the whole best move
+        expect(passed).toMatchObject({ turn: 2, playerId: opponentId });
+        expect(passed.played).toMatchObject({ type: 'pass', score: 0, words: [] });
+        expect(passed.best).not.toBeNull();
+        expect(passed.pointsMissed).toBe(passed.best?.totalScore ?? 0);
+
+        expect(getPointsMissedByPlayer(turns)).toEqual({
+            [playerId]: played.pointsMissed,
+            [opponentId]: passed.pointsMissed
+        });
+    });
+
+    it('should leave out turns that only cleared the board', async () => {
+        const manager = createGameWithRack('CATS');
+        manager.getEngine().clearBoard();
+
+        expect(await analyzeGame(manager.getState(), trie, dictionary)).toEqual([]);
+    });
+});
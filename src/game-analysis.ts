@@ -0,0 +1,148 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Post-game analysis - each turn's play compared with the best move the rack allowed
+ */
+
+import type { GameState, GameAction } from './types';
+import { TURN_END_ACTIONS } from './types';
+import { GrabbleEngine } from './game-engine';
+import { findBestMoves } from './hint-engine';
+import type { Trie, ScoredMove, ScoredWord } from './hint-engine';
+import { getLanguagePack } from './language-packs';
+import { resolveHouseRules } from './house-rules';
+
+/**
+ * What a player did with their turn
+ */
+export type PlayedMoveType = 'play' | 'swap' | 'pass' | 'timeout';
+
+/**
+ * One turn of the analysis
+ */
+export interface TurnAnalysis {
+    turn: number;               // 1-based turn number, as in the history
+    playerId: number;
+    played: {
+        type: PlayedMoveType;
+        words: ScoredWord[];
+        score: number;          // Points the play kept (0 if withdrawn after a challenge)
+        withdrawn: boolean;     // Taken back after a successful challenge
+    };
+    best: ScoredMove | null;    // Highest scoring legal move for the board and rack at the start of the turn
+    pointsMissed: number;       // How much more the best move would have scored (never negative)
+    complete: boolean;          // False if the search ran out of budget (a better move may exist)
+}
+
+/**
+ * Search limits per turn
+ */
+export interface AnalysisOptions {
+    maxNodes?: number;          // Default 40000 (as the hard bot)
+    timeBudgetMs?: number;      // Default 800
+    onProgress?: (analyzed: number, total: number) => void;
+}
+
+/**
+ * Split the history into turns (each ends with a turn-ending action)
+ */
+function splitTurns(history: GameAction[]): GameAction[][] {
+    const turns: GameAction[][] = [];
+    let current: GameAction[] = [];
+    for (const action of history) {
+        current.push(action);
+        if (TURN_END_ACTIONS.includes(action.type)) {
+            turns.push(current);
+            current = [];
+        }
+    }
+    return turns;
+}
+
+/**
+ * Analyze every turn of a game with a history (local games; online clients don't see the racks)
+ * Turns that only cleared the board or ended the game are left out
+ */
+export async function analyzeGame(
+    state: GameState,
+    trie: Trie,
+    dictionary: Set<string>,
+    options: AnalysisOptions = {}
+): Promise<TurnAnalysis[]> {
+    const engine = new GrabbleEngine(JSON.parse(JSON.stringify(state)));
+    const turns = splitTurns(state.history || []);
+    const results: TurnAnalysis[] = [];
+
+    for (let i = 0; i < turns.length; i++) {
+        const actions = turns[i];
+        const last = actions[actions.length - 1];
+        const isMove = last.type === 'advance_turn' || actions.some(a => a.type === 'claim' || a.type === 'timeout');
+        if (isMove) {
+            const before = engine.getStateAtTurn(i);
+            results.push(await analyzeTurn(before, actions, turns[i + 1] || [], i + 1, trie, dictionary, options));
+        }
+
+        options.onProgress?.(i + 1, turns.length);
+        // Let the page repaint between turns
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return results;
+}
+
+async function analyzeTurn(
+    before: GameState,
+    actions: GameAction[],
+    nextActions: GameAction[],
+    turn: number,
+    trie: Trie,
+    dictionary: Set<string>,
+    options: AnalysisOptions
+): Promise<TurnAnalysis> {
+    const playerId = before.currentPlayerId;
+    const rack = before.players.find(p => p.id === playerId)?.rack ?? [];
+
+    const claim = actions.find((a): a is Extract<GameAction, { type: 'claim' }> => a.type === 'claim');
+    const withdrawn = !!claim && nextActions.some(a => a.type === 'challenge' && a.successful);
+    const type: PlayedMoveType = claim ? 'play'
+        : actions.some(a => a.type === 'swap') ? 'swap'
+        : actions.some(a => a.type === 'timeout') ? 'timeout'
+        : 'pass';
+    // Words a cascade formed count towards the move
+    const cascaded = actions.flatMap(a => a.type === 'cascade' ? a.steps.flatMap(step => step.words) : []);
+    const score = claim && !withdrawn ? claim.score + cascaded.reduce((sum, w) => sum + w.score, 0) : 0;
+
+    const { moves, complete } = await findBestMoves(before.board, rack, trie, dictionary, {
+        maxResults: 1,
+        maxNodes: options.maxNodes ?? 40000,
+        timeBudgetMs: options.timeBudgetMs ?? 800,
+        claimedWords: before.claimedWords.filter(w => w.challenge?.status !== 'withdrawn'),
+        alphabet: getLanguagePack(before.language).alphabet,
+        houseRules: resolveHouseRules(before.houseRules)
+    });
+    const best = moves[0] ?? null;
+
+    return {
+        turn,
+        playerId,
+        played: {
+            type,
+            words: claim ? [...claim.words, ...cascaded] : [],
+            score,
+            withdrawn
+        },
+        best,
+        pointsMissed: Math.max(0, (best?.totalScore ?? 0) - score),
+        complete
+    };
+}
+
+/**
+ * Total points missed by each player (player ID -> points)
+ */
+export function getPointsMissedByPlayer(turns: TurnAnalysis[]): Record<number, number> {
+    const totals: Record<number, number> = {};
+    for (const turn of turns) {
+        totals[turn.playerId] = (totals[turn.playerId] ?? 0) + turn.pointsMissed;
+    }
+    return totals;
+}
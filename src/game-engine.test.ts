@@ -0,0 +1,789 @@
+/**
+ * Unit tests for Game Engine
+ * Tests board setup, gravity and game lifecycle
+ */
+
+import { GrabbleEngine } from './game-engine';
+import { GameStateManager } from './game-state-manager';
+import { normalizeSeed } from './rng';
+import { resolveHouseRules, getBonusMultiplier } from './house-rules';
+import { DEFAULT_HOUSE_RULES } from './types';
+import { toPlayerView } from './state-visibility';
+
+// ============================================================================
+// BOARD DIMENSIONS TESTS
+// ============================================================================
+
+describe('Board dimensions', () => {
+    it('should default to a 7x7 board', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B']);
+        const state = manager.getState();
+
+        expect(state.boardWidth).toBe(7);
+        expect(state.boardHeight).toBe(7);
+        expect(state.board).toHaveLength(7);
+        expect(state.board[0]).toHaveLength(7);
+    });
+
+    it('should create custom sized boards', () => {
+        const small = GameStateManager.createNewGame(2, ['A', 'B'], 100, { boardWidth: 5, boardHeight: 5 });
+        const large = GameStateManager.createNewGame(2, ['A', 'B'], 100, { boardWidth: 9, boardHeight: 9 });
+
+        expect(small.getState().board).toHaveLength(5);
+        expect(small.getState().board[0]).toHaveLength(5);
+        expect(large.getState().board).toHaveLength(9);
+        expect(large.getBoardSize()).toEqual({ width: 9, height: 9 });
+    });
+
+    it('should drop tiles to the bottom row of a 9x9 board', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { boardWidth: 9, boardHeight: 9 });
+        const engine = manager.getEngine();
+
+        engine.placeTiles([{ column: 8, tile: { letter: 'A', points: 1 } }], 0);
+
+        const state = engine.getState();
+        expect(state.board[8][8]?.letter).toBe('A');
+    });
+
+    it('should reject columns outside a 5x5 board', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { boardWidth: 5, boardHeight: 5 });
+        const engine = manager.getEngine();
+
+        expect(() => engine.placeTiles([{ column: 5, tile: { letter: 'A', points: 1 } }], 0)).toThrow('Invalid column: 5');
+    });
+
+    it('should detect a full 5x5 board', () => {
+        const manager = GameStateManager.createNewGame(1, ['Solo'], 0, { boardWidth: 5, boardHeight: 5 });
+        const engine = manager.getEngine();
+
+        for (let col = 0; col < 5; col++) {
+            for (let i = 0; i < 5; i++) {
+                engine.placeTiles([{ column: col, tile: { letter: 'E', points: 1 } }], 0);
+            }
+        }
+
+        expect(engine.isBoardFull()).toBe(true);
+    });
+
+    it('should keep board dimensions when clearing the board', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { boardWidth: 9, boardHeight: 9 });
+        const engine = manager.getEngine();
+
+        engine.clearBoard();
+
+        expect(engine.getState().board).toHaveLength(9);
+        expect(engine.getState().board[0]).toHaveLength(9);
+    });
+
+    it('should create empty boards of any size', () => {
+        const board = GrabbleEngine.createEmptyBoard(6, 4);
+        expect(board).toHaveLength(4);
+        expect(board[0]).toHaveLength(6);
+    });
+});
+
+// ============================================================================
+// SEEDED RNG TESTS
+// ============================================================================
+
+describe('Seeded games', () => {
+    it('should store the seed on the game state', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1234 });
+
+        expect(manager.getSeed()).toBe(1234);
+        expect(manager.getState().seed).toBe(1234);
+        expect(manager.getState().rngState).toBeDefined();
+    });
+
+    it('should deal identical racks, bag and turn order for the same seed', () => {
+        const first = GameStateManager.createNewGame(4, ['A', 'B', 'C', 'D'], 100, { seed: 42 }).getState();
+        const second = GameStateManager.createNewGame(4, ['A', 'B', 'C', 'D'], 100, { seed: 42 }).getState();
+
+        expect(second.players).toEqual(first.players);
+        expect(second.tileBag).toEqual(first.tileBag);
+        expect(second.currentPlayerId).toBe(first.currentPlayerId);
+    });
+
+    it('should deal different tiles for different seeds', () => {
+        const first = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 }).getState();
+        const second = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 2 }).getState();
+
+        expect(second.tileBag).not.toEqual(first.tileBag);
+    });
+
+    it('should reproduce swaps after serialization', () => {
+        const original = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 7 });
+        const copy = GameStateManager.deserialize(original.serialize());
+
+        original.getEngine().swapTiles(0, [0, 1, 2]);
+        copy.getEngine().swapTiles(0, [0, 1, 2]);
+
+        expect(copy.getState().players[0].rack).toEqual(original.getState().players[0].rack);
+        expect(copy.getState().tileBag).toEqual(original.getState().tileBag);
+    });
+
+    it('should regenerate the solo bag deterministically', () => {
+        const makeEngine = () => {
+            const state = GameStateManager.createNewGame(1, ['Solo'], 0, { seed: 99 }).getState();
+            state.gameMode = 'solo';
+            state.tileBag = [];
+            state.players[0].rack = [];
+            return new GrabbleEngine(state);
+        };
+        const first = makeEngine();
+        const second = makeEngine();
+
+        first.refillPlayerRack(0);
+        second.refillPlayerRack(0);
+
+        expect(first.getState().players[0].rack).toHaveLength(7);
+        expect(second.getState().players[0].rack).toEqual(first.getState().players[0].rack);
+    });
+
+    it('should accept text seeds', () => {
+        const first = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: normalizeSeed('daily') });
+        const second = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: normalizeSeed('daily') });
+
+        expect(second.getState().tileBag).toEqual(first.getState().tileBag);
+        expect(normalizeSeed('123')).toBe(123);
+    });
+});
+
+// ============================================================================
+// HISTORY, UNDO/REDO AND REPLAY TESTS
+// ============================================================================
+
+describe('Move history', () => {
+    const playTurn = async (manager: GameStateManager, dictionary: Set<string>) => {
+        const engine = manager.getEngine();
+        const player = manager.getCurrentPlayer();
+
+        // Play the first three rack tiles into one column and claim them as a word
+        const tiles = engine.removeTilesFromRack(player.id, [0, 1, 2]);
+        engine.placeTiles(tiles.map(tile => ({ column: 0, tile })), player.id);
+        const state = engine.getState();
+        const height = state.board.length;
+        const positions = [0, 1, 2].map(i => ({ x: 0, y: height - 1 - i }));
+        const word = positions.map(p => state.board[p.y][p.x]!.letter).join('');
+        dictionary.add(word);
+
+        const result = await engine.processWordClaims(
+            [{ positions, playerId: player.id }],
+            positions,
+            dictionary
+        );
+        engine.refillPlayerRack(player.id);
+        engine.advanceTurn();
+        return result;
+    };
+
+    it('should record placements, claims, draws and turn advances', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 5 });
+        const result = await playTurn(manager, new Set());
+        const history = manager.getEngine().getHistory();
+
+        expect(result.valid).toBe(true);
+        expect(history.map(a => a.type)).toEqual(['rack_remove', 'place', 'claim', 'draw', 'advance_turn']);
+
+        // Tiles dropped into the same column stack in placement order, first on top
+        const place = history[1];
+        expect(place.type === 'place' && place.positions).toEqual([
+            { x: 0, y: 4 }, { x: 0, y: 5 }, { x: 0, y: 6 }
+        ]);
+        const draw = history[3];
+        expect(draw.type === 'draw' && draw.tiles).toHaveLength(3);
+        expect(manager.getEngine().getTurnCount()).toBe(1);
+    });
+
+    it('should undo and redo a whole submitted turn', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 11 });
+        const engine = manager.getEngine();
+        const before = engine.getState();
+
+        await playTurn(manager, new Set());
+        const after = engine.getState();
+
+        expect(engine.undoTurn()).toBe(true);
+        const undone = engine.getState();
+        expect(undone.board).toEqual(before.board);
+        expect(undone.players).toEqual(before.players);
+        expect(undone.tileBag).toEqual(before.tileBag);
+        expect(undone.claimedWords).toEqual([]);
+        expect(undone.currentPlayerId).toBe(before.currentPlayerId);
+        expect(manager.getCurrentPlayer().rack).toHaveLength(7);
+
+        expect(engine.canRedo()).toBe(true);
+        expect(engine.redoTurn()).toBe(true);
+        expect(engine.getState()).toEqual(after);
+        expect(engine.canRedo()).toBe(false);
+    });
+
+    it('should undo only the in-progress part of the current turn first', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 3 });
+        const engine = manager.getEngine();
+        const player = manager.getCurrentPlayer();
+
+        engine.swapTiles(player.id, [0, 1]);
+        engine.advanceTurn();
+        const afterSwap = engine.getState();
+
+        const next = manager.getCurrentPlayer();
+        const [tile] = engine.removeTilesFromRack(next.id, [0]);
+        engine.placeTiles([{ column: 2, tile }], next.id);
+
+        engine.undoTurn();
+        expect(engine.getState().board).toEqual(afterSwap.board);
+        expect(engine.getState().players).toEqual(afterSwap.players);
+
+        engine.undoTurn();
+        expect(engine.getState().history).toEqual([]);
+        expect(engine.canUndo()).toBe(false);
+    });
+
+    it('should rebuild intermediate positions without changing the game', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 21 });
+        const engine = manager.getEngine();
+        const start = engine.getState();
+        const dictionary = new Set<string>();
+
+        await playTurn(manager, dictionary);
+        const afterFirst = engine.getState();
+        await playTurn(manager, dictionary);
+        const final = engine.getState();
+
+        expect(engine.getStateAtTurn(0).board).toEqual(start.board);
+        expect(engine.getStateAtTurn(1).players).toEqual(afterFirst.players);
+        expect(engine.getStateAtTurn(2).claimedWords).toEqual(final.claimedWords);
+        expect(engine.getState()).toEqual(final);
+    });
+
+    it('should replay from a deserialized finished game', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 1, { seed: 8 });
+        await playTurn(manager, new Set());
+        manager.getEngine().checkWinCondition();
+
+        const loaded = GameStateManager.deserialize(manager.serialize());
+        const engine = loaded.getEngine();
+
+        expect(loaded.isGameFinished()).toBe(true);
+        expect(engine.getHistory().pop()?.type).toBe('finish');
+        expect(engine.getStateAtTurn(1).gameStatus).toBe('playing');
+        expect(engine.getStateAtTurn(2).gameStatus).toBe('finished');
+    });
+});
+
+// ============================================================================
+// HINT PENALTY TESTS
+// ============================================================================
+
+describe('Hint penalties', () => {
+    const dictionary = new Set(['CAT']);
+    const cat = [
+        { letter: 'C', points: 3 },
+        { letter: 'A', points: 1 },
+        { letter: 'T', points: 1 }
+    ];
+
+    const placeCat = (manager: GameStateManager) => {
+        const engine = manager.getEngine();
+        const player = manager.getCurrentPlayer();
+        engine.placeTiles(cat.map((tile, i) => ({ column: i, tile })), player.id);
+        const positions = [0, 1, 2].map(x => ({ x, y: 6 }));
+        return { engine, player, positions };
+    };
+
+    it('should score hinted words with the penalty multiplier', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 });
+        const { engine, player, positions } = placeCat(manager);
+
+        engine.recordHintUsage(player.id, 2, [0]);
+        const result = await engine.processWordClaims([{ positions, playerId: player.id }], positions, dictionary);
+
+        expect(result.valid).toBe(true);
+        expect(result.totalScore).toBe(2);  // floor(5 * 0.5)
+        expect(engine.getState().claimedWords[0].bonuses).toContain('hint_penalty');
+        expect(engine.getState().hintUsage?.levelUsed).toBe(2);
+    });
+
+    it('should score normally without a hint', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 });
+        const { engine, player, positions } = placeCat(manager);
+
+        const result = await engine.processWordClaims([{ positions, playerId: player.id }], positions, dictionary);
+
+        expect(result.totalScore).toBe(5);
+        expect(engine.getState().claimedWords[0].bonuses).toEqual([]);
+    });
+
+    it('should use a configurable multiplier', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1, hintPenaltyMultiplier: 1 });
+        const { engine, player, positions } = placeCat(manager);
+
+        engine.recordHintUsage(player.id, 4);
+        const result = await engine.processWordClaims([{ positions, playerId: player.id }], positions, dictionary);
+
+        expect(result.totalScore).toBe(5);
+        expect(engine.getState().claimedWords[0].bonuses).not.toContain('hint_penalty');
+    });
+
+    it('should keep the highest level used and clear it when the turn ends', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 });
+        const engine = manager.getEngine();
+        const playerId = manager.getCurrentPlayer().id;
+
+        engine.recordHintUsage(playerId, 0);
+        engine.recordHintUsage(playerId, 3, [1, 2]);
+        expect(engine.getState().hintUsage).toMatchObject({ playerId, levelUsed: 3, tilesAffected: [1, 2] });
+
+        engine.advanceTurn();
+        expect(engine.getState().hintUsage).toBeUndefined();
+    });
+
+    it('should enforce a per-player cooldown between turns', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1, hintCooldownMs: 30000 });
+        const engine = manager.getEngine();
+        const first = manager.getCurrentPlayer().id;
+
+        engine.recordHintUsage(first, 0, [], 1000);
+        // Escalating within the same turn is allowed
+        engine.recordHintUsage(first, 1, [], 2000);
+        engine.advanceTurn();
+
+        // Other player is unaffected
+        const second = manager.getCurrentPlayer().id;
+        expect(engine.getHintCooldownRemaining(second, 3000)).toBe(0);
+        engine.recordHintUsage(second, 0, [], 3000);
+        engine.advanceTurn();
+
+        expect(engine.getHintCooldownRemaining(first, 10000)).toBe(22000);
+        expect(() => engine.recordHintUsage(first, 0, [], 10000)).toThrow('Hint is cooling down');
+        expect(() => engine.recordHintUsage(first, 0, [], 32000)).not.toThrow();
+    });
+
+    it('should only allow hints on your turn', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 });
+        const engine = manager.getEngine();
+        const other = manager.getState().players.find(p => p.id !== manager.getCurrentPlayer().id)!;
+
+        expect(() => engine.recordHintUsage(other.id, 0)).toThrow('Hints can only be used on your turn');
+    });
+});
+
+// ============================================================================
+// HOUSE RULES TESTS
+// ============================================================================
+
+describe('House rules', () => {
+    const dictionary = new Set(['TOT', 'CAT']);
+    const tiles = (word: string) => word.split('').map(letter => ({ letter, points: 1 }));
+
+    const claimRow = async (manager: GameStateManager, word: string) => {
+        const engine = manager.getEngine();
+        const playerId = manager.getCurrentPlayer().id;
+        engine.placeTiles(tiles(word).map((tile, i) => ({ column: i, tile })), playerId);
+        const positions = word.split('').map((_, x) => ({ x, y: 6 }));
+        return engine.processWordClaims([{ positions, playerId }], positions, dictionary);
+    };
+
+    it('should default to classic rules', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 });
+
+        const result = await claimRow(manager, 'TOT');
+
+        expect(manager.getState().houseRules).toEqual(DEFAULT_HOUSE_RULES);
+        expect(result.totalScore).toBe(6);  // 3 x palindrome bonus
+    });
+
+    it('should apply configured bonus multipliers and skip disabled bonuses', async () => {
+        const tripled = resolveHouseRules({ bonuses: { ...DEFAULT_HOUSE_RULES.bonuses, palindrome: { enabled: true, multiplier: 3 } } });
+        const disabled = resolveHouseRules({ bonuses: { ...DEFAULT_HOUSE_RULES.bonuses, palindrome: { enabled: false, multiplier: 2 } } });
+
+        const tripledResult = await claimRow(GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1, houseRules: tripled }), 'TOT');
+        const disabledManager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1, houseRules: disabled });
+        const disabledResult = await claimRow(disabledManager, 'TOT');
+
+        expect(tripledResult.totalScore).toBe(9);
+        expect(disabledResult.totalScore).toBe(3);
+        expect(disabledManager.getState().claimedWords[0].bonuses).toEqual([]);
+    });
+
+    it('should only apply the largest bonus when bonuses do not stack', () => {
+        const rules = resolveHouseRules({ bonuses: { ...DEFAULT_HOUSE_RULES.bonuses, palindrome: { enabled: true, multiplier: 3 } } });
+
+        expect(getBonusMultiplier(['diagonal', 'palindrome'], rules)).toBe(6);
+        expect(getBonusMultiplier(['diagonal', 'palindrome'], { ...rules, stackBonuses: false })).toBe(3);
+        expect(getBonusMultiplier([], rules)).toBe(1);
+    });
+
+    it('should reject words shorter than the minimum length', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, {
+            seed: 1,
+            houseRules: { ...DEFAULT_HOUSE_RULES, minWordLength: 4 }
+        });
+
+        const result = await claimRow(manager, 'CAT');
+
+        expect(result.valid).toBe(false);
+        expect(result.results[0].error).toBe('Word must be a straight line of 4+ letters');
+    });
+
+    it('should fill in missing rules with the defaults', () => {
+        const rules = resolveHouseRules({ minWordLength: 4 });
+
+        expect(rules.minWordLength).toBe(4);
+        expect(rules.stackBonuses).toBe(true);
+        expect(rules.bonuses.diagonal).toEqual({ enabled: true, multiplier: 2 });
+    });
+});
+
+// ============================================================================
+// ENDGAME TESTS
+// ============================================================================
+
+describe('Endgame', () => {
+    const tiles = (letters: string, points = 1) => letters.split('').map(letter => ({ letter, points }));
+
+    // Two-player game with an empty bag and the given racks
+    const emptyBagGame = (racks: string[], scores = [0, 0]) => {
+        const state = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 }).getState();
+        delete state.history;
+        delete state.historyBase;
+        state.tileBag = [];
+        state.players.forEach((player, i) => {
+            player.rack = tiles(racks[i]);
+            player.score = scores[i];
+        });
+        return new GrabbleEngine(state);
+    };
+
+    const pass = (engine: GrabbleEngine) => {
+        engine.advanceTurn();
+        return engine.checkWinCondition();
+    };
+
+    it('should end in a stalemate once every player passes twice with an empty bag', () => {
+        const engine = emptyBagGame(['AB', 'CDE'], [10, 11]);
+
+        expect(pass(engine)).toBeNull();
+        expect(pass(engine)).toBeNull();
+        expect(pass(engine)).toBeNull();
+        expect(engine.canContinueGame()).toBe(true);
+
+        const winnerId = pass(engine);
+        const state = engine.getState();
+        const [first, second] = state.players;
+
+        expect(state.gameStatus).toBe('finished');
+        expect(state.result?.reason).toBe('stalemate');
+        expect(winnerId).toBe(first.id);
+        expect(state.result?.standings).toEqual([
+            { playerId: first.id, name: first.name, score: 8, rackPenalty: 2, rank: 1 },
+            { playerId: second.id, name: second.name, score: 8, rackPenalty: 3, rank: 1 }
+        ]);
+        expect(engine.canContinueGame()).toBe(false);
+    });
+
+    it('should reset the pass count when a word is claimed', async () => {
+        const engine = emptyBagGame(['CATS', 'XYZ']);
+        const playerId = engine.getState().currentPlayerId;
+        pass(engine);
+        pass(engine);
+
+        const current = engine.getState().currentPlayerId;
+        expect(current).toBe(playerId);
+        const cat = engine.removeTilesFromRack(current, [0, 1, 2]);
+        engine.placeTiles(cat.map((tile, i) => ({ column: i, tile })), current);
+        const positions = [0, 1, 2].map(x => ({ x, y: 6 }));
+        await engine.processWordClaims([{ positions, playerId: current }], positions, new Set(['CAT']));
+        pass(engine);
+
+        expect(engine.getState().consecutivePasses).toBe(0);
+        expect(engine.getState().gameStatus).toBe('playing');
+    });
+
+    it('should end when a player uses their last tile with an empty bag', () => {
+        const engine = emptyBagGame(['', 'QZ'], [5, 20]);
+        const [first, second] = engine.getState().players;
+
+        const winnerId = pass(engine);
+        const result = engine.getState().result;
+
+        expect(result?.reason).toBe('out_of_tiles');
+        expect(winnerId).toBe(second.id);
+        expect(result?.standings.map(s => [s.playerId, s.score, s.rank])).toEqual([
+            [second.id, 18, 1],
+            [first.id, 5, 2]
+        ]);
+    });
+
+    it('should pass without touching the rack or bag', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 });
+        const engine = manager.getEngine();
+        const before = engine.getState();
+        const playerId = before.currentPlayerId;
+
+        engine.passTurn(playerId);
+        const after = engine.getState();
+
+        expect(after.currentPlayerId).not.toBe(playerId);
+        expect(after.tileBag).toEqual(before.tileBag);
+        expect(after.players).toEqual(before.players);
+        expect(after.consecutivePasses).toBe(1);
+        expect(engine.getHistory().map(a => a.type)).toEqual(['pass', 'advance_turn']);
+        expect(() => engine.passTurn(playerId)).toThrow(`It is not player ${playerId}'s turn`);
+    });
+
+    it('should not count passes towards a stalemate while the bag has tiles', () => {
+        const engine = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 }).getEngine();
+
+        for (let i = 0; i < 6; i++) {
+            expect(pass(engine)).toBeNull();
+        }
+        expect(engine.getState().consecutivePasses).toBe(6);
+    });
+
+    it('should use the public bag and rack counts in a multiplayer view', () => {
+        const state = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1 }).getState();
+
+        // Player 0 sees an empty bag and an empty opponent rack, but only because they are hidden
+        expect(new GrabbleEngine(toPlayerView(state, 0)).getEndgameReason()).toBeNull();
+
+        state.tileBag = [];
+        state.players[1].rack = [];
+        expect(new GrabbleEngine(toPlayerView(state, 0)).getEndgameReason()).toBe('out_of_tiles');
+
+        state.players[1].rack = tiles('Q');
+        state.consecutivePasses = 4;
+        const view = toPlayerView(state, 0);
+        expect(new GrabbleEngine(view).getEndgameReason()).toBe('stalemate');
+
+        // Playing out my own rack counts even though my public count is stale
+        view.players[0].rack = [];
+        view.consecutivePasses = 0;
+        expect(new GrabbleEngine(view).getEndgameReason()).toBe('out_of_tiles');
+    });
+
+    it('should keep the final standings when replaying and undoing', () => {
+        const engine = emptyBagGame(['', 'QZ']);
+        pass(engine);
+        const finished = engine.getState();
+
+        expect(engine.getStateAtTurn(2)).toEqual(finished);
+        expect(engine.undoTurn()).toBe(true);
+        expect(engine.getState().result).toBeUndefined();
+        expect(engine.getState().players.map(p => p.score)).toEqual([0, 0]);
+    });
+
+    it('should resume a game won on score towards a higher target', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 10, { seed: 1 });
+        const engine = manager.getEngine();
+        engine.finishGame(manager.getCurrentPlayer().id);
+
+        engine.resumeGame(50);
+
+        expect(engine.getState().gameStatus).toBe('playing');
+        expect(engine.getState().targetScore).toBe(50);
+        expect(engine.getState().result).toBeUndefined();
+        expect(engine.getHistory().pop()).toEqual({ type: 'resume', targetScore: 50 });
+    });
+});
+
+// ============================================================================
+// CHALLENGE MODE TESTS
+// ============================================================================
+
+describe('Challenge mode', () => {
+    const dictionary = new Set(['CAT']);
+    const tiles = (word: string) => word.split('').map(letter => ({ letter, points: 1 }));
+
+    // Current player plays a word along the bottom row, draws and ends the turn
+    const playWord = async (manager: GameStateManager, word: string) => {
+        const engine = manager.getEngine();
+        const playerId = manager.getCurrentPlayer().id;
+        const state = (engine as any).state;
+        state.players.find((p: any) => p.id === playerId).rack = tiles(word);
+
+        const placed = engine.removeTilesFromRack(playerId, word.split('').map((_, i) => i));
+        engine.placeTiles(placed.map((tile, i) => ({ column: i, tile })), playerId);
+        const positions = word.split('').map((_, x) => ({ x, y: 6 }));
+        const result = await engine.processWordClaims([{ positions, playerId }], positions, dictionary);
+        engine.refillPlayerRack(playerId);
+        engine.advanceTurn();
+        return { playerId, result };
+    };
+
+    const newGame = () => GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 1, challengeMode: true, challengePenalty: 4 });
+
+    it('should accept words outside the dictionary provisionally', async () => {
+        const manager = newGame();
+
+        const { playerId, result } = await playWord(manager, 'XQZ');
+        const state = manager.getState();
+
+        expect(result.valid).toBe(true);
+        expect(state.players.find(p => p.id === playerId)!.score).toBe(3);
+        expect(state.claimedWords[0].challenge).toEqual({ status: 'pending' });
+        expect(state.pendingChallenge).toMatchObject({ playerId, wordCount: 1, drawn: 7 });
+        expect(manager.getEngine().checkWinCondition()).toBeNull();
+    });
+
+    it('should take back a play that fails a challenge', async () => {
+        const manager = newGame();
+        const engine = manager.getEngine();
+        const bagBefore = manager.getState().tileBag;
+        const { playerId } = await playWord(manager, 'XQZ');
+        const challengerId = manager.getCurrentPlayer().id;
+
+        const { successful } = engine.challenge(challengerId, dictionary);
+        const state = manager.getState();
+        const player = state.players.find(p => p.id === playerId)!;
+
+        expect(successful).toBe(true);
+        expect(player.score).toBe(0);
+        expect(player.rack.map(t => t.letter).sort()).toEqual(['Q', 'X', 'Z']);
+        expect(state.tileBag).toEqual(bagBefore);
+        expect(state.board[6].every(cell => cell === null)).toBe(true);
+        expect(state.claimedWords[0].challenge).toEqual({ status: 'withdrawn', challengerId });
+        expect(state.pendingChallenge).toBeUndefined();
+        expect(state.currentPlayerId).toBe(challengerId);
+    });
+
+    it('should cost the challenger when the play is valid', async () => {
+        const manager = newGame();
+        const engine = manager.getEngine();
+        await playWord(manager, 'CAT');
+        const challengerId = manager.getCurrentPlayer().id;
+
+        const { successful } = engine.challenge(challengerId, dictionary);
+        const state = manager.getState();
+
+        expect(successful).toBe(false);
+        expect(state.players.find(p => p.id === challengerId)!.score).toBe(-4);
+        expect(state.claimedWords[0].challenge).toEqual({ status: 'upheld', challengerId, penalty: 4 });
+        expect(state.board[6].filter(cell => cell !== null)).toHaveLength(3);
+    });
+
+    it('should close the window when the next player acts or time runs out', async () => {
+        const manager = newGame();
+        const engine = manager.getEngine();
+        const { playerId } = await playWord(manager, 'XQZ');
+        const claimedAt = manager.getState().pendingChallenge!.claimedAt;
+
+        expect(() => engine.challenge(playerId, dictionary)).toThrow('You cannot challenge your own play');
+        expect(() => engine.challenge(manager.getCurrentPlayer().id, dictionary, claimedAt + 15000)).toThrow('The challenge window has closed');
+
+        engine.passTurn(manager.getCurrentPlayer().id);
+
+        expect(manager.getState().pendingChallenge).toBeUndefined();
+        expect(manager.getState().claimedWords[0].challenge).toEqual({ status: 'unchallenged' });
+    });
+
+    it('should end the game at the target score once the challenge window closes', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 3, { seed: 1, challengeMode: true });
+        const engine = manager.getEngine();
+        const { playerId } = await playWord(manager, 'CAT');
+        const claimedAt = manager.getState().pendingChallenge!.claimedAt;
+
+        expect(engine.checkWinCondition()).toBeNull();
+        expect(engine.closeChallengeWindow(claimedAt + 1000)).toBeNull();
+        expect(manager.getState().gameStatus).toBe('playing');
+
+        expect(engine.closeChallengeWindow(claimedAt + 15000)).toBe(playerId);
+        const state = manager.getState();
+        expect(state.gameStatus).toBe('finished');
+        expect(state.result?.reason).toBe('target_score');
+        expect(state.pendingChallenge).toBeUndefined();
+        expect(state.claimedWords[0].challenge).toEqual({ status: 'unchallenged' });
+    });
+
+    it('should replay challenges from the history', async () => {
+        const manager = newGame();
+        const engine = manager.getEngine();
+        const playerId = manager.getCurrentPlayer().id;
+
+        // Play the first three rack tiles as they were dealt, so the history covers everything
+        const placed = engine.removeTilesFromRack(playerId, [0, 1, 2]);
+        engine.placeTiles(placed.map((tile, i) => ({ column: i, tile })), playerId);
+        const positions = [0, 1, 2].map(x => ({ x, y: 6 }));
+        await engine.processWordClaims([{ positions, playerId }], positions, dictionary);
+        engine.refillPlayerRack(playerId);
+        engine.advanceTurn();
+        engine.challenge(manager.getCurrentPlayer().id, dictionary);
+        const final = engine.getState();
+
+        expect(engine.getStateAtTurn(1).pendingChallenge).toBeDefined();
+        expect(engine.getStateAtAction(engine.getHistory().length)).toEqual(final);
+    });
+});
+
+describe('Time control', () => {
+    const newGame = (numPlayers: number, timeControl: { turnLimitMs?: number; clockMs?: number }) => {
+        const names = ['A', 'B', 'C', 'D'].slice(0, numPlayers);
+        const manager = GameStateManager.createNewGame(numPlayers, names, 100, { seed: 1, timeControl });
+        (manager.getEngine() as any).state.turnStartedAt = 0;
+        return manager;
+    };
+
+    it('should pass a turn that runs out of time and return placed tiles', () => {
+        const manager = newGame(2, { turnLimitMs: 30000 });
+        const engine = manager.getEngine();
+        const [tile] = engine.removeTilesFromRack(0, [0]);
+        engine.placeTiles([{ column: 3, tile }], 0);
+
+        expect(engine.getTurnTimeLeft(10000)).toBe(20000);
+        expect(engine.handleTimeout(20000)).toBeNull();
+        expect(engine.handleTimeout(30000)).toBe('pass');
+
+        const state = manager.getState();
+        expect(state.board.every(row => row.every(cell => cell === null))).toBe(true);
+        expect(state.players[0].rack).toHaveLength(7);
+        expect(state.currentPlayerId).toBe(1);
+        expect(state.turnStartedAt).toBe(30000);
+        expect(state.gameStatus).toBe('playing');
+    });
+
+    it('should charge each turn to the chess clock', () => {
+        const manager = newGame(2, { clockMs: 60000 });
+        const engine = manager.getEngine();
+
+        engine.advanceTurn(20000);
+
+        expect(manager.getState().clocks).toEqual({ 0: 40000 });
+        expect(engine.getClockTimeLeft(0, 30000)).toBe(40000);
+        expect(engine.getClockTimeLeft(1, 30000)).toBe(50000);
+    });
+
+    it('should end a two player game when a clock runs out', () => {
+        const manager = newGame(2, { clockMs: 60000 });
+        const engine = manager.getEngine();
+        engine.advanceTurn(20000);
+
+        expect(engine.handleTimeout(80000)).toBe('forfeit');
+
+        const state = manager.getState();
+        expect(state.gameStatus).toBe('finished');
+        expect(state.winnerId).toBe(0);
+        expect(state.result?.reason).toBe('forfeit');
+        expect(state.result?.standings.map(s => [s.playerId, s.rank, s.rackPenalty])).toEqual([[0, 1, 0], [1, 2, 0]]);
+    });
+
+    it('should skip players who forfeited and replay the same clocks', () => {
+        const manager = newGame(3, { clockMs: 60000 });
+        const engine = manager.getEngine();
+
+        expect(engine.handleTimeout(60000)).toBe('forfeit');
+        expect(manager.getState().currentPlayerId).toBe(1);
+        engine.advanceTurn(65000);
+        engine.advanceTurn(70000);
+
+        const state = manager.getState();
+        expect(state.gameStatus).toBe('playing');
+        expect(state.currentPlayerId).toBe(1);
+        expect(state.players[0].forfeited).toBe(true);
+        expect(state.clocks).toEqual({ 0: 0, 1: 55000, 2: 55000 });
+
+        const replayed = engine.getStateAtAction(engine.getHistory().length);
+        expect(replayed.clocks).toEqual(state.clocks);
+        expect(replayed.currentPlayerId).toBe(1);
+    });
+});
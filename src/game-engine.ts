@@ -4,18 +4,47 @@
  * Core game engine with game logic
  */
 
-import type { Tile, Position, TilePlacement, WordClaim, GameState } from './types';
-import { STANDARD_SCRABBLE_DISTRIBUTION } from './types';
+import type { Tile, Position, TilePlacement, WordClaim, GameState, GameAction, ClaimedWord, HintLevel, LetterDistribution, LanguagePack, HouseRules, BonusType, GameEndReason, Standing, PendingChallenge, Player, CascadeStep } from './types';
+import {
+    STANDARD_SCRABBLE_DISTRIBUTION,
+    DEFAULT_BOARD_WIDTH,
+    DEFAULT_BOARD_HEIGHT,
+    TURN_END_ACTIONS,
+    DEFAULT_HINT_PENALTY_MULTIPLIER,
+    DEFAULT_STALEMATE_ROUNDS,
+    DEFAULT_CHALLENGE_WINDOW_MS,
+    DEFAULT_CHALLENGE_PENALTY
+} from './types';
+import { SeededRandom, createSeed } from './rng';
+import type { RandomFn } from './rng';
+import { getLanguagePack } from './language-packs';
+import { resolveHouseRules, getBonusMultiplier } from './house-rules';
 import { isValidWordLine, extractWordFromPositions, getReverseWord, containsNewTile } from './word-detection';
+import { clearAndDrop, findCascadeWords, getComboMultiplier } from './cascade';
 
 /**
  * Core game engine for Grabble
  */
 export class GrabbleEngine {
     private state: GameState;
+    private recordingPaused = 0;       // > 0 while replaying or running nested engine calls
+    private isRedoing = false;
+    private redoStack: GameAction[][] = []; // Undone turns, most recent last
 
     constructor(state: GameState) {
         this.state = state;
+
+        // Legacy states without a seed get one so history replays are deterministic
+        if (this.state.rngState === undefined) {
+            this.state.seed = this.state.seed ?? createSeed();
+            this.state.rngState = this.state.seed;
+        }
+
+        // The position the engine starts from is the base every history replay starts from
+        if (!this.state.historyBase) {
+            this.state.history = [];
+            this.state.historyBase = this.createHistorySnapshot();
+        }
     }
 
     /**
@@ -26,38 +55,87 @@ export class GrabbleEngine {
     }
 
     /**
-     * Initialize a new tile bag from standard Scrabble distribution
+     * Get board width (number of columns)
+     */
+    getBoardWidth(): number {
+        return this.state.boardWidth ?? this.state.board[0]?.length ?? DEFAULT_BOARD_WIDTH;
+    }
+
+    /**
+     * Get board height (number of rows)
+     */
+    getBoardHeight(): number {
+        return this.state.boardHeight ?? this.state.board.length ?? DEFAULT_BOARD_HEIGHT;
+    }
+
+    /**
+     * Get the language pack this game is played with
+     */
+    getLanguagePack(): LanguagePack {
+        return getLanguagePack(this.state.language);
+    }
+
+    /**
+     * Get the house rules this game is played with (defaults filled in)
+     */
+    getHouseRules(): HouseRules {
+        return resolveHouseRules(this.state.houseRules);
+    }
+
+    /**
+     * Get the seed this game was created with (undefined for legacy games)
      */
-    static createTileBag(): Tile[] {
+    getSeed(): number | undefined {
+        return this.state.seed;
+    }
+
+    /**
+     * Next random number from the game's seeded RNG
+     * Advances rngState so the sequence survives serialization
+     */
+    private nextRandom(): number {
+        const rng = new SeededRandom(this.state.rngState ?? 0);
+        const value = rng.next();
+        this.state.rngState = rng.getState();
+        return value;
+    }
+
+    /**
+     * Initialize a new tile bag from a letter distribution (standard Scrabble by default)
+     */
+    static createTileBag(random: RandomFn = Math.random, distribution: LetterDistribution = STANDARD_SCRABBLE_DISTRIBUTION): Tile[] {
         const bag: Tile[] = [];
-        for (const [letter, { count, points }] of Object.entries(STANDARD_SCRABBLE_DISTRIBUTION)) {
+        for (const [letter, { count, points }] of Object.entries(distribution)) {
             for (let i = 0; i < count; i++) {
                 bag.push({ letter, points });
             }
         }
-        return this.shuffle(bag);
+        return this.shuffle(bag, random);
     }
 
     /**
      * Shuffle array using Fisher-Yates algorithm
      */
-    static shuffle<T>(array: T[]): T[] {
+    static shuffle<T>(array: T[], random: RandomFn = Math.random): T[] {
         const shuffled = [...array];
         for (let i = shuffled.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
+            const j = Math.floor(random() * (i + 1));
             [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
         }
         return shuffled;
     }
 
     /**
-     * Initialize empty 7x7 board
+     * Initialize empty board (7x7 unless dimensions are given)
      */
-    static createEmptyBoard(): (Tile | null)[][] {
+    static createEmptyBoard(
+        width: number = DEFAULT_BOARD_WIDTH,
+        height: number = DEFAULT_BOARD_HEIGHT
+    ): (Tile | null)[][] {
         const board: (Tile | null)[][] = [];
-        for (let y = 0; y < 7; y++) {
+        for (let y = 0; y < height; y++) {
             board[y] = [];
-            for (let x = 0; x < 7; x++) {
+            for (let x = 0; x < width; x++) {
                 board[y][x] = null;
             }
         }
@@ -69,16 +147,22 @@ export class GrabbleEngine {
      * Tiles are placed first, then gravity resolves
      */
     placeTiles(placements: TilePlacement[], playerId: number): void {
+        this.settleChallenge();
+
+        const width = this.getBoardWidth();
+        const height = this.getBoardHeight();
+        const stackHeights = this.getColumnStackHeights();
+
         // Place tiles at top of columns
         for (const placement of placements) {
             const { column, tile } = placement;
-            if (column < 0 || column >= 7) {
+            if (column < 0 || column >= width) {
                 throw new Error(`Invalid column: ${column}`);
             }
 
             // Find first empty cell in column (starting from top)
             let placed = false;
-            for (let row = 0; row < 7; row++) {
+            for (let row = 0; row < height; row++) {
                 if (this.state.board[row][column] === null) {
                     this.state.board[row][column] = {
                         ...tile,
@@ -96,17 +180,55 @@ export class GrabbleEngine {
 
         // Resolve gravity after all placements
         this.resolveGravity();
+
+        // Placed tiles land on top of each column's stack, in placement order
+        const placedPerColumn = new Map<number, number>();
+        for (const { column } of placements) {
+            placedPerColumn.set(column, (placedPerColumn.get(column) || 0) + 1);
+        }
+        const seenPerColumn = new Map<number, number>();
+        const positions: Position[] = placements.map(({ column }) => {
+            const index = seenPerColumn.get(column) || 0;
+            seenPerColumn.set(column, index + 1);
+            const below = stackHeights[column] + (placedPerColumn.get(column)! - 1 - index);
+            return { x: column, y: height - 1 - below };
+        });
+
+        this.recordAction({
+            type: 'place',
+            playerId,
+            placements: placements.map(p => ({ column: p.column, tile: { ...p.tile } })),
+            positions
+        });
+    }
+
+    /**
+     * Count tiles in each column
+     */
+    private getColumnStackHeights(): number[] {
+        const heights: number[] = [];
+        for (let col = 0; col < this.getBoardWidth(); col++) {
+            let count = 0;
+            for (let row = 0; row < this.getBoardHeight(); row++) {
+                if (this.state.board[row][col] !== null) count++;
+            }
+            heights.push(count);
+        }
+        return heights;
     }
 
     /**
      * Resolve gravity - tiles fall straight down until they hit bottom or another tile
      */
     private resolveGravity(): void {
+        const width = this.getBoardWidth();
+        const height = this.getBoardHeight();
+
         // Process each column independently
-        for (let col = 0; col < 7; col++) {
+        for (let col = 0; col < width; col++) {
             // Collect all tiles in this column (top to bottom)
             const tiles: Tile[] = [];
-            for (let row = 0; row < 7; row++) {
+            for (let row = 0; row < height; row++) {
                 const tile = this.state.board[row][col];
                 if (tile !== null) {
                     tiles.push(tile);
@@ -115,7 +237,7 @@ export class GrabbleEngine {
             }
 
             // Place tiles back from bottom up
-            let rowIndex = 6; // Start from bottom row
+            let rowIndex = height - 1; // Start from bottom row
             for (let i = tiles.length - 1; i >= 0; i--) {
                 this.state.board[rowIndex][col] = tiles[i];
                 rowIndex--;
@@ -123,13 +245,20 @@ export class GrabbleEngine {
         }
     }
 
+    /**
+     * Check if a position is within the board bounds
+     */
+    private isInBounds(x: number, y: number): boolean {
+        return x >= 0 && x < this.getBoardWidth() && y >= 0 && y < this.getBoardHeight();
+    }
+
     /**
      * Remove a tile from the board at the specified position
      * Applies gravity after removal (tiles above fall down)
      * Returns the removed tile, or null if no tile was at that position
      */
     removeTile(x: number, y: number): Tile | null {
-        if (x < 0 || x >= 7 || y < 0 || y >= 7) {
+        if (!this.isInBounds(x, y)) {
             return null;
         }
 
@@ -144,6 +273,8 @@ export class GrabbleEngine {
         // Apply gravity to the column
         this.resolveGravity();
 
+        this.recordAction({ type: 'remove', position: { x, y }, tile: { ...tile } });
+
         return tile;
     }
 
@@ -152,7 +283,7 @@ export class GrabbleEngine {
      * Returns the word string and validates it's a straight line
      */
     extractWord(positions: Position[]): { word: string; isValid: boolean } {
-        if (!isValidWordLine(positions)) {
+        if (!isValidWordLine(positions, this.getHouseRules().minWordLength)) {
             return { word: '', isValid: false };
         }
 
@@ -164,15 +295,19 @@ export class GrabbleEngine {
         }
 
         const word = extractWordFromPositions(this.state.board, positions);
-        return { word, isValid: word.length >= 3 };
+        return { word, isValid: word.length > 0 };
     }
 
     /**
-     * Check if word is a palindrome (same forward and backward)
+     * Check if a word's tiles read the same forward and backward
+     * Compares whole tiles, so RR+A+R+R is not a palindrome even though its letters are
      */
-    isPalindrome(word: string): boolean {
-        const cleaned = word.replace(/\s+/g, '').toUpperCase();
-        return cleaned === cleaned.split('').reverse().join('');
+    isPalindrome(positions: Position[]): boolean {
+        const letters = positions.map(pos => {
+            const tile = this.state.board[pos.y]?.[pos.x];
+            return tile?.letter === ' ' ? tile.blankLetter : tile?.letter;
+        });
+        return letters.every((letter, i) => letter === letters[letters.length - 1 - i]);
     }
 
     /**
@@ -206,33 +341,31 @@ export class GrabbleEngine {
             }
         }
 
-        const bonuses: string[] = [];
-        let multiplier = 1;
+        // Only bonuses switched on in the house rules are checked
+        const rules = this.getHouseRules();
+        const bonuses: BonusType[] = [];
 
         // Check if diagonal word
-        if (positions.length > 0) {
+        if (rules.bonuses.diagonal.enabled && positions.length > 0) {
             const dx = positions[positions.length - 1].x - positions[0].x;
             const dy = positions[positions.length - 1].y - positions[0].y;
             if (dx !== 0 && dy !== 0) {
                 bonuses.push('diagonal');
-                multiplier *= 2;
             }
         }
 
         // Check if palindrome
-        if (this.isPalindrome(word)) {
+        if (rules.bonuses.palindrome.enabled && this.isPalindrome(positions)) {
             bonuses.push('palindrome');
-            multiplier *= 2;
         }
 
         // Check if emordnilap
-        if (await this.isEmordnilap(word, positions, dictionary)) {
+        if (rules.bonuses.emordnilap.enabled && await this.isEmordnilap(word, positions, dictionary)) {
             bonuses.push('emordnilap');
-            multiplier *= 2;
         }
 
         return {
-            score: baseScore * multiplier,
+            score: Math.floor(baseScore * getBonusMultiplier(bonuses, rules)),
             bonuses
         };
     }
@@ -249,11 +382,12 @@ export class GrabbleEngine {
         // Extract word
         const { word, isValid } = this.extractWord(claim.positions);
         if (!isValid) {
-            return { valid: false, error: 'Word must be a straight line of 3+ letters' };
+            return { valid: false, error: `Word must be a straight line of ${this.getHouseRules().minWordLength}+ letters` };
         }
 
         // Check dictionary
-        if (!dictionary.has(word.toUpperCase())) {
+        // In challenge mode any word is accepted until an opponent challenges it
+        if (!this.isChallengeMode() && !dictionary.has(word.toUpperCase())) {
             return { valid: false, error: 'Word not in dictionary' };
         }
 
@@ -261,7 +395,9 @@ export class GrabbleEngine {
         // This allows claiming words that don't contain new tiles, as long as at least one word does
 
         // Check if word already claimed
-        const wordAlreadyClaimed = this.state.claimedWords.some(cw => {
+        // Claimed words leave the board in a cascade, so nothing on it has been claimed
+        const wordAlreadyClaimed = !this.getHouseRules().cascade && this.state.claimedWords.some(cw => {
+            if (cw.challenge?.status === 'withdrawn') return false;
             if (cw.word.toUpperCase() !== word.toUpperCase()) return false;
             // Check if positions overlap (same word in same location)
             return cw.positions.some(cwPos =>
@@ -273,7 +409,14 @@ export class GrabbleEngine {
         }
 
         // Calculate score
-        const { score, bonuses } = await this.calculateWordScore(word, claim.positions, dictionary);
+        let { score, bonuses } = await this.calculateWordScore(word, claim.positions, dictionary);
+
+        // Hinted words (containing tiles placed after a hint this turn) score at a reduced rate
+        const penalty = this.getHintPenaltyMultiplier();
+        if (penalty !== 1 && this.isHintedClaim(claim, newlyPlacedTiles)) {
+            score = Math.floor(score * penalty);
+            bonuses = [...bonuses, 'hint_penalty'];
+        }
 
         return {
             valid: true,
@@ -283,6 +426,65 @@ export class GrabbleEngine {
         };
     }
 
+    /**
+     * Check if a claim was made with the help of a hint this turn
+     */
+    private isHintedClaim(claim: WordClaim, newlyPlacedTiles: Position[]): boolean {
+        const usage = this.state.hintUsage;
+        return !!usage &&
+            usage.playerId === claim.playerId &&
+            containsNewTile(claim.positions, newlyPlacedTiles);
+    }
+
+    /**
+     * Get the score multiplier applied to hinted words
+     */
+    getHintPenaltyMultiplier(): number {
+        return this.state.hintPenaltyMultiplier ?? DEFAULT_HINT_PENALTY_MULTIPLIER;
+    }
+
+    /**
+     * Milliseconds until the player may request a new hint (0 = available)
+     * Escalating a hint already started this turn is never blocked
+     */
+    getHintCooldownRemaining(playerId: number, now: number = Date.now()): number {
+        const cooldown = this.state.hintCooldownMs || 0;
+        if (cooldown <= 0 || this.state.hintUsage?.playerId === playerId) {
+            return 0;
+        }
+
+        const lastHintAt = this.state.lastHintAt?.[playerId];
+        if (lastHintAt === undefined) {
+            return 0;
+        }
+        return Math.max(0, lastHintAt + cooldown - now);
+    }
+
+    /**
+     * Record that the current player revealed a hint level this turn
+     * Throws if the player's hint cooldown is still running
+     */
+    recordHintUsage(playerId: number, level: HintLevel, tilesAffected: number[] = [], now: number = Date.now()): void {
+        if (this.state.currentPlayerId !== playerId) {
+            throw new Error('Hints can only be used on your turn');
+        }
+        if (this.recordingPaused === 0 && this.getHintCooldownRemaining(playerId, now) > 0) {
+            throw new Error('Hint is cooling down');
+        }
+
+        const previous = this.state.hintUsage?.playerId === playerId ? this.state.hintUsage : undefined;
+        const previousTiles = previous?.tilesAffected || [];
+        this.state.hintUsage = {
+            playerId,
+            levelUsed: Math.max(previous?.levelUsed ?? 0, level) as HintLevel,
+            tilesAffected: [...previousTiles, ...tilesAffected.filter(i => !previousTiles.includes(i))],
+            timestamp: now
+        };
+        this.state.lastHintAt = { ...this.state.lastHintAt, [playerId]: now };
+
+        this.recordAction({ type: 'hint', playerId, level, tilesAffected: [...tilesAffected], timestamp: now });
+    }
+
     /**
      * Process word claims for a turn
      * Returns validation results for each claim
@@ -295,6 +497,7 @@ export class GrabbleEngine {
         valid: boolean;
         results: Array<{ valid: boolean; error?: string; word?: string; score?: number; bonuses?: string[] }>;
         totalScore: number;
+        cascade?: CascadeStep[];
     }> {
         // If tiles were placed this turn, validate connectivity rules
         if (newlyPlacedTiles.length > 0) {
@@ -350,29 +553,125 @@ export class GrabbleEngine {
         }
 
         // All valid - record claimed words and update scores
+        const challengeMode = this.isChallengeMode();
+        const claimedWords: ClaimedWord[] = [];
         for (let i = 0; i < claims.length; i++) {
             const claim = claims[i];
             const result = results[i];
             if (result.valid && result.word && result.score !== undefined) {
-                this.state.claimedWords.push({
+                claimedWords.push({
                     word: result.word,
                     positions: claim.positions,
                     playerId: claim.playerId,
                     score: result.score,
-                    bonuses: result.bonuses || []
+                    bonuses: result.bonuses || [],
+                    ...(challengeMode && { challenge: { status: 'pending' as const } })
                 });
+            }
+        }
 
-                // Update player score
-                const player = this.state.players.find(p => p.id === claim.playerId);
-                if (player) {
-                    player.score += result.score;
-                }
+        // Challenge mode: the play stays open to challenge after the turn ends
+        const challenge: PendingChallenge | undefined = challengeMode && claimedWords.length > 0
+            ? {
+                playerId: claimedWords[0].playerId,
+                wordCount: claimedWords.length,
+                tiles: newlyPlacedTiles.map(p => ({ ...p })),
+                drawn: 0,
+                claimedAt: Date.now()
             }
+            : undefined;
+        this.applyClaimedWords(claimedWords, challenge);
+
+        if (claimedWords.length > 0) {
+            this.recordAction({
+                type: 'claim',
+                playerId: claimedWords[0].playerId,
+                words: JSON.parse(JSON.stringify(claimedWords)),
+                score: totalScore,
+                ...(challenge && { challenge: { ...challenge, tiles: challenge.tiles.map(p => ({ ...p })) } })
+            });
+        }
+
+        // Cascade rule: the claimed words vanish and the tiles above fall
+        // Challenge mode keeps claimed words on the board so they can still be challenged
+        if (this.getHouseRules().cascade && !challengeMode && claimedWords.length > 0) {
+            const cascade = await this.runCascade(claimedWords[0].playerId, claimedWords, dictionary);
+            return { valid: true, results, totalScore, cascade };
         }
 
         return { valid: true, results, totalScore };
     }
 
+    /**
+     * Clear claimed words, let the tiles above fall and score the words the falls form
+     * Each further link of the chain scores with a higher combo multiplier
+     */
+    private async runCascade(playerId: number, claimed: ClaimedWord[], dictionary: Set<string>): Promise<CascadeStep[]> {
+        const steps: CascadeStep[] = [];
+        let cleared = claimed.flatMap(w => w.positions);
+
+        while (cleared.length > 0) {
+            const { board, falls } = clearAndDrop(this.state.board, cleared);
+            this.state.board = board;
+
+            const multiplier = getComboMultiplier(steps.length + 1);
+            const moved = falls.map(f => f.to);
+            const words: ClaimedWord[] = [];
+            for (const positions of findCascadeWords(board, moved, dictionary, this.getHouseRules().minWordLength)) {
+                const word = extractWordFromPositions(board, positions, true);
+                const { score, bonuses } = await this.calculateWordScore(word, positions, dictionary);
+                words.push({ word, positions, playerId, score: score * multiplier, bonuses, combo: multiplier });
+            }
+            this.applyClaimedWords(words);
+
+            steps.push({ cleared, falls, words, multiplier });
+            cleared = words.flatMap(w => w.positions);
+        }
+
+        this.recordAction({ type: 'cascade', playerId, steps: JSON.parse(JSON.stringify(steps)) });
+        return steps;
+    }
+
+    /**
+     * Replay a recorded cascade onto the board
+     */
+    private applyCascade(steps: CascadeStep[]): void {
+        for (const step of steps) {
+            this.state.board = clearAndDrop(this.state.board, step.cleared).board;
+            this.applyClaimedWords(step.words ?? []);
+        }
+    }
+
+    /**
+     * Add claimed words to the state and award their scores
+     * Blank tiles in claimed words keep their letter from now on
+     */
+    private applyClaimedWords(words: ClaimedWord[], challenge?: PendingChallenge): void {
+        this.settleChallenge();
+        if (challenge) {
+            this.state.pendingChallenge = challenge;
+        }
+        if (words.length > 0) {
+            this.state.turnScored = true;
+        }
+        for (const claimedWord of words) {
+            this.state.claimedWords.push(claimedWord);
+
+            for (const pos of claimedWord.positions) {
+                const tile = this.state.board[pos.y]?.[pos.x];
+                if (tile && tile.letter === ' ') {
+                    tile.isBlankLocked = true;
+                }
+            }
+
+            // Update player score
+            const player = this.state.players.find(p => p.id === claimedWord.playerId);
+            if (player) {
+                player.score += claimedWord.score;
+            }
+        }
+    }
+
     /**
      * Draw tiles from bag to fill player rack (up to 7 tiles)
      */
@@ -382,26 +681,37 @@ export class GrabbleEngine {
             throw new Error(`Player ${playerId} not found`);
         }
 
+        const drawn: Tile[] = [];
         while (player.rack.length < 7) {
             if (this.state.tileBag.length > 0) {
                 const tile = this.state.tileBag.pop()!;
                 player.rack.push(tile);
+                drawn.push(tile);
             } else if (this.state.gameMode === 'solo') {
                 // Solo mode: infinite tiles - create new random tile
-                const newBag = GrabbleEngine.createTileBag();
+                const newBag = GrabbleEngine.createTileBag(() => this.nextRandom(), this.getLanguagePack().distribution);
                 this.state.tileBag = newBag;
             } else {
                 // Normal mode: bag exhausted
                 break;
             }
         }
+
+        // A successful challenge puts these back in the bag
+        if (this.state.pendingChallenge?.playerId === playerId) {
+            this.state.pendingChallenge.drawn += drawn.length;
+        }
+
+        if (drawn.length > 0) {
+            this.recordAction({ type: 'draw', playerId, tiles: drawn.map(t => ({ ...t })) });
+        }
     }
 
     /**
      * Check if the board is completely full (game over condition for solo mode)
      */
     isBoardFull(): boolean {
-        for (let col = 0; col < 7; col++) {
+        for (let col = 0; col < this.getBoardWidth(); col++) {
             // Check if top row of each column is empty
             if (this.state.board[0][col] === null) {
                 return false;
@@ -414,11 +724,15 @@ export class GrabbleEngine {
      * Swap tiles (player discards selected tiles, draws new ones)
      */
     swapTiles(playerId: number, tileIndices: number[]): void {
+        this.settleChallenge();
+
         const player = this.state.players.find(p => p.id === playerId);
         if (!player) {
             throw new Error(`Player ${playerId} not found`);
         }
 
+        const requestedIndices = [...tileIndices];
+
         // Remove selected tiles from rack
         const removedTiles: Tile[] = [];
         for (const index of tileIndices.sort((a, b) => b - a)) { // Sort descending to remove from end
@@ -429,31 +743,76 @@ export class GrabbleEngine {
 
         // Return tiles to bag and shuffle
         this.state.tileBag.push(...removedTiles);
-        this.state.tileBag = GrabbleEngine.shuffle(this.state.tileBag);
+        this.state.tileBag = GrabbleEngine.shuffle(this.state.tileBag, () => this.nextRandom());
 
         // Draw new tiles
+        const drawn: Tile[] = [];
         while (player.rack.length < 7 && this.state.tileBag.length > 0) {
             const tile = this.state.tileBag.pop()!;
             player.rack.push(tile);
+            drawn.push(tile);
         }
+
+        this.recordAction({
+            type: 'swap',
+            playerId,
+            tileIndices: requestedIndices,
+            returned: removedTiles.map(t => ({ ...t })),
+            drawn: drawn.map(t => ({ ...t }))
+        });
     }
 
     /**
      * Advance to next player's turn
      */
-    advanceTurn(): void {
+    advanceTurn(now: number = Date.now()): void {
+        this.settleChallenge();
+
         const currentPlayer = this.state.players.find(p => p.id === this.state.currentPlayerId);
         if (!currentPlayer) {
             throw new Error(`Current player ${this.state.currentPlayerId} not found`);
         }
+        this.chargeClock(currentPlayer.id, now);
 
+        // Next player in turn order, skipping players who forfeited
         const currentTurnOrder = currentPlayer.turnOrder;
-        const nextTurnOrder = (currentTurnOrder + 1) % this.state.players.length;
-        const nextPlayer = this.state.players.find(p => p.turnOrder === nextTurnOrder);
-
-        if (nextPlayer) {
-            this.state.currentPlayerId = nextPlayer.id;
+        const count = this.state.players.length;
+        for (let step = 1; step <= count; step++) {
+            const nextTurnOrder = (currentTurnOrder + step) % count;
+            const nextPlayer = this.state.players.find(p => p.turnOrder === nextTurnOrder);
+            if (nextPlayer && !nextPlayer.forfeited) {
+                this.state.currentPlayerId = nextPlayer.id;
+                break;
+            }
+        }
+        if (this.state.timeControl) {
+            this.state.turnStartedAt = now;
         }
+
+        // Hint usage only applies to the turn it was requested in
+        delete this.state.hintUsage;
+
+        // Turns that end without a claimed word count towards a stalemate
+        this.state.consecutivePasses = this.state.turnScored ? 0 : (this.state.consecutivePasses ?? 0) + 1;
+        delete this.state.turnScored;
+
+        this.recordAction({
+            type: 'advance_turn',
+            playerId: currentPlayer.id,
+            nextPlayerId: this.state.currentPlayerId,
+            ...(this.state.timeControl && { at: now })
+        });
+    }
+
+    /**
+     * Whether a player may clear the board: only on their own turn, before placing tiles
+     * and while no play is waiting to be challenged
+     */
+    canClearBoard(playerId: number): boolean {
+        return this.state.gameStatus === 'playing' &&
+            this.state.currentPlayerId === playerId &&
+            this.getTurnPlacements().length === 0 &&
+            !this.state.pendingChallenge;
     }
 
     /**
@@ -466,19 +825,25 @@ export class GrabbleEngine {
      */
     clearBoard(): void {
         // Clear the board
-        this.state.board = GrabbleEngine.createEmptyBoard();
+        this.state.board = GrabbleEngine.createEmptyBoard(this.getBoardWidth(), this.getBoardHeight());
 
-        // Clear claimed words
+        // Clear claimed words (and any play open to challenge), this turn's hint usage and the pass count
         this.state.claimedWords = [];
+        delete this.state.pendingChallenge;
+        delete this.state.hintUsage;
+        delete this.state.turnScored;
+        this.state.consecutivePasses = 0;
 
         // Create new tile bag
-        this.state.tileBag = GrabbleEngine.createTileBag();
+        this.state.tileBag = GrabbleEngine.createTileBag(() => this.nextRandom(), this.getLanguagePack().distribution);
 
-        // Clear and refill all player racks
-        for (const player of this.state.players) {
-            player.rack = [];
-            this.refillPlayerRack(player.id);
-        }
+        // Clear and refill all player racks (recorded as a single clear_board action)
+        this.withoutRecording(() => {
+            for (const player of this.state.players) {
+                player.rack = [];
+                this.refillPlayerRack(player.id);
+            }
+        });
 
         // Reset to first player's turn
         const firstPlayer = this.state.players.find(p => p.turnOrder === 0);
@@ -486,41 +851,423 @@ export class GrabbleEngine {
             this.state.currentPlayerId = firstPlayer.id;
         }
 
+        this.recordAction({ type: 'clear_board' });
+
         console.log('🧹 Board cleared! Scores preserved, starting new round.');
     }
 
+    // ========================================================================
+    // CHALLENGE MODE
+    // ========================================================================
+
+    /**
+     * Whether words are accepted provisionally and checked only when challenged
+     */
+    isChallengeMode(): boolean {
+        return !!this.state.challengeMode && this.state.gameMode !== 'solo';
+    }
+
+    /**
+     * Whether the last play can still be challenged
+     */
+    isChallengeOpen(now: number = Date.now()): boolean {
+        const pending = this.state.pendingChallenge;
+        const windowMs = this.state.challengeWindowMs ?? DEFAULT_CHALLENGE_WINDOW_MS;
+        return !!pending && now < pending.claimedAt + windowMs;
+    }
+
+    /**
+     * Challenge the last play
+     * If any of its words is not in the dictionary the play is taken back: its tiles
+     * return to the player's rack, the tiles drawn after it go back in the bag and it
+     * scores nothing. Otherwise the challenger loses the challenge penalty.
+     */
+    challenge(challengerId: number, dictionary: Set<string>, now: number = Date.now()): { successful: boolean; words: ClaimedWord[] } {
+        const pending = this.state.pendingChallenge;
+        if (!pending) {
+            throw new Error('There is no play to challenge');
+        }
+        if (!this.state.players.some(p => p.id === challengerId)) {
+            throw new Error(`Player ${challengerId} not found`);
+        }
+        if (challengerId === pending.playerId) {
+            throw new Error('You cannot challenge your own play');
+        }
+        if (!this.isChallengeOpen(now)) {
+            throw new Error('The challenge window has closed');
+        }
+
+        const words = this.state.claimedWords.slice(-pending.wordCount);
+        const successful = words.some(w => !dictionary.has(w.word.toUpperCase()));
+        this.resolveChallenge(challengerId, successful, now);
+
+        return { successful, words: JSON.parse(JSON.stringify(words)) };
+    }
+
+    /**
+     * Apply the outcome of a challenge to the pending play
+     */
+    private resolveChallenge(challengerId: number, successful: boolean, timestamp: number): void {
+        const pending = this.state.pendingChallenge;
+        if (!pending) {
+            return;
+        }
+        const words = this.state.claimedWords.slice(-pending.wordCount);
+        const player = this.state.players.find(p => p.id === pending.playerId)!;
+        const challenger = this.state.players.find(p => p.id === challengerId)!;
+
+        this.withoutRecording(() => {
+            if (successful) {
+                for (const word of words) {
+                    word.challenge = { status: 'withdrawn', challengerId };
+                    player.score -= word.score;
+                }
+
+                // Tiles drawn after the play go back on top of the bag, in draw order
+                const drawn = player.rack.splice(player.rack.length - pending.drawn, pending.drawn);
+                this.state.tileBag.push(...drawn.reverse());
+
+                this.takeBackTiles(player.id, pending.tiles);
+            } else {
+                const penalty = this.state.challengePenalty ?? DEFAULT_CHALLENGE_PENALTY;
+                for (const word of words) {
+                    word.challenge = { status: 'upheld', challengerId, penalty };
+                }
+                challenger.score -= penalty;
+            }
+        });
+
+        delete this.state.pendingChallenge;
+        this.recordAction({ type: 'challenge', challengerId, successful, timestamp });
+    }
+
+    /**
+     * Take tiles off the board and return them to a player's rack
+     * Removed from the top down so no other tile moves
+     */
+    private takeBackTiles(playerId: number, positions: Position[]): void {
+        const sorted = [...positions].sort((a, b) => a.y - b.y);
+        for (const { x, y } of sorted) {
+            const tile = this.removeTile(x, y);
+            if (tile) {
+                this.returnTileToRack(playerId, { letter: tile.letter, points: tile.points });
+            }
+        }
+    }
+
+    // ========================================================================
+    // TIME CONTROL
+    // ========================================================================
+
+    /**
+     * Milliseconds left in the current turn (null without a turn timer)
+     */
+    getTurnTimeLeft(now: number = Date.now()): number | null {
+        const limit = this.state.timeControl?.turnLimitMs;
+        if (!limit || this.state.turnStartedAt === undefined) {
+            return null;
+        }
+        return Math.max(0, this.state.turnStartedAt + limit - now);
+    }
+
+    /**
+     * Chess clock time left for a player, including the running turn (null without a chess clock)
+     */
+    getClockTimeLeft(playerId: number, now: number = Date.now()): number | null {
+        const clockMs = this.state.timeControl?.clockMs;
+        if (!clockMs) {
+            return null;
+        }
+
+        const left = this.state.clocks?.[playerId] ?? clockMs;
+        const running = playerId === this.state.currentPlayerId &&
+            this.state.gameStatus === 'playing' &&
+            this.state.turnStartedAt !== undefined
+            ? Math.max(0, now - this.state.turnStartedAt)
+            : 0;
+        return Math.max(0, left - running);
+    }
+
+    /**
+     * Whether the current player has used up their turn time or chess clock
+     */
+    isOutOfTime(now: number = Date.now()): boolean {
+        return this.getTurnTimeLeft(now) === 0 || this.getClockTimeLeft(this.state.currentPlayerId, now) === 0;
+    }
+
+    /**
+     * End the current player's turn if their time ran out: out of chess clock time
+     * forfeits the game, out of turn time passes. Tiles placed this turn go back to the rack.
+     * Returns what happened (null while time is left)
+     */
+    handleTimeout(now: number = Date.now()): 'pass' | 'forfeit' | null {
+        if (this.state.gameStatus !== 'playing') {
+            return null;
+        }
+
+        if (!this.isOutOfTime(now)) {
+            return null;
+        }
+
+        const forfeit = this.getClockTimeLeft(this.state.currentPlayerId, now) === 0;
+        this.timeOut(forfeit, now);
+        return forfeit ? 'forfeit' : 'pass';
+    }
+
+    /**
+     * End the current player's turn as timed out, without looking at the clocks
+     * (handleTimeout decides when; recorded games are rebuilt with this directly)
+     */
+    timeOut(forfeit: boolean, now: number = Date.now()): void {
+        const playerId = this.state.currentPlayerId;
+        const returned = this.getTurnPlacements();
+        this.applyTimeout(playerId, forfeit, returned);
+        this.recordAction({ type: 'timeout', playerId, forfeit, returned: returned.map(p => ({ ...p })), at: now });
+
+        // The last player left wins
+        const active = this.getActivePlayers();
+        if (forfeit && active.length <= 1) {
+            this.finishGame(active[0]?.id ?? playerId, 'forfeit');
+        } else {
+            this.advanceTurn(now);
+        }
+    }
+
     /**
-     * Check win condition
-     * Returns winner ID if game is won, null otherwise
+     * Take back the timed-out player's tiles and mark them out if they forfeited
+     */
+    private applyTimeout(playerId: number, forfeit: boolean, returned: Position[]): void {
+        this.withoutRecording(() => this.takeBackTiles(playerId, returned));
+
+        if (forfeit) {
+            this.state.players.find(p => p.id === playerId)!.forfeited = true;
+            this.state.clocks = { ...this.state.clocks, [playerId]: 0 };
+        }
+    }
+
+    /**
+     * Charge the time used this turn to the player's chess clock
+     */
+    private chargeClock(playerId: number, now: number): void {
+        const clockMs = this.state.timeControl?.clockMs;
+        if (!clockMs || this.state.turnStartedAt === undefined) {
+            return;
+        }
+
+        const left = this.state.clocks?.[playerId] ?? clockMs;
+        const used = Math.max(0, now - this.state.turnStartedAt);
+        this.state.clocks = { ...this.state.clocks, [playerId]: Math.max(0, left - used) };
+    }
+
+    /**
+     * Close the challenge window once the next player acts: the pending words stand
+     */
+    private settleChallenge(): void {
+        const pending = this.state.pendingChallenge;
+        if (!pending || pending.playerId === this.state.currentPlayerId) {
+            return;
+        }
+        this.letPendingPlayStand();
+    }
+
+    /**
+     * Close the challenge window once its time is up: the pending words stand
+     * Returns the winner ID if that ends the game (the play may have reached the target score)
+     */
+    closeChallengeWindow(now: number = Date.now()): number | null {
+        if (!this.state.pendingChallenge || this.isChallengeOpen(now)) {
+            return null;
+        }
+        this.letPendingPlayStand();
+        return this.checkWinCondition();
+    }
+
+    private letPendingPlayStand(): void {
+        const pending = this.state.pendingChallenge;
+        if (!pending) {
+            return;
+        }
+        for (const word of this.state.claimedWords.slice(-pending.wordCount)) {
+            word.challenge = { status: 'unchallenged' };
+        }
+        delete this.state.pendingChallenge;
+    }
+
+    /**
+     * Give up the turn without playing or swapping (unlike a swap, the bag is left alone)
+     * Passes are recorded in the history and count towards a stalemate
+     */
+    passTurn(playerId: number, now: number = Date.now()): void {
+        if (playerId !== this.state.currentPlayerId) {
+            throw new Error(`It is not player ${playerId}'s turn`);
+        }
+        if (this.getTurnPlacements().length > 0) {
+            throw new Error('Remove placed tiles before passing');
+        }
+
+        this.recordAction({ type: 'pass', playerId });
+        this.advanceTurn(now);
+    }
+
+    /**
+     * Check win condition, including the empty-bag endgame
+     * Returns winner ID if the game is over, null otherwise
      */
     checkWinCondition(): number | null {
-        // No win condition in solo mode or when targetScore is 0 (endless)
-        if (this.state.gameMode === 'solo' || this.state.targetScore === 0) {
+        // No win condition in solo mode (endless, the bag never runs out)
+        if (this.state.gameMode === 'solo') {
+            return null;
+        }
+        if (this.state.gameStatus === 'finished') {
+            return this.state.winnerId ?? null;
+        }
+        // A play that can still be challenged doesn't count yet
+        if (this.state.pendingChallenge) {
             return null;
         }
 
-        for (const player of this.state.players) {
-            if (player.score >= this.state.targetScore) {
-                this.state.gameStatus = 'finished';
-                this.state.winnerId = player.id;
-                return player.id;
+        // targetScore 0 means no target, but the endgame still applies
+        if (this.state.targetScore > 0) {
+            for (const player of this.getActivePlayers()) {
+                if (player.score >= this.state.targetScore) {
+                    this.finishGame(player.id);
+                    return player.id;
+                }
             }
         }
+
+        const reason = this.getEndgameReason();
+        if (reason) {
+            return this.endGame(reason);
+        }
         return null;
     }
 
     /**
-     * Check if game can continue (tiles available and legal moves possible)
+     * Why the game must end now that the bag is empty (null while it can go on)
      */
-    canContinueGame(): boolean {
-        // If tile bag is empty and all players have empty racks, game ends
-        if (this.state.tileBag.length === 0) {
-            const allRacksEmpty = this.state.players.every(p => p.rack.length === 0);
-            if (allRacksEmpty) {
-                return false;
+    getEndgameReason(): 'out_of_tiles' | 'stalemate' | null {
+        if (this.state.gameMode === 'solo' || this.getBagCount() > 0) {
+            return null;
+        }
+        const active = this.getActivePlayers();
+        if (active.some(p => this.getRackCount(p) === 0)) {
+            return 'out_of_tiles';
+        }
+        const rounds = this.state.stalemateRounds ?? DEFAULT_STALEMATE_ROUNDS;
+        if ((this.state.consecutivePasses ?? 0) >= rounds * active.length) {
+            return 'stalemate';
+        }
+        return null;
+    }
+
+    /**
+     * Tiles left in the bag (a multiplayer client's view only has the public count)
+     */
+    getBagCount(): number {
+        return this.state.bagCount ?? this.state.tileBag.length;
+    }
+
+    /**
+     * Tiles in a player's rack (a multiplayer client only sees the count of other racks)
+     */
+    getRackCount(player: Player): number {
+        return player.rackCount ?? player.rack.length;
+    }
+
+    /**
+     * End a game that can't go on: leftover racks are subtracted and the best final score wins
+     * Returns the winner ID
+     */
+    endGame(reason: GameEndReason): number {
+        const finalScores = this.getActivePlayers().map(p => ({
+            id: p.id,
+            score: p.score - this.getRackPenalty(p.id)
+        }));
+        const winner = finalScores.reduce((best, p) => p.score > best.score ? p : best);
+        this.finishGame(winner.id, reason);
+        return winner.id;
+    }
+
+    /**
+     * Players still in the game (not forfeited)
+     */
+    getActivePlayers(): Player[] {
+        return this.state.players.filter(p => !p.forfeited);
+    }
+
+    /**
+     * Points of the tiles left in a player's rack
+     */
+    getRackPenalty(playerId: number): number {
+        const player = this.state.players.find(p => p.id === playerId);
+        return player ? player.rack.reduce((sum, tile) => sum + tile.points, 0) : 0;
+    }
+
+    /**
+     * Mark the game as finished with the given winner and record the final standings
+     * Games that end on an empty bag subtract each player's leftover rack from their score
+     */
+    finishGame(winnerId: number, reason: GameEndReason = 'target_score'): void {
+        // A finished game can't be challenged, so the last play stands
+        this.letPendingPlayStand();
+
+        const penalties = new Map<number, number>();
+        if (reason === 'out_of_tiles' || reason === 'stalemate') {
+            for (const player of this.state.players) {
+                const penalty = this.getRackPenalty(player.id);
+                penalties.set(player.id, penalty);
+                player.score -= penalty;
             }
         }
-        return true;
+
+        this.state.gameStatus = 'finished';
+        this.state.winnerId = winnerId;
+        this.state.result = { reason, standings: this.getStandings(penalties) };
+        this.recordAction({ type: 'finish', winnerId, ...(reason !== 'target_score' && { reason }) });
+    }
+
+    /**
+     * Keep playing a game that was won on score, towards a higher target
+     */
+    resumeGame(targetScore: number): void {
+        this.state.targetScore = targetScore;
+        if (this.state.gameStatus !== 'finished') {
+            return;
+        }
+        this.state.gameStatus = 'playing';
+        delete this.state.winnerId;
+        delete this.state.result;
+        this.recordAction({ type: 'resume', targetScore });
+    }
+
+    /**
+     * Players ranked by score (the winner first when scores are tied, players who forfeited last)
+     */
+    private getStandings(penalties: Map<number, number>): Standing[] {
+        const winnerId = this.state.winnerId;
+        const ranksAbove = (a: Player, b: Player) =>
+            (!a.forfeited && !!b.forfeited) || (!!a.forfeited === !!b.forfeited && a.score > b.score);
+        const sorted = [...this.state.players].sort((a, b) =>
+            Number(!!a.forfeited) - Number(!!b.forfeited) ||
+            b.score - a.score ||
+            (a.id === winnerId ? -1 : b.id === winnerId ? 1 : a.turnOrder - b.turnOrder)
+        );
+
+        return sorted.map(player => ({
+            playerId: player.id,
+            name: player.name,
+            score: player.score,
+            rackPenalty: penalties.get(player.id) ?? 0,
+            rank: 1 + sorted.filter(p => ranksAbove(p, player)).length
+        }));
+    }
+
+    /**
+     * Check if game can continue (not finished and not stuck in the endgame)
+     */
+    canContinueGame(): boolean {
+        return this.state.gameStatus !== 'finished' && this.getEndgameReason() === null;
     }
 
     /**
@@ -543,7 +1290,17 @@ export class GrabbleEngine {
             }
         }
 
-        return removedTiles.reverse();
+        removedTiles.reverse();
+        if (removedTiles.length > 0) {
+            this.recordAction({
+                type: 'rack_remove',
+                playerId,
+                indices: [...indices],
+                tiles: removedTiles.map(t => ({ ...t }))
+            });
+        }
+
+        return removedTiles;
     }
 
     /**
@@ -555,13 +1312,14 @@ export class GrabbleEngine {
             throw new Error(`Player ${playerId} not found`);
         }
         player.rack.push(tile);
+        this.recordAction({ type: 'rack_return', playerId, tile: { ...tile } });
     }
 
     /**
      * Set the letter for a blank tile on the board
      */
     setBlankTileLetter(x: number, y: number, letter: string, playerId: number): boolean {
-        if (x < 0 || x >= 7 || y < 0 || y >= 7) return false;
+        if (!this.isInBounds(x, y)) return false;
 
         const tile = this.state.board[y][x];
 
@@ -575,9 +1333,278 @@ export class GrabbleEngine {
             // Don't lock it immediately - allow re-editing until turn is submitted
             // Locking will happen when the turn is submitted
             tile.isBlankLocked = false;
+            this.recordAction({ type: 'set_blank', playerId, position: { x, y }, letter: tile.blankLetter });
             return true;
         }
 
         return false;
     }
+
+    // ========================================================================
+    // HISTORY, UNDO/REDO AND REPLAY
+    // ========================================================================
+
+    /**
+     * Get the ordered action log for this game
+     */
+    getHistory(): GameAction[] {
+        return JSON.parse(JSON.stringify(this.state.history || []));
+    }
+
+    /**
+     * Number of completed turns in the history
+     */
+    getTurnCount(): number {
+        return (this.state.history || []).filter(a => TURN_END_ACTIONS.includes(a.type)).length;
+    }
+
+    /**
+     * Rebuild the position after the first `actionCount` actions (does not modify this game)
+     */
+    getStateAtAction(actionCount: number): GameState {
+        const history = this.state.history || [];
+        const count = Math.max(0, Math.min(actionCount, history.length));
+        return this.replay(history.slice(0, count));
+    }
+
+    /**
+     * Rebuild the position after `turn` completed turns (0 = game start)
+     */
+    getStateAtTurn(turn: number): GameState {
+        const history = this.state.history || [];
+        if (turn <= 0) {
+            return this.getStateAtAction(0);
+        }
+
+        let completed = 0;
+        for (let i = 0; i < history.length; i++) {
+            if (TURN_END_ACTIONS.includes(history[i].type)) {
+                completed++;
+                if (completed === turn) {
+                    return this.getStateAtAction(i + 1);
+                }
+            }
+        }
+        return this.getStateAtAction(history.length);
+    }
+
+    /**
+     * Positions of tiles placed during the current turn (and still on the board)
+     * Tracks gravity shifts from tiles removed later in the same turn
+     */
+    getTurnPlacements(): Position[] {
+        const history = this.state.history || [];
+        let start = history.length;
+        while (start > 0 && !TURN_END_ACTIONS.includes(history[start - 1].type)) {
+            start--;
+        }
+
+        let placed: Position[] = [];
+        for (const action of history.slice(start)) {
+            if (action.type === 'place') {
+                placed.push(...action.positions.map(p => ({ ...p })));
+            } else if (action.type === 'remove') {
+                const { x, y } = action.position;
+                placed = placed
+                    .filter(p => !(p.x === x && p.y === y))
+                    .map(p => (p.x === x && p.y < y ? { x: p.x, y: p.y + 1 } : p));
+            }
+        }
+        return placed;
+    }
+
+    /**
+     * Check if there is a turn (or turn in progress) to undo
+     */
+    canUndo(): boolean {
+        return (this.state.history || []).length > 0;
+    }
+
+    /**
+     * Check if there is an undone turn to redo
+     */
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Undo the last turn
+     * If the current turn has actions in progress, only those are undone
+     * Returns false if there was nothing to undo
+     */
+    undoTurn(): boolean {
+        const history = this.state.history || [];
+        if (history.length === 0) {
+            return false;
+        }
+
+        // Find where the last turn started (just after the previous turn end)
+        let start = history.length - 1;
+        while (start > 0 && !TURN_END_ACTIONS.includes(history[start - 1].type)) {
+            start--;
+        }
+
+        this.redoStack.push(history.slice(start));
+        this.restoreState(this.replay(history.slice(0, start)));
+        return true;
+    }
+
+    /**
+     * Redo the most recently undone turn
+     * Returns false if there was nothing to redo
+     */
+    redoTurn(): boolean {
+        const actions = this.redoStack.pop();
+        if (!actions) {
+            return false;
+        }
+
+        this.isRedoing = true;
+        try {
+            for (const action of actions) {
+                this.applyAction(action);
+            }
+        } finally {
+            this.isRedoing = false;
+        }
+        return true;
+    }
+
+    /**
+     * Append an action to the history log
+     */
+    private recordAction(action: GameAction): void {
+        if (this.recordingPaused > 0) {
+            return;
+        }
+
+        if (!this.state.history) {
+            this.state.history = [];
+        }
+        this.state.history.push(action);
+
+        // A new action invalidates undone turns
+        if (!this.isRedoing) {
+            this.redoStack = [];
+        }
+    }
+
+    /**
+     * Run engine calls without recording them in the history
+     */
+    private withoutRecording<T>(fn: () => T): T {
+        this.recordingPaused++;
+        try {
+            return fn();
+        } finally {
+            this.recordingPaused--;
+        }
+    }
+
+    /**
+     * Deep copy of the current state without history fields
+     */
+    private createHistorySnapshot(): GameState {
+        const { history, historyBase, ...rest } = this.state;
+        return JSON.parse(JSON.stringify(rest));
+    }
+
+    /**
+     * Apply a recorded action through the regular engine methods
+     */
+    private applyAction(action: GameAction): void {
+        switch (action.type) {
+            case 'place':
+                this.placeTiles(action.placements, action.playerId);
+                break;
+            case 'remove':
+                this.removeTile(action.position.x, action.position.y);
+                break;
+            case 'set_blank':
+                this.setBlankTileLetter(action.position.x, action.position.y, action.letter, action.playerId);
+                break;
+            case 'rack_remove':
+                this.removeTilesFromRack(action.playerId, action.indices);
+                break;
+            case 'rack_return':
+                this.returnTileToRack(action.playerId, { ...action.tile });
+                break;
+            case 'claim':
+                this.applyClaimedWords(
+                    JSON.parse(JSON.stringify(action.words)),
+                    action.challenge && JSON.parse(JSON.stringify(action.challenge))
+                );
+                this.recordAction(JSON.parse(JSON.stringify(action)));
+                break;
+            case 'cascade':
+                this.applyCascade(JSON.parse(JSON.stringify(action.steps)));
+                this.recordAction(JSON.parse(JSON.stringify(action)));
+                break;
+            case 'draw':
+                this.refillPlayerRack(action.playerId);
+                break;
+            case 'swap':
+                this.swapTiles(action.playerId, [...action.tileIndices]);
+                break;
+            case 'hint':
+                this.recordHintUsage(action.playerId, action.level, action.tilesAffected, action.timestamp);
+                break;
+            case 'pass':
+                // The advance_turn that follows does the work
+                break;
+            case 'challenge':
+                this.resolveChallenge(action.challengerId, action.successful, action.timestamp);
+                break;
+            case 'advance_turn':
+                this.advanceTurn(action.at);
+                break;
+            case 'timeout':
+                this.applyTimeout(action.playerId, action.forfeit, JSON.parse(JSON.stringify(action.returned)));
+                break;
+            case 'clear_board':
+                this.clearBoard();
+                break;
+            case 'finish':
+                this.finishGame(action.winnerId, action.reason);
+                break;
+            case 'resume':
+                this.resumeGame(action.targetScore);
+                break;
+        }
+    }
+
+    /**
+     * Rebuild a state by replaying actions from the history base
+     */
+    private replay(actions: GameAction[]): GameState {
+        const base = this.state.historyBase ?? this.createHistorySnapshot();
+        const replayState: GameState = JSON.parse(JSON.stringify(base));
+        const replayEngine = new GrabbleEngine(replayState);
+
+        replayEngine.withoutRecording(() => {
+            for (const action of actions) {
+                replayEngine.applyAction(action);
+            }
+        });
+
+        // Settings can be changed mid-game and are not part of the log
+        replayState.targetScore = this.state.targetScore;
+        replayState.hintsEnabled = this.state.hintsEnabled;
+        replayState.gameMode = this.state.gameMode;
+        replayState.zenMode = this.state.zenMode;
+
+        replayState.history = JSON.parse(JSON.stringify(actions));
+        replayState.historyBase = JSON.parse(JSON.stringify(base));
+        return replayState;
+    }
+
+    /**
+     * Replace the state contents in place (the state object is shared with GameStateManager)
+     */
+    private restoreState(next: GameState): void {
+        for (const key of Object.keys(this.state) as Array<keyof GameState>) {
+            delete this.state[key];
+        }
+        Object.assign(this.state, next);
+    }
 }
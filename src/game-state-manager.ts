@@ -4,8 +4,13 @@
  * Game state manager for turn order, player management, and game lifecycle
  */
 
-import type { GameState, Player } from './types';
+import type { GameState, GameOptions, Player, BotDifficulty } from './types';
+import { DEFAULT_BOARD_WIDTH, DEFAULT_BOARD_HEIGHT, DEFAULT_HINT_PENALTY_MULTIPLIER, DEFAULT_STALEMATE_ROUNDS, DEFAULT_CHALLENGE_WINDOW_MS, DEFAULT_CHALLENGE_PENALTY } from './types';
 import { GrabbleEngine } from './game-engine';
+import { SeededRandom, createSeed, normalizeSeed } from './rng';
+import { getLanguagePack } from './language-packs';
+import { resolveHouseRules } from './house-rules';
+import { migrateSave } from './save-schema';
 
 /**
  * Game state manager - handles game initialization, player management, and lifecycle
@@ -20,7 +25,8 @@ export class GameStateManager {
     static createNewGame(
         numPlayers: number,
         playerNames: string[],
-        targetScore: number = 100
+        targetScore: number = 100,
+        options: GameOptions = {}
     ): GameStateManager {
         if (numPlayers < 1 || numPlayers > 4) {
             throw new Error('Game must have 1-4 players');
@@ -29,14 +35,25 @@ export class GameStateManager {
             throw new Error('Player names array must match number of players');
         }
 
-        // Create tile bag
-        const tileBag = GrabbleEngine.createTileBag();
+        const boardWidth = options.boardWidth ?? DEFAULT_BOARD_WIDTH;
+        const boardHeight = options.boardHeight ?? DEFAULT_BOARD_HEIGHT;
+        if (boardWidth < 3 || boardHeight < 3) {
+            throw new Error('Board must be at least 3x3');
+        }
+
+        // Seeded RNG drives the tile bag and turn order so games can be reproduced
+        const seed = options.seed !== undefined ? normalizeSeed(options.seed) : createSeed();
+        const rng = new SeededRandom(seed);
+
+        // Create tile bag from the language pack's distribution
+        const language = getLanguagePack(options.language);
+        const tileBag = GrabbleEngine.createTileBag(rng.asFunction(), language.distribution);
 
         // Create players with random turn order
         const turnOrders = [0, 1, 2, 3].slice(0, numPlayers);
         // Shuffle turn orders
         for (let i = turnOrders.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
+            const j = Math.floor(rng.next() * (i + 1));
             [turnOrders[i], turnOrders[j]] = [turnOrders[j], turnOrders[i]];
         }
 
@@ -47,7 +64,8 @@ export class GameStateManager {
             color: playerColors[index],
             score: 0,
             rack: [],
-            turnOrder: turnOrders[index]
+            turnOrder: turnOrders[index],
+            ...(options.bots?.[index] && { isBot: true, botDifficulty: options.bots[index]! })
         }));
 
         // Deal initial tiles to each player
@@ -64,14 +82,51 @@ export class GameStateManager {
             p.turnOrder < min.turnOrder ? p : min
         );
 
+        // Starting board: tiles from the bag (never blanks) dropped into random open columns
+        const board = GrabbleEngine.createEmptyBoard(boardWidth, boardHeight);
+        const startingTiles = options.startingTiles ?? 0;
+        for (let i = 0; i < startingTiles; i++) {
+            const openColumns = board[0].map((_, x) => x).filter(x => !board[0][x]);
+            const bagIndex = tileBag.map(tile => tile.letter !== ' ').lastIndexOf(true);
+            if (openColumns.length === 0 || bagIndex < 0) break;
+
+            const column = openColumns[Math.floor(rng.next() * openColumns.length)];
+            let row = boardHeight - 1;
+            while (board[row][column]) row--;
+            board[row][column] = tileBag.splice(bagIndex, 1)[0];
+        }
+
         const state: GameState = {
-            board: GrabbleEngine.createEmptyBoard(),
+            board,
+            boardWidth,
+            boardHeight,
             players,
             currentPlayerId: startingPlayer.id,
             tileBag,
             claimedWords: [],
             targetScore,
-            gameStatus: 'playing'
+            gameStatus: 'playing',
+            language: language.id,
+            houseRules: resolveHouseRules(options.houseRules),
+            seed,
+            ...(options.seed !== undefined && { fixedSeed: true }),
+            rngState: rng.getState(),
+            hintPenaltyMultiplier: options.hintPenaltyMultiplier ?? DEFAULT_HINT_PENALTY_MULTIPLIER,
+            hintCooldownMs: options.hintCooldownMs ?? 0,
+            ...(options.hintsEnabled !== undefined && { hintsEnabled: options.hintsEnabled }),
+            ...((options.timeControl?.turnLimitMs || options.timeControl?.clockMs) && {
+                timeControl: { ...options.timeControl },
+                turnStartedAt: Date.now()
+            }),
+            ...(options.challengeMode && {
+                challengeMode: true,
+                challengeWindowMs: options.challengeWindowMs ?? DEFAULT_CHALLENGE_WINDOW_MS,
+                challengePenalty: options.challengePenalty ?? DEFAULT_CHALLENGE_PENALTY
+            }),
+            stalemateRounds: options.stalemateRounds ?? DEFAULT_STALEMATE_ROUNDS,
+            ...(options.gameMode === 'solo' && { gameMode: 'solo' as const }),
+            ...(startingTiles > 0 && { startingTiles }),
+            ...(options.dailyPuzzle && { dailyPuzzle: { ...options.dailyPuzzle } })
         };
 
         return new GameStateManager(state);
@@ -160,19 +215,12 @@ export class GameStateManager {
     }
 
     /**
-     * End game and determine winner (highest score)
+     * End game and determine winner (highest score after leftover rack penalties)
      * Called when no legal moves remain
      */
     endGame(): Player {
-        // Find player with highest score
-        const winner = this.state.players.reduce((max, p) =>
-            p.score > max.score ? p : max
-        );
-
-        this.state.gameStatus = 'finished';
-        this.state.winnerId = winner.id;
-
-        return winner;
+        const winnerId = this.engine.endGame('stalemate');
+        return this.getPlayer(winnerId)!;
     }
 
     /**
@@ -183,11 +231,10 @@ export class GameStateManager {
     }
 
     /**
-     * Deserialize game state from storage
+     * Deserialize game state from storage (a bare state or a versioned save, migrated to the current schema)
      */
     static deserialize(serialized: string): GameStateManager {
-        const state: GameState = JSON.parse(serialized);
-        return new GameStateManager(state);
+        return new GameStateManager(migrateSave(JSON.parse(serialized)));
     }
 
     /**
@@ -241,4 +288,25 @@ export class GameStateManager {
     getTargetScore(): number {
         return this.state.targetScore;
     }
+
+    /**
+     * Get the seed this game was created with
+     */
+    getSeed(): number | undefined {
+        return this.engine.getSeed();
+    }
+
+    /**
+     * Get bot difficulty per player (null = human)
+     */
+    getBots(): Array<BotDifficulty | null> {
+        return this.state.players.map(p => (p.isBot && p.botDifficulty) || null);
+    }
+
+    /**
+     * Get board dimensions
+     */
+    getBoardSize(): { width: number; height: number } {
+        return { width: this.engine.getBoardWidth(), height: this.engine.getBoardHeight() };
+    }
 }
@@ -10,7 +10,8 @@ import {
     findFirstValidWord,
     getSwapSuggestion,
     getHintAtLevel,
-    getHint
+    getHint,
+    findBestMoves
 } from './hint-engine';
 import type { Tile, Position } from './types';
 
@@ -183,6 +184,16 @@ describe('getAccessiblePositions', () => {
         expect(positions.find(p => p.column === 0)).toBeUndefined();
         expect(positions).toHaveLength(6);
     });
+
+    it('should follow the board dimensions', () => {
+        const board: (Tile | null)[][] = Array(9).fill(null).map(() => Array(5).fill(null));
+        const positions = getAccessiblePositions(board);
+
+        expect(positions).toHaveLength(5);
+        positions.forEach(pos => {
+            expect(pos.row).toBe(8);  // Bottom row of a 9-row board
+        });
+    });
 });
 
 // ============================================================================
@@ -346,3 +357,134 @@ describe('getHint (integration)', () => {
         expect(typeof hint.hasMoves).toBe('boolean');
     });
 });
+
+describe('findBestMoves', () => {
+    const emptyBoard = (): (Tile | null)[][] => Array(7).fill(null).map(() => Array(7).fill(null));
+
+    it('should rank moves by engine score including bonuses', async () => {
+        const board = emptyBoard();
+        // Existing 'C' and 'A' on the bottom row
+        board[6][0] = { letter: 'C', points: 3 };
+        board[6][1] = { letter: 'A', points: 1 };
+
+        const rack: Tile[] = [
+            { letter: 'T', points: 1 },
+            { letter: 'B', points: 3 },
+        ];
+        const dictionary = new Set(['CAT', 'CAB']);
+        const trie = buildTrieFromDictionary(dictionary);
+
+        const result = await findBestMoves(board, rack, trie, dictionary);
+
+        expect(result.complete).toBe(true);
+        expect(result.moves[0].words.map(w => w.word)).toEqual(['CAB']);
+        expect(result.moves[0].totalScore).toBe(7);
+        expect(result.moves[0].placements).toEqual([{ tileIndex: 1, column: 2, position: { x: 2, y: 6 } }]);
+        expect(result.moves.map(m => m.words[0].word)).toContain('CAT');
+    });
+
+    it('should find moves using several rack tiles', async () => {
+        const rack: Tile[] = [
+            { letter: 'D', points: 2 },
+            { letter: 'O', points: 1 },
+            { letter: 'G', points: 2 },
+        ];
+        const dictionary = new Set(['DOG']);
+        const trie = buildTrieFromDictionary(dictionary);
+
+        const result = await findBestMoves(emptyBoard(), rack, trie, dictionary);
+
+        expect(result.moves.length).toBeGreaterThan(0);
+        expect(result.moves[0].placements).toHaveLength(3);
+        expect(result.moves[0].totalScore).toBe(5);
+    });
+
+    it('should try every letter for blank tiles', async () => {
+        const board = emptyBoard();
+        board[6][0] = { letter: 'Z', points: 10 };
+        board[6][1] = { letter: 'O', points: 1 };
+
+        const rack: Tile[] = [{ letter: ' ', points: 0 }];
+        const dictionary = new Set(['ZOO']);
+        const trie = buildTrieFromDictionary(dictionary);
+
+        const result = await findBestMoves(board, rack, trie, dictionary);
+
+        expect(result.moves[0].placements[0].blankLetter).toBe('O');
+        expect(result.moves[0].totalScore).toBe(11);
+    });
+
+    it('should apply palindrome and diagonal multipliers', async () => {
+        const board = emptyBoard();
+        board[6][0] = { letter: 'D', points: 2 };
+        board[5][1] = { letter: 'I', points: 1 };
+        board[6][1] = { letter: 'X', points: 8 };
+        board[6][2] = { letter: 'X', points: 8 };
+        board[5][2] = { letter: 'X', points: 8 };
+
+        const rack: Tile[] = [{ letter: 'D', points: 2 }];
+        const dictionary = new Set(['DID']);
+        const trie = buildTrieFromDictionary(dictionary);
+
+        const result = await findBestMoves(board, rack, trie, dictionary);
+        const did = result.moves[0].words[0];
+
+        // D(2) + I(1) + D(2) = 5, diagonal x2, palindrome x2
+        expect(did.word).toBe('DID');
+        expect(did.bonuses).toEqual(expect.arrayContaining(['diagonal', 'palindrome']));
+        expect(did.score).toBe(20);
+    });
+
+    it('should skip words that were already claimed', async () => {
+        const board = emptyBoard();
+        board[6][0] = { letter: 'C', points: 3 };
+        board[6][1] = { letter: 'A', points: 1 };
+
+        const rack: Tile[] = [{ letter: 'T', points: 1 }];
+        const dictionary = new Set(['CAT']);
+        const trie = buildTrieFromDictionary(dictionary);
+        const claimedWords = [{
+            word: 'CAT',
+            positions: [{ x: 0, y: 6 }, { x: 1, y: 6 }, { x: 2, y: 6 }],
+            playerId: 0,
+            score: 5,
+            bonuses: []
+        }];
+
+        const result = await findBestMoves(board, rack, trie, dictionary, { claimedWords });
+
+        expect(result.moves.some(m => m.placements[0].column === 2 && m.words[0].word === 'CAT')).toBe(false);
+    });
+
+    it('should read multi-letter tiles backwards as whole tiles', async () => {
+        const board = emptyBoard();
+        board[6][0] = { letter: 'E', points: 1 };
+        board[6][1] = { letter: 'CH', points: 5 };
+
+        const rack: Tile[] = [{ letter: 'O', points: 1 }];
+        const dictionary = new Set(['OCHE']);
+        const trie = buildTrieFromDictionary(dictionary);
+
+        const result = await findBestMoves(board, rack, trie, dictionary);
+
+        // O + CH + E read right to left, not O-H-C-E
+        expect(result.moves[0].words[0].word).toBe('OCHE');
+        expect(result.moves[0].words[0].positions).toEqual([{ x: 2, y: 6 }, { x: 1, y: 6 }, { x: 0, y: 6 }]);
+    });
+
+    it('should stop at the node budget', async () => {
+        const rack: Tile[] = 'ABCDEFG'.split('').map(letter => ({ letter, points: 1 }));
+        const dictionary = new Set(['BAD', 'CAB', 'FED']);
+        const trie = buildTrieFromDictionary(dictionary);
+
+        const board = emptyBoard();
+        board[6][0] = { letter: 'B', points: 3 };
+        board[6][1] = { letter: 'A', points: 1 };
+
+        const result = await findBestMoves(board, rack, trie, dictionary, { maxNodes: 500 });
+
+        expect(result.complete).toBe(false);
+        expect(result.nodesVisited).toBe(500);
+        expect(result.moves.length).toBeGreaterThan(0);
+    });
+});
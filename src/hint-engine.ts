@@ -4,7 +4,9 @@
  * Hint Engine - Trie-based word finding for player hints
  */
 
-import type { Tile, Position } from './types';
+import type { Tile, Position, ClaimedWord, GameState, HouseRules } from './types';
+import { DEFAULT_MIN_WORD_LENGTH } from './types';
+import { GrabbleEngine } from './game-engine';
 
 // ============================================================================
 // TYPES
@@ -28,6 +30,11 @@ interface Direction {
     name: string;
 }
 
+/**
+ * Letters a blank tile can stand for when no alphabet is given
+ */
+const BLANK_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
 /**
  * All 8 directions to search for words
  */
@@ -87,6 +94,67 @@ export interface HintResult {
     tilesToSwap?: number[];
 }
 
+/**
+ * A single tile drop in a generated move
+ * Placements are dropped one at a time, in order
+ */
+export interface MovePlacement {
+    tileIndex: number;      // Rack index of the tile
+    column: number;         // Column to drop it in
+    position: Position;     // Where it lands
+    blankLetter?: string;   // Letter assigned if the tile is a blank
+}
+
+/**
+ * A word claimed by a generated move, scored by the game engine
+ */
+export interface ScoredWord {
+    word: string;
+    positions: Position[];
+    score: number;
+    bonuses: string[];
+}
+
+/**
+ * A legal move: placements plus every valid word they form
+ */
+export interface ScoredMove {
+    placements: MovePlacement[];
+    words: ScoredWord[];
+    totalScore: number;
+}
+
+/**
+ * Options for the best-move search
+ */
+export interface MoveSearchOptions {
+    maxResults?: number;       // Number of top moves to return (default 10)
+    maxTiles?: number;         // Most rack tiles to use in one move (default: whole rack)
+    maxNodes?: number;         // Placement budget (default 20000)
+    timeBudgetMs?: number;     // Time budget in ms (default 500)
+    claimedWords?: ClaimedWord[]; // Already claimed words (cannot be claimed again)
+    minWordLength?: number;    // Shortest claimable word (default: house rules, else 3)
+    alphabet?: string[];       // Letters a blank can stand for (default A-Z)
+    houseRules?: HouseRules;   // Bonus rules used for scoring (default: classic rules)
+}
+
+/**
+ * Rule inputs for the first-word hint search
+ */
+export interface HintSearchOptions {
+    alphabet?: string[];       // Letters a blank can stand for (default A-Z)
+    minWordLength?: number;    // Shortest claimable word (default 3)
+}
+
+/**
+ * Result of the best-move search
+ */
+export interface MoveSearchResult {
+    moves: ScoredMove[];    // Best moves, highest score first
+    nodesVisited: number;   // Placements explored
+    complete: boolean;      // False if the search stopped on its budget
+}
+
 // ============================================================================
 // TRIE DATA STRUCTURE
 // ============================================================================
@@ -201,10 +269,11 @@ export function buildTrieFromDictionary(dictionary: Set<string>): Trie {
  */
 export function getAccessiblePositions(board: (Tile | null)[][]): Array<{ column: number; row: number }> {
     const positions: Array<{ column: number; row: number }> = [];
+    const width = board[0]?.length || 0;
 
-    for (let col = 0; col < 7; col++) {
+    for (let col = 0; col < width; col++) {
         // Find lowest empty row in this column (bottom-up search)
-        for (let row = 6; row >= 0; row--) {
+        for (let row = board.length - 1; row >= 0; row--) {
             if (board[row][col] === null) {
                 positions.push({ column: col, row });
                 break;
@@ -219,7 +288,7 @@ export function getAccessiblePositions(board: (Tile | null)[][]): Array<{ column
  * Get the row where a tile would land in a column after gravity
  */
 function getLandingRow(board: (Tile | null)[][], column: number): number {
-    for (let row = 6; row >= 0; row--) {
+    for (let row = board.length - 1; row >= 0; row--) {
         if (board[row][column] === null) {
             return row;
         }
@@ -252,8 +321,8 @@ function simulatePlacement(board: (Tile | null)[][], column: number, tile: Tile)
 /**
  * Check if position is within board bounds
  */
-function isValidPosition(x: number, y: number): boolean {
-    return x >= 0 && x < 7 && y >= 0 && y < 7;
+function isValidPosition(board: (Tile | null)[][], x: number, y: number): boolean {
+    return y >= 0 && y < board.length && x >= 0 && x < (board[0]?.length || 0);
 }
 
 // ============================================================================
@@ -280,7 +349,7 @@ function extractWordInDirection(
     const backPositions: Position[] = [];
     const backLetters: string[] = [];
 
-    while (isValidPosition(x, y) && board[y][x] !== null) {
+    while (isValidPosition(board, x, y) && board[y][x] !== null) {
         const tile = board[y][x]!;
         const letter = tile.letter === ' ' ? (tile.blankLetter || '?') : tile.letter;
         backPositions.unshift({ x, y });
@@ -305,7 +374,7 @@ function extractWordInDirection(
     x = startX + dx;
     y = startY + dy;
 
-    while (isValidPosition(x, y) && board[y][x] !== null) {
+    while (isValidPosition(board, x, y) && board[y][x] !== null) {
         const tile = board[y][x]!;
         const letter = tile.letter === ' ' ? (tile.blankLetter || '?') : tile.letter;
         positions.push({ x, y });
@@ -362,14 +431,18 @@ export function getSwapSuggestion(rack: Tile[]): number[] {
  * @param board Current board state
  * @param rack Player's current tiles
  * @param trie Dictionary trie for word validation
+ * @param options Blank alphabet and minimum word length of the game
  * @returns HintSolution if found, null if no valid words exist
  */
 export function findFirstValidWord(
     board: (Tile | null)[][],
     rack: Tile[],
-    trie: Trie
+    trie: Trie,
+    options: HintSearchOptions = {}
 ): HintSolution | null {
     const accessible = getAccessiblePositions(board);
+    const alphabet = options.alphabet ?? BLANK_LETTERS;
+    const minWordLength = options.minWordLength ?? DEFAULT_MIN_WORD_LENGTH;
 
     // Separate regular tiles from blanks - check regular tiles FIRST for efficiency
     const regularTileIndices: number[] = [];
@@ -401,7 +474,7 @@ export function findFirstValidWord(
                     direction.dy
                 );
 
-                if (word.length >= 3 && !word.includes('?') && trie.hasWord(word)) {
+                if (positions.length >= minWordLength && !word.includes('?') && trie.hasWord(word)) {
                     return {
                         tileIndex,
                         column,
@@ -421,7 +494,7 @@ export function findFirstValidWord(
     for (const { column } of accessible) {
         for (const direction of ALL_DIRECTIONS) {
             for (const tileIndex of blankTileIndices) {
-                const result = tryBlankTile(board, column, direction, trie);
+                const result = tryBlankTile(board, column, direction, trie, alphabet, minWordLength);
                 if (result) {
                     return {
                         tileIndex,
@@ -440,7 +513,7 @@ export function findFirstValidWord(
     }
 
     // PASS 3: Try depth-2 search (2 tiles) if no single-tile solution found
-    const depth2Result = findFirstValidWordDepth2(board, rack, trie);
+    const depth2Result = findFirstValidWordDepth2(board, rack, trie, minWordLength);
     if (depth2Result) {
         return depth2Result;
     }
@@ -455,7 +528,8 @@ export function findFirstValidWord(
 function findFirstValidWordDepth2(
     board: (Tile | null)[][],
     rack: Tile[],
-    trie: Trie
+    trie: Trie,
+    minWordLength: number
 ): HintSolution | null {
     const accessible = getAccessiblePositions(board);
     if (accessible.length === 0 || rack.length < 2) return null;
@@ -490,7 +564,7 @@ function findFirstValidWordDepth2(
                             board2, col1, landing1,
                             direction.dx, direction.dy
                         );
-                        if (result1.word.length >= 3 &&
+                        if (result1.positions.length >= minWordLength &&
                             !result1.word.includes('?') &&
                             trie.hasWord(result1.word)) {
                             return {
@@ -510,7 +584,7 @@ function findFirstValidWordDepth2(
                             board2, col2, landing2,
                             direction.dx, direction.dy
                         );
-                        if (result2.word.length >= 3 &&
+                        if (result2.positions.length >= minWordLength &&
                             !result2.word.includes('?') &&
                             trie.hasWord(result2.word)) {
                             return {
@@ -534,21 +608,22 @@ function findFirstValidWordDepth2(
 }
 
 /**
- * Try placing a blank tile with each letter A-Z
+ * Try placing a blank tile with each letter of the alphabet
  * Early-exit: stops at first valid word found
  */
 function tryBlankTile(
     board: (Tile | null)[][],
     column: number,
     direction: Direction,
-    trie: Trie
+    trie: Trie,
+    alphabet: string[],
+    minWordLength: number
 ): { word: string; positions: Position[]; blankLetter: string } | null {
     const landingRow = getLandingRow(board, column);
     if (landingRow < 0) return null;
 
-    // Try each letter A-Z
-    for (let charCode = 65; charCode <= 90; charCode++) {
-        const letter = String.fromCharCode(charCode);
+    // Try each letter of the alphabet
+    for (const letter of alphabet) {
         const blankTile: Tile = {
             letter: ' ',
             points: 0,
@@ -565,7 +640,7 @@ function tryBlankTile(
             direction.dy
         );
 
-        if (word.length >= 3 && !word.includes('?') && trie.hasWord(word)) {
+        if (positions.length >= minWordLength && !word.includes('?') && trie.hasWord(word)) {
             // EARLY EXIT - found valid word with this letter!
             return { word, positions, blankLetter: letter };
         }
@@ -574,6 +649,267 @@ function tryBlankTile(
     return null;
 }
 
+// ============================================================================
+// BEST-MOVE GENERATOR (Exhaustive with budget)
+// ============================================================================
+
+/**
+ * Axes a word can run along (each is read in both directions)
+ */
+const WORD_AXES: Array<{ dx: number; dy: number }> = [
+    { dx: 1, dy: 0 },
+    { dx: 0, dy: 1 },
+    { dx: 1, dy: 1 },
+    { dx: 1, dy: -1 }
+];
+
+/**
+ * Letter shown by a board tile ('?' for an unassigned blank)
+ */
+function getTileLetter(tile: Tile): string {
+    return tile.letter === ' ' ? (tile.blankLetter || '?') : tile.letter;
+}
+
+/**
+ * Find every dictionary word on the board that runs through at least one new tile
+ * Words are any straight segment of 3+ tiles, read in either direction
+ */
+function findWordsThroughTiles(
+    board: (Tile | null)[][],
+    newTiles: Position[],
+    trie: Trie,
+    claimedWords: ClaimedWord[],
+    minWordLength: number
+): Array<{ word: string; positions: Position[] }> {
+    const isNew = (pos: Position) => newTiles.some(p => p.x === pos.x && p.y === pos.y);
+    const found = new Map<string, { word: string; positions: Position[] }>();
+
+    for (const start of newTiles) {
+        for (const { dx, dy } of WORD_AXES) {
+            // Collect the full run of tiles along this axis
+            let x = start.x;
+            let y = start.y;
+            while (isValidPosition(board, x - dx, y - dy) && board[y - dy][x - dx] !== null) {
+                x -= dx;
+                y -= dy;
+            }
+            const run: Position[] = [];
+            while (isValidPosition(board, x, y) && board[y][x] !== null) {
+                run.push({ x, y });
+                x += dx;
+                y += dy;
+            }
+
+            const letters = run.map(pos => getTileLetter(board[pos.y][pos.x]!));
+
+            // Every segment containing a new tile, read forwards and backwards
+            for (let i = 0; i < run.length; i++) {
+                for (let j = i + minWordLength - 1; j < run.length; j++) {
+                    const segment = run.slice(i, j + 1);
+                    if (!segment.some(isNew)) continue;
+
+                    // Reverse whole tiles, not characters, so multi-letter tiles (CH, LL) stay intact
+                    const segmentLetters = letters.slice(i, j + 1);
+                    const forward = segmentLetters.join('').toUpperCase();
+                    if (forward.includes('?')) continue;
+
+                    const readings = [
+                        { word: forward, positions: segment },
+                        { word: [...segmentLetters].reverse().join('').toUpperCase(), positions: [...segment].reverse() }
+                    ];
+                    for (const reading of readings) {
+                        const key = reading.positions.map(p => `${p.x},${p.y}`).join('|');
+                        if (found.has(key) || !trie.hasWord(reading.word)) continue;
+
+                        // Same rule as GrabbleEngine.validateWordClaim
+                        const alreadyClaimed = claimedWords.some(cw =>
+                            cw.word.toUpperCase() === reading.word &&
+                            cw.positions.some(cwPos => reading.positions.some(p => p.x === cwPos.x && p.y === cwPos.y))
+                        );
+                        if (!alreadyClaimed) {
+                            found.set(key, reading);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    return Array.from(found.values());
+}
+
+/**
+ * Find the highest scoring moves for a rack
+ * Enumerates every drop sequence (any number of rack tiles, every blank letter),
+ * claims all valid words through the new tiles and scores them with
+ * GrabbleEngine.calculateWordScore. Smaller moves are searched first so a
+ * budget cut-off still returns the best moves found so far.
+ *
+ * @param board Current board state
+ * @param rack Player's current tiles
+ * @param trie Dictionary trie for word lookups
+ * @param dictionary Dictionary set (needed for emordnilap scoring)
+ * @param options Search limits and rule inputs
+ */
+export async function findBestMoves(
+    board: (Tile | null)[][],
+    rack: Tile[],
+    trie: Trie,
+    dictionary: Set<string>,
+    options: MoveSearchOptions = {}
+): Promise<MoveSearchResult> {
+    const maxResults = options.maxResults ?? 10;
+    const maxTiles = Math.min(options.maxTiles ?? rack.length, rack.length);
+    const maxNodes = options.maxNodes ?? 20000;
+    const timeBudgetMs = options.timeBudgetMs ?? 500;
+    // Claimed words leave the board in a cascade, so none of the words on it are taken
+    const claimedWords = options.houseRules?.cascade ? [] : options.claimedWords ?? [];
+    const minWordLength = options.minWordLength ?? options.houseRules?.minWordLength ?? DEFAULT_MIN_WORD_LENGTH;
+    const alphabet = options.alphabet ?? BLANK_LETTERS;
+    const deadline = Date.now() + timeBudgetMs;
+
+    // One engine is reused for scoring; its board is swapped per candidate
+    const scoringState: GameState = {
+        board,
+        players: [],
+        currentPlayerId: 0,
+        tileBag: [],
+        claimedWords: [],
+        targetScore: 0,
+        gameStatus: 'playing',
+        houseRules: options.houseRules
+    };
+    const scoringEngine = new GrabbleEngine(scoringState);
+
+    const moves: ScoredMove[] = [];
+    let nodesVisited = 0;
+    let outOfBudget = false;
+
+    const evaluate = async (testBoard: (Tile | null)[][], placements: MovePlacement[]) => {
+        const newTiles = placements.map(p => p.position);
+        const words = findWordsThroughTiles(testBoard, newTiles, trie, claimedWords, minWordLength);
+
+        // Every placed tile must be part of at least one claimed word
+        const allTilesUsed = newTiles.every(tilePos =>
+            words.some(w => w.positions.some(p => p.x === tilePos.x && p.y === tilePos.y))
+        );
+        if (words.length === 0 || !allTilesUsed) return;
+
+        scoringState.board = testBoard;
+        const scoredWords: ScoredWord[] = [];
+        for (const { word, positions } of words) {
+            const { score, bonuses } = await scoringEngine.calculateWordScore(word, positions, dictionary);
+            scoredWords.push({ word, positions, score, bonuses });
+        }
+        scoredWords.sort((a, b) => b.score - a.score);
+
+        moves.push({
+            placements: placements.map(p => ({ ...p, position: { ...p.position } })),
+            words: scoredWords,
+            totalScore: scoredWords.reduce((sum, w) => sum + w.score, 0)
+        });
+
+        // Keep only the best candidates (ties prefer fewer tiles)
+        moves.sort((a, b) => b.totalScore - a.totalScore || a.placements.length - b.placements.length);
+        if (moves.length > maxResults) {
+            moves.length = maxResults;
+        }
+    };
+
+    // Depth-first drop sequences of exactly `depth` tiles
+    // Columns never decrease along a sequence, so each final board is generated once
+    const search = async (
+        currentBoard: (Tile | null)[][],
+        placements: MovePlacement[],
+        used: boolean[],
+        minColumn: number,
+        depth: number
+    ): Promise<void> => {
+        if (placements.length === depth) {
+            await evaluate(currentBoard, placements);
+            return;
+        }
+
+        for (let tileIndex = 0; tileIndex < rack.length; tileIndex++) {
+            if (used[tileIndex]) continue;
+            const tile = rack[tileIndex];
+
+            // Identical tiles are interchangeable: only use the first unused copy
+            const hasEarlierTwin = rack.some((other, i) =>
+                i < tileIndex && !used[i] && other.letter === tile.letter && other.points === tile.points
+            );
+            if (hasEarlierTwin) continue;
+
+            const letters = tile.letter === ' ' ? alphabet : [undefined];
+
+            for (let column = minColumn; column < (currentBoard[0]?.length || 0); column++) {
+                const row = getLandingRow(currentBoard, column);
+                if (row < 0) continue;
+
+                for (const blankLetter of letters) {
+                    if (nodesVisited >= maxNodes || Date.now() > deadline) {
+                        outOfBudget = true;
+                        return;
+                    }
+                    nodesVisited++;
+
+                    const placedTile: Tile = blankLetter ? { ...tile, blankLetter } : { ...tile };
+                    const nextBoard = simulatePlacement(currentBoard, column, placedTile);
+                    used[tileIndex] = true;
+                    placements.push({
+                        tileIndex,
+                        column,
+                        position: { x: column, y: row },
+                        ...(blankLetter && { blankLetter })
+                    });
+
+                    await search(nextBoard, placements, used, column, depth);
+
+                    placements.pop();
+                    used[tileIndex] = false;
+                    if (outOfBudget) return;
+                }
+            }
+        }
+    };
+
+    // Iterative deepening: all 1-tile moves, then 2-tile moves, ...
+    for (let depth = 1; depth <= maxTiles && !outOfBudget; depth++) {
+        await search(board, [], rack.map(() => false), 0, depth);
+    }
+
+    return { moves, nodesVisited, complete: !outOfBudget };
+}
+
+/**
+ * Turn a generated move of one or two tiles into a hint solution (for the hint ladder)
+ * The hinted word is the first word of the move
+ */
+export function moveToHintSolution(move: ScoredMove): HintSolution {
+    if (move.placements.length < 1 || move.placements.length > 2) {
+        throw new Error('Only moves of one or two tiles can be shown as hints');
+    }
+
+    const [word] = move.words;
+    const [first, second] = word.positions;
+    const dx = Math.sign(second.x - first.x);
+    const dy = Math.sign(second.y - first.y);
+    const blankLetters = move.placements.filter(p => p.blankLetter).map(p => p.blankLetter!);
+
+    return {
+        tileIndex: move.placements[0].tileIndex,
+        column: move.placements[0].column,
+        tileIndices: move.placements.map(p => p.tileIndex),
+        columns: move.placements.map(p => p.column),
+        depth: move.placements.length as 1 | 2,
+        word: word.word,
+        positions: word.positions,
+        direction: ALL_DIRECTIONS.find(d => d.dx === dx && d.dy === dy)!,
+        ...(blankLetters.length === 1 && { blankLetter: blankLetters[0] }),
+        ...(blankLetters.length > 1 && { blankLetters })
+    };
+}
+
 // ============================================================================
 // PROGRESSIVE HINT LEVELS
 // ============================================================================
@@ -13,15 +13,30 @@ import {
     update,
     remove,
     generateRoomCode,
-    dbPaths
+    dbPaths,
+    auth,
+    signInAnonymously,
+    onAuthStateChanged,
+    functions,
+    httpsCallable
 } from '../firebase';
-import type { GameState, Position } from '../types';
-import type { Room, RoomPlayer } from '../server-types';
-import { GameStateManager } from '../game-state-manager';
+import type { GameState, Position, HintUsage, Tile, HouseRules, TimeControl, PlayerAction } from '../types';
+import { DEFAULT_BOARD_WIDTH, DEFAULT_HOUSE_RULES } from '../types';
+import type { Room, RoomPlayer, RoomSpectator } from '../server-types';
+import { DEFAULT_LANGUAGE } from '../language-packs';
+import { resolveHouseRules } from '../house-rules';
+import { mergePrivateState } from '../state-visibility';
+import { toArray, fromFirebaseState } from '../firebase-data';
 
 // Player colors for assignment
 const PLAYER_COLORS = ['#e74c3c', '#3498db', '#2ecc71', '#9b59b6'];
 
+// Cloud Functions (functions/) - the only code that changes a room's game
+const dealGameFn = httpsCallable<{ roomCode: string }>(functions, 'dealGame');
+const reopenRoomFn = httpsCallable<{ roomCode: string }>(functions, 'reopenRoom');
+const playActionsFn = httpsCallable<{ roomCode: string; actions: PlayerAction[] }>(functions, 'playActions');
+const resumeGameFn = httpsCallable<{ roomCode: string; targetScore: number }>(functions, 'resumeGame');
+
 interface UseGameSyncReturn {
     // Connection state
     connected: boolean;
@@ -30,6 +45,7 @@ interface UseGameSyncReturn {
     roomCode: string | null;
     room: Room | null;
     isHost: boolean;
+    isSpectator: boolean;
     playerId: string | null;
 
     // Game state
@@ -47,24 +63,24 @@ interface UseGameSyncReturn {
     clearNewGameDeclined: () => void;
 
     // Room actions
-    createRoom: (playerName: string, targetScore?: number, hintsEnabled?: boolean, uid?: string, photoURL?: string) => void;
+    createRoom: (playerName: string, targetScore?: number, hintsEnabled?: boolean, boardSize?: number, uid?: string, photoURL?: string, language?: string, houseRules?: HouseRules, timeControl?: TimeControl, challengeMode?: boolean) => void;
     joinRoom: (roomCode: string, playerName: string, uid?: string, photoURL?: string) => void;
+    spectateRoom: (roomCode: string, spectatorName: string, uid?: string, photoURL?: string) => void;
     leaveRoom: (uid?: string) => void;
     setReady: (ready: boolean) => void;
     startGame: () => void;
 
-    // Game actions (these operate locally, sync on submit)
-    placeTiles: (placements: Array<{ column: number; tileIndex: number }>) => void;
-    claimWords: (claims: Array<{ positions: Position[] }>) => void;
-    swapTiles: (tileIndices: number[]) => void;
-    endTurn: () => void;
+    // Game actions (a turn is played locally, then sent with playActions)
+    playActions: (actions: PlayerAction[]) => Promise<void>;
+    resumeGame: (targetScore: number) => Promise<void>;
     removeTile: (column: number, row: number) => void;
     setBlankLetter: (x: number, y: number, letter: string) => void;
+    recordHintUsage: (usage: HintUsage) => void;
     requestNewGame: () => void;
     respondNewGame: (accepted: boolean) => void;
 
-    // Full game state sync (for batch update mode)
-    syncGameState: (newState: GameState) => Promise<void>;
+    // Current time on the Firebase server (turn timers and chess clocks use it so clients agree)
+    getServerTime: () => number;
 
     // Active game (for rejoin)
     getActiveGame: (uid: string) => Promise<{ roomCode: string; playerId: string } | null>;
@@ -78,6 +94,7 @@ export function useGameSync(): UseGameSyncReturn {
     const [roomCode, setRoomCode] = useState<string | null>(null);
     const [room, setRoom] = useState<Room | null>(null);
     const [playerId, setPlayerId] = useState<string | null>(null);
+    const [isSpectator, setIsSpectator] = useState(false);
 
     // Game state
     const [gameState, setGameState] = useState<GameState | null>(null);
@@ -94,6 +111,14 @@ export function useGameSync(): UseGameSyncReturn {
     const unsubscribeRoomRef = useRef<(() => void) | null>(null);
     const unsubscribeGameRef = useRef<(() => void) | null>(null);
 
+    // Hidden state: the public game state is merged with my rack
+    const publicStateRef = useRef<GameState | null>(null);
+    const mySeatRef = useRef<number | null>(null);
+    const myRackRef = useRef<Tile[]>([]);
+
+    // Difference between the Firebase server clock and ours
+    const serverTimeOffsetRef = useRef(0);
+
     // Generate a unique player ID on mount
     useEffect(() => {
         const id = `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -108,6 +133,26 @@ export function useGameSync(): UseGameSyncReturn {
         };
     }, []);
 
+    // Every client needs an auth session so database rules can keep racks private
+    useEffect(() => {
+        const unsubscribe = onAuthStateChanged(auth, (user) => {
+            if (!user) {
+                signInAnonymously(auth).catch(err => console.error('❌ Anonymous sign-in failed:', err));
+            }
+        });
+        return () => unsubscribe();
+    }, []);
+
+    // Track the server clock offset so every client times turns the same way
+    useEffect(() => {
+        const unsubscribe = onValue(ref(database, '.info/serverTimeOffset'), (snapshot) => {
+            serverTimeOffsetRef.current = snapshot.val() || 0;
+        });
+        return () => unsubscribe();
+    }, []);
+
+    const getServerTime = useCallback(() => Date.now() + serverTimeOffsetRef.current, []);
+
     // Computed values - use hostId rather than array order (Firebase objects don't preserve order)
     const isHost = room?.hostId === playerId;
 
@@ -126,98 +171,96 @@ export function useGameSync(): UseGameSyncReturn {
             if (data) {
                 // Convert players object to array if needed
                 const players = data.players ? Object.values(data.players) as RoomPlayer[] : [];
+                const spectators = data.spectators ? Object.values(data.spectators) as RoomSpectator[] : [];
                 setRoom({
                     code: data.code || code,
                     players,
+                    spectators,
                     hostId: data.hostId || players[0]?.id,
                     status: data.status || 'waiting',
                     gameState: data.gameState || null,
                     createdAt: data.createdAt ? new Date(data.createdAt) : new Date(),
                     maxPlayers: data.maxPlayers || 4,
                     targetScore: data.targetScore || 100,
-                    hintsEnabled: data.hintsEnabled ?? true
+                    hintsEnabled: data.hintsEnabled ?? true,
+                    boardSize: data.boardSize || DEFAULT_BOARD_WIDTH,
+                    language: data.language || DEFAULT_LANGUAGE,
+                    houseRules: resolveHouseRules(data.houseRules),
+                    ...(data.timeControl && { timeControl: data.timeControl }),
+                    ...(data.challengeMode && { challengeMode: true })
                 });
             } else {
                 // Room was deleted
                 setRoom(null);
                 setRoomCode(null);
+                setIsSpectator(false);
             }
         });
 
         unsubscribeRoomRef.current = unsubscribe;
     }, []);
 
+    // Combine the public state with what this client may see
+    const publishView = useCallback(() => {
+        const publicState = publicStateRef.current;
+        if (!publicState) return;
+
+        const seat = mySeatRef.current;
+        setGameState(seat === null
+            ? publicState
+            : mergePrivateState(publicState, seat, myRackRef.current));
+    }, []);
+
     // Subscribe to game state updates
     const subscribeToGame = useCallback((code: string) => {
         if (unsubscribeGameRef.current) unsubscribeGameRef.current();
 
         const gameRef = ref(database, dbPaths.roomGameState(code));
-        const unsubscribe = onValue(gameRef, (snapshot) => {
+        let unsubscribeState: (() => void) | null = null;
+        let unsubscribeRack: (() => void) | null = null;
+        let cancelled = false;
+
+        const subscribeToState = () => onValue(gameRef, (snapshot) => {
             const data = snapshot.val();
             console.log('📥 Raw Firebase data:', data);
 
             if (data) {
-                // Firebase converts arrays to objects - convert them back
-                const convertedState = { ...data };
-
-                // Convert board back to 2D array (7 rows x 7 cols)
-                // Firebase may not store null/empty values, so we need to create explicit structure
-                if (data.board) {
-                    // Create a proper 7x7 board with nulls for empty cells
-                    convertedState.board = [];
-                    for (let row = 0; row < 7; row++) {
-                        const rowData = data.board[row];
-                        const convertedRow = [];
-                        for (let col = 0; col < 7; col++) {
-                            const cell = rowData && rowData[col] ? rowData[col] : null;
-                            convertedRow.push(cell);
-                        }
-                        convertedState.board.push(convertedRow);
-                    }
-                } else {
-                    // Create empty board if not present
-                    convertedState.board = Array(7).fill(null).map(() => Array(7).fill(null));
-                }
-
-                // Convert players array and their racks
-                if (data.players) {
-                    const playersArr = Array.isArray(data.players)
-                        ? data.players
-                        : Object.values(data.players);
-                    convertedState.players = playersArr.map((player: any) => ({
-                        ...player,
-                        rack: player.rack
-                            ? (Array.isArray(player.rack) ? player.rack : Object.values(player.rack))
-                            : []
-                    }));
-                }
-
-                // Convert tileBag
-                if (data.tileBag) {
-                    convertedState.tileBag = Array.isArray(data.tileBag)
-                        ? data.tileBag
-                        : Object.values(data.tileBag);
-                }
-
-                // Convert claimedWords
-                if (data.claimedWords) {
-                    convertedState.claimedWords = Array.isArray(data.claimedWords)
-                        ? data.claimedWords
-                        : Object.values(data.claimedWords);
-                } else {
-                    convertedState.claimedWords = [];
-                }
-
+                const convertedState = fromFirebaseState(data);
                 console.log('📥 Converted game state:', convertedState);
-                console.log('📥 Board is array?', Array.isArray(convertedState.board), 'length:', convertedState.board?.length);
-                setGameState(convertedState as GameState);
+                publicStateRef.current = convertedState;
                 // Clear tiles placed this turn when turn changes
                 setTilesPlacedThisTurn([]);
+                publishView();
+            } else if (publicStateRef.current) {
+                // The host sent the room back to the lobby for a new game
+                publicStateRef.current = null;
+                setGameState(null);
             }
         });
 
-        unsubscribeGameRef.current = unsubscribe;
-    }, []);
+        // Find my seat first so my private rack can be followed alongside the public state
+        get(ref(database, dbPaths.roomSeats(code))).then((seatsSnapshot) => {
+            if (cancelled) return;
+            const seats: Record<string, string> = seatsSnapshot.val() || {};
+            const mySeat = Object.keys(seats).find(seat => seats[seat] === auth.currentUser?.uid);
+            mySeatRef.current = mySeat !== undefined ? Number(mySeat) : null;
+            myRackRef.current = [];
+
+            if (mySeatRef.current !== null) {
+                unsubscribeRack = onValue(ref(database, dbPaths.roomRack(code, mySeatRef.current)), (rackSnapshot) => {
+                    myRackRef.current = toArray<Tile>(rackSnapshot.val());
+                    publishView();
+                });
+            }
+            unsubscribeState = subscribeToState();
+        }).catch(err => console.error('❌ Failed to load seats:', err));
+
+        unsubscribeGameRef.current = () => {
+            cancelled = true;
+            if (unsubscribeState) unsubscribeState();
+            if (unsubscribeRack) unsubscribeRack();
+        };
+    }, [publishView]);
 
     // Active game tracking helpers (for rejoin functionality)
     const setActiveGame = useCallback(async (code: string, uid?: string) => {
@@ -267,7 +310,7 @@ export function useGameSync(): UseGameSyncReturn {
     }, []);
 
     // Room actions
-    const createRoom = useCallback(async (playerName: string, targetScore = 100, hintsEnabled = true, uid?: string, photoURL?: string) => {
+    const createRoom = useCallback(async (playerName: string, targetScore = 100, hintsEnabled = true, boardSize = DEFAULT_BOARD_WIDTH, uid?: string, photoURL?: string, language = DEFAULT_LANGUAGE, houseRules: HouseRules = DEFAULT_HOUSE_RULES, timeControl?: TimeControl, challengeMode = false) => {
         if (!playerId) return;
 
         try {
@@ -278,6 +321,7 @@ export function useGameSync(): UseGameSyncReturn {
                 isReady: false,
                 isHost: true,
                 color: PLAYER_COLORS[0],
+                ...(auth.currentUser && { authUid: auth.currentUser.uid }),
                 ...(uid && { uid }),
                 ...(photoURL && { photoURL })
             };
@@ -289,6 +333,11 @@ export function useGameSync(): UseGameSyncReturn {
                 maxPlayers: 4,
                 targetScore,
                 hintsEnabled,
+                boardSize,
+                language,
+                houseRules,
+                ...(timeControl && { timeControl }),
+                ...(challengeMode && { challengeMode }),
                 players: { [playerId]: player },
                 createdAt: Date.now()
             };
@@ -332,6 +381,7 @@ export function useGameSync(): UseGameSyncReturn {
                 isReady: false,
                 isHost: false,
                 color: PLAYER_COLORS[players.length],
+                ...(auth.currentUser && { authUid: auth.currentUser.uid }),
                 ...(uid && { uid }),
                 ...(photoURL && { photoURL })
             };
@@ -348,18 +398,56 @@ export function useGameSync(): UseGameSyncReturn {
         }
     }, [playerId, subscribeToRoom, setActiveGame]);
 
+    // Watch a room without taking a seat - works for full rooms and games in progress
+    const spectateRoom = useCallback(async (code: string, spectatorName: string, uid?: string, photoURL?: string) => {
+        if (!playerId) return;
+
+        try {
+            const upperCode = code.toUpperCase();
+            const snapshot = await get(ref(database, dbPaths.room(upperCode)));
+
+            if (!snapshot.exists()) {
+                setError('Room not found');
+                return;
+            }
+
+            const spectator: RoomSpectator = {
+                id: playerId,
+                name: spectatorName,
+                ...(auth.currentUser && { authUid: auth.currentUser.uid }),
+                ...(uid && { uid }),
+                ...(photoURL && { photoURL })
+            };
+
+            await set(ref(database, dbPaths.roomSpectator(upperCode, playerId)), spectator);
+            setIsSpectator(true);
+            setRoomCode(upperCode);
+            subscribeToRoom(upperCode);
+            console.log('👀 Watching room:', upperCode);
+        } catch (err) {
+            setError('Failed to join room');
+            console.error(err);
+        }
+    }, [playerId, subscribeToRoom]);
+
     const leaveRoom = useCallback(async (uid?: string) => {
         if (!roomCode || !playerId) return;
 
         try {
-            // Remove player from room
-            await remove(ref(database, dbPaths.roomPlayer(roomCode, playerId)));
-
-            // Check if room is empty and delete it
-            const roomRef = ref(database, dbPaths.roomPlayers(roomCode));
-            const snapshot = await get(roomRef);
-            if (!snapshot.exists() || Object.keys(snapshot.val() || {}).length === 0) {
-                await remove(ref(database, dbPaths.room(roomCode)));
+            if (isSpectator) {
+                // Spectators never hold the room open, so there is nothing else to clean up
+                await remove(ref(database, dbPaths.roomSpectator(roomCode, playerId)));
+            } else {
+                // Remove player from room
+                await remove(ref(database, dbPaths.roomPlayer(roomCode, playerId)));
+
+                // Check if room is empty and delete it
+                const roomRef = ref(database, dbPaths.roomPlayers(roomCode));
+                const snapshot = await get(roomRef);
+                if (!snapshot.exists() || Object.keys(snapshot.val() || {}).length === 0) {
+                    // The hidden game data goes with it (see cleanUpRoomSecrets in functions/)
+                    await remove(ref(database, dbPaths.room(roomCode)));
+                }
             }
 
             // Cleanup subscriptions
@@ -368,6 +456,7 @@ export function useGameSync(): UseGameSyncReturn {
 
             setRoom(null);
             setRoomCode(null);
+            setIsSpectator(false);
             setGameState(null);
             // Clear active game reference
             await clearActiveGame(uid);
@@ -376,7 +465,7 @@ export function useGameSync(): UseGameSyncReturn {
             setError('Failed to leave room');
             console.error(err);
         }
-    }, [roomCode, playerId, clearActiveGame]);
+    }, [roomCode, playerId, isSpectator, clearActiveGame]);
 
     const setReady = useCallback(async (ready: boolean) => {
         if (!roomCode || !playerId) return;
@@ -402,28 +491,12 @@ export function useGameSync(): UseGameSyncReturn {
         }
 
         try {
-            // Get player names from room
-            const playerNames = room.players.map((p: RoomPlayer) => p.name);
-            console.log('👥 Creating game for players:', playerNames);
-
-            // Create game state using GameStateManager
-            const gameManager = GameStateManager.createNewGame(
-                room.players.length,
-                playerNames,
-                room.targetScore || 100
-            );
-
-            const initialState = gameManager.getState();
-
-            // Update player colors to match room
-            initialState.players = initialState.players.map((p, idx) => ({
-                ...p,
-                color: room.players[idx]?.color || PLAYER_COLORS[idx]
-            }));
-
-            // Save game state and update room status to 'playing'
-            await set(ref(database, dbPaths.roomGameState(roomCode)), initialState);
-            await update(ref(database, dbPaths.room(roomCode)), { status: 'playing' });
+            // A new game in a room that has played one starts from the lobby again
+            if (room.status !== 'waiting') {
+                await reopenRoomFn({ roomCode });
+            }
+            // The deal happens in a Cloud Function, so no client ever sees the bag
+            await dealGameFn({ roomCode });
 
             subscribeToGame(roomCode);
             console.log('🎮 Game started in room:', roomCode);
@@ -433,35 +506,20 @@ export function useGameSync(): UseGameSyncReturn {
         }
     }, [roomCode, room, isHost, playerId, subscribeToGame]);
 
-    // Game actions - these work with the batch update system
-    // The actual game logic happens locally in App.tsx via localMultiplayerEngine
-    // These are called when submitting the turn to sync to Firebase
-
-    const placeTiles = useCallback(async (placements: Array<{ column: number; tileIndex: number }>) => {
-        // In batch mode, tiles are placed locally first
-        // This is called during submit to sync final state
-        console.log('📤 Firebase: placeTiles called (batch mode)', placements);
-    }, []);
-
-    const claimWords = useCallback(async (claims: Array<{ positions: Position[] }>) => {
-        if (!roomCode || !gameState || !playerId) return;
-
-        // In batch mode, the full game state is synced after local validation
-        // For now, we'll sync the complete game state
-        console.log('📤 Firebase: claimWords called', claims);
-
-        // The actual sync happens via syncGameState below
-    }, [roomCode, gameState, playerId]);
-
-    const swapTiles = useCallback(async (tileIndices: number[]) => {
-        console.log('📤 Firebase: swapTiles called', tileIndices);
-        // TODO: Implement swap via Firebase
-    }, []);
+    // Game actions - a turn is played locally in App.tsx on localMultiplayerEngine,
+    // then every move runs in a Cloud Function, which checks it against the hidden racks and bag
+    // Rejected moves throw, so the caller can show why
+    const playActions = useCallback(async (actions: PlayerAction[]) => {
+        if (!roomCode) return;
+        console.log('📤 Firebase: playing', actions.map(a => a.type).join(', '));
+        await playActionsFn({ roomCode, actions });
+    }, [roomCode]);
 
-    const endTurn = useCallback(async () => {
-        console.log('📤 Firebase: endTurn called');
-        // Pass turn is handled by syncing game state with updated currentPlayerId
-    }, []);
+    // Keep playing a game won on score, to a higher target
+    const resumeGame = useCallback(async (targetScore: number) => {
+        if (!roomCode) return;
+        await resumeGameFn({ roomCode, targetScore });
+    }, [roomCode]);
 
     const removeTile = useCallback(async (column: number, row: number) => {
         // In batch mode, removals happen locally
@@ -470,9 +528,23 @@ export function useGameSync(): UseGameSyncReturn {
 
     const setBlankLetter = useCallback(async (x: number, y: number, letter: string) => {
         console.log('📤 Firebase: setBlankLetter called', { x, y, letter });
-        // Blank letter is set locally, synced with full state on submit
+        // Blank letter is set locally and sent with the turn on submit
     }, []);
 
+    // Hint usage is written immediately so the cooldown survives reloads
+    const recordHintUsage = useCallback(async (usage: HintUsage) => {
+        if (!roomCode) return;
+
+        try {
+            await update(ref(database, dbPaths.roomGameState(roomCode)), {
+                hintUsage: usage,
+                [`lastHintAt/${usage.playerId}`]: usage.timestamp
+            });
+        } catch (err) {
+            console.error('❌ Failed to record hint usage:', err);
+        }
+    }, [roomCode]);
+
     const requestNewGame = useCallback(async () => {
         if (!roomCode || !playerId || !room) return;
 
@@ -494,23 +566,6 @@ export function useGameSync(): UseGameSyncReturn {
         await remove(ref(database, `${dbPaths.room(roomCode)}/newGameRequest`));
     }, [roomCode, startGame]);
 
-    // Sync complete game state to Firebase (for batch update mode)
-    const syncGameState = useCallback(async (newState: GameState) => {
-        if (!roomCode) {
-            console.error('❌ Cannot sync: no roomCode');
-            return;
-        }
-
-        try {
-            console.log('📤 Syncing game state to Firebase...', newState);
-            await set(ref(database, dbPaths.roomGameState(roomCode)), newState);
-            console.log('✅ Game state synced to Firebase');
-        } catch (err) {
-            console.error('❌ Failed to sync game state:', err);
-            setError('Failed to sync game state');
-        }
-    }, [roomCode]);
-
     // Subscribe to game when room has game state
     useEffect(() => {
         if (roomCode && room) {
@@ -529,6 +584,7 @@ export function useGameSync(): UseGameSyncReturn {
         roomCode,
         room,
         isHost,
+        isSpectator,
         playerId,
         gameState,
         tilesPlacedThisTurn,
@@ -540,18 +596,18 @@ export function useGameSync(): UseGameSyncReturn {
         clearNewGameDeclined,
         createRoom,
         joinRoom,
+        spectateRoom,
         leaveRoom,
         setReady,
         startGame,
-        placeTiles,
-        claimWords,
-        swapTiles,
-        endTurn,
+        playActions,
+        resumeGame,
         removeTile,
         setBlankLetter,
+        recordHintUsage,
         requestNewGame,
         respondNewGame,
-        syncGameState,
+        getServerTime,
         // Active game (for rejoin)
         getActiveGame
     };
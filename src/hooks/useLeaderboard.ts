@@ -0,0 +1,67 @@
+/**
+ * useLeaderboard Hook
+ * Solo leaderboards for the signed-in player, on Firebase or (with
+ * REACT_APP_LEADERBOARD_BACKEND=memory) an in-memory stand-in for development
+ */
+
+import { useMemo, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Leaderboard, InMemoryLeaderboardBackend } from '../leaderboard';
+import type { LeaderboardKind, LeaderboardEntry } from '../leaderboard';
+import { FirebaseLeaderboardBackend } from '../firebase-leaderboard';
+import { UI_MESSAGES } from '../constants/messages';
+
+const USE_MEMORY_BACKEND = process.env.REACT_APP_LEADERBOARD_BACKEND === 'memory';
+
+// One leaderboard for the whole app, so the in-memory boards survive screen changes
+const leaderboard = new Leaderboard(USE_MEMORY_BACKEND ? new InMemoryLeaderboardBackend() : new FirebaseLeaderboardBackend());
+
+// Without Firebase nobody needs to sign in; everyone on this page plays as one guest
+const LOCAL_GUEST_ID = 'local-guest';
+
+export const useLeaderboard = () => {
+    const { user } = useAuth();
+
+    // Who scores are submitted as (null: signed out, scores stay off the leaderboards)
+    const player = useMemo(() => {
+        if (user) return { id: user.uid, name: user.displayName || UI_MESSAGES.leaderboard.anonymous };
+        return USE_MEMORY_BACKEND ? { id: LOCAL_GUEST_ID, name: UI_MESSAGES.leaderboard.guest } : null;
+    }, [user]);
+
+    // Record a finished solo game
+    const submitScore = useCallback(async (score: number): Promise<void> => {
+        if (!player) return;
+        try {
+            await leaderboard.submitScore(player.id, player.name, score);
+        } catch (error) {
+            console.error('Failed to submit leaderboard score:', error);
+        }
+    }, [player]);
+
+    const getRanking = useCallback((kind: LeaderboardKind): Promise<LeaderboardEntry[]> =>
+        leaderboard.getRanking(kind, player?.id), [player]);
+
+    const getFriends = useCallback(async (): Promise<string[]> =>
+        player ? leaderboard.getFriends(player.id) : [], [player]);
+
+    const addFriend = useCallback(async (friendCode: string): Promise<void> => {
+        if (!player) return;
+        await leaderboard.addFriend(player.id, friendCode);
+    }, [player]);
+
+    const removeFriend = useCallback(async (friendCode: string): Promise<void> => {
+        if (!player) return;
+        await leaderboard.removeFriend(player.id, friendCode);
+    }, [player]);
+
+    return {
+        player,
+        submitScore,
+        getRanking,
+        getFriends,
+        addFriend,
+        removeFriend,
+    };
+};
+
+export default useLeaderboard;
@@ -0,0 +1,68 @@
+/**
+ * usePlayerStats Hook
+ * Loads the signed-in user's lifetime statistics from Firebase
+ * and adds each finished game to them
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { database, ref, get, set, dbPaths } from '../firebase';
+import { useAuth } from '../contexts/AuthContext';
+import type { GameState } from '../types';
+import type { PlayerStats, StatsMode } from '../player-stats';
+import { resolvePlayerStats, summarizeGame, addGameToStats } from '../player-stats';
+
+export const usePlayerStats = () => {
+    const { user } = useAuth();
+    const [stats, setStats] = useState<PlayerStats | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    // Load stats whenever the signed-in user changes
+    useEffect(() => {
+        if (!user) {
+            setStats(null);
+            return;
+        }
+
+        let cancelled = false;
+        const loadStats = async () => {
+            setLoading(true);
+            try {
+                const snapshot = await get(ref(database, dbPaths.userStats(user.uid)));
+                if (!cancelled) setStats(resolvePlayerStats(snapshot.exists() ? snapshot.val() : null));
+            } catch (error) {
+                console.error('Failed to load player stats:', error);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        loadStats();
+        return () => { cancelled = true; };
+    }, [user]);
+
+    // Add a finished game to the signed-in user's stats (no-op when signed out)
+    const recordGame = useCallback(async (state: GameState, playerId: number, mode: StatsMode): Promise<void> => {
+        if (!user) return;
+
+        try {
+            // Read the stored stats again so another tab's games aren't lost
+            const statsRef = ref(database, dbPaths.userStats(user.uid));
+            const snapshot = await get(statsRef);
+            const current = resolvePlayerStats(snapshot.exists() ? snapshot.val() : null);
+            const next = addGameToStats(current, summarizeGame(state, playerId, mode));
+            await set(statsRef, next);
+            setStats(next);
+            console.log('📊 Game added to player stats');
+        } catch (error) {
+            console.error('Failed to update player stats:', error);
+        }
+    }, [user]);
+
+    return {
+        stats,
+        loading,
+        recordGame,
+    };
+};
+
+export default usePlayerStats;
@@ -0,0 +1,38 @@
+/**
+ * useTurnSnapshots Hook
+ * Records the public game state each time the turn changes, so an online game
+ * (whose history stays on the server) can be replayed once it is over
+ */
+
+import { useRef, useEffect, useCallback } from 'react';
+import type { GameState } from '../types';
+import { isFreshGame } from '../player-stats';
+
+export const useTurnSnapshots = (state: GameState | null) => {
+    const snapshotsRef = useRef<GameState[]>([]);
+
+    useEffect(() => {
+        if (!state) return;
+
+        const snapshots = snapshotsRef.current;
+        const last = snapshots[snapshots.length - 1];
+        if (last && isFreshGame(state) && !isFreshGame(last)) {
+            snapshotsRef.current = [];
+        }
+
+        // Tiles dropped during a turn are synced too; only the position when the turn ends counts
+        const turnChanged = !last ||
+            last.currentPlayerId !== state.currentPlayerId ||
+            last.gameStatus !== state.gameStatus;
+        if (snapshotsRef.current.length === 0 || turnChanged) {
+            snapshotsRef.current = [...snapshotsRef.current, JSON.parse(JSON.stringify(state))];
+        }
+    }, [state]);
+
+    // Snapshots so far (the first is the position when this client joined)
+    const getSnapshots = useCallback((): GameState[] => snapshotsRef.current, []);
+
+    return { getSnapshots };
+};
+
+export default useTurnSnapshots;
@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * House rules - configurable word bonuses and minimum word length
+ */
+
+import type { BonusType, HouseRules } from './types';
+import { DEFAULT_HOUSE_RULES } from './types';
+
+export const BONUS_TYPES: BonusType[] = ['diagonal', 'palindrome', 'emordnilap'];
+
+/**
+ * Shortest word a house rule may allow (a word needs two tiles to have a direction)
+ */
+export const MIN_WORD_LENGTH_LIMIT = 2;
+
+/**
+ * Choices offered for each setting (rooms reject anything else)
+ */
+export const BONUS_MULTIPLIER_OPTIONS = [1.5, 2, 3];
+export const MIN_WORD_LENGTH_OPTIONS = [3, 4, 5]; // Dictionaries only hold words of 3+ letters
+
+/**
+ * Check untrusted rules (e.g. sent by a client) only use the offered choices
+ * Missing fields are allowed; resolveHouseRules fills them in
+ */
+export function isAllowedHouseRules(rules: unknown): rules is Partial<HouseRules> {
+    if (typeof rules !== 'object' || rules === null) {
+        return false;
+    }
+    const { bonuses, minWordLength, stackBonuses, cascade } = rules as Record<string, unknown>;
+
+    if (bonuses !== undefined) {
+        if (typeof bonuses !== 'object' || bonuses === null) {
+            return false;
+        }
+        for (const [type, bonus] of Object.entries(bonuses)) {
+            if (!BONUS_TYPES.includes(type as BonusType) || typeof bonus !== 'object' || bonus === null) {
+                return false;
+            }
+            const { enabled, multiplier } = bonus as Record<string, unknown>;
+            if ((enabled !== undefined && typeof enabled !== 'boolean') ||
+                (multiplier !== undefined && !BONUS_MULTIPLIER_OPTIONS.includes(multiplier as number))) {
+                return false;
+            }
+        }
+    }
+
+    return (minWordLength === undefined || MIN_WORD_LENGTH_OPTIONS.includes(minWordLength as number)) &&
+        (stackBonuses === undefined || typeof stackBonuses === 'boolean') &&
+        (cascade === undefined || typeof cascade === 'boolean');
+}
+
+/**
+ * Complete a possibly partial rules object with the defaults
+ * Legacy states have no rules, and Firebase drops empty or default-valued fields
+ */
+export function resolveHouseRules(rules?: Partial<HouseRules>): HouseRules {
+    const bonuses = {} as HouseRules['bonuses'];
+    for (const type of BONUS_TYPES) {
+        bonuses[type] = { ...DEFAULT_HOUSE_RULES.bonuses[type], ...rules?.bonuses?.[type] };
+    }
+
+    return {
+        bonuses,
+        minWordLength: Math.max(MIN_WORD_LENGTH_LIMIT, rules?.minWordLength ?? DEFAULT_HOUSE_RULES.minWordLength),
+        stackBonuses: rules?.stackBonuses ?? DEFAULT_HOUSE_RULES.stackBonuses,
+        cascade: rules?.cascade ?? DEFAULT_HOUSE_RULES.cascade
+    };
+}
+
+/**
+ * Score multiplier for a set of earned bonuses
+ * Stacked bonuses multiply together; otherwise only the largest counts
+ */
+export function getBonusMultiplier(earned: BonusType[], rules: HouseRules): number {
+    const multipliers = earned.map(type => rules.bonuses[type].multiplier);
+    if (multipliers.length === 0) {
+        return 1;
+    }
+    return rules.stackBonuses
+        ? multipliers.reduce((product, m) => product * m, 1)
+        : Math.max(...multipliers);
+}
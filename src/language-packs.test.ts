@@ -0,0 +1,80 @@
+/**
+ * Unit tests for language packs
+ * Tests multi-character tile parsing, dictionary loading, language-aware tile bags and palindromes
+ */
+
+import { GameStateManager } from './game-state-manager';
+import { applyAction } from './game-actions';
+import { getLanguagePack, tokenizeWord, normalizeWord, parseDictionary, DEFAULT_LANGUAGE } from './language-packs';
+
+const spanish = getLanguagePack('es');
+
+describe('Language packs', () => {
+    it('should fall back to English for unknown languages', () => {
+        expect(getLanguagePack().id).toBe(DEFAULT_LANGUAGE);
+        expect(getLanguagePack('xx').id).toBe('en');
+        expect(getLanguagePack('en').alphabet).toHaveLength(26);
+    });
+
+    it('should split words into multi-character tiles', () => {
+        expect(tokenizeWord('CHICO', spanish)).toEqual(['CH', 'I', 'C', 'O']);
+        expect(tokenizeWord('LLAVE', spanish)).toEqual(['LL', 'A', 'V', 'E']);
+        expect(tokenizeWord('AÑO', spanish)).toEqual(['A', 'Ñ', 'O']);
+        expect(tokenizeWord('KIWI', spanish)).toBeNull(); // No K or W tiles in Spanish
+    });
+
+    it('should strip accents except for letters with their own tile', () => {
+        expect(normalizeWord('canción', spanish)).toBe('CANCION');
+        expect(normalizeWord('niño', spanish)).toBe('NIÑO');
+        expect(normalizeWord('niño', getLanguagePack('en'))).toBe('NINO');
+    });
+
+    it('should parse dictionaries by tile count', () => {
+        const words = parseDictionary('# comment\nchal\nluz\ncalle\nwiki\nche\n', spanish);
+
+        // CHE is only two tiles (CH + E), WIKI can't be spelled
+        expect(Array.from(words).sort()).toEqual(['CALLE', 'CHAL', 'LUZ']);
+    });
+
+    it('should build the tile bag from the game language', () => {
+        const state = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 7, language: 'es' }).getState();
+        const tiles = [...state.tileBag, ...state.players.flatMap(p => p.rack)];
+
+        expect(state.language).toBe('es');
+        expect(tiles).toHaveLength(100);
+        expect(tiles.filter(t => t.letter === 'CH')).toHaveLength(1);
+        expect(tiles.some(t => t.letter === 'K')).toBe(false);
+    });
+
+    it('should only score palindromes whose tiles mirror each other', async () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 7, language: 'es' });
+        const engine = manager.getEngine();
+        const playerId = manager.getCurrentPlayer().id;
+        const row = (y: number, length: number) => Array.from({ length }, (_, x) => ({ x, y }));
+        ['RR', 'A', 'R', 'R'].forEach((letter, column) => engine.placeTiles([{ column, tile: { letter, points: 1 } }], playerId));
+        ['R', 'A', 'R'].forEach((letter, column) => engine.placeTiles([{ column, tile: { letter, points: 1 } }], playerId));
+
+        // RRARR reads the same both ways, but its tiles (RR, A, R, R) don't
+        const rrarr = await engine.calculateWordScore('RRARR', row(6, 4), new Set());
+        const rar = await engine.calculateWordScore('RAR', row(5, 3), new Set());
+
+        expect(rrarr.bonuses).not.toContain('palindrome');
+        expect(rar.bonuses).toContain('palindrome');
+    });
+
+    it('should only accept blank letters from the game alphabet', async () => {
+        const state = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 7, language: 'es' }).getState();
+        state.players[state.currentPlayerId].rack[0] = { letter: ' ', points: 0 };
+        const playerId = state.currentPlayerId;
+
+        const placed = await applyAction(state, { type: 'PlaceTiles', playerId, placements: [{ column: 0, tileIndex: 0 }] });
+        if (!placed.valid) throw new Error(placed.error);
+        const position = { x: 0, y: 6 };
+
+        const ll = await applyAction(placed.state, { type: 'SetBlank', playerId, position, letter: 'LL' });
+        const k = await applyAction(placed.state, { type: 'SetBlank', playerId, position, letter: 'K' });
+
+        expect(ll.valid).toBe(true);
+        expect(k.valid).toBe(false);
+    });
+});
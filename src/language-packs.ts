@@ -0,0 +1,127 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Language packs - letter distributions, alphabets and dictionaries per language
+ */
+
+import type { LanguagePack, LetterDistribution } from './types';
+import { STANDARD_SCRABBLE_DISTRIBUTION } from './types';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+/**
+ * Spanish Scrabble distribution (100 tiles, with CH, LL and RR tiles)
+ */
+export const SPANISH_SCRABBLE_DISTRIBUTION: LetterDistribution = {
+    'A': { count: 12, points: 1 },
+    'B': { count: 2, points: 3 },
+    'C': { count: 4, points: 3 },
+    'CH': { count: 1, points: 5 },
+    'D': { count: 5, points: 2 },
+    'E': { count: 12, points: 1 },
+    'F': { count: 1, points: 4 },
+    'G': { count: 2, points: 2 },
+    'H': { count: 2, points: 4 },
+    'I': { count: 6, points: 1 },
+    'J': { count: 1, points: 8 },
+    'L': { count: 4, points: 1 },
+    'LL': { count: 1, points: 8 },
+    'M': { count: 2, points: 3 },
+    'N': { count: 5, points: 1 },
+    'Ñ': { count: 1, points: 8 },
+    'O': { count: 9, points: 1 },
+    'P': { count: 2, points: 3 },
+    'Q': { count: 1, points: 5 },
+    'R': { count: 5, points: 1 },
+    'RR': { count: 1, points: 8 },
+    'S': { count: 6, points: 1 },
+    'T': { count: 4, points: 1 },
+    'U': { count: 5, points: 1 },
+    'V': { count: 1, points: 4 },
+    'X': { count: 1, points: 8 },
+    'Y': { count: 1, points: 4 },
+    'Z': { count: 1, points: 10 },
+    ' ': { count: 2, points: 0 }  // Blank tiles
+};
+
+/**
+ * Alphabet of a distribution (every tile letter except the blank)
+ */
+const alphabetOf = (distribution: LetterDistribution): string[] =>
+    Object.keys(distribution).filter(letter => letter !== ' ');
+
+export const LANGUAGE_PACKS: Record<string, LanguagePack> = {
+    en: {
+        id: 'en',
+        name: 'English',
+        alphabet: alphabetOf(STANDARD_SCRABBLE_DISTRIBUTION),
+        distribution: STANDARD_SCRABBLE_DISTRIBUTION,
+        dictionaryFile: 'dictionary.txt'
+    },
+    es: {
+        id: 'es',
+        name: 'Español',
+        alphabet: alphabetOf(SPANISH_SCRABBLE_DISTRIBUTION),
+        distribution: SPANISH_SCRABBLE_DISTRIBUTION,
+        dictionaryFile: 'dictionaries/es.txt'
+    }
+};
+
+/**
+ * Get a language pack by ID (English for unknown or missing IDs)
+ */
+export function getLanguagePack(id?: string): LanguagePack {
+    return (id && LANGUAGE_PACKS[id]) || LANGUAGE_PACKS[DEFAULT_LANGUAGE];
+}
+
+/**
+ * Uppercase a word and strip accents that aren't tiles of their own (CANCIÓN -> CANCION, but Ñ stays)
+ */
+export function normalizeWord(word: string, pack: LanguagePack): string {
+    let result = '';
+    for (const char of word.trim().toUpperCase()) {
+        result += pack.alphabet.includes(char)
+            ? char
+            : char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    }
+    return result;
+}
+
+/**
+ * Split a normalized word into tile letters, preferring multi-character tiles (CHICO -> CH, I, C, O)
+ * Returns null if the word can't be spelled with the pack's tiles
+ */
+export function tokenizeWord(word: string, pack: LanguagePack): string[] | null {
+    const letters = [...pack.alphabet].sort((a, b) => b.length - a.length);
+    const tokens: string[] = [];
+
+    for (let i = 0; i < word.length;) {
+        const rest = word.slice(i);
+        const letter = letters.find(l => rest.startsWith(l));
+        if (!letter) {
+            return null;
+        }
+        tokens.push(letter);
+        i += letter.length;
+    }
+    return tokens;
+}
+
+/**
+ * Parse a dictionary file into the words playable with a pack (3+ tiles)
+ * Lines starting with # are comments
+ */
+export function parseDictionary(text: string, pack: LanguagePack): Set<string> {
+    const words = new Set<string>();
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (trimmed.length === 0 || trimmed.startsWith('#')) continue;
+
+        const word = normalizeWord(trimmed, pack);
+        const tokens = tokenizeWord(word, pack);
+        if (tokens && tokens.length >= 3) {
+            words.add(word);
+        }
+    }
+    return words;
+}
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for solo leaderboards
+ * Tests the all-time, weekly and friends rankings on the in-memory backend
+ */
+
+import { Leaderboard, InMemoryLeaderboardBackend, getWeekId, isRankedGame, MAX_LEADERBOARD_NAME_LENGTH } from './leaderboard';
+import { GameStateManager } from './game-state-manager';
+import { GameOptions, DEFAULT_HOUSE_RULES } from './types';
+
+const MONDAY = Date.UTC(2024, 0, 8, 12);   // 2024-W02
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Leaderboard', () => {
+    it('should name ISO weeks in UTC', () => {
+        expect(getWeekId(MONDAY)).toBe('2024-W02');
+        expect(getWeekId(MONDAY + 6 * DAY)).toBe('2024-W02');
+        expect(getWeekId(MONDAY + 7 * DAY)).toBe('2024-W03');
+        // 2021-01-01 is a Friday, still in the last week of 2020
+        expect(getWeekId(Date.UTC(2021, 0, 1))).toBe('2020-W53');
+    });
+
+    it('should keep each player\'s best score on the all-time and weekly boards', async () => {
+        const leaderboard = new Leaderboard(new InMemoryLeaderboardBackend(), 2);
+        await leaderboard.submitScore('ann', 'Ann', 90, MONDAY - 7 * DAY);
+        await leaderboard.submitScore('ann', 'Ann', 40, MONDAY);
+        await leaderboard.submitScore('ben', 'Ben', 60, MONDAY + DAY);
+        await leaderboard.submitScore('cat', 'Cat', 50, MONDAY + 2 * DAY);
+        await leaderboard.submitScore('dan', 'Dan', 0, MONDAY);
+
+        const allTime = await leaderboard.getRanking('allTime');
+        expect(allTime.map(e => [e.playerId, e.score])).toEqual([['ann', 90], ['ben', 60]]);
+
+        const weekly = await leaderboard.getRanking('weekly', undefined, MONDAY + 3 * DAY);
+        expect(weekly.map(e => [e.playerId, e.score])).toEqual([['ben', 60], ['cat', 50]]);
+    });
+
+    it('should cut long names to the length the database accepts', async () => {
+        const leaderboard = new Leaderboard(new InMemoryLeaderboardBackend());
+        await leaderboard.submitScore('ann', 'A'.repeat(100), 30, MONDAY);
+
+        const [entry] = await leaderboard.getRanking('allTime');
+        expect(entry.name).toHaveLength(MAX_LEADERBOARD_NAME_LENGTH);
+    });
+
+    it('should rank a player among their friends', async () => {
+        const leaderboard = new Leaderboard(new InMemoryLeaderboardBackend());
+        await leaderboard.submitScore('ann', 'Ann', 30, MONDAY);
+        await leaderboard.submitScore('ben', 'Ben', 60, MONDAY);
+        await leaderboard.submitScore('cat', 'Cat', 90, MONDAY);
+        await leaderboard.addFriend('ann', ' ben ');
+        await leaderboard.addFriend('ann', 'nobody');
+
+        expect((await leaderboard.getRanking('friends', 'ann')).map(e => e.playerId)).toEqual(['ben', 'ann']);
+        expect(await leaderboard.getRanking('friends')).toEqual([]);
+
+        await leaderboard.removeFriend('ann', 'ben');
+        expect(await leaderboard.getFriends('ann')).toEqual(['nobody']);
+
+        await expect(leaderboard.addFriend('ann', 'ann')).rejects.toThrow('your own friend code');
+        await expect(leaderboard.addFriend('ann', 'a/b')).rejects.toThrow('not valid');
+        await expect(leaderboard.addFriend('ann', '  ')).rejects.toThrow('Enter a friend code');
+    });
+
+    it('should only rank solo games played with the standard settings', () => {
+        const solo = (options: GameOptions = {}) =>
+            GameStateManager.createNewGame(1, ['Ann'], 100, { gameMode: 'solo', ...options }).getState();
+
+        expect(isRankedGame(solo())).toBe(true);
+        expect(isRankedGame(GameStateManager.createNewGame(2, ['Ann', 'Ben']).getState())).toBe(false);
+        expect(isRankedGame(solo({ boardWidth: 9, boardHeight: 9 }))).toBe(false);
+        expect(isRankedGame(solo({ language: 'es' }))).toBe(false);
+        expect(isRankedGame(solo({ houseRules: { ...DEFAULT_HOUSE_RULES, cascade: true } }))).toBe(false);
+        expect(isRankedGame(solo({ hintPenaltyMultiplier: 1 }))).toBe(false);
+        expect(isRankedGame(solo({ seed: 42 }))).toBe(false);
+        expect(isRankedGame(solo({ startingTiles: 5 }))).toBe(false);
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Solo leaderboards - all-time, weekly and friends rankings over a pluggable backend
+ */
+
+import { GameState, DEFAULT_BOARD_WIDTH, DEFAULT_BOARD_HEIGHT, DEFAULT_HINT_PENALTY_MULTIPLIER, DEFAULT_HOUSE_RULES } from './types';
+import { resolveHouseRules } from './house-rules';
+import { DEFAULT_LANGUAGE } from './language-packs';
+
+/**
+ * Which ranking to show
+ */
+export type LeaderboardKind = 'allTime' | 'weekly' | 'friends';
+export const LEADERBOARD_KINDS: LeaderboardKind[] = ['allTime', 'weekly', 'friends'];
+
+export const ALL_TIME_BOARD = 'allTime';
+export const DEFAULT_LEADERBOARD_SIZE = 10;
+export const MAX_LEADERBOARD_NAME_LENGTH = 40;  // Also enforced by the Firebase rules
+
+/**
+ * A player's best solo score on one board
+ */
+export interface LeaderboardEntry {
+    playerId: string;    // Account ID (Firebase uid)
+    name: string;
+    score: number;
+    achievedAt: number;  // ms timestamp
+}
+
+/**
+ * Where boards and friend lists are stored
+ * A board is ALL_TIME_BOARD or a week ID; each keeps one entry (the best) per player
+ */
+export interface LeaderboardBackend {
+    /** Store the entry unless the player already has an equal or better score on the board */
+    submit(board: string, entry: LeaderboardEntry): Promise<void>;
+    /** Highest entries on the board, best first */
+    getTop(board: string, limit: number): Promise<LeaderboardEntry[]>;
+    /** Entries of the given players (players without one are left out) */
+    getEntries(board: string, playerIds: string[]): Promise<LeaderboardEntry[]>;
+    getFriends(playerId: string): Promise<string[]>;
+    addFriend(playerId: string, friendId: string): Promise<void>;
+    removeFriend(playerId: string, friendId: string): Promise<void>;
+}
+
+/**
+ * Best first; an equal score reached earlier ranks higher
+ */
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+    return b.score - a.score || a.achievedAt - b.achievedAt;
+}
+
+/**
+ * ISO week of a time in UTC, e.g. "2024-W07" (weeks start on Monday)
+ */
+export function getWeekId(time: number): string {
+    const date = new Date(time);
+    const day = date.getUTCDay() || 7;
+    // The Thursday of the week decides the year
+    const thursday = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 4 - day);
+    const year = new Date(thursday).getUTCFullYear();
+    const week = Math.floor((thursday - Date.UTC(year, 0, 1)) / (7 * 24 * 60 * 60 * 1000)) + 1;
+    return `${year}-W${week < 10 ? '0' : ''}${week}`;
+}
+
+/**
+ * Whether a finished game belongs on the leaderboards
+ * Only solo games with the standard settings are ranked, so every score on a board was played under the same rules
+ */
+export function isRankedGame(state: GameState): boolean {
+    return state.gameMode === 'solo'
+        && !state.dailyPuzzle
+        && !state.puzzle
+        && !state.fixedSeed
+        && !state.startingTiles
+        && state.boardWidth === DEFAULT_BOARD_WIDTH
+        && state.boardHeight === DEFAULT_BOARD_HEIGHT
+        && (state.language ?? DEFAULT_LANGUAGE) === DEFAULT_LANGUAGE
+        && (state.hintPenaltyMultiplier ?? DEFAULT_HINT_PENALTY_MULTIPLIER) === DEFAULT_HINT_PENALTY_MULTIPLIER
+        && JSON.stringify(resolveHouseRules(state.houseRules)) === JSON.stringify(DEFAULT_HOUSE_RULES);
+}
+
+/**
+ * Solo leaderboards over a backend
+ */
+export class Leaderboard {
+    constructor(private backend: LeaderboardBackend, private size: number = DEFAULT_LEADERBOARD_SIZE) {}
+
+    /**
+     * Record a finished solo game on the all-time board and its week's board
+     */
+    async submitScore(playerId: string, name: string, score: number, now: number = Date.now()): Promise<void> {
+        if (score <= 0) return;
+        const entry: LeaderboardEntry = { playerId, name: name.slice(0, MAX_LEADERBOARD_NAME_LENGTH), score, achievedAt: now };
+        await Promise.all([
+            this.backend.submit(ALL_TIME_BOARD, entry),
+            this.backend.submit(getWeekId(now), entry)
+        ]);
+    }
+
+    /**
+     * Top entries of a ranking, best first
+     * The friends ranking is the all-time board among the player and their friends
+     */
+    async getRanking(kind: LeaderboardKind, playerId?: string, now: number = Date.now()): Promise<LeaderboardEntry[]> {
+        if (kind === 'weekly') {
+            return this.backend.getTop(getWeekId(now), this.size);
+        }
+        if (kind === 'friends') {
+            if (!playerId) return [];
+            const friends = await this.backend.getFriends(playerId);
+            const entries = await this.backend.getEntries(ALL_TIME_BOARD, [playerId, ...friends]);
+            return entries.sort(compareEntries).slice(0, this.size);
+        }
+        return this.backend.getTop(ALL_TIME_BOARD, this.size);
+    }
+
+    getFriends(playerId: string): Promise<string[]> {
+        return this.backend.getFriends(playerId);
+    }
+
+    /**
+     * Add a friend by their player ID (friend code)
+     */
+    async addFriend(playerId: string, friendId: string): Promise<void> {
+        const id = friendId.trim();
+        if (!id) {
+            throw new Error('Enter a friend code');
+        }
+        if (/[.#$[\]/]/.test(id)) {
+            throw new Error('That friend code is not valid');
+        }
+        if (id === playerId) {
+            throw new Error("That's your own friend code");
+        }
+        await this.backend.addFriend(playerId, id);
+    }
+
+    removeFriend(playerId: string, friendId: string): Promise<void> {
+        return this.backend.removeFriend(playerId, friendId);
+    }
+}
+
+/**
+ * Stand-in backend that keeps everything in memory (for development without Firebase, and tests)
+ */
+export class InMemoryLeaderboardBackend implements LeaderboardBackend {
+    private boards = new Map<string, Map<string, LeaderboardEntry>>();
+    private friends = new Map<string, Set<string>>();
+
+    async submit(board: string, entry: LeaderboardEntry): Promise<void> {
+        if (!this.boards.has(board)) {
+            this.boards.set(board, new Map());
+        }
+        const entries = this.boards.get(board)!;
+        const best = entries.get(entry.playerId);
+        if (!best || entry.score > best.score) {
+            entries.set(entry.playerId, { ...entry });
+        }
+    }
+
+    async getTop(board: string, limit: number): Promise<LeaderboardEntry[]> {
+        const entries = Array.from(this.boards.get(board)?.values() ?? []);
+        return entries.sort(compareEntries).slice(0, limit).map(entry => ({ ...entry }));
+    }
+
+    async getEntries(board: string, playerIds: string[]): Promise<LeaderboardEntry[]> {
+        const entries = this.boards.get(board);
+        return playerIds
+            .map(id => entries?.get(id))
+            .filter((entry): entry is LeaderboardEntry => !!entry)
+            .map(entry => ({ ...entry }));
+    }
+
+    async getFriends(playerId: string): Promise<string[]> {
+        return Array.from(this.friends.get(playerId) ?? []);
+    }
+
+    async addFriend(playerId: string, friendId: string): Promise<void> {
+        if (!this.friends.has(playerId)) {
+            this.friends.set(playerId, new Set());
+        }
+        this.friends.get(playerId)!.add(friendId);
+    }
+
+    async removeFriend(playerId: string, friendId: string): Promise<void> {
+        this.friends.get(playerId)?.delete(friendId);
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the text notation
+ * Tests that exported games rebuild to the same position and that bad notation is rejected
+ */
+
+import { GameStateManager } from './game-state-manager';
+import type { GrabbleEngine } from './game-engine';
+import type { GameState } from './types';
+import { DEFAULT_HOUSE_RULES } from './types';
+import { exportNotation, parseNotation } from './notation';
+
+const currentRack = (engine: GrabbleEngine) => {
+    const state = engine.getState();
+    return state.players[state.currentPlayerId].rack;
+};
+
+// Drop the first tiles of the current player's rack on the bottom row and claim them as one word
+const playBottomRow = async (engine: GrabbleEngine, count: number, dictionary: Set<string>) => {
+    const playerId = engine.getState().currentPlayerId;
+    const tiles = engine.removeTilesFromRack(playerId, Array.from({ length: count }, (_, i) => i));
+    tiles.forEach((tile, column) => engine.placeTiles([{ column, tile: tile.letter === ' ' ? { ...tile, blankLetter: 'E' } : tile }], playerId));
+
+    const positions = tiles.map((_, x) => ({ x, y: engine.getBoardHeight() - 1 }));
+    dictionary.add(engine.extractWord(positions).word.toUpperCase());
+    const result = await engine.processWordClaims([{ positions, playerId }], engine.getTurnPlacements(), dictionary);
+    expect(result.valid).toBe(true);
+    engine.refillPlayerRack(playerId);
+};
+
+const position = (state: GameState) => ({
+    board: state.board,
+    bag: state.tileBag,
+    players: state.players.map(p => ({ rack: p.rack, score: p.score })),
+    currentPlayerId: state.currentPlayerId,
+    claimedWords: state.claimedWords,
+    gameStatus: state.gameStatus
+});
+
+describe('Game notation', () => {
+    it('should rebuild a game from its notation', async () => {
+        const dictionary = new Set<string>();
+        const manager = GameStateManager.createNewGame(2, ['Ann', 'Ben'], 100, { seed: 42 });
+        const engine = manager.getEngine();
+
+        // A word on the bottom row
+        await playBottomRow(engine, 3, dictionary);
+        engine.advanceTurn();
+
+        // A swap
+        engine.swapTiles(engine.getState().currentPlayerId, [1, 3]);
+        engine.advanceTurn();
+
+        // A tile dropped and taken back, another moved to a new column, then a pass
+        let playerId = engine.getState().currentPlayerId;
+        const [tile] = engine.removeTilesFromRack(playerId, [2]);
+        engine.placeTiles([{ column: 5, tile }], playerId);
+        const removed = engine.removeTile(5, 6)!;
+        engine.returnTileToRack(playerId, { letter: removed.letter, points: removed.points });
+        engine.placeTiles([{ column: 6, tile: currentRack(engine)[0] }], playerId);
+        engine.removeTilesFromRack(playerId, [0]);
+        engine.placeTiles([{ column: 4, tile: engine.removeTile(6, 6)! }], playerId);
+        const moved = engine.removeTile(4, 6)!;
+        engine.returnTileToRack(playerId, { letter: moved.letter, points: moved.points });
+        engine.passTurn(playerId);
+
+        // A turn in progress
+        playerId = engine.getState().currentPlayerId;
+        engine.recordHintUsage(playerId, 1, [0]);
+        const [dropped] = engine.removeTilesFromRack(playerId, [0]);
+        engine.placeTiles([{ column: 3, tile: dropped }], playerId);
+
+        const text = exportNotation(manager.getState());
+        expect(text).toContain('[Seed "42"]');
+        expect(text).toContain('[Player2 "Ben"]');
+        expect(text).toMatch(/^2\. P\d swap:/m);
+        expect(text).toMatch(/^3\. P\d .* pass$/m);
+        expect(text).toMatch(/^4\. P\d hint:1:0 .*@d \.\.\.$/m);
+
+        const rebuilt = await parseNotation(text, dictionary);
+        expect(position(rebuilt.getState())).toEqual(position(manager.getState()));
+
+        // Without a word list the claimed words are trusted
+        const trusted = await parseNotation(text);
+        expect(position(trusted.getState())).toEqual(position(manager.getState()));
+        expect(exportNotation(trusted.getState())).toBe(text);
+    });
+
+    it('should replay challenges and the end of the game', async () => {
+        const dictionary = new Set<string>();
+        const manager = GameStateManager.createNewGame(2, ['Ann', 'Ben'], 100, { seed: 7, challengeMode: true });
+        const engine = manager.getEngine();
+
+        const challenged = engine.getState().currentPlayerId;
+        await playBottomRow(engine, 3, dictionary);
+        engine.advanceTurn();
+        dictionary.clear();
+        expect(engine.challenge(engine.getState().currentPlayerId, dictionary).successful).toBe(true);
+        engine.passTurn(engine.getState().currentPlayerId);
+        engine.endGame('stalemate');
+
+        const text = exportNotation(manager.getState());
+        expect(text).toContain('[Challenge "window=15000 penalty=10"]');
+        expect(text).toContain(`challenge:P${2 - challenged}=withdrawn`);
+        expect(text).toMatch(/end:stalemate\n$/);
+
+        const rebuilt = await parseNotation(text);
+        expect(position(rebuilt.getState())).toEqual(position(manager.getState()));
+        expect(rebuilt.getState().result).toEqual(manager.getState().result);
+    });
+
+    it('should reject notation that does not match the game', async () => {
+        const dictionary = new Set<string>();
+        const manager = GameStateManager.createNewGame(2, ['Ann', 'Ben'], 100, { seed: 42 });
+        await playBottomRow(manager.getEngine(), 3, dictionary);
+        manager.getEngine().advanceTurn();
+        const text = exportNotation(manager.getState());
+
+        await expect(parseNotation(text.replace(/\+(\d+)/, '+999'))).rejects.toThrow('Turn 1: the words score');
+        await expect(parseNotation(text.replace(/1\. P(\d)/, (_, p) => `1. P${3 - Number(p)}`))).rejects.toThrow('Turn 1:');
+        await expect(parseNotation(text, new Set())).rejects.toThrow('Word not in dictionary');
+        await expect(parseNotation(text.replace(/\[Seed.*\n/, ''))).rejects.toThrow('Missing [Seed] tag');
+        await expect(parseNotation('1. P1 swap')).rejects.toThrow('Missing [Grabble] tag');
+    });
+
+    it('should replay cascades', async () => {
+        const dictionary = new Set<string>();
+        const houseRules = { ...DEFAULT_HOUSE_RULES, cascade: true };
+        const manager = GameStateManager.createNewGame(2, ['Ann', 'Ben'], 100, { seed: 42, houseRules });
+        const engine = manager.getEngine();
+
+        // Each word vanishes, leaving the bottom row free for the next
+        await playBottomRow(engine, 3, dictionary);
+        engine.advanceTurn();
+        await playBottomRow(engine, 3, dictionary);
+        engine.advanceTurn();
+        expect(manager.getState().claimedWords).toHaveLength(2);
+        expect(manager.getState().board.every(row => row.every(tile => tile === null))).toBe(true);
+
+        const text = exportNotation(manager.getState());
+        expect(text).toContain('cascade=on');
+
+        const rebuilt = await parseNotation(text, dictionary);
+        expect(position(rebuilt.getState())).toEqual(position(manager.getState()));
+        await expect(parseNotation(text.replace(/(\+\d+)/, '$1 *DOG *+6'), dictionary)).rejects.toThrow('Turn 1: the words cascade into nothing');
+    });
+
+    it('should refuse to write games that did not start from a seeded deal', () => {
+        const manager = GameStateManager.createNewGame(2, ['Ann', 'Ben'], 100, { seed: 42 });
+        const state = manager.getState();
+        state.historyBase!.players[0].rack.pop();
+
+        expect(() => exportNotation(state)).toThrow('can be written down');
+    });
+});
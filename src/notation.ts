@@ -0,0 +1,802 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Portable text notation - write a game as plain text and rebuild it through the engine
+ * (format described in NOTATION.md)
+ */
+
+import type { GameState, GameOptions, GameAction, HouseRules, Position, Tile, WordClaim, ClaimedWord, BotDifficulty, GameEndReason, HintLevel } from './types';
+import { DEFAULT_HOUSE_RULES, DEFAULT_HINT_PENALTY_MULTIPLIER, DEFAULT_STALEMATE_ROUNDS, DEFAULT_CHALLENGE_WINDOW_MS, DEFAULT_CHALLENGE_PENALTY, DEFAULT_BOARD_WIDTH, DEFAULT_BOARD_HEIGHT } from './types';
+import { GrabbleEngine } from './game-engine';
+import { GameStateManager } from './game-state-manager';
+import { BONUS_TYPES, resolveHouseRules } from './house-rules';
+import { DEFAULT_LANGUAGE } from './language-packs';
+import { getReverseWord } from './word-detection';
+
+/**
+ * Version written in the [Grabble] tag
+ */
+export const NOTATION_VERSION = 1;
+
+const END_REASONS: GameEndReason[] = ['target_score', 'out_of_tiles', 'stalemate', 'forfeit'];
+const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * How a game was set up: everything needed to deal it again from its seed
+ */
+interface GameSetup {
+    names: string[];
+    targetScore: number;
+    options: GameOptions;
+}
+
+// ============================================================================
+// COORDINATES AND TILES
+// ============================================================================
+
+// Files are columns from 'a'; ranks are rows counted from the bottom (rank 1)
+function formatFile(x: number): string {
+    return String.fromCharCode(97 + x);
+}
+
+function formatSquare(pos: Position, height: number): string {
+    return `${formatFile(pos.x)}${height - pos.y}`;
+}
+
+function parseFile(file: string, width: number): number {
+    const x = file.charCodeAt(0) - 97;
+    if (file.length !== 1 || x < 0 || x >= width) {
+        throw new Error(`No column "${file}" on this board`);
+    }
+    return x;
+}
+
+function parseSquare(square: string, width: number, height: number): Position {
+    const match = /^([a-z])(\d+)$/.exec(square);
+    const rank = match ? Number(match[2]) : 0;
+    if (!match || rank < 1 || rank > height) {
+        throw new Error(`No square "${square}" on this board`);
+    }
+    return { x: parseFile(match[1], width), y: height - rank };
+}
+
+// Blank tiles are written '?'
+function formatTile(tile: Tile): string {
+    return tile.letter === ' ' ? '?' : tile.letter;
+}
+
+/**
+ * Rack index of a written tile: the given 1-based slot, or else the first matching tile not already taken
+ */
+function findRackTile(rack: Tile[], letter: string, slot: number | undefined, taken: number[]): number {
+    const index = slot !== undefined
+        ? slot - 1
+        : rack.findIndex((tile, i) => tile.letter === letter && !taken.includes(i));
+    if (index < 0 || rack[index]?.letter !== letter || taken.includes(index)) {
+        throw new Error(`No "${letter === ' ' ? '?' : letter}" in the rack`);
+    }
+    return index;
+}
+
+/**
+ * Tile as written, with its slot when it isn't the first matching tile (the inverse of findRackTile)
+ */
+function formatRackTile(rack: Tile[], index: number, taken: number[]): string {
+    const tile = rack[index];
+    const first = rack.findIndex((t, i) => t.letter === tile.letter && !taken.includes(i));
+    return first === index ? formatTile(tile) : `${formatTile(tile)}#${index + 1}`;
+}
+
+/**
+ * Squares of a straight line between two ends
+ */
+function lineBetween(from: Position, to: Position): Position[] {
+    const dx = Math.sign(to.x - from.x);
+    const dy = Math.sign(to.y - from.y);
+    const length = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+    if (dx !== 0 && dy !== 0 && Math.abs(to.x - from.x) !== Math.abs(to.y - from.y)) {
+        throw new Error('A word must be a straight line');
+    }
+    return Array.from({ length: length + 1 }, (_, i) => ({ x: from.x + i * dx, y: from.y + i * dy }));
+}
+
+// ============================================================================
+// TAGS
+// ============================================================================
+
+function formatRules(rules: HouseRules): string {
+    const bonuses = BONUS_TYPES.map(type => {
+        const bonus = rules.bonuses[type];
+        return `${type}=${bonus.enabled ? bonus.multiplier : 'off'}`;
+    });
+    const cascade = rules.cascade ? ['cascade=on'] : [];
+    return [...bonuses, `stack=${rules.stackBonuses ? 'on' : 'off'}`, `min=${rules.minWordLength}`, ...cascade].join(' ');
+}
+
+function parseRules(text: string): HouseRules {
+    const rules = resolveHouseRules();
+    for (const entry of text.split(/\s+/).filter(Boolean)) {
+        const [key, value] = entry.split('=');
+        if ((BONUS_TYPES as string[]).includes(key)) {
+            rules.bonuses[key as keyof HouseRules['bonuses']] = value === 'off'
+                ? { ...rules.bonuses[key as keyof HouseRules['bonuses']], enabled: false }
+                : { enabled: true, multiplier: parseNumber(value, key) };
+        } else if (key === 'stack') {
+            rules.stackBonuses = value === 'on';
+        } else if (key === 'min') {
+            rules.minWordLength = parseNumber(value, key);
+        } else if (key === 'cascade') {
+            rules.cascade = value === 'on';
+        } else {
+            throw new Error(`Unknown rule "${key}"`);
+        }
+    }
+    return rules;
+}
+
+function parseNumber(value: string | undefined, name: string): number {
+    const number = Number(value);
+    if (value === undefined || value === '' || !Number.isFinite(number)) {
+        throw new Error(`${name} must be a number`);
+    }
+    return number;
+}
+
+/**
+ * Set-up of a game, read from its state
+ */
+function getSetup(state: GameState): GameSetup {
+    const rules = resolveHouseRules(state.houseRules);
+    const options: GameOptions = {
+        seed: state.seed,
+        boardWidth: state.boardWidth ?? DEFAULT_BOARD_WIDTH,
+        boardHeight: state.boardHeight ?? DEFAULT_BOARD_HEIGHT,
+        language: state.language ?? DEFAULT_LANGUAGE,
+        houseRules: rules,
+        hintPenaltyMultiplier: state.hintPenaltyMultiplier ?? DEFAULT_HINT_PENALTY_MULTIPLIER,
+        stalemateRounds: state.stalemateRounds ?? DEFAULT_STALEMATE_ROUNDS,
+        gameMode: state.gameMode ?? 'normal',
+        startingTiles: state.startingTiles ?? 0,
+        bots: state.players.map(p => (p.isBot && p.botDifficulty) || null),
+        ...(state.timeControl && { timeControl: { ...state.timeControl } }),
+        ...(state.challengeMode && {
+            challengeMode: true,
+            challengeWindowMs: state.challengeWindowMs ?? DEFAULT_CHALLENGE_WINDOW_MS,
+            challengePenalty: state.challengePenalty ?? DEFAULT_CHALLENGE_PENALTY
+        })
+    };
+    return { names: state.players.map(p => p.name), targetScore: state.historyBase?.targetScore ?? state.targetScore, options };
+}
+
+function formatTags(setup: GameSetup, state: GameState): string[] {
+    const { options } = setup;
+    const tag = (name: string, value: string | number) => `[${name} "${String(value).replace(/"/g, "'")}"]`;
+
+    const tags = [tag('Grabble', NOTATION_VERSION)];
+    setup.names.forEach((name, i) => {
+        tags.push(tag(`Player${i + 1}`, name));
+        if (options.bots?.[i]) {
+            tags.push(tag(`Bot${i + 1}`, options.bots[i]!));
+        }
+    });
+    tags.push(
+        tag('Seed', options.seed!),
+        tag('Target', setup.targetScore),
+        tag('Board', `${options.boardWidth}x${options.boardHeight}`),
+        tag('Language', options.language!)
+    );
+    if (formatRules(options.houseRules!) !== formatRules(DEFAULT_HOUSE_RULES)) {
+        tags.push(tag('Rules', formatRules(options.houseRules!)));
+    }
+    if (options.gameMode === 'solo') {
+        tags.push(tag('Mode', 'solo'));
+    }
+    if (options.startingTiles) {
+        tags.push(tag('StartTiles', options.startingTiles));
+    }
+    if (options.hintPenaltyMultiplier !== DEFAULT_HINT_PENALTY_MULTIPLIER) {
+        tags.push(tag('HintPenalty', options.hintPenaltyMultiplier!));
+    }
+    if (options.stalemateRounds !== DEFAULT_STALEMATE_ROUNDS) {
+        tags.push(tag('Stalemate', options.stalemateRounds!));
+    }
+    if (options.challengeMode) {
+        tags.push(tag('Challenge', `window=${options.challengeWindowMs} penalty=${options.challengePenalty}`));
+    }
+    if (options.timeControl) {
+        const { turnLimitMs, clockMs } = options.timeControl;
+        tags.push(tag('TimeControl', [turnLimitMs && `turn=${turnLimitMs}`, clockMs && `clock=${clockMs}`].filter(Boolean).join(' ')));
+    }
+    if (state.gameStatus === 'finished' && state.winnerId !== undefined) {
+        tags.push(tag('Result', `P${state.winnerId + 1} ${state.result?.reason ?? 'target_score'}`));
+    }
+    return tags;
+}
+
+function parseTags(tags: Map<string, string>): GameSetup {
+    const version = tags.get('Grabble');
+    if (version === undefined) {
+        throw new Error('Missing [Grabble] tag');
+    }
+    if (parseNumber(version, 'Grabble') > NOTATION_VERSION) {
+        throw new Error('This game was written by a newer version of Grabble');
+    }
+    const seed = tags.get('Seed');
+    if (seed === undefined) {
+        throw new Error('Missing [Seed] tag');
+    }
+
+    const names: string[] = [];
+    const bots: Array<BotDifficulty | null> = [];
+    while (tags.has(`Player${names.length + 1}`)) {
+        const bot = tags.get(`Bot${names.length + 1}`) as BotDifficulty | undefined;
+        if (bot && !BOT_DIFFICULTIES.includes(bot)) {
+            throw new Error(`Unknown bot difficulty "${bot}"`);
+        }
+        names.push(tags.get(`Player${names.length + 1}`)!);
+        bots.push(bot ?? null);
+    }
+
+    const options: GameOptions = { seed: parseNumber(seed, 'Seed'), bots };
+    const board = tags.get('Board');
+    if (board !== undefined) {
+        const [width, height] = board.split('x');
+        options.boardWidth = parseNumber(width, 'Board width');
+        options.boardHeight = parseNumber(height, 'Board height');
+    }
+    options.language = tags.get('Language');
+    if (tags.has('Rules')) {
+        options.houseRules = parseRules(tags.get('Rules')!);
+    }
+    if (tags.get('Mode') === 'solo') {
+        options.gameMode = 'solo';
+    }
+    if (tags.has('StartTiles')) {
+        options.startingTiles = parseNumber(tags.get('StartTiles'), 'StartTiles');
+    }
+    if (tags.has('HintPenalty')) {
+        options.hintPenaltyMultiplier = parseNumber(tags.get('HintPenalty'), 'HintPenalty');
+    }
+    if (tags.has('Stalemate')) {
+        options.stalemateRounds = parseNumber(tags.get('Stalemate'), 'Stalemate');
+    }
+    if (tags.has('Challenge')) {
+        const settings = parseSettings(tags.get('Challenge')!);
+        options.challengeMode = true;
+        options.challengeWindowMs = settings.window;
+        options.challengePenalty = settings.penalty;
+    }
+    if (tags.has('TimeControl')) {
+        const settings = parseSettings(tags.get('TimeControl')!);
+        options.timeControl = { turnLimitMs: settings.turn, clockMs: settings.clock };
+    }
+
+    const target = tags.get('Target');
+    return { names, targetScore: target === undefined ? 100 : parseNumber(target, 'Target'), options };
+}
+
+// "key=number key=number"
+function parseSettings(text: string): Record<string, number> {
+    const settings: Record<string, number> = {};
+    for (const entry of text.split(/\s+/).filter(Boolean)) {
+        const [key, value] = entry.split('=');
+        settings[key] = parseNumber(value, key);
+    }
+    return settings;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Write a game as text: the tags needed to deal it again, then one line per turn
+ * Throws if the game didn't start from a seeded deal (e.g. it was saved before games kept a history)
+ */
+export function exportNotation(state: GameState): string {
+    const base = state.historyBase;
+    const setup = getSetup(state);
+    if (!base || state.seed === undefined || !isFreshDeal(base, setup)) {
+        throw new Error('Only games played from the start with this version of Grabble can be written down');
+    }
+
+    const history = state.history || [];
+    const height = base.boardHeight ?? base.board.length;
+    const replayEngine = new GrabbleEngine(JSON.parse(JSON.stringify(state)));
+
+    // Racks are followed through the log; tiles are compared by identity so duplicates are told apart
+    let racks = new Map(base.players.map(p => [p.id, p.rack.map(t => ({ ...t }))]));
+    const resync = (actionCount: number) => {
+        racks = new Map(replayEngine.getStateAtAction(actionCount).players.map(p => [p.id, p.rack]));
+    };
+    let pending: Tile[] = [];  // Taken from the rack, not yet dropped
+
+    const lines: string[] = [];
+    let currentPlayerId = base.currentPlayerId;
+    let tokens: string[] = [];
+    const endLine = (nextPlayerId: number = currentPlayerId) => {
+        lines.push(`${lines.length + 1}. P${currentPlayerId + 1}${tokens.map(t => ` ${t}`).join('')}`);
+        tokens = [];
+        currentPlayerId = nextPlayerId;
+    };
+    const unsupported = (action: GameAction) =>
+        new Error(`This game cannot be written down: unexpected "${action.type}" in turn ${lines.length + 1}`);
+
+    for (let i = 0; i < history.length; i++) {
+        const action = history[i];
+        const next = history[i + 1];
+        switch (action.type) {
+            case 'hint':
+                tokens.push(`hint:${action.level}${action.tilesAffected.length > 0 ? `:${action.tilesAffected.join(',')}` : ''}`);
+                break;
+            case 'rack_remove': {
+                const rack = racks.get(action.playerId)!;
+                pending.push(...action.indices.filter(index => index >= 0 && index < rack.length).map(index => rack[index]));
+                break;
+            }
+            case 'place': {
+                const rack = racks.get(action.playerId)!;
+                // Tiles are taken from the rack before they're dropped, or (dragged onto the board) just after
+                if (pending.length === 0 && next?.type === 'rack_remove' && next.indices.length === action.placements.length) {
+                    pending = next.indices.map(index => rack[index]);
+                    i++;
+                }
+                const tiles = pending.splice(0, action.placements.length);
+                if (tiles.length < action.placements.length || tiles.some((tile, j) => !tile || tile.letter !== action.placements[j].tile.letter)) {
+                    throw unsupported(action);
+                }
+
+                const indices = tiles.map(tile => rack.indexOf(tile));
+                tokens.push(action.placements.map(({ column, tile }, j) => {
+                    const blankLetter = tile.letter === ' ' && tile.blankLetter ? tile.blankLetter : '';
+                    const written = formatRackTile(rack, indices[j], indices.slice(0, j));
+                    return `${written.replace(/^\?/, `?${blankLetter}`)}@${formatFile(column)}`;
+                }).join(','));
+                for (const index of [...indices].sort((a, b) => b - a)) {
+                    rack.splice(index, 1);
+                }
+                break;
+            }
+            case 'remove':
+                // Taken back to the rack, or moved to another column
+                if (next?.type === 'rack_return') {
+                    tokens.push(`-${formatSquare(action.position, height)}`);
+                    racks.get(next.playerId)!.push({ ...next.tile });
+                } else if (next?.type === 'place' && next.placements.length === 1) {
+                    tokens.push(`${formatSquare(action.position, height)}>${formatFile(next.placements[0].column)}`);
+                } else {
+                    throw unsupported(action);
+                }
+                i++;
+                break;
+            case 'set_blank':
+                tokens.push(`${formatSquare(action.position, height)}=${action.letter}`);
+                break;
+            case 'claim': {
+                for (const word of action.words) {
+                    const from = word.positions[0];
+                    const to = word.positions[word.positions.length - 1];
+                    const reversible = word.bonuses.includes('emordnilap') ? '~' : '';
+                    tokens.push(`${word.word}${reversible}:${formatSquare(from, height)}-${formatSquare(to, height)}`);
+                }
+                tokens.push(`+${action.score}`);
+
+                // Words a cascade formed follow, with their total score
+                let after = next;
+                if (after?.type === 'cascade') {
+                    const cascaded = after.steps.flatMap(step => step.words);
+                    if (cascaded.length > 0) {
+                        tokens.push(...cascaded.map(w => `*${w.word}`), `*+${cascaded.reduce((sum, w) => sum + w.score, 0)}`);
+                    }
+                    i++;
+                    after = history[i + 1];
+                }
+
+                // A claim is followed by refilling the rack (nothing is drawn into a full rack or from an empty bag)
+                if (after?.type === 'draw' && after.playerId === action.playerId) {
+                    racks.get(after.playerId)!.push(...after.tiles.map(t => ({ ...t })));
+                    i++;
+                } else if (racks.get(action.playerId)!.length < 7 &&
+                    (state.gameMode === 'solo' || replayEngine.getStateAtAction(i + 1).tileBag.length > 0)) {
+                    throw unsupported(action);
+                }
+                break;
+            }
+            case 'draw':
+                tokens.push('draw');
+                racks.get(action.playerId)!.push(...action.tiles.map(t => ({ ...t })));
+                break;
+            case 'swap': {
+                const rack = racks.get(action.playerId)!;
+                const taken: number[] = [];
+                const written = action.tileIndices.filter(index => index >= 0 && index < rack.length).map(index => {
+                    const tile = formatRackTile(rack, index, taken);
+                    taken.push(index);
+                    return tile;
+                });
+                tokens.push(`swap:${written.join(',')}`);
+                for (const index of [...taken].sort((a, b) => b - a)) {
+                    rack.splice(index, 1);
+                }
+                rack.push(...action.drawn.map(t => ({ ...t })));
+                break;
+            }
+            case 'pass':
+                // passTurn ends the turn itself
+                tokens.push('pass');
+                if (next?.type === 'advance_turn') {
+                    i++;
+                    endLine(next.nextPlayerId);
+                }
+                break;
+            case 'timeout': {
+                tokens.push(action.forfeit ? 'forfeit' : 'timeout');
+                // The time-out ends the turn, or the game when only one player is left
+                if (next?.type === 'advance_turn' || next?.type === 'finish') {
+                    i++;
+                }
+                resync(i + 1);
+                endLine(next?.type === 'advance_turn' ? next.nextPlayerId : currentPlayerId);
+                break;
+            }
+            case 'challenge':
+                tokens.push(`challenge:P${action.challengerId + 1}=${action.successful ? 'withdrawn' : 'upheld'}`);
+                resync(i + 1);
+                break;
+            case 'advance_turn':
+                endLine(action.nextPlayerId);
+                break;
+            case 'clear_board': {
+                tokens.push('clear');
+                resync(i + 1);
+                endLine(replayEngine.getStateAtAction(i + 1).currentPlayerId);
+                break;
+            }
+            case 'finish':
+                tokens.push(`end:${action.reason ?? 'target_score'}`);
+                endLine();
+                break;
+            case 'resume':
+                tokens.push(`resume:${action.targetScore}`);
+                break;
+        }
+    }
+
+    // A turn in progress
+    if (tokens.length > 0 || pending.length > 0) {
+        if (pending.length > 0) {
+            throw new Error('This game cannot be written down while tiles are being dropped');
+        }
+        tokens.push('...');
+        endLine();
+    }
+
+    return [...formatTags(setup, state), '', ...lines].join('\n') + '\n';
+}
+
+/**
+ * Whether a position is what dealing the game again from its seed gives
+ */
+function isFreshDeal(base: GameState, setup: GameSetup): boolean {
+    let dealt: GameState;
+    try {
+        dealt = GameStateManager.createNewGame(setup.names.length, setup.names, setup.targetScore, setup.options).getState();
+    } catch {
+        return false;
+    }
+    const deal = (s: GameState) => JSON.stringify({
+        board: s.board,
+        bag: s.tileBag,
+        racks: s.players.map(p => p.rack),
+        order: s.players.map(p => p.turnOrder),
+        claimed: s.claimedWords
+    });
+    return deal(dealt) === deal(base);
+}
+
+// ============================================================================
+// PARSE
+// ============================================================================
+
+interface NotationLine {
+    number: number;
+    playerId: number;
+    tokens: string[];
+}
+
+interface WrittenClaim {
+    word: string;
+    reversible: boolean;   // Scored the emordnilap bonus
+    from: string;
+    to: string;
+}
+
+const TURN_ENDING_TOKENS = ['pass', 'timeout', 'forfeit', 'clear', '...'];
+
+/**
+ * Split notation text into tags and move lines (';' starts a comment)
+ */
+function readNotation(text: string): { tags: Map<string, string>; lines: NotationLine[] } {
+    const tags = new Map<string, string>();
+    const lines: NotationLine[] = [];
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.replace(/;.*$/, '').trim();
+        if (!line) {
+            return;
+        }
+        const tag = /^\[(\w+)\s+"([^"]*)"\]$/.exec(line);
+        if (tag) {
+            tags.set(tag[1], tag[2]);
+            return;
+        }
+        const move = /^(\d+)\.\s+P(\d+)(?:\s+(.*))?$/.exec(line);
+        if (!move) {
+            throw new Error(`Line ${index + 1}: expected a tag or a turn like "1. P1 ..."`);
+        }
+        lines.push({ number: Number(move[1]), playerId: Number(move[2]) - 1, tokens: (move[3] || '').split(/\s+/).filter(Boolean) });
+    });
+    return { tags, lines };
+}
+
+function parseClaimToken(token: string): WrittenClaim | null {
+    const match = /^([^:@~]+)(~?):([a-z]\d+)-([a-z]\d+)$/.exec(token);
+    return match && { word: match[1].toUpperCase(), reversible: match[2] === '~', from: match[3], to: match[4] };
+}
+
+/**
+ * Words the game's claims need to be valid, for rebuilding a game without a word list
+ * Every claimed word counts, except where that would change the outcome of a challenge
+ */
+function buildTrustedDictionary(lines: NotationLine[]): Set<string> {
+    const words = new Set<string>();
+    const upheld = new Set<string>();
+    const withdrawn: string[] = [];
+    let lastPlay: string[] = [];
+    let play: string[] = [];
+
+    for (const line of lines) {
+        for (const token of line.tokens) {
+            const claim = parseClaimToken(token);
+            if (claim) {
+                play.push(claim.word);
+                words.add(claim.word);
+            } else if (/^\*[^+]/.test(token)) {
+                words.add(token.slice(1).toUpperCase());
+            } else if (token.startsWith('+')) {
+                lastPlay = play;
+                play = [];
+            } else if (token.endsWith('=upheld')) {
+                lastPlay.forEach(word => upheld.add(word));
+            } else if (token.endsWith('=withdrawn')) {
+                withdrawn.push(...lastPlay);
+            }
+        }
+    }
+
+    withdrawn.filter(word => !upheld.has(word)).forEach(word => words.delete(word));
+    return words;
+}
+
+/**
+ * Rebuild a game from its notation by replaying every turn through the engine
+ * Without a dictionary the claimed words are trusted; with one they are checked as in play
+ * Throws an Error naming the line where the notation stops matching the game
+ */
+export async function parseNotation(text: string, dictionary?: Set<string>): Promise<GameStateManager> {
+    const { tags, lines } = readNotation(text);
+    const setup = parseTags(tags);
+    const manager = GameStateManager.createNewGame(setup.names.length, setup.names, setup.targetScore, setup.options);
+    const engine = manager.getEngine();
+    const words = dictionary ?? buildTrustedDictionary(lines);
+
+    for (const line of lines) {
+        try {
+            await replayLine(engine, line, words, !dictionary);
+        } catch (err) {
+            throw new Error(`Turn ${line.number}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+    return manager;
+}
+
+async function replayLine(engine: GrabbleEngine, line: NotationLine, dictionary: Set<string>, trusted: boolean): Promise<void> {
+    const state = () => engine.getState();
+    const { width, height } = { width: engine.getBoardWidth(), height: engine.getBoardHeight() };
+    const playerId = line.playerId;
+    if (state().currentPlayerId !== playerId) {
+        throw new Error(`it is P${state().currentPlayerId + 1}'s turn, not P${playerId + 1}'s`);
+    }
+
+    let claims: WrittenClaim[] = [];
+    let turnEnded = false;
+    let cascaded: ClaimedWord[] = [];   // Words the last claim cascaded into, until their score is checked
+    let written: string[] = [];
+    const checkCascade = () => {
+        if (cascaded.length > 0 || written.length > 0) {
+            throw new Error(`the words cascade into ${cascaded.map(w => w.word).join(', ') || 'nothing'} without a cascade score`);
+        }
+    };
+
+    for (let t = 0; t < line.tokens.length; t++) {
+        const token = line.tokens[t];
+        if (turnEnded) {
+            throw new Error(`"${token}" after the end of the turn`);
+        }
+
+        let match: RegExpExecArray | null;
+        if ((match = /^hint:([0-4])(?::([\d,]+))?$/.exec(token))) {
+            const tiles = match[2] ? match[2].split(',').map(Number) : [];
+            engine.recordHintUsage(playerId, Number(match[1]) as HintLevel, tiles);
+        } else if ((match = /^swap:(.+)$/.exec(token))) {
+            const rack = state().players[playerId].rack;
+            const taken: number[] = [];
+            for (const written of match[1].split(',')) {
+                const tile = /^(.+?)(?:#(\d+))?$/.exec(written)!;
+                taken.push(findRackTile(rack, tile[1] === '?' ? ' ' : tile[1], tile[2] ? Number(tile[2]) : undefined, taken));
+            }
+            engine.swapTiles(playerId, taken);
+        } else if (token === 'pass') {
+            engine.passTurn(playerId);
+        } else if (token === 'timeout' || token === 'forfeit') {
+            engine.timeOut(token === 'forfeit');
+        } else if (token === 'clear') {
+            engine.clearBoard();
+        } else if (token === 'draw') {
+            engine.refillPlayerRack(playerId);
+        } else if (token === '...') {
+            // Turn still in progress
+        } else if ((match = /^end:(\w+)$/.exec(token))) {
+            const reason = match[1] as GameEndReason;
+            if (!END_REASONS.includes(reason)) {
+                throw new Error(`unknown end "${reason}"`);
+            }
+            if (engine.checkWinCondition() === null) {
+                engine.endGame(reason);
+            }
+            const ended = state().result?.reason;
+            if (ended !== reason) {
+                throw new Error(`the game ends by ${ended}, not ${reason}`);
+            }
+            turnEnded = true;
+        } else if ((match = /^resume:(\d+)$/.exec(token))) {
+            engine.resumeGame(Number(match[1]));
+        } else if ((match = /^challenge:P(\d+)=(withdrawn|upheld)$/.exec(token))) {
+            const { successful } = engine.challenge(Number(match[1]) - 1, dictionary);
+            if (successful !== (match[2] === 'withdrawn')) {
+                throw new Error(`the challenge is ${successful ? 'successful' : 'unsuccessful'}`);
+            }
+        } else if ((match = /^\+(\d+)$/.exec(token))) {
+            checkCascade();
+            cascaded = await replayClaim(engine, claims, Number(match[1]), dictionary, trusted);
+            engine.refillPlayerRack(playerId);
+            claims = [];
+        } else if ((match = /^\*\+(\d+)$/.exec(token))) {
+            const words = cascaded.map(w => w.word.toUpperCase());
+            if (words.join() !== written.join()) {
+                throw new Error(`the words cascade into ${words.join(', ') || 'nothing'}, not ${written.join(', ')}`);
+            }
+            const total = cascaded.reduce((sum, w) => sum + w.score, 0);
+            if (total !== Number(match[1])) {
+                throw new Error(`the cascade scores ${total}, not ${match[1]}`);
+            }
+            cascaded = [];
+            written = [];
+        } else if ((match = /^\*(.+)$/.exec(token))) {
+            written.push(match[1].toUpperCase());
+        } else if ((match = /^-([a-z]\d+)$/.exec(token))) {
+            const { x, y } = parseSquare(match[1], width, height);
+            const removed = engine.removeTile(x, y);
+            if (!removed) {
+                throw new Error(`no tile on ${match[1]}`);
+            }
+            engine.returnTileToRack(playerId, { letter: removed.letter, points: removed.points });
+        } else if ((match = /^([a-z]\d+)>([a-z])$/.exec(token))) {
+            const { x, y } = parseSquare(match[1], width, height);
+            const removed = engine.removeTile(x, y);
+            if (!removed) {
+                throw new Error(`no tile on ${match[1]}`);
+            }
+            engine.placeTiles([{ column: parseFile(match[2], width), tile: removed }], playerId);
+        } else if ((match = /^([a-z]\d+)=(.+)$/.exec(token))) {
+            const { x, y } = parseSquare(match[1], width, height);
+            if (!engine.setBlankTileLetter(x, y, match[2], playerId)) {
+                throw new Error(`no blank of P${playerId + 1} to set on ${match[1]}`);
+            }
+        } else if (token.includes('@')) {
+            dropTiles(engine, playerId, token, width);
+        } else {
+            const claim = parseClaimToken(token);
+            if (!claim) {
+                throw new Error(`cannot read "${token}"`);
+            }
+            claims.push(claim);
+        }
+
+        turnEnded = turnEnded || TURN_ENDING_TOKENS.includes(token);
+    }
+
+    if (claims.length > 0) {
+        throw new Error('words claimed without a score');
+    }
+    checkCascade();
+    if (!turnEnded) {
+        engine.advanceTurn();
+    }
+}
+
+/**
+ * Take the written tiles from the rack and drop them together ("A@c,?E#5@d")
+ */
+function dropTiles(engine: GrabbleEngine, playerId: number, token: string, width: number): void {
+    const rack = engine.getState().players[playerId].rack;
+    const drops = token.split(',').map(written => {
+        const match = /^(.+?)(?:#(\d+))?@([a-z])$/.exec(written);
+        if (!match) {
+            throw new Error(`cannot read "${written}"`);
+        }
+        const isBlank = match[1].startsWith('?');
+        return {
+            letter: isBlank ? ' ' : match[1],
+            blankLetter: isBlank ? match[1].slice(1) : '',
+            slot: match[2] ? Number(match[2]) : undefined,
+            column: parseFile(match[3], width)
+        };
+    });
+
+    const indices: number[] = [];
+    for (const drop of drops) {
+        indices.push(findRackTile(rack, drop.letter, drop.slot, indices));
+    }
+    const tiles = engine.removeTilesFromRack(playerId, indices);
+    const sortedIndices = [...indices].sort((a, b) => a - b);
+    engine.placeTiles(drops.map((drop, j) => {
+        const tile = tiles[sortedIndices.indexOf(indices[j])];
+        return { column: drop.column, tile: drop.blankLetter ? { ...tile, blankLetter: drop.blankLetter } : tile };
+    }), playerId);
+}
+
+/**
+ * Claim the written words and check the engine scores them the same
+ * Returns the words a cascade formed after the claim (checked by the "*+N" that follows)
+ */
+async function replayClaim(
+    engine: GrabbleEngine,
+    written: WrittenClaim[],
+    score: number,
+    dictionary: Set<string>,
+    trusted: boolean
+): Promise<ClaimedWord[]> {
+    const width = engine.getBoardWidth();
+    const height = engine.getBoardHeight();
+    const playerId = engine.getState().currentPlayerId;
+    const claims: WordClaim[] = written.map(claim => ({
+        positions: lineBetween(parseSquare(claim.from, width, height), parseSquare(claim.to, width, height)),
+        playerId
+    }));
+
+    // Trusted words whose reverse is also a word scored the emordnilap bonus
+    if (trusted) {
+        const board = engine.getState().board;
+        written.forEach((claim, i) => {
+            const reverse = claim.reversible && getReverseWord(board, claims[i].positions);
+            if (reverse) {
+                dictionary.add(reverse.toUpperCase());
+            }
+        });
+    }
+
+    const result = await engine.processWordClaims(claims, engine.getTurnPlacements(), dictionary);
+    if (!result.valid) {
+        throw new Error(result.results.find(r => r.error)?.error ?? 'the words cannot be claimed');
+    }
+    written.forEach((claim, i) => {
+        if (result.results[i].word?.toUpperCase() !== claim.word) {
+            throw new Error(`${claim.from}-${claim.to} reads ${result.results[i].word}, not ${claim.word}`);
+        }
+    });
+    if (result.totalScore !== score) {
+        throw new Error(`the words score ${result.totalScore}, not ${score}`);
+    }
+    return (result.cascade ?? []).flatMap(step => step.words);
+}
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for lifetime player statistics
+ * Tests game summaries from the history and from claimed words, and adding them to the stats
+ */
+
+import {
+    resolvePlayerStats,
+    summarizeGame,
+    addGameToStats,
+    getAverageTurnScore,
+    getMostUsedWords
+} from './player-stats';
+import type { ClaimedWord, GameState } from './types';
+import { createGameWithRack, playBottomRow } from './test-games';
+
+const word = (text: string, playerId: number, score: number, bonuses: string[] = []): ClaimedWord =>
+    ({ word: text, positions: [], playerId, score, bonuses });
+
+describe('Player stats', () => {
+    it('should summarize a local game from its history', async () => {
+        const manager = createGameWithRack('CAT');
+        const engine = manager.getEngine();
+
+        const { playerId } = await playBottomRow(manager, new Set(['CAT']));
+        engine.passTurn(engine.getState().currentPlayerId);
+        engine.endGame('stalemate');
+
+        const summary = summarizeGame(manager.getState(), playerId, 'local');
+
+        expect(summary.mode).toBe('local');
+        expect(summary.won).toBe(manager.getState().winnerId === playerId);
+        expect(summary.turns.map(turn => turn.map(w => w.word))).toEqual([['CAT']]);
+        expect(summary.turnScores).toEqual([5]);
+    });
+
+    it('should group claimed words into turns when there is no history', () => {
+        const state = {
+            players: [{ id: 0, score: 20 }, { id: 1, score: 110 }],
+            targetScore: 100,
+            claimedWords: [
+                word('CAT', 1, 5),
+                word('AT', 1, 2),
+                word('DOG', 0, 5),
+                word('TOT', 1, 6, ['palindrome']),
+                { ...word('ZZZ', 1, 30), challenge: { status: 'withdrawn' } }
+            ]
+        } as unknown as GameState;
+
+        const summary = summarizeGame(state, 1, 'online');
+
+        expect(summary.won).toBe(true);
+        expect(summary.turns.map(turn => turn.map(w => w.word))).toEqual([['CAT', 'AT'], ['TOT']]);
+        expect(summary.turnScores).toEqual([7, 6]);
+        expect(summarizeGame(state, 0, 'online').won).toBe(false);
+        expect(summarizeGame(state, 1, 'solo').won).toBe(false);
+    });
+
+    it('should add games to partial stored stats', () => {
+        // Firebase drops empty maps, so stored stats may be missing fields
+        const stored = resolvePlayerStats({ gamesPlayed: { online: 2 } } as any);
+        expect(stored.gamesPlayed).toEqual({ solo: 0, local: 0, online: 2 });
+        expect(stored.bonusCounts).toEqual({ diagonal: 0, palindrome: 0, emordnilap: 0 });
+
+        const first = addGameToStats(stored, {
+            mode: 'online',
+            won: true,
+            turns: [[word('CAT', 0, 5), word('TACO', 0, 12, ['diagonal', 'hint_penalty'])], [word('CAT', 0, 5)]],
+            turnScores: [17, 5]
+        }, 1000);
+        const stats = addGameToStats(first, { mode: 'solo', won: false, turns: [[word('DOG', 0, 8)]], turnScores: [8] }, 2000);
+
+        expect(stored.gamesPlayed.online).toBe(2);
+        expect(stats.gamesPlayed).toEqual({ solo: 1, local: 0, online: 3 });
+        expect(stats.gamesWon).toEqual({ solo: 0, local: 0, online: 1 });
+        expect(stats.bestTurnScore).toBe(17);
+        expect(getAverageTurnScore(stats)).toBe(10);
+        expect(stats.longestWord).toBe('TACO');
+        expect(stats.bonusCounts).toEqual({ diagonal: 1, palindrome: 0, emordnilap: 0 });
+        expect(getMostUsedWords(stats, 2)).toEqual([{ word: 'CAT', count: 2 }, { word: 'DOG', count: 1 }]);
+        expect(stats.updatedAt).toBe(2000);
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Lifetime player statistics - summarized from each finished game
+ */
+
+import type { GameState, ClaimedWord, BonusType } from './types';
+import { BONUS_TYPES } from './house-rules';
+
+/**
+ * How a game was played
+ */
+export type StatsMode = 'solo' | 'local' | 'online';
+export const STATS_MODES: StatsMode[] = ['solo', 'local', 'online'];
+
+/**
+ * Lifetime statistics of one player (stored at users/{uid}/stats)
+ */
+export interface PlayerStats {
+    gamesPlayed: Record<StatsMode, number>;
+    gamesWon: Record<StatsMode, number>;   // Solo games have no winner
+    scoringTurns: number;                  // Turns in which at least one word was kept
+    totalTurnScore: number;                // Points from those turns
+    bestTurnScore: number;
+    longestWord: string;
+    bonusCounts: Record<BonusType, number>;
+    wordCounts: Record<string, number>;    // Word -> times claimed
+    updatedAt: number;
+}
+
+/**
+ * What one player did in one finished game
+ */
+export interface GameSummary {
+    mode: StatsMode;
+    won: boolean;
+    turns: ClaimedWord[][];                // Words kept in each scoring turn
+    turnScores: number[];                  // Points of each scoring turn
+}
+
+/**
+ * A freshly dealt game: empty board, no words and nobody has scored
+ */
+export function isFreshGame(state: GameState): boolean {
+    return state.claimedWords.length === 0 &&
+        state.players.every(p => p.score === 0) &&
+        state.board.every(row => row.every(tile => !tile));
+}
+
+const countByMode = (counts?: Partial<Record<StatsMode, number>>): Record<StatsMode, number> =>
+    ({ solo: counts?.solo ?? 0, local: counts?.local ?? 0, online: counts?.online ?? 0 });
+
+/**
+ * Complete a possibly partial stats object (Firebase drops empty and zero-valued maps)
+ */
+export function resolvePlayerStats(stats?: Partial<PlayerStats> | null): PlayerStats {
+    const bonusCounts = {} as Record<BonusType, number>;
+    for (const type of BONUS_TYPES) {
+        bonusCounts[type] = stats?.bonusCounts?.[type] ?? 0;
+    }
+
+    return {
+        gamesPlayed: countByMode(stats?.gamesPlayed),
+        gamesWon: countByMode(stats?.gamesWon),
+        scoringTurns: stats?.scoringTurns ?? 0,
+        totalTurnScore: stats?.totalTurnScore ?? 0,
+        bestTurnScore: stats?.bestTurnScore ?? 0,
+        longestWord: stats?.longestWord ?? '',
+        bonusCounts,
+        wordCounts: { ...stats?.wordCounts },
+        updatedAt: stats?.updatedAt ?? 0
+    };
+}
+
+/**
+ * The words a player kept in each of their scoring turns
+ * Local games read the claims from the history; online clients only have the claimed words
+ * of the current round, which are grouped into turns by consecutive claimer
+ */
+function getScoringTurns(state: GameState, playerId: number): { words: ClaimedWord[]; score: number }[] {
+    if (state.history) {
+        const turns: { playerId: number; words: ClaimedWord[]; score: number }[] = [];
+        for (const action of state.history) {
+            if (action.type === 'claim') {
+                turns.push({ playerId: action.playerId, words: action.words, score: action.score });
+            } else if (action.type === 'cascade' && turns.length > 0) {
+                // Words the claim cascaded into belong to the same turn
+                const last = turns[turns.length - 1];
+                const words = action.steps.flatMap(step => step.words);
+                last.words = [...last.words, ...words];
+                last.score += words.reduce((sum, w) => sum + w.score, 0);
+            } else if (action.type === 'challenge' && action.successful && turns.length > 0) {
+                // A successful challenge withdraws the latest claim
+                turns.pop();
+            }
+        }
+        return turns.filter(turn => turn.playerId === playerId);
+    }
+
+    const turns: { playerId: number; words: ClaimedWord[]; score: number }[] = [];
+    for (const word of state.claimedWords) {
+        if (word.challenge?.status === 'withdrawn') continue;
+        const last = turns[turns.length - 1];
+        if (last && last.playerId === word.playerId) {
+            last.words.push(word);
+            last.score += word.score;
+        } else {
+            turns.push({ playerId: word.playerId, words: [word], score: word.score });
+        }
+    }
+    return turns.filter(turn => turn.playerId === playerId);
+}
+
+/**
+ * Summarize a finished game for one player
+ */
+export function summarizeGame(state: GameState, playerId: number, mode: StatsMode): GameSummary {
+    const player = state.players.find(p => p.id === playerId);
+    const won = mode !== 'solo' && (state.winnerId !== undefined
+        ? state.winnerId === playerId
+        : !!player && player.score >= state.targetScore);
+    const turns = getScoringTurns(state, playerId).filter(turn => turn.words.length > 0);
+
+    return {
+        mode,
+        won,
+        turns: turns.map(turn => turn.words),
+        turnScores: turns.map(turn => turn.score)
+    };
+}
+
+/**
+ * Add a finished game to a player's lifetime statistics (returns a new object)
+ */
+export function addGameToStats(stats: PlayerStats, summary: GameSummary, now: number = Date.now()): PlayerStats {
+    const next = resolvePlayerStats(JSON.parse(JSON.stringify(stats)));
+    next.gamesPlayed[summary.mode]++;
+    if (summary.won) next.gamesWon[summary.mode]++;
+
+    next.scoringTurns += summary.turnScores.length;
+    for (const score of summary.turnScores) {
+        next.totalTurnScore += score;
+        next.bestTurnScore = Math.max(next.bestTurnScore, score);
+    }
+
+    for (const word of summary.turns.flat()) {
+        const text = word.word.toUpperCase();
+        if (text.length > next.longestWord.length) next.longestWord = text;
+        next.wordCounts[text] = (next.wordCounts[text] ?? 0) + 1;
+        for (const bonus of word.bonuses) {
+            if (bonus in next.bonusCounts) next.bonusCounts[bonus as BonusType]++;
+        }
+    }
+
+    next.updatedAt = now;
+    return next;
+}
+
+/**
+ * Average points per scoring turn (0 before any)
+ */
+export function getAverageTurnScore(stats: PlayerStats): number {
+    return stats.scoringTurns > 0 ? stats.totalTurnScore / stats.scoringTurns : 0;
+}
+
+/**
+ * Most claimed words, most frequent first (ties alphabetical)
+ */
+export function getMostUsedWords(stats: PlayerStats, limit = 10): { word: string; count: number }[] {
+    return Object.entries(stats.wordCounts)
+        .map(([word, count]) => ({ word, count }))
+        .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+        .slice(0, limit);
+}
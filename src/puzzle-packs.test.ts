@@ -0,0 +1,95 @@
+/**
+ * Unit tests for puzzle packs
+ * Tests pack validation, playing a puzzle, goal-seeking hints and solved puzzles per user
+ */
+
+import {
+    parsePuzzlePack,
+    createPuzzleGame,
+    getPuzzleAttempt,
+    findPuzzleHint,
+    loadSolvedPuzzles,
+    saveSolvedPuzzle
+} from './puzzle-packs';
+import { buildTrieFromDictionary, getHintAtLevel } from './hint-engine';
+import starterPack from '../public/puzzles/starter.json';
+
+const dictionary = new Set(['COT', 'TOT']);
+
+const pack = parsePuzzlePack({
+    id: 'test',
+    name: 'Test Pack',
+    puzzles: [
+        { id: 'cot', board: ['....', '....', '.OT.'], rack: 'CT', goal: { type: 'score', min: 5 } },
+        { id: 'tot', board: ['....', '....', '.OT.'], rack: 'CT', goal: { type: 'palindrome' } }
+    ]
+});
+
+// Drop a rack tile into the first column and claim the word it makes on the bottom row
+async function playFirstColumn(puzzleIndex: number, rackIndex: number) {
+    const manager = createPuzzleGame(pack, pack.puzzles[puzzleIndex], 'Ann');
+    const engine = manager.getEngine();
+    const [tile] = engine.removeTilesFromRack(0, [rackIndex]);
+    engine.placeTiles([{ column: 0, tile }], 0);
+    const positions = [0, 1, 2].map(x => ({ x, y: 2 }));
+    const result = await engine.processWordClaims([{ positions, playerId: 0 }], [{ x: 0, y: 2 }], dictionary);
+    engine.advanceTurn();
+    return { result, state: manager.getState() };
+}
+
+describe('Puzzle packs', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('should load the shipped pack and reject broken puzzles', () => {
+        expect(parsePuzzlePack(starterPack).puzzles.length).toBeGreaterThan(0);
+
+        const puzzle = { id: 'p', board: ['...', '...', 'CAT'], rack: 'AB', goal: { type: 'diagonal' } };
+        const withPuzzle = (changes: object) => ({ id: 'x', name: 'X', puzzles: [{ ...puzzle, ...changes }] });
+
+        expect(() => parsePuzzlePack(withPuzzle({}))).not.toThrow();
+        expect(() => parsePuzzlePack({ id: 'x', name: 'X', puzzles: [] })).toThrow('has no puzzles');
+        expect(() => parsePuzzlePack(withPuzzle({ board: ['...', 'C..', '.AT'] }))).toThrow('floating');
+        expect(() => parsePuzzlePack(withPuzzle({ board: ['...', '...', 'CA'] }))).toThrow('same width');
+        expect(() => parsePuzzlePack(withPuzzle({ board: ['...', '...', 'C1T'] }))).toThrow("aren't English tiles");
+        expect(() => parsePuzzlePack(withPuzzle({ rack: 'ABCDEFGH' }))).toThrow('1-7');
+        expect(() => parsePuzzlePack(withPuzzle({ goal: { type: 'score' } }))).toThrow('positive min');
+        expect(() => parsePuzzlePack({ id: 'x', name: 'X', puzzles: [puzzle, puzzle] })).toThrow('same id');
+    });
+
+    it('should set up the position and check the move against the goal', async () => {
+        const state = createPuzzleGame(pack, pack.puzzles[0], 'Ann').getState();
+        expect(state.board[2].map(t => t?.letter ?? null)).toEqual([null, 'O', 'T', null]);
+        expect(state.players[0].rack.map(t => t.letter)).toEqual(['C', 'T']);
+        expect(state.tileBag).toEqual([]);
+        expect(state).toMatchObject({ gameMode: 'solo', puzzle: { packId: 'test', puzzleId: 'cot' } });
+        expect(getPuzzleAttempt(state)).toBeNull();
+
+        const cot = await playFirstColumn(0, 0);
+        expect(cot.result.valid).toBe(true);
+        expect(getPuzzleAttempt(cot.state)).toEqual({ solved: true, score: 5, words: ['COT'], hintsUsed: 0 });
+
+        // A valid word that misses the goal
+        const notPalindrome = await playFirstColumn(1, 0);
+        expect(getPuzzleAttempt(notPalindrome.state)).toMatchObject({ solved: false, words: ['COT'] });
+    });
+
+    it('should hint at a move that reaches the goal', async () => {
+        const trie = buildTrieFromDictionary(dictionary);
+        const state = createPuzzleGame(pack, pack.puzzles[1], 'Ann').getState();
+
+        const solution = await findPuzzleHint(state, trie, dictionary);
+        expect(solution).toMatchObject({ word: 'TOT', tileIndices: [1], columns: [0], depth: 1 });
+        expect(getHintAtLevel(solution, state.players[0].rack, 2)).toMatchObject({ partialWord: 'T__', wordLength: 3 });
+    });
+
+    it('should keep solved puzzles per user, preferring solves with fewer hints', () => {
+        saveSolvedPuzzle('ann', 'test', 'cat', { solvedAt: 1, hintsUsed: 2 });
+        saveSolvedPuzzle('ann', 'test', 'cat', { solvedAt: 2, hintsUsed: 3 });
+        saveSolvedPuzzle('ann', 'other', 'cat', { solvedAt: 3, hintsUsed: 0 });
+        expect(loadSolvedPuzzles('ann', 'test')).toEqual({ cat: { solvedAt: 1, hintsUsed: 2 } });
+
+        saveSolvedPuzzle('ann', 'test', 'cat', { solvedAt: 4, hintsUsed: 0 });
+        expect(loadSolvedPuzzles('ann', 'test')).toEqual({ cat: { solvedAt: 4, hintsUsed: 0 } });
+        expect(loadSolvedPuzzles('ben', 'test')).toEqual({});
+    });
+});
@@ -0,0 +1,304 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Puzzle packs - curated positions where a single move has to reach a goal
+ */
+
+import type { GameState, Tile, PuzzleGoal, LanguagePack } from './types';
+import { GameStateManager } from './game-state-manager';
+import { getLanguagePack } from './language-packs';
+import { getTurnsPlayed } from './daily-puzzle';
+import type { Trie, HintSolution } from './hint-engine';
+import { findBestMoves, moveToHintSolution } from './hint-engine';
+
+/** Puzzle packs that ship with the game (paths under public/) */
+export const PUZZLE_PACK_FILES = ['puzzles/starter.json'];
+
+export const GUEST_PUZZLE_USER = 'guest';
+
+const SOLVED_KEY = 'grabble_solved_puzzles';
+
+// Moves searched for one that meets the goal (hints show moves of up to two tiles)
+const HINT_SEARCH_MOVES = 500;
+const HINT_SEARCH_NODES = 100000;
+
+/**
+ * A curated position and the goal of its move
+ */
+export interface Puzzle {
+    id: string;
+    title?: string;
+    board: string[];    // Rows top to bottom, one character per tile, '.' = empty
+    rack: string;       // Rack tiles, '?' = blank
+    goal: PuzzleGoal;
+}
+
+/**
+ * A set of puzzles in one language, as stored in a pack's JSON file
+ */
+export interface PuzzlePack {
+    id: string;
+    name: string;
+    language?: string;  // Language pack ID (default 'en')
+    puzzles: Puzzle[];
+}
+
+/**
+ * Outcome of the move made on a puzzle
+ */
+export interface PuzzleAttempt {
+    solved: boolean;
+    score: number;
+    words: string[];
+    hintsUsed: number;  // Hint levels revealed before the move
+}
+
+/**
+ * A solved puzzle, as saved for a user
+ */
+export interface SolvedPuzzle {
+    solvedAt: number;   // ms timestamp
+    hintsUsed: number;
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Split a board row or rack into tiles (multi-character tiles like CH are read whole)
+ * '.' is an empty square, '?' a blank
+ */
+function readTiles(text: string, pack: LanguagePack): Array<Tile | null> | null {
+    const letters = [...pack.alphabet].sort((a, b) => b.length - a.length);
+    const tiles: Array<Tile | null> = [];
+
+    for (let i = 0; i < text.length;) {
+        const rest = text.slice(i).toUpperCase();
+        if (rest[0] === '.' || rest[0] === '?') {
+            tiles.push(rest[0] === '.' ? null : { letter: ' ', points: 0 });
+            i++;
+            continue;
+        }
+        const letter = letters.find(l => rest.startsWith(l));
+        if (!letter) {
+            return null;
+        }
+        tiles.push({ letter, points: pack.distribution[letter].points });
+        i += letter.length;
+    }
+    return tiles;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+function checkGoal(goal: unknown, where: string): PuzzleGoal {
+    if (!isRecord(goal)) {
+        throw new Error(`${where}: unknown goal`);
+    }
+    if (goal.type === 'score') {
+        if (typeof goal.min !== 'number' || goal.min <= 0) {
+            throw new Error(`${where}: a score goal needs a positive min`);
+        }
+        return { type: 'score', min: goal.min };
+    }
+    if (goal.type === 'palindrome' || goal.type === 'diagonal') {
+        return { type: goal.type };
+    }
+    throw new Error(`${where}: unknown goal`);
+}
+
+function checkPuzzle(puzzle: unknown, pack: LanguagePack): Puzzle {
+    if (!isRecord(puzzle) || typeof puzzle.id !== 'string' || !puzzle.id) {
+        throw new Error('Every puzzle needs an id');
+    }
+    const where = `Puzzle ${puzzle.id}`;
+
+    const board = puzzle.board;
+    if (!Array.isArray(board) || board.length < 3) {
+        throw new Error(`${where}: the board needs at least 3 rows`);
+    }
+    const rows = board.map(row => typeof row === 'string' ? readTiles(row, pack) : null);
+    if (!isStringArray(board) || !rows.every((row): row is Array<Tile | null> => row !== null)) {
+        throw new Error(`${where}: the board has letters that aren't ${pack.name} tiles`);
+    }
+    const width = rows[0].length;
+    if (width < 3 || rows.some(row => row.length !== width)) {
+        throw new Error(`${where}: board rows must all have the same width (at least 3)`);
+    }
+    for (let y = 0; y < rows.length - 1; y++) {
+        for (let x = 0; x < width; x++) {
+            if (rows[y][x] && !rows[y + 1][x]) {
+                throw new Error(`${where}: the tile at column ${x + 1}, row ${y + 1} is floating`);
+            }
+        }
+    }
+
+    const rackText = puzzle.rack;
+    const rack = typeof rackText === 'string' ? readTiles(rackText, pack) : null;
+    if (typeof rackText !== 'string' || !rack || rack.length === 0 || rack.length > 7 || rack.includes(null)) {
+        throw new Error(`${where}: the rack needs 1-7 ${pack.name} tiles`);
+    }
+
+    return {
+        id: puzzle.id,
+        ...(typeof puzzle.title === 'string' && { title: puzzle.title }),
+        board,
+        rack: rackText,
+        goal: checkGoal(puzzle.goal, where)
+    };
+}
+
+/**
+ * Check a pack's parsed JSON, throwing an error that says what's wrong with it
+ */
+export function parsePuzzlePack(data: unknown): PuzzlePack {
+    if (!isRecord(data) || typeof data.id !== 'string' || !data.id || typeof data.name !== 'string') {
+        throw new Error('A puzzle pack needs an id and a name');
+    }
+    if (!Array.isArray(data.puzzles) || data.puzzles.length === 0) {
+        throw new Error(`Puzzle pack ${data.id} has no puzzles`);
+    }
+
+    const language = getLanguagePack(typeof data.language === 'string' ? data.language : undefined);
+    const puzzles = data.puzzles.map(puzzle => checkPuzzle(puzzle, language));
+    const ids = new Set(puzzles.map(p => p.id));
+    if (ids.size !== puzzles.length) {
+        throw new Error(`Puzzle pack ${data.id} has puzzles with the same id`);
+    }
+
+    return { id: data.id, name: data.name, language: language.id, puzzles };
+}
+
+/**
+ * Download and check a pack shipped under public/
+ */
+export async function fetchPuzzlePack(file: string): Promise<PuzzlePack> {
+    const response = await fetch(`${process.env.PUBLIC_URL || ''}/${file}`);
+    if (!response.ok) {
+        throw new Error(`Could not load ${file} (${response.status})`);
+    }
+    return parsePuzzlePack(await response.json());
+}
+
+// ============================================================================
+// PLAYING
+// ============================================================================
+
+/**
+ * Set up a puzzle: a solo game on the puzzle's board with its rack and an empty bag
+ */
+export function createPuzzleGame(pack: PuzzlePack, puzzle: Puzzle, playerName: string): GameStateManager {
+    const language = getLanguagePack(pack.language);
+    const board = puzzle.board.map(row => readTiles(row, language)!);
+    const state: GameState = GameStateManager.createNewGame(1, [playerName], 0, {
+        boardWidth: board[0].length,
+        boardHeight: board.length,
+        language: language.id,
+        gameMode: 'solo',
+        hintPenaltyMultiplier: 1,
+        hintsEnabled: true
+    }).getState();
+
+    state.board = board;
+    state.players[0].rack = readTiles(puzzle.rack, language) as Tile[];
+    state.tileBag = [];
+    state.puzzle = { packId: pack.id, puzzleId: puzzle.id, goal: { ...puzzle.goal } };
+    // The puzzle position is where history replays start
+    delete state.history;
+    delete state.historyBase;
+    return GameStateManager.loadGame(state);
+}
+
+/**
+ * Whether the words of a move reach a goal
+ */
+export function meetsPuzzleGoal(goal: PuzzleGoal, words: Array<{ score: number; bonuses: string[] }>): boolean {
+    switch (goal.type) {
+        case 'score':
+            return words.reduce((sum, w) => sum + w.score, 0) >= goal.min;
+        case 'palindrome':
+        case 'diagonal':
+            return words.some(w => w.bonuses.includes(goal.type));
+    }
+}
+
+/**
+ * Outcome of a puzzle game once its move is made (null while the player is still thinking)
+ * The words are the ones the engine accepted for the move
+ */
+export function getPuzzleAttempt(state: GameState): PuzzleAttempt | null {
+    if (!state.puzzle || getTurnsPlayed(state) === 0) return null;
+
+    const history = state.history ?? [];
+    const words = history.flatMap(a => a.type === 'claim' ? a.words : []);
+    return {
+        solved: meetsPuzzleGoal(state.puzzle.goal, words),
+        score: words.reduce((sum, w) => sum + w.score, 0),
+        words: words.map(w => w.word),
+        hintsUsed: history.filter(a => a.type === 'hint').length
+    };
+}
+
+/**
+ * A move of up to two tiles that reaches the puzzle's goal, for the hint ladder (null if none)
+ */
+export async function findPuzzleHint(state: GameState, trie: Trie, dictionary: Set<string>): Promise<HintSolution | null> {
+    if (!state.puzzle) return null;
+
+    const { moves } = await findBestMoves(state.board, state.players[0].rack, trie, dictionary, {
+        maxResults: HINT_SEARCH_MOVES,
+        maxTiles: 2,
+        maxNodes: HINT_SEARCH_NODES,
+        claimedWords: state.claimedWords,
+        alphabet: getLanguagePack(state.language).alphabet,
+        houseRules: state.houseRules
+    });
+    const goal = state.puzzle.goal;
+    const move = moves.find(m => meetsPuzzleGoal(goal, m.words));
+    return move ? moveToHintSolution(move) : null;
+}
+
+// ============================================================================
+// SOLVED PUZZLES
+// ============================================================================
+
+const puzzleKey = (packId: string, puzzleId: string) => `${packId}/${puzzleId}`;
+
+function loadAllSolved(): Record<string, Record<string, SolvedPuzzle>> {
+    try {
+        return JSON.parse(localStorage.getItem(SOLVED_KEY) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * A user's solved puzzles in a pack, by puzzle ID
+ */
+export function loadSolvedPuzzles(userId: string, packId: string): Record<string, SolvedPuzzle> {
+    const solved = loadAllSolved()[userId] ?? {};
+    const prefix = puzzleKey(packId, '');
+    const result: Record<string, SolvedPuzzle> = {};
+    for (const [key, value] of Object.entries(solved)) {
+        if (key.startsWith(prefix)) result[key.slice(prefix.length)] = value;
+    }
+    return result;
+}
+
+/**
+ * Save a solve (a later solve replaces it only if it used fewer hints)
+ */
+export function saveSolvedPuzzle(userId: string, packId: string, puzzleId: string, solve: SolvedPuzzle): void {
+    const all = loadAllSolved();
+    const solved = all[userId] ?? {};
+    const key = puzzleKey(packId, puzzleId);
+    if (solved[key] && solved[key].hintsUsed <= solve.hintsUsed) return;
+
+    all[userId] = { ...solved, [key]: solve };
+    localStorage.setItem(SOLVED_KEY, JSON.stringify(all));
+}
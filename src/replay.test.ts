@@ -0,0 +1,103 @@
+/**
+ * Unit tests for replay frames
+ * Tests frames built from a local game's history, cascades and online turn snapshots
+ */
+
+import { buildReplayFrames, buildReplayFramesFromSnapshots } from './replay';
+import { createGameWithRack, loadWithRack, playBottomRow } from './test-games';
+import { DEFAULT_HOUSE_RULES } from './types';
+import type { GameStateManager } from './game-state-manager';
+
+// D C A on the bottom row with O G above C A: playing T next to them spells CAT, and once CAT
+// vanishes O G fall beside the D to spell DOG
+const setupCascade = () => {
+    const state = createGameWithRack('T', { houseRules: { ...DEFAULT_HOUSE_RULES, cascade: true } }).getState();
+    state.board[5][1] = { letter: 'O', points: 1 };
+    state.board[5][2] = { letter: 'G', points: 1 };
+    state.board[6][0] = { letter: 'D', points: 1 };
+    state.board[6][1] = { letter: 'C', points: 1 };
+    state.board[6][2] = { letter: 'A', points: 1 };
+    return loadWithRack(state, 'T');
+};
+
+// The current player plays T and claims CAT
+const playCat = async (manager: GameStateManager) => {
+    const engine = manager.getEngine();
+    const playerId = manager.getState().currentPlayerId;
+    engine.placeTiles([{ column: 3, tile: engine.removeTilesFromRack(playerId, [0])[0] }], playerId);
+    const positions = [1, 2, 3].map(x => ({ x, y: 6 }));
+    await engine.processWordClaims([{ positions, playerId }], engine.getTurnPlacements(), new Set(['CAT', 'DOG']));
+    engine.advanceTurn();
+};
+
+describe('Replay frames', () => {
+    it('should build one frame per turn from the history', async () => {
+        const manager = createGameWithRack('CAT');
+        const engine = manager.getEngine();
+
+        const { playerId, positions } = await playBottomRow(manager, new Set(['CAT']));
+        engine.passTurn(engine.getState().currentPlayerId);
+
+        const frames = buildReplayFrames(manager.getState());
+
+        expect(frames).toHaveLength(3);
+        expect(frames[0]).toMatchObject({ turn: 0, playerId: null, placed: [], words: [] });
+        expect(frames[1].playerId).toBe(playerId);
+        expect(frames[1].placed).toEqual(positions);
+        expect(frames[1].words.map(w => [w.word, w.score])).toEqual([['CAT', 5]]);
+        expect(frames[1].scores[playerId]).toBe(5);
+        expect(frames[2]).toMatchObject({ placed: [], words: [], gameOver: false });
+        expect(frames[2].board).toEqual(frames[1].board);
+    });
+
+    it('should show a cascade from the board before the words vanish', async () => {
+        const manager = setupCascade();
+        await playCat(manager);
+
+        const [, play, chain, settled] = buildReplayFrames(manager.getState());
+        const letters = (board: typeof play.board) => board[6].map(tile => tile?.letter ?? '.').join('');
+
+        // Only the played tiles drop in, and CAT is highlighted where it was claimed
+        expect(play).toMatchObject({ turn: 1, cascadeStep: 0, placed: [{ x: 3, y: 6 }] });
+        expect(play.words.map(w => w.word)).toEqual(['CAT']);
+        expect(letters(play.board)).toBe('DCAT...');
+
+        expect(chain).toMatchObject({ turn: 1, cascadeStep: 1, placed: [] });
+        expect(chain.words.map(w => w.word)).toEqual(['DOG']);
+        expect(letters(chain.board)).toBe('DOG....');
+
+        expect(settled).toMatchObject({ turn: 1, cascadeStep: 2, placed: [], words: [] });
+        expect(settled.board).toEqual(manager.getState().board);
+        expect(settled.scores).toEqual(manager.getState().players.map(p => p.score));
+    });
+
+    it('should describe turns between recorded snapshots', () => {
+        const manager = createGameWithRack('CAT');
+        const engine = manager.getEngine();
+        const start = manager.getState();
+        const playerId = start.currentPlayerId;
+
+        engine.placeTiles([{ column: 3, tile: { letter: 'C', points: 3 } }], playerId);
+        engine.advanceTurn();
+        const afterDrop = manager.getState();
+        engine.clearBoard();
+        const afterClear = manager.getState();
+
+        const frames = buildReplayFramesFromSnapshots([start, afterDrop, afterClear]);
+
+        expect(frames.map(f => f.turn)).toEqual([0, 1, 2]);
+        expect(frames[1]).toMatchObject({ playerId, placed: [{ x: 3, y: 6 }], boardCleared: false });
+        expect(frames[2]).toMatchObject({ placed: [], boardCleared: true });
+    });
+
+    it('should not show played tiles or words of cascade turns between snapshots', async () => {
+        const manager = setupCascade();
+        const start = manager.getState();
+        await playCat(manager);
+
+        const [, turn] = buildReplayFramesFromSnapshots([start, manager.getState()]);
+
+        expect(turn).toMatchObject({ placed: [], wordsOnBoard: false });
+        expect(turn.words.map(w => w.word)).toEqual(['CAT', 'DOG']);
+    });
+});
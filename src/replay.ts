@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Replay frames - one board position per turn, for stepping through a finished game
+ */
+
+import type { GameState, Tile, Position, ClaimedWord, CascadeStep } from './types';
+import { TURN_END_ACTIONS } from './types';
+import { GrabbleEngine } from './game-engine';
+import { clearAndDrop } from './cascade';
+
+/**
+ * The position after one turn, and what changed in it
+ */
+export interface ReplayFrame {
+    turn: number;                  // 0 = the starting position
+    playerId: number | null;       // Player whose turn it was (null for the start)
+    board: (Tile | null)[][];
+    scores: number[];              // Player ID -> score after the turn
+    cascadeStep: number;           // 0 for the play itself, then 1, 2... for each link of its cascade
+    placed: Position[];            // Tiles played from the rack, bottom first
+    words: ClaimedWord[];          // Words claimed this turn (or formed by this link of the cascade)
+    wordsOnBoard: boolean;         // The words are still where they were claimed (a cascade clears them)
+    boardCleared: boolean;         // The board was cleared for a new round
+    gameOver: boolean;             // The game ended with this turn
+}
+
+/**
+ * Describe the turn that led from one position to the next
+ * Works on public multiplayer states too (only the board, scores and claimed words are compared)
+ */
+export function createReplayFrame(previous: GameState | null, next: GameState, turn: number): ReplayFrame {
+    const placed: Position[] = [];
+    for (let y = next.board.length - 1; y >= 0; y--) {
+        next.board[y].forEach((tile, x) => {
+            if (tile && !previous?.board[y]?.[x]) {
+                placed.push({ x, y });
+            }
+        });
+    }
+
+    // Claimed words only grow during a round; a cleared board starts the list again
+    const previousWords = previous?.claimedWords ?? [];
+    const sameRound = next.claimedWords.length >= previousWords.length;
+    const words = (sameRound ? next.claimedWords.slice(previousWords.length) : next.claimedWords)
+        .filter(word => word.challenge?.status !== 'withdrawn');
+    const boardCleared = !!previous && previous.board.some(row => row.some(Boolean)) && next.board.every(row => row.every(tile => !tile));
+
+    return {
+        turn,
+        playerId: previous ? previous.currentPlayerId : null,
+        board: JSON.parse(JSON.stringify(next.board)),
+        scores: next.players.map(p => p.score),
+        cascadeStep: 0,
+        placed,
+        words: JSON.parse(JSON.stringify(words)),
+        wordsOnBoard: true,
+        boardCleared,
+        gameOver: next.gameStatus === 'finished' && previous?.gameStatus !== 'finished'
+    };
+}
+
+/**
+ * One frame per link of a cascade, starting from the board before the claimed words were cleared
+ * The last frame ends on the position after the turn
+ */
+function createCascadeFrames(before: GameState, steps: CascadeStep[], after: GameState, turn: number): ReplayFrame[] {
+    let board = before.board;
+    const scores = before.players.map(p => p.score);
+
+    return steps.map((step, i) => {
+        board = clearAndDrop(board, step.cleared).board;
+        step.words.forEach(word => { scores[word.playerId] += word.score; });
+        const last = i === steps.length - 1;
+
+        return {
+            turn,
+            playerId: before.currentPlayerId,
+            board: JSON.parse(JSON.stringify(board)),
+            scores: last ? after.players.map(p => p.score) : [...scores],
+            cascadeStep: i + 1,
+            placed: [],
+            words: JSON.parse(JSON.stringify(step.words)),
+            wordsOnBoard: true,
+            boardCleared: false,
+            gameOver: last && after.gameStatus === 'finished'
+        };
+    });
+}
+
+/**
+ * Frames for every completed turn of a game with a history (local games)
+ * A turn with a cascade shows the play before its words vanish, then each link of the chain
+ */
+export function buildReplayFrames(state: GameState): ReplayFrame[] {
+    const engine = new GrabbleEngine(JSON.parse(JSON.stringify(state)));
+    const history = engine.getHistory();
+    let previous = engine.getStateAtAction(0);
+    const frames: ReplayFrame[] = [createReplayFrame(null, previous, 0)];
+    let turn = 0;
+    let cascade: { before: GameState; steps: CascadeStep[] } | null = null;
+
+    history.forEach((action, i) => {
+        if (action.type === 'cascade') {
+            cascade = { before: engine.getStateAtAction(i), steps: action.steps };
+        }
+        if (!TURN_END_ACTIONS.includes(action.type)) return;
+
+        turn++;
+        const position = engine.getStateAtAction(i + 1);
+        if (cascade) {
+            frames.push(createReplayFrame(previous, cascade.before, turn));
+            frames.push(...createCascadeFrames(cascade.before, cascade.steps, position, turn));
+            cascade = null;
+        } else {
+            frames.push(createReplayFrame(previous, position, turn));
+        }
+        previous = position;
+    });
+    return frames;
+}
+
+/**
+ * Frames from positions recorded at each turn change (online games, whose history stays on the server)
+ * In a cascade game the claimed words are gone by the next snapshot, and the tiles that fell can't be
+ * told apart from the ones played, so those turns show neither
+ */
+export function buildReplayFramesFromSnapshots(snapshots: GameState[]): ReplayFrame[] {
+    return snapshots.map((snapshot, i) => {
+        const frame = createReplayFrame(i > 0 ? snapshots[i - 1] : null, snapshot, i);
+        return snapshot.houseRules?.cascade && frame.words.length > 0
+            ? { ...frame, placed: [], wordsOnBoard: false }
+            : frame;
+    });
+}
@@ -0,0 +1,78 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Seeded random number generator for reproducible games
+ */
+
+/**
+ * Function returning a float in [0, 1), same contract as Math.random
+ */
+export type RandomFn = () => number;
+
+/**
+ * Create a random 32-bit seed for a new game
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Normalize user input (number or text) into a 32-bit seed
+ * Text seeds are hashed so players can share memorable seeds like "daily"
+ */
+export function normalizeSeed(seed: number | string): number {
+    if (typeof seed === 'number') {
+        return Math.floor(Math.abs(seed)) >>> 0;
+    }
+
+    const trimmed = seed.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) >>> 0;
+    }
+
+    // FNV-1a hash
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < trimmed.length; i++) {
+        hash ^= trimmed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG
+ * The whole generator state is a single 32-bit integer, so it can be stored
+ * on GameState and resumed after serialization or Firebase sync
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(state: number) {
+        this.state = state >>> 0;
+    }
+
+    /**
+     * Get next float in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Get current generator state (to persist and resume later)
+     */
+    getState(): number {
+        return this.state;
+    }
+
+    /**
+     * Bound next() for APIs that take a RandomFn
+     */
+    asFunction(): RandomFn {
+        return () => this.next();
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for saved local games
+ * Tests save slots in localStorage and migration of older saves
+ */
+
+import { GameStateManager } from './game-state-manager';
+import { SAVE_SCHEMA_VERSION, AUTOSAVE_SLOT, migrateSave, saveGame, loadSavedGame, deleteSave, listSaves } from './save-games';
+
+const createState = () => GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 7 }).getState();
+
+describe('Saved games', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('should save, list and load named slots', () => {
+        const state = createState();
+        saveGame('Sunday', state);
+        saveGame(AUTOSAVE_SLOT, { ...state, players: state.players.map(p => ({ ...p, score: 5 })) });
+
+        const saves = listSaves();
+        expect(saves.map(s => s.name).sort()).toEqual([AUTOSAVE_SLOT, 'Sunday'].sort());
+        expect(saves.find(s => s.name === 'Sunday')).toMatchObject({ players: ['A', 'B'], scores: [0, 0], gameMode: 'normal' });
+        expect(loadSavedGame('Sunday')).toEqual(state);
+
+        deleteSave('Sunday');
+        expect(loadSavedGame('Sunday')).toBeNull();
+        expect(listSaves()).toHaveLength(1);
+    });
+
+    it('should resume a loaded game where it left off', () => {
+        const manager = GameStateManager.createNewGame(2, ['A', 'B'], 100, { seed: 7 });
+        manager.getEngine().passTurn(0);
+        saveGame('slot', manager.getState());
+
+        const loaded = GameStateManager.loadGame(loadSavedGame('slot')!);
+
+        expect(loaded.getCurrentPlayer().id).toBe(1);
+        expect(loaded.getEngine().getHistory()).toEqual(manager.getEngine().getHistory());
+    });
+
+    it('should migrate a bare state from before versioning', () => {
+        const { boardWidth, boardHeight, ...legacy } = createState();
+        const serialized = JSON.stringify({ ...legacy, claimedWords: undefined });
+
+        const state = GameStateManager.deserialize(serialized).getState();
+
+        expect(state.boardWidth).toBe(7);
+        expect(state.boardHeight).toBe(7);
+        expect(state.claimedWords).toEqual([]);
+    });
+
+    it('should reject saves from a newer version and data that is not a game', () => {
+        expect(() => migrateSave({ version: SAVE_SCHEMA_VERSION + 1, name: 'x', savedAt: 0, state: createState() }))
+            .toThrow('newer version');
+        expect(() => migrateSave({ foo: 1 })).toThrow('not valid');
+        expect(() => migrateSave(null)).toThrow('not valid');
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Saved local games - named slots and autosave in localStorage (format and migrations in save-schema.ts)
+ */
+
+import type { GameState } from './types';
+import { SAVE_SCHEMA_VERSION, migrateSave } from './save-schema';
+import type { SavedGame } from './save-schema';
+
+export { SAVE_SCHEMA_VERSION, migrateSave };
+export type { SavedGame };
+
+/**
+ * Slot the current local game is saved to after every move
+ */
+export const AUTOSAVE_SLOT = 'autosave';
+
+const SAVES_KEY = 'grabble_saved_games';
+
+/**
+ * What the load menu shows for a slot (without the full game state)
+ */
+export interface SaveSummary {
+    name: string;
+    savedAt: number;
+    players: string[];
+    scores: number[];
+    gameMode: 'normal' | 'solo';
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function readSaves(): Record<string, SavedGame> {
+    try {
+        const stored = localStorage.getItem(SAVES_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch {
+        return {};
+    }
+}
+
+function writeSaves(saves: Record<string, SavedGame>): void {
+    localStorage.setItem(SAVES_KEY, JSON.stringify(saves));
+}
+
+/**
+ * Save a game to a slot, replacing what was there
+ * Throws if storage is full or unavailable
+ */
+export function saveGame(name: string, state: GameState): void {
+    const saves = readSaves();
+    saves[name] = { version: SAVE_SCHEMA_VERSION, name, savedAt: Date.now(), state };
+    writeSaves(saves);
+}
+
+/**
+ * Load and migrate the game in a slot (null if the slot is empty or unreadable)
+ */
+export function loadSavedGame(name: string): GameState | null {
+    const save = readSaves()[name];
+    if (!save) {
+        return null;
+    }
+    try {
+        return migrateSave(save);
+    } catch (err) {
+        console.warn(`Failed to load saved game "${name}":`, err);
+        return null;
+    }
+}
+
+/**
+ * Remove a save slot
+ */
+export function deleteSave(name: string): void {
+    try {
+        const saves = readSaves();
+        delete saves[name];
+        writeSaves(saves);
+    } catch {
+        console.warn('Failed to delete saved game from localStorage');
+    }
+}
+
+/**
+ * All save slots, most recent first
+ */
+export function listSaves(): SaveSummary[] {
+    return Object.values(readSaves())
+        .map(save => ({
+            name: save.name,
+            savedAt: save.savedAt,
+            players: save.state.players.map(p => p.name),
+            scores: save.state.players.map(p => p.score),
+            gameMode: save.state.gameMode ?? 'normal'
+        }))
+        .sort((a, b) => b.savedAt - a.savedAt);
+}
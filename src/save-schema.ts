@@ -0,0 +1,83 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Saved game schema - versioned save format and migrations (no storage, so the server can use it)
+ */
+
+import type { GameState } from './types';
+
+/**
+ * Version of the saved game format
+ * Bump it when a GameState change needs old saves rewritten, and add a step to MIGRATIONS
+ */
+export const SAVE_SCHEMA_VERSION = 1;
+
+/**
+ * A game in a save slot
+ */
+export interface SavedGame {
+    version: number;   // SAVE_SCHEMA_VERSION when the game was saved
+    name: string;      // Slot name
+    savedAt: number;   // ms timestamp
+    state: GameState;
+}
+
+/**
+ * A stored state of any version: only the board and player list are sure to be there
+ */
+interface StoredState {
+    board: unknown[];
+    players: unknown[];
+    [key: string]: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStoredState = (value: unknown): value is StoredState =>
+    isRecord(value) && Array.isArray(value.board) && Array.isArray(value.players);
+
+/**
+ * Upgrade steps: MIGRATIONS[n] turns a version n state into a version n + 1 state
+ */
+const MIGRATIONS: Record<number, (state: StoredState) => StoredState> = {
+    // Version 0: a bare GameState from GameStateManager.serialize(), possibly from before
+    // board sizes, claimed word lists and player racks were always stored
+    0: (state) => ({
+        ...state,
+        boardWidth: state.boardWidth ?? (Array.isArray(state.board[0]) ? state.board[0].length : undefined),
+        boardHeight: state.boardHeight ?? state.board.length,
+        claimedWords: state.claimedWords ?? [],
+        gameStatus: state.gameStatus ?? 'playing',
+        players: state.players.map(p => isRecord(p) ? { ...p, rack: p.rack ?? [], score: p.score ?? 0 } : p)
+    })
+};
+
+/**
+ * Bring a saved game (or a bare serialized GameState) up to the current schema
+ * Throws if the data isn't a game or was saved by a newer version
+ */
+export function migrateSave(data: unknown): GameState {
+    if (!isRecord(data)) {
+        throw new Error('Saved game is not valid');
+    }
+
+    const isEnvelope = typeof data.version === 'number' && data.state !== undefined;
+    let version = isEnvelope ? Number(data.version) : 0;
+    const stored = isEnvelope ? data.state : data;
+
+    if (version > SAVE_SCHEMA_VERSION) {
+        throw new Error('This game was saved by a newer version of Grabble');
+    }
+    if (!isStoredState(stored)) {
+        throw new Error('Saved game is not valid');
+    }
+
+    let state = stored;
+    while (version < SAVE_SCHEMA_VERSION) {
+        state = MIGRATIONS[version](state);
+        version++;
+    }
+    // Every migration has run, so the state has the current shape
+    return state as unknown as GameState;
+}
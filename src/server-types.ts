@@ -1,9 +1,9 @@
 /**
  * Room/Lobby types for multiplayer
- * Copied from server/types.ts for client-side use
+ * Shared by the client and the Socket.IO server (server/types.ts re-exports these)
  */
 
-import type { GameState, Player } from './types';
+import type { GameState, Player, HouseRules, ClaimedWord, CascadeStep, TimeControl } from './types';
 
 /**
  * Player in a room (before game starts)
@@ -15,6 +15,18 @@ export interface RoomPlayer {
     isReady: boolean;     // Ready to start
     color: string;        // Player color
     uid?: string;         // Google UID (for signed-in users)
+    authUid?: string;     // Firebase Auth session UID (anonymous for guests), owns this seat's rack
+    photoURL?: string;    // Google profile photo URL
+}
+
+/**
+ * Spectator watching a room (never holds a seat or a rack)
+ */
+export interface RoomSpectator {
+    id: string;           // Socket ID / Session ID
+    name: string;         // Display name
+    uid?: string;         // Google UID (for signed-in users)
+    authUid?: string;     // Firebase Auth session UID, the only one allowed to change or remove this entry
     photoURL?: string;    // Google profile photo URL
 }
 
@@ -24,6 +36,7 @@ export interface RoomPlayer {
 export interface Room {
     code: string;              // 4-character room code
     players: RoomPlayer[];     // Players in room
+    spectators: RoomSpectator[]; // Watching, not playing
     hostId: string;            // Host's socket ID
     status: 'waiting' | 'playing' | 'finished';
     gameState: GameState | null;  // Game state once playing
@@ -31,20 +44,28 @@ export interface Room {
     maxPlayers: number;
     targetScore: number;
     hintsEnabled?: boolean;     // Whether hints are allowed in this room
+    boardSize?: number;         // Board width/height (square grid, default 7)
+    language?: string;          // Language pack ID (default 'en')
+    houseRules?: HouseRules;    // Scoring and word rules for games in this room
+    challengeMode?: boolean;    // Words are checked only when an opponent challenges them
+    timeControl?: TimeControl;  // Turn timer and/or chess clock (untimed if absent)
 }
 
 /**
  * Socket.IO event payloads - Client to Server
  */
 export interface ClientToServerEvents {
-    create_room: (data: { playerName: string; targetScore?: number; hintsEnabled?: boolean }) => void;
+    create_room: (data: { playerName: string; targetScore?: number; hintsEnabled?: boolean; boardSize?: number; language?: string; houseRules?: HouseRules; challengeMode?: boolean; timeControl?: TimeControl }) => void;
     join_room: (data: { roomCode: string; playerName: string }) => void;
+    spectate_room: (data: { roomCode: string; spectatorName: string }) => void;
     leave_room: () => void;
     set_ready: (ready: boolean) => void;
     start_game: () => void;
     place_tiles: (data: { placements: Array<{ column: number; tileIndex: number }> }) => void;
     claim_words: (data: { claims: Array<{ positions: Array<{ x: number; y: number }> }> }) => void;
     swap_tiles: (data: { tileIndices: number[] }) => void;
+    pass_turn: () => void;
+    challenge: () => void;
     end_turn: () => void;
     remove_tile: (data: { column: number; row: number }) => void;
     set_blank_letter: (data: { x: number; y: number; letter: string }) => void;
@@ -58,6 +79,7 @@ export interface ClientToServerEvents {
 export interface ServerToClientEvents {
     room_created: (data: { roomCode: string; room: Room }) => void;
     room_joined: (data: { room: Room; playerId: string }) => void;
+    room_spectating: (data: { room: Room; spectatorId: string }) => void;
     room_state: (room: Room) => void;
     player_joined: (player: RoomPlayer) => void;
     player_left: (playerId: string) => void;
@@ -67,7 +89,11 @@ export interface ServerToClientEvents {
     tiles_placed: (data: { playerId: string; gameState: GameState; placedPositions?: Array<{ x: number; y: number }> }) => void;
     tile_removed: (data: { playerId: string; gameState: GameState; removedPosition: { x: number; y: number } }) => void;
     words_claimed: (data: { playerId: number; results: any; gameState: GameState }) => void;
+    words_cascaded: (data: { playerId: number; steps: CascadeStep[]; score: number; gameState: GameState }) => void;
     tiles_swapped: (data: { playerId: string; gameState: GameState }) => void;
+    turn_passed: (data: { playerId: number; gameState: GameState }) => void;
+    turn_timed_out: (data: { playerId: number; forfeited: boolean; gameState: GameState }) => void;
+    challenge_resolved: (data: { challengerId: number; playerId: number; successful: boolean; words: ClaimedWord[]; gameState: GameState }) => void;
     turn_changed: (data: { currentPlayerId: number; gameState: GameState }) => void;
     game_ended: (data: { winnerId: number; finalState: GameState }) => void;
     blank_letter_set: (data: { x: number; y: number; letter: string; gameState: GameState }) => void;
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for multiplayer state visibility
+ * Tests that public state hides racks and the bag, and that private parts round-trip
+ */
+
+import { GameStateManager } from './game-state-manager';
+import { toPublicState, toPlayerView, getPrivateState, mergePrivateState, mergeHiddenState } from './state-visibility';
+
+const createState = () => GameStateManager.createNewGame(3, ['A', 'B', 'C'], 100, { seed: 42 }).getState();
+
+describe('State visibility', () => {
+    it('should hide racks, the bag and the RNG from public state', () => {
+        const state = createState();
+
+        const publicState = toPublicState(state);
+
+        expect(publicState.players.every(p => p.rack.length === 0 && p.rackCount === 7)).toBe(true);
+        expect(publicState.tileBag).toEqual([]);
+        expect(publicState.bagCount).toBe(state.tileBag.length);
+        expect(publicState.seed).toBeUndefined();
+        expect(publicState.rngState).toBeUndefined();
+        expect(publicState.history).toBeUndefined();
+        expect(publicState.board).toEqual(state.board);
+        expect(JSON.stringify(publicState)).not.toContain('"letter"');
+    });
+
+    it('should only show a player their own rack', () => {
+        const state = createState();
+
+        const view = toPlayerView(state, 1);
+
+        expect(view.players[1].rack).toEqual(state.players[1].rack);
+        expect(view.players[0].rack).toEqual([]);
+        expect(view.players[2].rack).toEqual([]);
+        expect(view.tileBag).toEqual([]);
+    });
+
+    it('should rebuild the full state from public and private parts', () => {
+        const state = createState();
+        const secrets = getPrivateState(state);
+
+        const view = mergePrivateState(toPublicState(state), 0, secrets.racks[0], secrets.bag);
+
+        expect(view.players[0].rack).toEqual(state.players[0].rack);
+        expect(view.tileBag).toEqual(state.tileBag);
+        expect(view.rngState).toBe(state.rngState);
+    });
+
+    it('should rebuild every rack and the bag for trusted code', () => {
+        const state = createState();
+
+        const full = mergeHiddenState(toPublicState(state), getPrivateState(state));
+
+        expect(full.players.map(p => p.rack)).toEqual(state.players.map(p => p.rack));
+        expect(full.tileBag).toEqual(state.tileBag);
+        expect(full.seed).toBe(state.seed);
+        expect(full.rngState).toBe(state.rngState);
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Splits multiplayer game state into public and private parts so clients can't see opponents' tiles
+ */
+
+import type { GameState, PrivateGameState, Tile } from './types';
+
+/**
+ * Public state shared with every client: board, scores, claimed words and tile counts
+ * Racks, the bag and the RNG (which would reveal the bag order) are removed
+ */
+export function toPublicState(state: GameState): GameState {
+    const { history, historyBase, seed, rngState, ...rest } = state;
+
+    return {
+        ...JSON.parse(JSON.stringify(rest)),
+        players: state.players.map(p => ({
+            ...p,
+            rack: [],
+            rackCount: p.rack.length
+        })),
+        tileBag: [],
+        bagCount: state.tileBag.length
+    };
+}
+
+/**
+ * Private parts of the state: racks by player ID and the bag with its RNG
+ */
+export function getPrivateState(state: GameState): PrivateGameState {
+    const racks: Record<number, Tile[]> = {};
+    for (const player of state.players) {
+        racks[player.id] = JSON.parse(JSON.stringify(player.rack));
+    }
+    return {
+        racks,
+        bag: {
+            tiles: JSON.parse(JSON.stringify(state.tileBag)),
+            ...(state.seed !== undefined && { seed: state.seed }),
+            ...(state.rngState !== undefined && { rngState: state.rngState })
+        }
+    };
+}
+
+/**
+ * State as seen by one player: public state plus their own rack
+ */
+export function toPlayerView(state: GameState, playerId: number): GameState {
+    const view = toPublicState(state);
+    const own = state.players.find(p => p.id === playerId);
+    return mergePrivateState(view, playerId, own?.rack ?? []);
+}
+
+/**
+ * Rebuild a player's view from the public state and their rack
+ * Only trusted code holds the bag, so clients never pass one
+ */
+export function mergePrivateState(
+    publicState: GameState,
+    playerId: number,
+    rack: Tile[],
+    bag?: PrivateGameState['bag']
+): GameState {
+    const view: GameState = JSON.parse(JSON.stringify(publicState));
+    const player = view.players.find(p => p.id === playerId);
+    if (player) {
+        // The rack itself is known, so its count must not go stale as tiles are played
+        player.rack = JSON.parse(JSON.stringify(rack));
+        delete player.rackCount;
+    }
+    if (bag) {
+        view.tileBag = JSON.parse(JSON.stringify(bag.tiles));
+        delete view.bagCount;
+        if (bag.seed !== undefined) view.seed = bag.seed;
+        if (bag.rngState !== undefined) view.rngState = bag.rngState;
+    }
+    return view;
+}
+
+/**
+ * Rebuild the full state from the public state and every hidden part (trusted code only)
+ */
+export function mergeHiddenState(publicState: GameState, secrets: PrivateGameState): GameState {
+    const state: GameState = JSON.parse(JSON.stringify(publicState));
+    for (const player of state.players) {
+        player.rack = JSON.parse(JSON.stringify(secrets.racks[player.id] ?? []));
+        delete player.rackCount;
+    }
+    state.tileBag = JSON.parse(JSON.stringify(secrets.bag.tiles));
+    delete state.bagCount;
+    if (secrets.bag.seed !== undefined) state.seed = secrets.bag.seed;
+    if (secrets.bag.rngState !== undefined) state.rngState = secrets.bag.rngState;
+    return state;
+}
@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) 2024 Amuse Labs Pvt Ltd
+ * Grabble - Scrabble with Gravity
+ * Game fixtures shared by the unit tests
+ */
+
+import type { GameOptions, GameState, Position } from './types';
+import { GameStateManager } from './game-state-manager';
+import { getLanguagePack } from './language-packs';
+
+/**
+ * Load a copy of a game where every player holds the given rack (one tile per letter)
+ * The history starts from this position, so undo, replays and analysis see the known racks
+ */
+export function loadWithRack(state: GameState, letters: string): GameStateManager {
+    const { distribution } = getLanguagePack(state.language);
+    const position: GameState = JSON.parse(JSON.stringify(state));
+    for (const player of position.players) {
+        player.rack = letters.split('').map(letter => ({ letter, points: distribution[letter].points }));
+    }
+    delete position.history;
+    delete position.historyBase;
+    return GameStateManager.loadGame(position);
+}
+
+/**
+ * A seeded two-player game where both players hold the given rack
+ */
+export function createGameWithRack(letters: string, options: GameOptions = {}): GameStateManager {
+    const dealt = GameStateManager.createNewGame(2, ['Ann', 'Ben'], 100, { seed: 3, ...options });
+    return loadWithRack(dealt.getState(), letters);
+}
+
+/**
+ * The current player drops the first tiles of their rack along the bottom row, claims them as one word and ends the turn
+ */
+export async function playBottomRow(
+    manager: GameStateManager,
+    dictionary: Set<string>,
+    tileCount = 3
+): Promise<{ playerId: number; positions: Position[]; score: number }> {
+    const engine = manager.getEngine();
+    const playerId = manager.getState().currentPlayerId;
+    const columns = Array.from({ length: tileCount }, (_, column) => column);
+
+    const tiles = engine.removeTilesFromRack(playerId, columns);
+    tiles.forEach((tile, column) => engine.placeTiles([{ column, tile }], playerId));
+    const positions = columns.map(x => ({ x, y: manager.getBoardSize().height - 1 }));
+    const result = await engine.processWordClaims([{ positions, playerId }], engine.getTurnPlacements(), dictionary);
+    if (!result.valid) {
+        throw new Error('Bottom row word was rejected');
+    }
+    engine.advanceTurn();
+    return { playerId, positions, score: result.totalScore };
+}
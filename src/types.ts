@@ -8,7 +8,7 @@
  * Standard Scrabble tile with letter and point value
  */
 export interface Tile {
-    letter: string;  // Single letter (or blank)
+    letter: string;  // Tile letter (or blank); may be multi-character, e.g. 'CH' in Spanish
     points: number;  // Point value (0-10)
     playerId?: number; // Which player placed this tile (for visual ownership)
     blankLetter?: string; // Letter assigned to blank tile (if letter === ' ')
@@ -17,18 +17,139 @@ export interface Tile {
 }
 
 /**
- * Position on the 7x7 board
+ * Default board dimensions (classic 7x7 grid)
+ */
+export const DEFAULT_BOARD_WIDTH = 7;
+export const DEFAULT_BOARD_HEIGHT = 7;
+
+/**
+ * Board sizes offered when setting up a game
+ */
+export const BOARD_SIZE_OPTIONS = [5, 7, 9] as const;
+
+/**
+ * Time controls offered when creating a room (0 = off)
+ */
+export const TURN_LIMIT_OPTIONS_MS = [0, 30000, 60000, 120000] as const;
+export const CHESS_CLOCK_OPTIONS_MS = [0, 300000, 600000, 1200000] as const;
+
+/**
+ * Hint penalty defaults (see hint-architecture.md)
+ */
+export const DEFAULT_HINT_PENALTY_MULTIPLIER = 0.5;
+export const DEFAULT_HINT_COOLDOWN_MS = 30000; // Applied in multiplayer rooms
+
+/**
+ * Word bonuses that can be switched on or off as house rules
+ */
+export type BonusType = 'diagonal' | 'palindrome' | 'emordnilap';
+
+/**
+ * A single bonus rule: whether it applies and its score multiplier
+ */
+export interface BonusRule {
+    enabled: boolean;
+    multiplier: number;
+}
+
+/**
+ * Scoring and word rules chosen when setting up a game (see house-rules.ts)
+ */
+export interface HouseRules {
+    bonuses: Record<BonusType, BonusRule>;
+    minWordLength: number;      // Fewest tiles in a claimable word
+    stackBonuses: boolean;      // Multiply bonuses together (otherwise only the largest applies)
+    cascade: boolean;           // Claimed words vanish and the tiles above fall (see cascade.ts)
+}
+
+export const DEFAULT_MIN_WORD_LENGTH = 3;
+
+/**
+ * Classic rules: ×2 diagonal, palindrome and emordnilap bonuses that stack, words of 3+ tiles
+ */
+export const DEFAULT_HOUSE_RULES: HouseRules = {
+    bonuses: {
+        diagonal: { enabled: true, multiplier: 2 },
+        palindrome: { enabled: true, multiplier: 2 },
+        emordnilap: { enabled: true, multiplier: 2 }
+    },
+    minWordLength: DEFAULT_MIN_WORD_LENGTH,
+    stackBonuses: true,
+    cascade: false
+};
+
+/**
+ * Endgame: the game ends in a stalemate once every player has passed this many
+ * times in a row with an empty bag (a turn without a claimed word counts as a pass)
+ */
+export const DEFAULT_STALEMATE_ROUNDS = 2;
+
+/**
+ * Why a game ended
+ * - target_score: a player reached the target score
+ * - out_of_tiles: the bag is empty and a player used their last tile
+ * - stalemate: the bag is empty and every player kept passing
+ * - forfeit: every other player ran out of time on their chess clock
+ */
+export type GameEndReason = 'target_score' | 'out_of_tiles' | 'stalemate' | 'forfeit';
+
+/**
+ * Time limits, chosen when the game is created (both are optional and can be combined)
+ * - turnLimitMs: a player who runs out of turn time passes
+ * - clockMs: chess clock, each player's total time for the game; running out forfeits
+ */
+export interface TimeControl {
+    turnLimitMs?: number;
+    clockMs?: number;
+}
+
+/**
+ * A player's final placing
+ */
+export interface Standing {
+    playerId: number;
+    name: string;
+    score: number;          // Final score (after the rack penalty)
+    rackPenalty: number;    // Points of leftover rack tiles subtracted at the end
+    rank: number;           // 1 = winner; tied scores share a rank
+}
+
+/**
+ * Final result of a finished game
+ */
+export interface GameResult {
+    reason: GameEndReason;
+    standings: Standing[];  // Best first
+}
+
+/**
+ * Hint levels, from "moves possible?" (0) to full solution (4)
+ */
+export type HintLevel = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Hint usage for the current turn (used for scoring penalties)
+ */
+export interface HintUsage {
+    playerId: number;        // Player who requested the hint
+    levelUsed: HintLevel;    // Highest hint level revealed this turn
+    tilesAffected: number[]; // Rack indices that were hinted
+    timestamp: number;       // Time of the latest hint request (ms)
+}
+
+/**
+ * Position on the board
  */
 export interface Position {
-    x: number; // Column (0-6)
-    y: number; // Row (0-6)
+    x: number; // Column (0 to boardWidth - 1)
+    y: number; // Row (0 to boardHeight - 1)
 }
 
 /**
  * Tile placement - tile dropped into a column
  */
 export interface TilePlacement {
-    column: number;  // Column index (0-6)
+    column: number;  // Column index (0 to boardWidth - 1)
     tile: Tile;     // Tile being placed
 }
 
@@ -49,6 +170,60 @@ export interface ClaimedWord {
     playerId: number;       // Who claimed it
     score: number;          // Points scored
     bonuses: string[];      // Applied bonuses (e.g., ['diagonal', 'palindrome'])
+    challenge?: ChallengeRecord; // Challenge mode only
+    combo?: number;         // Cascade only: combo multiplier of a word formed by falling tiles
+}
+
+/**
+ * A tile that dropped when the tiles below it were cleared
+ */
+export interface TileFall {
+    from: Position;
+    to: Position;
+}
+
+/**
+ * One link of a cascade: tiles cleared, the tiles above falling, and the words the fall formed
+ * The words of a step are cleared by the next step; the last step forms no words
+ */
+export interface CascadeStep {
+    cleared: Position[];
+    falls: TileFall[];
+    words: ClaimedWord[];   // Scored with the step's combo multiplier
+    multiplier: number;
+}
+
+/**
+ * Challenge mode: words are accepted without a dictionary check and opponents
+ * may challenge them until the window closes or the next player acts
+ */
+export const DEFAULT_CHALLENGE_WINDOW_MS = 15000;
+export const DEFAULT_CHALLENGE_PENALTY = 10;  // Points lost by a challenger whose challenge fails
+
+/**
+ * State of a provisionally accepted word
+ * - pending: can still be challenged
+ * - unchallenged: the window closed without a challenge
+ * - upheld: challenged, but every word of the play was valid
+ * - withdrawn: challenged successfully; the play was taken back and scores nothing
+ */
+export type ChallengeStatus = 'pending' | 'unchallenged' | 'upheld' | 'withdrawn';
+
+export interface ChallengeRecord {
+    status: ChallengeStatus;
+    challengerId?: number;  // Who challenged (upheld/withdrawn)
+    penalty?: number;       // Points the challenger lost (upheld)
+}
+
+/**
+ * The last play, open to challenge
+ */
+export interface PendingChallenge {
+    playerId: number;       // Who made the play
+    wordCount: number;      // Number of words it claimed (the last entries of claimedWords)
+    tiles: Position[];      // Tiles placed in the play
+    drawn: number;          // Tiles drawn from the bag after the play
+    claimedAt: number;      // When the window opened (ms timestamp)
 }
 
 /**
@@ -59,31 +234,207 @@ export interface Player {
     name: string;          // Player name
     color: string;         // Visual color (hex code)
     score: number;         // Current score
-    rack: Tile[];          // Current tiles (max 7)
+    rack: Tile[];          // Current tiles (max 7, empty when hidden from this client)
+    rackCount?: number;    // Number of tiles in the rack (set in public multiplayer state)
     turnOrder: number;     // Turn order (0 = first, 1 = second, etc.)
+    isBot?: boolean;       // Computer-controlled player (local games)
+    forfeited?: boolean;   // Out of the game (chess clock ran out); their turns are skipped
+    botDifficulty?: BotDifficulty; // Bot strength when isBot is set
 }
 
+/**
+ * Computer opponent strength
+ */
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
 /**
  * Game state
  */
 export interface GameState {
-    board: (Tile | null)[][];  // 7x7 board (null = empty)
+    board: (Tile | null)[][];  // boardHeight x boardWidth board (null = empty)
+    boardWidth?: number;        // Number of columns (default 7)
+    boardHeight?: number;       // Number of rows (default 7)
     players: Player[];          // All players
     currentPlayerId: number;    // ID of player whose turn it is
-    tileBag: Tile[];            // Remaining tiles
+    tileBag: Tile[];            // Remaining tiles (empty when hidden from this client)
+    bagCount?: number;          // Number of tiles left in the bag (set in public multiplayer state)
     claimedWords: ClaimedWord[]; // Words already claimed
     targetScore: number;        // Win condition (default 100)
     gameStatus: 'waiting' | 'playing' | 'finished';
     winnerId?: number;           // Winner ID if game finished
+    result?: GameResult;         // Final standings once finished
+    consecutivePasses?: number;  // Turns in a row that ended without a claimed word
+    turnScored?: boolean;        // Whether a word was claimed in the current turn
+    stalemateRounds?: number;    // Passes per player (with an empty bag) that end the game (default 2)
     hintsEnabled?: boolean;      // Whether hints are allowed in this game
     gameMode?: 'normal' | 'solo'; // Game mode (normal = multiplayer/local vs, solo = endless)
     zenMode?: boolean;           // Hide score display in solo mode
+    startingTiles?: number;      // Tiles dropped from the bag onto the board when the game was dealt
+    dailyPuzzle?: DailyPuzzleInfo; // Set on daily puzzle games (solo mode)
+    puzzle?: PuzzleInfo;         // Set on puzzle pack games (solo mode, a single move)
+    language?: string;           // Language pack ID (default 'en')
+    houseRules?: HouseRules;     // Scoring and word rules (DEFAULT_HOUSE_RULES if omitted)
+    seed?: number;               // Seed the game was created with (for reproducing games)
+    fixedSeed?: boolean;         // The seed was chosen by the player rather than drawn at random
+    rngState?: number;           // Current seeded RNG state, advanced by every shuffle
+    hintUsage?: HintUsage;       // Hint used by the current player this turn
+    hintPenaltyMultiplier?: number; // Score multiplier for hinted words (default 0.5)
+    hintCooldownMs?: number;     // Minimum time between hint requests per player (0 = none)
+    lastHintAt?: Record<number, number>; // Per-player timestamp of the last hint request
+    challengeMode?: boolean;     // Accept words provisionally and let opponents challenge them
+    challengeWindowMs?: number;  // How long a play can be challenged (default 15s)
+    challengePenalty?: number;   // Points lost for a failed challenge (default 10)
+    pendingChallenge?: PendingChallenge; // Last play, while it can still be challenged
+    timeControl?: TimeControl;   // Turn timer and/or chess clock
+    turnStartedAt?: number;      // When the current turn began (ms timestamp, shared clock in multiplayer)
+    clocks?: Record<number, number>; // Chess clock time left per player at the start of the current turn (ms)
+    history?: GameAction[];      // Ordered log of every action applied to this game
+    historyBase?: GameState;     // Snapshot the history is replayed from
+}
+
+/**
+ * Parts of a multiplayer game that only some clients may see (see state-visibility.ts)
+ * Each rack is readable by its owner; the bag is only ever seen by trusted code (the server or Cloud Functions)
+ */
+export interface PrivateGameState {
+    racks: Record<number, Tile[]>;  // Player ID -> rack
+    bag: {
+        tiles: Tile[];
+        seed?: number;       // Hidden too: the seed and RNG state would reveal the bag order
+        rngState?: number;
+    };
+}
+
+/**
+ * A single recorded engine action (see GrabbleEngine history APIs)
+ * 'advance_turn', 'clear_board' and 'finish' close a turn
+ */
+export type GameAction =
+    | { type: 'place'; playerId: number; placements: TilePlacement[]; positions: Position[] }
+    | { type: 'remove'; position: Position; tile: Tile }
+    | { type: 'set_blank'; playerId: number; position: Position; letter: string }
+    | { type: 'rack_remove'; playerId: number; indices: number[]; tiles: Tile[] }
+    | { type: 'rack_return'; playerId: number; tile: Tile }
+    | { type: 'claim'; playerId: number; words: ClaimedWord[]; score: number; challenge?: PendingChallenge }
+    | { type: 'cascade'; playerId: number; steps: CascadeStep[] }
+    | { type: 'draw'; playerId: number; tiles: Tile[] }
+    | { type: 'swap'; playerId: number; tileIndices: number[]; returned: Tile[]; drawn: Tile[] }
+    | { type: 'hint'; playerId: number; level: HintLevel; tilesAffected: number[]; timestamp: number }
+    | { type: 'pass'; playerId: number }
+    | { type: 'challenge'; challengerId: number; successful: boolean; timestamp: number }
+    | { type: 'advance_turn'; playerId: number; nextPlayerId: number; at?: number }
+    | { type: 'timeout'; playerId: number; forfeit: boolean; returned: Position[]; at: number }
+    | { type: 'clear_board' }
+    | { type: 'finish'; winnerId: number; reason?: GameEndReason }
+    | { type: 'resume'; targetScore: number };
+
+/**
+ * Action types that end a turn in the history log
+ */
+export const TURN_END_ACTIONS: ReadonlyArray<GameAction['type']> = ['advance_turn', 'clear_board', 'finish'];
+
+/**
+ * A move requested by a player, applied with applyAction (see game-actions.ts)
+ * Tile indices refer to the player's rack at the time the action is applied
+ */
+export type PlayerAction =
+    | { type: 'PlaceTiles'; playerId: number; placements: Array<{ column: number; tileIndex: number }> }
+    | { type: 'RemoveTile'; playerId: number; position: Position }
+    | { type: 'SetBlank'; playerId: number; position: Position; letter: string }
+    | { type: 'ClaimWords'; playerId: number; claims: Array<{ positions: Position[] }> }
+    | { type: 'Swap'; playerId: number; tileIndices: number[] }
+    | { type: 'Pass'; playerId: number }
+    | { type: 'Challenge'; playerId: number }
+    | { type: 'Timeout'; playerId?: number }
+    | { type: 'ClearBoard'; playerId?: number };
+
+/**
+ * Something that happened while applying a PlayerAction
+ * Names match the server-to-client events so they can be broadcast directly
+ */
+export type GameEvent =
+    | { type: 'tiles_placed'; playerId: number; positions: Position[] }
+    | { type: 'tile_removed'; playerId: number; position: Position; tile: Tile }
+    | { type: 'blank_letter_set'; playerId: number; position: Position; letter: string }
+    | { type: 'words_claimed'; playerId: number; words: ClaimedWord[]; score: number }
+    | { type: 'words_cascaded'; playerId: number; steps: CascadeStep[]; score: number }
+    | { type: 'rack_refilled'; playerId: number; count: number }
+    | { type: 'tiles_swapped'; playerId: number; count: number }
+    | { type: 'turn_passed'; playerId: number }
+    | { type: 'turn_timed_out'; playerId: number; forfeited: boolean }
+    | { type: 'challenge_resolved'; challengerId: number; playerId: number; successful: boolean; words: ClaimedWord[] }
+    | { type: 'turn_changed'; currentPlayerId: number }
+    | { type: 'board_cleared' }
+    | { type: 'game_ended'; winnerId: number };
+
+/**
+ * Optional settings used when creating a new game
+ */
+export interface GameOptions {
+    boardWidth?: number;   // Number of columns (default 7)
+    boardHeight?: number;  // Number of rows (default 7)
+    seed?: number;         // RNG seed (random if omitted)
+    language?: string;     // Language pack ID (default 'en')
+    houseRules?: HouseRules; // Scoring and word rules (default DEFAULT_HOUSE_RULES)
+    hintPenaltyMultiplier?: number; // Score multiplier for hinted words (default 0.5)
+    hintCooldownMs?: number;        // Minimum time between hints per player (default 0)
+    hintsEnabled?: boolean;         // Whether hints are allowed (default on)
+    challengeMode?: boolean;        // Challenge mode instead of instant dictionary rejection (default off)
+    challengeWindowMs?: number;     // How long a play can be challenged (default 15s)
+    challengePenalty?: number;      // Points lost for a failed challenge (default 10)
+    timeControl?: TimeControl;      // Turn timer and/or chess clock (default none)
+    gameMode?: 'normal' | 'solo';   // Solo endless or a game against others (default normal)
+    stalemateRounds?: number;       // Passes per player that end a game with an empty bag (default 2)
+    bots?: Array<BotDifficulty | null>; // Per-player bot difficulty (null = human)
+    startingTiles?: number;         // Tiles dropped from the bag onto the board before play (default 0)
+    dailyPuzzle?: DailyPuzzleInfo;  // Marks a daily puzzle game
+}
+
+/**
+ * Daily puzzle: which day's puzzle a game is, and how many turns it lasts
+ */
+export interface DailyPuzzleInfo {
+    id: string;      // Day ID, e.g. "2024-02-14" (UTC)
+    turns: number;
+}
+
+/**
+ * What the move of a puzzle has to achieve
+ */
+export type PuzzleGoal =
+    | { type: 'score'; min: number }   // Score at least min points
+    | { type: 'palindrome' }           // Claim a palindrome
+    | { type: 'diagonal' };            // Claim a diagonal word
+
+/**
+ * Puzzle pack game: which puzzle a game is, and its goal
+ */
+export interface PuzzleInfo {
+    packId: string;
+    puzzleId: string;
+    goal: PuzzleGoal;
+}
+
+/**
+ * Letter distribution: tile letter -> number of tiles and points
+ */
+export type LetterDistribution = Record<string, { count: number; points: number }>;
+
+/**
+ * Language pack: tiles, alphabet and word list for one language (see language-packs.ts)
+ */
+export interface LanguagePack {
+    id: string;                 // Stored on GameState/Room (e.g. 'en', 'es')
+    name: string;               // Display name in its own language
+    alphabet: string[];         // Tile letters, including multi-character tiles like 'CH'
+    distribution: LetterDistribution;
+    dictionaryFile: string;     // Word list path under public/
 }
 
 /**
  * Standard Scrabble letter distribution
  */
-export const STANDARD_SCRABBLE_DISTRIBUTION: Record<string, { count: number; points: number }> = {
+export const STANDARD_SCRABBLE_DISTRIBUTION: LetterDistribution = {
     'A': { count: 9, points: 1 },
     'B': { count: 2, points: 3 },
     'C': { count: 2, points: 3 },
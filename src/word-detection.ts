@@ -5,6 +5,7 @@
  */
 
 import type { Position, Tile } from './types';
+import { DEFAULT_MIN_WORD_LENGTH } from './types';
 
 /**
  * Direction vectors for word detection
@@ -25,7 +26,8 @@ export function findWordsInDirection(
     startX: number,
     startY: number,
     dx: number,
-    dy: number
+    dy: number,
+    minLength: number = DEFAULT_MIN_WORD_LENGTH
 ): Position[][] {
     const words: Position[][] = [];
     const rows = board.length;
@@ -52,7 +54,7 @@ export function findWordsInDirection(
     while (x >= 0 && x < cols && y >= 0 && y < rows) {
         if (board[y][x] === null) {
             // Hit empty cell - if we have a word, save it
-            if (currentWord.length >= 3) {
+            if (currentWord.length >= minLength) {
                 words.push([...currentWord]);
             }
             currentWord = [];
@@ -64,7 +66,7 @@ export function findWordsInDirection(
     }
     
     // Don't forget the word at the end if we hit the board edge
-    if (currentWord.length >= 3) {
+    if (currentWord.length >= minLength) {
         words.push([...currentWord]);
     }
     
@@ -75,7 +77,7 @@ export function findWordsInDirection(
  * Find all words on the board (horizontal, vertical, diagonal)
  * Returns array of word positions
  */
-export function findAllWords(board: (Tile | null)[][]): Position[][] {
+export function findAllWords(board: (Tile | null)[][], minLength: number = DEFAULT_MIN_WORD_LENGTH): Position[][] {
     const words: Position[][] = [];
     const rows = board.length;
     const cols = board[0]?.length || 0;
@@ -88,7 +90,7 @@ export function findAllWords(board: (Tile | null)[][]): Position[][] {
 
             // Check each direction
             for (const { dx, dy } of DIRECTIONS) {
-                const foundWords = findWordsInDirection(board, x, y, dx, dy);
+                const foundWords = findWordsInDirection(board, x, y, dx, dy, minLength);
                 
                 for (const wordPositions of foundWords) {
                     // Create a unique key for this word (normalize by sorting positions)
@@ -192,8 +194,8 @@ export function extractWordFromPositions(
 /**
  * Check if positions form a valid straight line (horizontal, vertical, or diagonal)
  */
-export function isValidWordLine(positions: Position[]): boolean {
-    if (positions.length < 3) {
+export function isValidWordLine(positions: Position[], minLength: number = DEFAULT_MIN_WORD_LENGTH): boolean {
+    if (positions.length < minLength) {
         return false;
     }
 